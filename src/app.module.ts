@@ -1,10 +1,25 @@
-import { Module } from '@nestjs/common';
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
 import { APP_FILTER } from '@nestjs/core';
 import { SentryGlobalFilter, SentryModule } from '@sentry/nestjs/setup';
 import { ConfigModule } from './config/config.module';
 import { ObservabilityModule } from './observability/observability.module';
 import { DatabaseModule } from './database/database.module';
 import { AuthModule } from './auth/auth.module';
+import { ContactsModule } from './contacts/contacts.module';
+import { InteractionsModule } from './interactions/interactions.module';
+import { SyncModule } from './sync/sync.module';
+import { ImportsModule } from './imports/imports.module';
+import { IdentityModule } from './identity/identity.module';
+import { ScoringModule } from './scoring/scoring.module';
+import { GraphModule } from './graph/graph.module';
+import { SearchModule } from './search/search.module';
+import { JobsModule } from './jobs/jobs.module';
+import { RateLimitModule } from './rate-limit/rate-limit.module';
+import { MailModule } from './mail/mail.module';
+import { TenantsModule } from './tenants/tenants.module';
+import { AuditModule } from './audit/audit.module';
+import { HealthModule } from './health/health.module';
+import { RequestIdMiddleware } from './common/middleware/request-id.middleware';
 
 @Module({
   imports: [
@@ -12,7 +27,21 @@ import { AuthModule } from './auth/auth.module';
     ConfigModule,
     ObservabilityModule,
     DatabaseModule,
+    RateLimitModule,
+    MailModule,
     AuthModule,
+    TenantsModule,
+    AuditModule,
+    ContactsModule,
+    InteractionsModule,
+    SyncModule,
+    ImportsModule,
+    IdentityModule,
+    ScoringModule,
+    GraphModule,
+    SearchModule,
+    JobsModule,
+    HealthModule,
   ],
   controllers: [],
   providers: [
@@ -22,4 +51,8 @@ import { AuthModule } from './auth/auth.module';
     },
   ],
 })
-export class AppModule { }
+export class AppModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(RequestIdMiddleware).forRoutes('*');
+  }
+}
@@ -0,0 +1,39 @@
+import type { AuditEvent } from './audit.types';
+
+interface CsvColumn {
+  header: string;
+  value: (event: AuditEvent) => string;
+}
+
+const CSV_COLUMNS: CsvColumn[] = [
+  { header: 'created_at', value: (event) => event.createdAt },
+  { header: 'action', value: (event) => event.action },
+  { header: 'outcome', value: (event) => event.outcome },
+  { header: 'actor_id', value: (event) => event.actorId ?? '' },
+  { header: 'actor_email', value: (event) => event.actorEmail ?? '' },
+  { header: 'tenant_id', value: (event) => event.tenantId ?? '' },
+  { header: 'ip_address', value: (event) => event.ipAddress ?? '' },
+  { header: 'user_agent', value: (event) => event.userAgent ?? '' },
+  { header: 'request_id', value: (event) => event.requestId ?? '' },
+  { header: 'metadata', value: (event) => JSON.stringify(event.metadata) },
+  { header: 'id', value: (event) => event.id },
+];
+
+/**
+ * Quote a CSV cell. Cells that a spreadsheet would read as a formula get a
+ * leading apostrophe, since user agents and emails come from the caller.
+ */
+function csvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toAuditCsv(events: AuditEvent[]): string {
+  const lines = [
+    CSV_COLUMNS.map((column) => column.header).join(','),
+    ...events.map((event) =>
+      CSV_COLUMNS.map((column) => csvCell(column.value(event))).join(','),
+    ),
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
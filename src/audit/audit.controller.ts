@@ -0,0 +1,85 @@
+import {
+  Controller,
+  Get,
+  HttpStatus,
+  Query,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import type { FastifyReply } from 'fastify';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthGuard } from '../common/guards/auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { RequirePermission } from '../common/decorators/roles.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../common/decorators/current-user.decorator';
+import { Permissions } from '../tenants/permissions';
+import { AuditService } from './audit.service';
+import { toAuditCsv } from './audit-export';
+import {
+  ExportAuditEventsQueryDto,
+  ListAuditEventsQueryDto,
+} from './dto/audit.dto';
+
+@ApiTags('Audit')
+@Controller('audit-events')
+@UseGuards(AuthGuard, RolesGuard)
+@RequirePermission(Permissions.AUDIT_READ)
+@ApiBearerAuth()
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  @ApiOperation({ summary: "List the active workspace's audit events" })
+  async listEvents(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: ListAuditEventsQueryDto,
+  ) {
+    const { events, total } = await this.auditService.list(user.tenantId, {
+      action: query.action,
+      outcome: query.outcome,
+      actorId: query.actorId,
+      from: query.from,
+      to: query.to,
+      limit: query.limit,
+      offset: query.offset,
+    });
+
+    return {
+      statusCode: HttpStatus.OK,
+      data: { events, total, limit: query.limit, offset: query.offset },
+    };
+  }
+
+  @Get('export')
+  @ApiOperation({ summary: 'Download audit events as CSV or JSON' })
+  async exportEvents(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: ExportAuditEventsQueryDto,
+    @Res({ passthrough: true }) reply: FastifyReply,
+  ) {
+    const { events, truncated } = await this.auditService.export(
+      user.tenantId,
+      {
+        action: query.action,
+        outcome: query.outcome,
+        actorId: query.actorId,
+        from: query.from,
+        to: query.to,
+      },
+    );
+
+    const filename = `audit-events-${new Date().toISOString().slice(0, 10)}.${query.format}`;
+    reply
+      .header(
+        'Content-Type',
+        query.format === 'csv'
+          ? 'text/csv; charset=utf-8'
+          : 'application/json; charset=utf-8',
+      )
+      .header('Content-Disposition', `attachment; filename="${filename}"`)
+      .header('X-Export-Truncated', String(truncated));
+
+    return query.format === 'csv' ? toAuditCsv(events) : JSON.stringify(events);
+  }
+}
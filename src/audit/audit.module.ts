@@ -0,0 +1,16 @@
+import { Global, Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { AuditController } from './audit.controller';
+import { AuditService } from './audit.service';
+
+/**
+ * Global so any module can record events without importing this one.
+ */
+@Global()
+@Module({
+  imports: [AuthModule],
+  controllers: [AuditController],
+  providers: [AuditService],
+  exports: [AuditService],
+})
+export class AuditModule {}
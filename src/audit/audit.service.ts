@@ -0,0 +1,194 @@
+import { Injectable } from '@nestjs/common';
+import { SupabaseService } from '../database/supabase.service';
+import { LoggerService } from '../observability/logger.service';
+import { currentRequestId } from '../observability/request-context';
+import type {
+  AuditAction,
+  AuditEvent,
+  AuditEventFilters,
+  AuditEventInput,
+  AuditOutcome,
+} from './audit.types';
+
+interface AuditEventRow {
+  id: string;
+  tenant_id: string | null;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: AuditAction;
+  outcome: AuditOutcome;
+  ip_address: string | null;
+  user_agent: string | null;
+  request_id: string | null;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface ListAuditEventsOptions extends AuditEventFilters {
+  limit: number;
+  offset: number;
+}
+
+const AUDIT_EVENT_COLUMNS =
+  'id, tenant_id, actor_id, actor_email, action, outcome, ip_address, user_agent, request_id, metadata, created_at';
+const USER_AGENT_MAX_LENGTH = 512;
+/** Most events one export returns; narrow the date range for more. */
+export const AUDIT_EXPORT_LIMIT = 10000;
+/** Rows per request while exporting, within PostgREST's default cap. */
+const EXPORT_PAGE_SIZE = 1000;
+
+/**
+ * Append-only trail of security-relevant events, readable by workspace
+ * admins. Recording is best effort: a sign-in must not fail because its
+ * audit row could not be written, so write errors are logged and
+ * swallowed.
+ */
+@Injectable()
+export class AuditService {
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  async record(event: AuditEventInput): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .getClient()
+        .from('audit_events')
+        .insert({
+          tenant_id: event.tenantId ?? null,
+          actor_id: event.actorId ?? null,
+          actor_email: event.actorEmail?.trim().toLowerCase() || null,
+          action: event.action,
+          outcome: event.outcome,
+          ip_address: event.client?.ipAddress ?? null,
+          user_agent:
+            event.client?.userAgent?.slice(0, USER_AGENT_MAX_LENGTH) ?? null,
+          request_id: currentRequestId() ?? null,
+          metadata: event.metadata ?? {},
+        });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+    } catch (error) {
+      this.logger.error('Failed to record audit event', {
+        action: event.action,
+        outcome: event.outcome,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * The workspace's events, newest first: its own, plus the account events
+   * (sign-ins, logouts) of its current members since they joined
+   */
+  async list(
+    tenantId: string,
+    options: ListAuditEventsOptions,
+  ): Promise<{ events: AuditEvent[]; total: number }> {
+    const { data, error, count } = await this.query(
+      tenantId,
+      options,
+      true,
+    ).range(options.offset, options.offset + options.limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to list audit events: ${error.message}`);
+    }
+    return {
+      events: ((data ?? []) as AuditEventRow[]).map(toAuditEvent),
+      total: count ?? 0,
+    };
+  }
+
+  /**
+   * Every matching event, newest first, up to `AUDIT_EXPORT_LIMIT`
+   */
+  async export(
+    tenantId: string,
+    filters: AuditEventFilters,
+  ): Promise<{ events: AuditEvent[]; truncated: boolean }> {
+    // Pin the window so events recorded mid-export don't shift the pages
+    const window = { ...filters, to: filters.to ?? new Date().toISOString() };
+    const events: AuditEvent[] = [];
+
+    for (
+      let offset = 0;
+      offset < AUDIT_EXPORT_LIMIT;
+      offset += EXPORT_PAGE_SIZE
+    ) {
+      const { data, error } = await this.query(tenantId, window, false).range(
+        offset,
+        offset + EXPORT_PAGE_SIZE - 1,
+      );
+
+      if (error) {
+        throw new Error(`Failed to export audit events: ${error.message}`);
+      }
+      const rows = (data ?? []) as AuditEventRow[];
+      events.push(...rows.map(toAuditEvent));
+      if (rows.length < EXPORT_PAGE_SIZE) {
+        return { events, truncated: false };
+      }
+    }
+    return { events, truncated: true };
+  }
+
+  /**
+   * The events a workspace can see, scoped in the database by
+   * `workspace_audit_events`: its own, and the account events of each
+   * current member from when they joined
+   */
+  private query(
+    tenantId: string,
+    filters: AuditEventFilters,
+    withCount: boolean,
+  ) {
+    let query = this.supabase
+      .getClient()
+      .rpc(
+        'workspace_audit_events',
+        { p_tenant_id: tenantId },
+        withCount ? { count: 'exact' } : undefined,
+      )
+      .select(AUDIT_EVENT_COLUMNS);
+
+    if (filters.action) {
+      query = query.eq('action', filters.action);
+    }
+    if (filters.outcome) {
+      query = query.eq('outcome', filters.outcome);
+    }
+    if (filters.actorId) {
+      query = query.eq('actor_id', filters.actorId);
+    }
+    if (filters.from) {
+      query = query.gte('created_at', filters.from);
+    }
+    if (filters.to) {
+      query = query.lt('created_at', filters.to);
+    }
+
+    return query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false });
+  }
+}
+
+function toAuditEvent(row: AuditEventRow): AuditEvent {
+  return {
+    id: row.id,
+    tenantId: row.tenant_id,
+    actorId: row.actor_id,
+    actorEmail: row.actor_email,
+    action: row.action,
+    outcome: row.outcome,
+    ipAddress: row.ip_address,
+    userAgent: row.user_agent,
+    requestId: row.request_id,
+    metadata: row.metadata ?? {},
+    createdAt: row.created_at,
+  };
+}
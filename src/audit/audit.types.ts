@@ -0,0 +1,54 @@
+export const AuditActions = {
+  OTP_SENT: 'auth.otp.send',
+  OTP_VERIFIED: 'auth.otp.verify',
+  SESSION_EXCHANGED: 'auth.session.exchange',
+  LOGOUT: 'auth.logout',
+  REFRESH_TOKEN_REUSED: 'auth.refresh_token.reuse',
+  GOOGLE_CONNECTED: 'google.connect',
+  GOOGLE_DISCONNECTED: 'google.disconnect',
+  GOOGLE_TOKEN_REFRESH: 'google.token_refresh',
+} as const;
+
+export type AuditAction = (typeof AuditActions)[keyof typeof AuditActions];
+
+export const AUDIT_OUTCOMES = ['success', 'failure'] as const;
+export type AuditOutcome = (typeof AUDIT_OUTCOMES)[number];
+
+/** Where a request came from; empty for background work. */
+export interface AuditClient {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface AuditEventInput {
+  action: AuditAction;
+  outcome: AuditOutcome;
+  /** Omit for account events, which belong to no one workspace. */
+  tenantId?: string | null;
+  actorId?: string | null;
+  actorEmail?: string | null;
+  client?: AuditClient;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditEvent {
+  id: string;
+  tenantId: string | null;
+  actorId: string | null;
+  actorEmail: string | null;
+  action: AuditAction;
+  outcome: AuditOutcome;
+  ipAddress: string | null;
+  userAgent: string | null;
+  requestId: string | null;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface AuditEventFilters {
+  action?: AuditAction;
+  outcome?: AuditOutcome;
+  actorId?: string;
+  from?: string;
+  to?: string;
+}
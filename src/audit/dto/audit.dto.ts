@@ -0,0 +1,75 @@
+import { Type } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsISO8601,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { AUDIT_OUTCOMES, AuditActions } from '../audit.types';
+import type { AuditAction, AuditOutcome } from '../audit.types';
+
+export const AUDIT_EXPORT_FORMATS = ['csv', 'json'] as const;
+export type AuditExportFormat = (typeof AUDIT_EXPORT_FORMATS)[number];
+
+export class AuditEventFiltersDto {
+  @ApiPropertyOptional({ enum: Object.values(AuditActions) })
+  @IsIn(Object.values(AuditActions))
+  @IsOptional()
+  action?: AuditAction;
+
+  @ApiPropertyOptional({ enum: AUDIT_OUTCOMES })
+  @IsIn(AUDIT_OUTCOMES)
+  @IsOptional()
+  outcome?: AuditOutcome;
+
+  @ApiPropertyOptional({ description: 'Only events by this user id' })
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  actorId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only events at or after this time (ISO 8601)',
+    example: '2026-01-01T00:00:00Z',
+  })
+  @IsISO8601()
+  @IsOptional()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only events before this time (ISO 8601)',
+    example: '2026-02-01T00:00:00Z',
+  })
+  @IsISO8601()
+  @IsOptional()
+  to?: string;
+}
+
+export class ListAuditEventsQueryDto extends AuditEventFiltersDto {
+  @ApiPropertyOptional({ description: 'Page size', default: 50, maximum: 200 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @IsOptional()
+  limit: number = 50;
+
+  @ApiPropertyOptional({ description: 'Number of rows to skip', default: 0 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  offset: number = 0;
+}
+
+export class ExportAuditEventsQueryDto extends AuditEventFiltersDto {
+  @ApiPropertyOptional({ enum: AUDIT_EXPORT_FORMATS, default: 'csv' })
+  @IsIn(AUDIT_EXPORT_FORMATS)
+  @IsOptional()
+  format: AuditExportFormat = 'csv';
+}
@@ -0,0 +1,65 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthGuard } from '../common/guards/auth.guard';
+import { InteractiveOnly } from '../common/decorators/interactive-only.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../common/decorators/current-user.decorator';
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyDto } from './dto/api-keys.dto';
+
+@ApiTags('API Keys')
+@Controller('api-keys')
+@UseGuards(AuthGuard)
+@InteractiveOnly()
+@ApiBearerAuth()
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create an API key for the active workspace; shown only once',
+  })
+  async createApiKey(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: CreateApiKeyDto,
+  ) {
+    const apiKey = await this.apiKeysService.create(
+      user,
+      dto.name.trim(),
+      dto.scopes,
+      dto.expiresInDays,
+    );
+    return {
+      statusCode: HttpStatus.CREATED,
+      message: 'Store this key now; it will not be shown again',
+      data: apiKey,
+    };
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List my API keys in the active workspace' })
+  async listApiKeys(@CurrentUser() user: AuthenticatedUser) {
+    const apiKeys = await this.apiKeysService.list(user.id, user.tenantId);
+    return { statusCode: HttpStatus.OK, data: { apiKeys } };
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Revoke one of my API keys' })
+  async revokeApiKey(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    await this.apiKeysService.revoke(user.id, id);
+    return { statusCode: HttpStatus.OK, message: 'API key revoked' };
+  }
+}
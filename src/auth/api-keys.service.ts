@@ -0,0 +1,227 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { SupabaseService } from '../database/supabase.service';
+import { LoggerService } from '../observability/logger.service';
+import { assertPermission } from '../tenants/permissions';
+import type { Permission } from '../tenants/permissions';
+import type { TenantRole } from '../tenants/tenants.types';
+
+interface ApiKeyRow {
+  id: string;
+  user_id: string;
+  user_email: string;
+  tenant_id: string;
+  name: string;
+  prefix: string;
+  scopes: Permission[];
+  expires_at: string | null;
+  last_used_at: string | null;
+  created_at: string;
+  revoked_at: string | null;
+}
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  /** First characters of the key, to tell keys apart. */
+  prefix: string;
+  tenantId: string;
+  scopes: Permission[];
+  expiresAt: string | null;
+  expired: boolean;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+/** A new key; `key` is only ever returned here. */
+export interface CreatedApiKey extends ApiKey {
+  key: string;
+}
+
+/** The owner and grants of a valid key, for `AuthGuard`. */
+export interface AuthenticatedApiKey {
+  id: string;
+  userId: string;
+  email: string;
+  tenantId: string;
+  scopes: Permission[];
+}
+
+/** Every API key starts with this, so `AuthGuard` can tell keys apart. */
+export const API_KEY_PREFIX = 'kue_';
+
+const API_KEY_COLUMNS =
+  'id, user_id, user_email, tenant_id, name, prefix, scopes, expires_at, last_used_at, created_at, revoked_at';
+const KEY_BYTES = 32;
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+/** `last_used_at` is written at most this often per key. */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+/**
+ * Long-lived keys for scripting against the API. A key acts for one user in
+ * one workspace, limited to its scopes and to what the user's role there
+ * still allows. Only the sha256 of a key is stored.
+ */
+@Injectable()
+export class ApiKeysService {
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  async create(
+    user: { id: string; email: string; tenantId: string; role: TenantRole },
+    name: string,
+    scopes: Permission[],
+    expiresInDays: number,
+  ): Promise<CreatedApiKey> {
+    // A key can never do more than its creator
+    for (const scope of scopes) {
+      assertPermission(user.role, scope);
+    }
+
+    const key = `${API_KEY_PREFIX}${randomBytes(KEY_BYTES).toString('base64url')}`;
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('api_keys')
+      .insert({
+        user_id: user.id,
+        user_email: user.email,
+        tenant_id: user.tenantId,
+        name,
+        prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+        key_hash: hashKey(key),
+        scopes: [...new Set(scopes)],
+        expires_at: new Date(
+          Date.now() + expiresInDays * 24 * 60 * 60 * 1000,
+        ).toISOString(),
+      })
+      .select(API_KEY_COLUMNS)
+      .single<ApiKeyRow>();
+
+    if (error) {
+      throw new Error(`Failed to create API key: ${error.message}`);
+    }
+
+    this.logger.info('API key created', {
+      userId: user.id,
+      tenantId: user.tenantId,
+      apiKeyId: data.id,
+    });
+    return { ...toApiKey(data), key };
+  }
+
+  /**
+   * The user's unrevoked keys in a workspace, newest first
+   */
+  async list(userId: string, tenantId: string): Promise<ApiKey[]> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('api_keys')
+      .select(API_KEY_COLUMNS)
+      .eq('user_id', userId)
+      .eq('tenant_id', tenantId)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list API keys: ${error.message}`);
+    }
+    return ((data ?? []) as ApiKeyRow[]).map(toApiKey);
+  }
+
+  async revoke(userId: string, keyId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', keyId)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to revoke API key: ${error.message}`);
+    }
+    if (!data?.length) {
+      throw new NotFoundException(`API key ${keyId} not found`);
+    }
+
+    this.logger.info('API key revoked', { userId, apiKeyId: keyId });
+  }
+
+  /**
+   * The key's owner and grants if it may still be used, else null; also
+   * bumps `last_used_at`.
+   */
+  async authenticate(key: string): Promise<AuthenticatedApiKey | null> {
+    const { data: row, error } = await this.supabase
+      .getClient()
+      .from('api_keys')
+      .select(API_KEY_COLUMNS)
+      .eq('key_hash', hashKey(key))
+      .maybeSingle<ApiKeyRow>();
+
+    if (error) {
+      throw new Error(`Failed to load API key: ${error.message}`);
+    }
+    if (!row || row.revoked_at || isExpired(row)) {
+      return null;
+    }
+
+    if (
+      !row.last_used_at ||
+      Date.now() - new Date(row.last_used_at).getTime() >
+        LAST_USED_RESOLUTION_MS
+    ) {
+      const { error: touchError } = await this.supabase
+        .getClient()
+        .from('api_keys')
+        .update({ last_used_at: new Date().toISOString() })
+        .eq('id', row.id);
+
+      if (touchError) {
+        this.logger.warn('Failed to update API key last used', {
+          apiKeyId: row.id,
+          error: touchError.message,
+        });
+      }
+    }
+
+    return {
+      id: row.id,
+      userId: row.user_id,
+      email: row.user_email,
+      tenantId: row.tenant_id,
+      scopes: row.scopes,
+    };
+  }
+}
+
+function isExpired(row: ApiKeyRow): boolean {
+  return (
+    row.expires_at !== null && new Date(row.expires_at).getTime() <= Date.now()
+  );
+}
+
+function toApiKey(row: ApiKeyRow): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    tenantId: row.tenant_id,
+    scopes: row.scopes,
+    expiresAt: row.expires_at,
+    expired: isExpired(row),
+    lastUsedAt: row.last_used_at,
+    createdAt: row.created_at,
+  };
+}
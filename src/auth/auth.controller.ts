@@ -2,46 +2,102 @@ import {
   Controller,
   Get,
   Post,
+  Delete,
   Body,
+  Param,
+  ParseUUIDPipe,
   Query,
   Req,
   Res,
   UseGuards,
   HttpStatus,
+  UnauthorizedException,
 } from '@nestjs/common';
 import type { FastifyReply, FastifyRequest } from 'fastify';
 import '@fastify/cookie';
-import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery, ApiBody } from '@nestjs/swagger';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiQuery,
+  ApiBody,
+} from '@nestjs/swagger';
 import { AuthService } from './auth.service';
-import { SendOtpDto, VerifyOtpDto, CheckEmailDto, ExchangeSessionDto } from './dto/auth.dto';
+import {
+  SendOtpDto,
+  VerifyOtpDto,
+  CheckEmailDto,
+  ExchangeSessionDto,
+  RefreshSessionDto,
+  DisconnectGoogleQueryDto,
+} from './dto/auth.dto';
+import type { SessionMode } from './dto/auth.dto';
 import { AuthGuard } from '../common/guards/auth.guard';
+import { RateLimitGuard } from '../common/guards/rate-limit.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { RateLimit } from '../common/decorators/rate-limit.decorator';
+import { RequirePermission } from '../common/decorators/roles.decorator';
+import { Permissions } from '../tenants/permissions';
+import { LockoutService } from '../rate-limit/lockout.service';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
 import type { AuthenticatedUser } from '../common/decorators/current-user.decorator';
 import { Public } from '../common/decorators/public.decorator';
+import { InteractiveOnly } from '../common/decorators/interactive-only.decorator';
 import { LoggerService } from '../observability/logger.service';
-import { SessionService } from './session.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditActions } from '../audit/audit.types';
+import { SessionService, SESSION_TTL_SECONDS } from './session.service';
+import type {
+  SessionUser,
+  SessionTokens,
+  VerifiedSession,
+} from './session.service';
+import { UserSessionsService } from './user-sessions.service';
+import type { SessionClient } from './user-sessions.service';
 import { ConfigService } from '@nestjs/config';
 
+const MINUTE_MS = 60 * 1000;
+/** Lockout scope for failed OTP verifications, keyed by email. */
+const OTP_LOCKOUT_SCOPE = 'otp-verify';
+
 @ApiTags('Auth')
 @Controller('auth')
 export class AuthController {
   constructor(
     private readonly authService: AuthService,
     private readonly sessionService: SessionService,
+    private readonly userSessions: UserSessionsService,
+    private readonly lockout: LockoutService,
     private readonly config: ConfigService,
     private readonly logger: LoggerService,
-  ) { }
+    private readonly audit: AuditService,
+  ) {}
 
   @Post('send-otp')
   @Public()
-  @ApiOperation({ summary: 'Send OTP verification code to email (works for new and existing users)' })
+  @UseGuards(RateLimitGuard)
+  @RateLimit(
+    { name: 'send-otp', by: 'ip', limit: 10, windowMs: 15 * MINUTE_MS },
+    { name: 'send-otp', by: 'email', limit: 3, windowMs: 15 * MINUTE_MS },
+  )
+  @ApiOperation({
+    summary:
+      'Send OTP verification code to email (works for new and existing users)',
+  })
   @ApiBody({ type: SendOtpDto })
   async sendOtp(
     @Body() dto: SendOtpDto,
+    @Req() request: FastifyRequest,
     @Res({ passthrough: false }) reply: FastifyReply,
   ) {
     try {
       const result = await this.authService.sendOtp(dto.email);
+      await this.audit.record({
+        action: AuditActions.OTP_SENT,
+        outcome: 'success',
+        actorEmail: dto.email,
+        client: this.sessionClient(request),
+      });
       return reply.status(HttpStatus.OK).send({
         statusCode: HttpStatus.OK,
         message: result.message,
@@ -55,6 +111,12 @@ export class AuthController {
         email: dto.email,
         error: error instanceof Error ? error.message : String(error),
       });
+      await this.audit.record({
+        action: AuditActions.OTP_SENT,
+        outcome: 'failure',
+        actorEmail: dto.email,
+        client: this.sessionClient(request),
+      });
       return reply.status(HttpStatus.INTERNAL_SERVER_ERROR).send({
         statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
         message: 'Failed to send verification code',
@@ -64,43 +126,68 @@ export class AuthController {
 
   @Post('verify-otp')
   @Public()
+  @UseGuards(RateLimitGuard)
+  @RateLimit(
+    { name: 'verify-otp', by: 'ip', limit: 30, windowMs: 15 * MINUTE_MS },
+    { name: 'verify-otp', by: 'email', limit: 10, windowMs: 15 * MINUTE_MS },
+  )
   @ApiOperation({ summary: 'Verify OTP code and authenticate user' })
   @ApiBody({ type: VerifyOtpDto })
   async verifyOtp(
     @Body() dto: VerifyOtpDto,
+    @Req() request: FastifyRequest,
     @Res({ passthrough: false }) reply: FastifyReply,
   ) {
+    const email = dto.email.trim().toLowerCase();
+    const lockedFor = await this.lockout.retryAfter(OTP_LOCKOUT_SCOPE, email);
+    if (lockedFor) {
+      await this.audit.record({
+        action: AuditActions.OTP_VERIFIED,
+        outcome: 'failure',
+        actorEmail: email,
+        client: this.sessionClient(request),
+        metadata: { reason: 'locked_out' },
+      });
+      return this.sendLockedOut(reply, lockedFor);
+    }
+
     try {
       const result = await this.authService.verifyOtp(dto.email, dto.code);
+      await this.lockout.reset(OTP_LOCKOUT_SCOPE, email);
 
-      // Create app session token (consistent with Google OAuth flow)
-      const sessionToken = this.sessionService.createSessionToken({
+      // Create app session (consistent with Google OAuth flow)
+      const tokens = await this.startSession(request, reply, dto.session_mode, {
         id: result.user.id,
         email: result.user.email,
         name: undefined, // OTP doesn't provide name
         avatar_url: undefined,
       });
 
-      // Set HTTP-only cookie
-      reply.setCookie('session', sessionToken, {
-        httpOnly: true,
-        secure: this.config.get<string>('NODE_ENV') === 'production',
-        sameSite: 'lax',
-        maxAge: 7 * 24 * 60 * 60, // 7 days
-        path: '/',
-      });
-
       this.logger.info('OTP verification successful', {
         userId: result.user.id,
         isNewUser: result.isNewUser,
       });
+      await this.audit.record({
+        action: AuditActions.OTP_VERIFIED,
+        outcome: 'success',
+        actorId: result.user.id,
+        actorEmail: email,
+        client: this.sessionClient(request),
+        metadata: {
+          isNewUser: result.isNewUser,
+          sessionMode: dto.session_mode ?? 'cookie',
+        },
+      });
 
       return reply.send({
         statusCode: HttpStatus.OK,
-        message: result.isNewUser ? 'Account created successfully' : 'Signed in successfully',
+        message: result.isNewUser
+          ? 'Account created successfully'
+          : 'Signed in successfully',
         data: {
           user: result.user,
           isNewUser: result.isNewUser,
+          ...(tokens && { tokens }),
         },
       });
     } catch (error) {
@@ -108,16 +195,41 @@ export class AuthController {
         email: dto.email,
         error: error instanceof Error ? error.message : String(error),
       });
+
+      const rejected = error instanceof UnauthorizedException;
+      const lockSeconds = rejected
+        ? await this.lockout.recordFailure(OTP_LOCKOUT_SCOPE, email)
+        : null;
+      await this.audit.record({
+        action: AuditActions.OTP_VERIFIED,
+        outcome: 'failure',
+        actorEmail: email,
+        client: this.sessionClient(request),
+        metadata: {
+          reason: rejected ? 'invalid_code' : 'error',
+          ...(lockSeconds && { lockedOutFor: lockSeconds }),
+        },
+      });
+      if (lockSeconds) {
+        return this.sendLockedOut(reply, lockSeconds);
+      }
       return reply.status(HttpStatus.UNAUTHORIZED).send({
         statusCode: HttpStatus.UNAUTHORIZED,
-        message: error instanceof Error ? error.message : 'Invalid or expired verification code',
+        message:
+          error instanceof Error
+            ? error.message
+            : 'Invalid or expired verification code',
       });
     }
   }
 
   @Post('check-email')
   @Public()
-  @ApiOperation({ summary: 'Check if email already exists (optional endpoint for UI)' })
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ name: 'check-email', by: 'ip', limit: 20, windowMs: MINUTE_MS })
+  @ApiOperation({
+    summary: 'Check if email already exists (optional endpoint for UI)',
+  })
   @ApiBody({ type: CheckEmailDto })
   async checkEmail(@Body() dto: CheckEmailDto) {
     const exists = await this.authService.checkEmailExists(dto.email);
@@ -130,7 +242,6 @@ export class AuthController {
     };
   }
 
-
   @Get('session')
   @Public()
   @ApiOperation({ summary: 'Get current session user' })
@@ -148,9 +259,9 @@ export class AuthController {
       });
     }
 
-    const user = this.sessionService.verifySessionToken(sessionToken);
+    const session = await this.sessionService.validateSession(sessionToken);
 
-    if (!user) {
+    if (!session) {
       return reply.status(HttpStatus.UNAUTHORIZED).send({
         statusCode: HttpStatus.UNAUTHORIZED,
         message: 'Invalid or expired session',
@@ -158,16 +269,44 @@ export class AuthController {
       });
     }
 
+    const { sessionId, ...user } = session;
     return reply.status(HttpStatus.OK).send({
       statusCode: HttpStatus.OK,
-      data: { user },
+      data: { user, sessionId },
     });
   }
 
   @Post('logout')
   @Public()
-  @ApiOperation({ summary: 'Logout and clear session' })
-  async logout(@Res({ passthrough: false }) reply: FastifyReply) {
+  @ApiOperation({
+    summary: 'Logout, revoke the current session and clear the cookie',
+  })
+  async logout(
+    @Req() request: FastifyRequest,
+    @Res({ passthrough: false }) reply: FastifyReply,
+  ) {
+    const session = this.presentedSession(request);
+
+    if (session) {
+      await this.audit.record({
+        action: AuditActions.LOGOUT,
+        outcome: 'success',
+        actorId: session.id,
+        actorEmail: session.email,
+        client: this.sessionClient(request),
+        metadata: { sessionId: session.sessionId },
+      });
+      try {
+        await this.userSessions.revoke(session.id, session.sessionId, 'logout');
+      } catch (error) {
+        // Already revoked or gone; the cookie is cleared either way
+        this.logger.warn('Logout could not revoke session', {
+          userId: session.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
     reply.clearCookie('session', { path: '/' });
 
     return reply.send({
@@ -176,34 +315,143 @@ export class AuthController {
     });
   }
 
+  @Post('refresh')
+  @Public()
+  @ApiOperation({
+    summary:
+      'Rotate a refresh token and get a new access token (token sessions)',
+  })
+  @ApiBody({ type: RefreshSessionDto })
+  async refresh(
+    @Body() dto: RefreshSessionDto,
+    @Res({ passthrough: false }) reply: FastifyReply,
+  ) {
+    try {
+      const tokens = await this.sessionService.refreshTokenSession(
+        dto.refresh_token,
+      );
+
+      return reply.send({
+        statusCode: HttpStatus.OK,
+        message: 'Session refreshed',
+        data: { tokens },
+      });
+    } catch (error) {
+      // Anything but a rejected token is a server fault; the client should
+      // retry rather than sign the user out
+      if (!(error instanceof UnauthorizedException)) {
+        throw error;
+      }
+      this.logger.warn('Session refresh rejected', { error: error.message });
+      return reply.status(HttpStatus.UNAUTHORIZED).send({
+        statusCode: HttpStatus.UNAUTHORIZED,
+        message: error.message,
+      });
+    }
+  }
+
+  // ==================== Session Management ====================
+
+  @Get('sessions')
+  @InteractiveOnly()
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List my active sessions' })
+  async listSessions(@CurrentUser() user: AuthenticatedUser) {
+    const sessions = await this.userSessions.listActive(user.id);
+
+    return {
+      statusCode: HttpStatus.OK,
+      data: {
+        sessions: sessions.map((session) => ({
+          id: session.id,
+          kind: session.kind,
+          userAgent: session.user_agent,
+          ipAddress: session.ip_address,
+          createdAt: session.created_at,
+          lastSeenAt: session.last_seen_at,
+          expiresAt: session.expires_at,
+          current: session.id === user.sessionId,
+        })),
+      },
+    };
+  }
+
+  @Delete('sessions/:id')
+  @InteractiveOnly()
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Revoke one of my sessions' })
+  async revokeSession(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Res({ passthrough: false }) reply: FastifyReply,
+  ) {
+    await this.userSessions.revoke(user.id, id, 'revoked');
+
+    if (id === user.sessionId) {
+      reply.clearCookie('session', { path: '/' });
+    }
+
+    return reply.send({
+      statusCode: HttpStatus.OK,
+      message: 'Session revoked',
+    });
+  }
+
+  @Delete('sessions')
+  @InteractiveOnly()
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Sign out everywhere by revoking all my sessions' })
+  async revokeAllSessions(
+    @CurrentUser() user: AuthenticatedUser,
+    @Res({ passthrough: false }) reply: FastifyReply,
+  ) {
+    const revoked = await this.userSessions.revokeAll(user.id);
+    reply.clearCookie('session', { path: '/' });
+
+    return reply.send({
+      statusCode: HttpStatus.OK,
+      message: 'Signed out everywhere',
+      data: { revoked },
+    });
+  }
+
   // ==================== Supabase OAuth (Authentication) ====================
 
   @Post('session')
   @Public()
-  @ApiOperation({ summary: 'Exchange Supabase access token for backend session' })
+  @ApiOperation({
+    summary: 'Exchange Supabase access token for backend session',
+  })
   @ApiBody({ type: ExchangeSessionDto })
   async exchangeSession(
     @Body() dto: ExchangeSessionDto,
+    @Req() request: FastifyRequest,
     @Res({ passthrough: false }) reply: FastifyReply,
   ) {
     try {
       const result = await this.authService.exchangeSession(dto.access_token);
 
-      // Create app session token
-      const sessionToken = this.sessionService.createSessionToken({
+      // Create app session
+      const tokens = await this.startSession(request, reply, dto.session_mode, {
         id: result.user.id,
         email: result.user.email,
         name: undefined,
         avatar_url: undefined,
       });
 
-      // Set HTTP-only cookie
-      reply.setCookie('session', sessionToken, {
-        httpOnly: true,
-        secure: this.config.get<string>('NODE_ENV') === 'production',
-        sameSite: 'lax',
-        maxAge: 7 * 24 * 60 * 60, // 7 days
-        path: '/',
+      await this.audit.record({
+        action: AuditActions.SESSION_EXCHANGED,
+        outcome: 'success',
+        actorId: result.user.id,
+        actorEmail: result.user.email,
+        client: this.sessionClient(request),
+        metadata: {
+          isNewUser: result.isNewUser,
+          sessionMode: dto.session_mode ?? 'cookie',
+        },
       });
 
       return reply.send({
@@ -212,15 +460,22 @@ export class AuthController {
         data: {
           user: result.user,
           isNewUser: result.isNewUser,
+          ...(tokens && { tokens }),
         },
       });
     } catch (error) {
       this.logger.error('Session exchange failed', {
         error: error instanceof Error ? error.message : String(error),
       });
+      await this.audit.record({
+        action: AuditActions.SESSION_EXCHANGED,
+        outcome: 'failure',
+        client: this.sessionClient(request),
+      });
       return reply.status(HttpStatus.UNAUTHORIZED).send({
         statusCode: HttpStatus.UNAUTHORIZED,
-        message: error instanceof Error ? error.message : 'Invalid session exchange',
+        message:
+          error instanceof Error ? error.message : 'Invalid session exchange',
       });
     }
   }
@@ -231,7 +486,8 @@ export class AuthController {
   @ApiQuery({
     name: 'redirectTo',
     required: false,
-    description: 'URL to redirect to after login (defaults to http://localhost:8081/)'
+    description:
+      'URL to redirect to after login (defaults to http://localhost:8081/)',
   })
   async getGoogleSignInUrl(@Query('redirectTo') redirectTo?: string) {
     const url = await this.authService.getGoogleSignInUrl(redirectTo);
@@ -241,22 +497,105 @@ export class AuthController {
   // ==================== Google OAuth (Data Sync) ====================
 
   @Get('google')
-  @UseGuards(AuthGuard)
+  @InteractiveOnly()
+  @UseGuards(AuthGuard, RolesGuard)
+  @RequirePermission(Permissions.SOURCES_MANAGE)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Get Google OAuth consent URL for data sync (Gmail/Calendar/Contacts)' })
+  @ApiOperation({
+    summary:
+      'Get Google OAuth consent URL for data sync (Gmail/Calendar/Contacts)',
+  })
   getGoogleAuthUrl(@CurrentUser() user: AuthenticatedUser) {
-    const url = this.authService.getGoogleAuthUrl(user.id);
+    const url = this.authService.getGoogleAuthUrl(user.id, user.tenantId);
     return { url };
   }
 
+  @Delete('google')
+  @InteractiveOnly()
+  @UseGuards(AuthGuard, RolesGuard)
+  @RequirePermission(Permissions.SOURCES_MANAGE)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Disconnect Google, revoking access at Google; optionally delete synced data',
+  })
+  async disconnectGoogle(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: DisconnectGoogleQueryDto,
+    @Req() request: FastifyRequest,
+  ) {
+    if (query.dryRun) {
+      const preview = await this.authService.previewGoogleDisconnect(
+        user.tenantId,
+        user.id,
+      );
+      return {
+        statusCode: HttpStatus.OK,
+        message: 'Dry run; nothing was changed',
+        data: {
+          dryRun: true,
+          connections: preview.connections,
+          purge: query.purge
+            ? { contacts: preview.contacts, interactions: preview.interactions }
+            : null,
+        },
+      };
+    }
+
+    try {
+      const result = await this.authService.disconnectGoogle(
+        user.tenantId,
+        user.id,
+        {
+          purge: query.purge,
+        },
+      );
+      await this.audit.record({
+        action: AuditActions.GOOGLE_DISCONNECTED,
+        outcome: 'success',
+        tenantId: user.tenantId,
+        actorId: user.id,
+        actorEmail: user.email,
+        client: this.sessionClient(request),
+        metadata: { ...result },
+      });
+
+      return {
+        statusCode: HttpStatus.OK,
+        message: 'Google account disconnected',
+        data: { dryRun: false, ...result },
+      };
+    } catch (error) {
+      await this.audit.record({
+        action: AuditActions.GOOGLE_DISCONNECTED,
+        outcome: 'failure',
+        tenantId: user.tenantId,
+        actorId: user.id,
+        actorEmail: user.email,
+        client: this.sessionClient(request),
+        metadata: { purge: query.purge },
+      });
+      throw error;
+    }
+  }
+
   @Get('callback')
   @Public()
   @ApiOperation({ summary: 'Handle Google OAuth callback' })
-  @ApiQuery({ name: 'code', required: true, description: 'Authorization code from Google' })
-  @ApiQuery({ name: 'state', required: false, description: 'State parameter containing user ID' })
+  @ApiQuery({
+    name: 'code',
+    required: true,
+    description: 'Authorization code from Google',
+  })
+  @ApiQuery({
+    name: 'state',
+    required: false,
+    description: 'State parameter containing user ID',
+  })
   async handleCallback(
     @Query('code') code: string,
     @Query('state') state: string,
+    @Req() request: FastifyRequest,
     @Res() reply: FastifyReply,
   ) {
     if (!code) {
@@ -273,17 +612,30 @@ export class AuthController {
       });
     }
 
+    const connect = this.sessionService.verifyGoogleOAuthStateToken(state);
     try {
-      const userId = this.sessionService.verifyGoogleOAuthStateToken(state);
-      if (!userId) {
+      if (!connect) {
         return reply.status(HttpStatus.BAD_REQUEST).send({
           statusCode: HttpStatus.BAD_REQUEST,
           message: 'Invalid or expired state parameter',
         });
       }
-      const tokens = await this.authService.handleGoogleCallback(code, userId);
-
-      this.logger.info('OAuth callback successful', { userId });
+      const { userId, tenantId } = connect;
+      const tokens = await this.authService.handleGoogleCallback(
+        code,
+        userId,
+        tenantId,
+      );
+
+      this.logger.info('OAuth callback successful', { userId, tenantId });
+      await this.audit.record({
+        action: AuditActions.GOOGLE_CONNECTED,
+        outcome: 'success',
+        tenantId,
+        actorId: userId,
+        client: this.sessionClient(request),
+        metadata: { scopes: tokens.scopes },
+      });
 
       return reply.status(HttpStatus.OK).send({
         statusCode: HttpStatus.OK,
@@ -297,6 +649,15 @@ export class AuthController {
       this.logger.error('OAuth callback failed', {
         error: error instanceof Error ? error.message : String(error),
       });
+      if (connect) {
+        await this.audit.record({
+          action: AuditActions.GOOGLE_CONNECTED,
+          outcome: 'failure',
+          tenantId: connect.tenantId,
+          actorId: connect.userId,
+          client: this.sessionClient(request),
+        });
+      }
 
       return reply.status(HttpStatus.INTERNAL_SERVER_ERROR).send({
         statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
@@ -310,12 +671,77 @@ export class AuthController {
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Check connected account status' })
   async getConnectionStatus(@CurrentUser() user: AuthenticatedUser) {
-    const hasGoogle = await this.authService.hasGoogleConnection(user.id);
+    const google = await this.authService.getGoogleConnectionHealth(
+      user.tenantId,
+      user.id,
+    );
+
+    return { google };
+  }
+
+  /**
+   * Record a session for the user. Cookie sessions set the HTTP-only cookie;
+   * token sessions return their tokens for the response body instead.
+   */
+  private async startSession(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    mode: SessionMode | undefined,
+    user: SessionUser,
+  ): Promise<SessionTokens | undefined> {
+    const client = this.sessionClient(request);
+
+    if (mode === 'token') {
+      return this.sessionService.startTokenSession(user, client);
+    }
 
+    const sessionToken = await this.sessionService.startSession(user, client);
+
+    reply.setCookie('session', sessionToken, {
+      httpOnly: true,
+      secure: this.config.get<string>('NODE_ENV') === 'production',
+      sameSite: 'lax',
+      maxAge: SESSION_TTL_SECONDS,
+      path: '/',
+    });
+    return undefined;
+  }
+
+  private sendLockedOut(reply: FastifyReply, retryAfter: number) {
+    return reply
+      .header('Retry-After', retryAfter)
+      .status(HttpStatus.TOO_MANY_REQUESTS)
+      .send({
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        message: 'Too many failed attempts, try again later',
+        retryAfter,
+      });
+  }
+
+  /**
+   * The session behind the request's cookie or access token, without
+   * checking whether it is still active.
+   */
+  private presentedSession(request: FastifyRequest): VerifiedSession | null {
+    const sessionToken = request.cookies?.session;
+    if (sessionToken) {
+      return this.sessionService.verifySessionToken(sessionToken);
+    }
+
+    const authHeader = request.headers.authorization;
+    const bearer = authHeader?.startsWith('Bearer ')
+      ? authHeader.substring(7)
+      : undefined;
+    if (bearer && this.sessionService.isAccessToken(bearer)) {
+      return this.sessionService.verifyAccessToken(bearer);
+    }
+    return null;
+  }
+
+  private sessionClient(request: FastifyRequest): SessionClient {
     return {
-      google: {
-        connected: hasGoogle,
-      },
+      userAgent: request.headers['user-agent'],
+      ipAddress: request.ip,
     };
   }
 }
@@ -1,11 +1,32 @@
 import { Module } from '@nestjs/common';
 import { AuthController } from './auth.controller';
+import { ApiKeysController } from './api-keys.controller';
 import { AuthService } from './auth.service';
 import { SessionService } from './session.service';
+import { ConnectionTokensService } from './connection-tokens.service';
+import { ConnectionHealthService } from './connection-health.service';
+import { UserSessionsService } from './user-sessions.service';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { ApiKeysService } from './api-keys.service';
 
 @Module({
-  controllers: [AuthController],
-  providers: [AuthService, SessionService],
-  exports: [AuthService, SessionService],
+  controllers: [AuthController, ApiKeysController],
+  providers: [
+    AuthService,
+    SessionService,
+    ConnectionTokensService,
+    ConnectionHealthService,
+    UserSessionsService,
+    RefreshTokensService,
+    ApiKeysService,
+  ],
+  exports: [
+    AuthService,
+    SessionService,
+    ConnectionTokensService,
+    ConnectionHealthService,
+    UserSessionsService,
+    ApiKeysService,
+  ],
 })
-export class AuthModule { }
+export class AuthModule {}
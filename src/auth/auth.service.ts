@@ -1,4 +1,9 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { google, Auth } from 'googleapis';
 import { SupabaseService } from '../database/supabase.service';
@@ -6,7 +11,20 @@ import { LoggerService } from '../observability/logger.service';
 import { PosthogService } from '../observability/posthog.service';
 import { SentryService } from '../observability/sentry.service';
 import { PostHogEvents } from '../common/types/events';
+import { JobsService } from '../jobs/jobs.service';
+import { TenantsService } from '../tenants/tenants.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditActions } from '../audit/audit.types';
+import { getGoogleErrorStatus } from '../sync/google-errors';
+import { withSpan } from '../observability/tracer';
+import { assertPermission, Permissions } from '../tenants/permissions';
 import { SessionService } from './session.service';
+import { ConnectionTokensService } from './connection-tokens.service';
+import {
+  ConnectionHealthService,
+  USER_DISCONNECTED,
+} from './connection-health.service';
+import type { ConnectionHealthSummary } from './connection-health.service';
 
 export interface GoogleTokens {
   accessToken: string;
@@ -15,6 +33,32 @@ export interface GoogleTokens {
   scopes: string[];
 }
 
+export interface GoogleDisconnectPreview {
+  connections: number;
+  contacts: number;
+  interactions: number;
+}
+
+export interface GoogleDisconnectResult {
+  connections: number;
+  /** False when stored tokens were unreadable, so only our copy was deleted. */
+  revokedAtGoogle: boolean;
+  purgeQueued: boolean;
+}
+
+interface GoogleConnectionRow {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  source: string;
+  external_account_id: string;
+  token_json: unknown;
+  updated_at: string;
+}
+
+const GOOGLE_CONNECTION_COLUMNS =
+  'id, tenant_id, user_id, source, external_account_id, token_json, updated_at';
+
 const GOOGLE_SCOPES = [
   'https://www.googleapis.com/auth/gmail.readonly',
   'https://www.googleapis.com/auth/contacts.readonly',
@@ -23,6 +67,9 @@ const GOOGLE_SCOPES = [
   'https://www.googleapis.com/auth/userinfo.profile',
 ];
 const GOOGLE_SOURCES = ['gmail', 'google_contacts', 'google_calendar'] as const;
+const TOKEN_REFRESH_WINDOW_MS = 5 * 60 * 1000;
+// PostgREST caps responses at 1000 rows by default.
+const PAGE_SIZE = 1000;
 
 @Injectable()
 export class AuthService {
@@ -35,6 +82,11 @@ export class AuthService {
     private readonly posthog: PosthogService,
     private readonly sentry: SentryService,
     private readonly sessionService: SessionService,
+    private readonly jobs: JobsService,
+    private readonly connectionTokens: ConnectionTokensService,
+    private readonly connectionHealth: ConnectionHealthService,
+    private readonly tenants: TenantsService,
+    private readonly audit: AuditService,
   ) {
     this.oauth2Client = new google.auth.OAuth2(
       this.config.get<string>('GOOGLE_CLIENT_ID'),
@@ -47,36 +99,47 @@ export class AuthService {
    * Send OTP code to user's email (works for both new and existing users)
    */
   async sendOtp(email: string): Promise<{ success: boolean; message: string }> {
-    try {
-      const { error } = await this.supabase.getClient().auth.signInWithOtp({
-        email,
-        options: {
-          shouldCreateUser: true, // Creates user if doesn't exist
-        },
-      });
+    return withSpan('auth.otp.send', {}, async () => {
+      try {
+        const { error } = await this.supabase.getClient().auth.signInWithOtp({
+          email,
+          options: {
+            shouldCreateUser: true, // Creates user if doesn't exist
+          },
+        });
 
-      if (error) {
-        this.logger.error('Failed to send OTP', { email, error: error.message });
-        throw new Error(`Failed to send OTP: ${error.message}`);
-      }
+        if (error) {
+          this.logger.error('Failed to send OTP', {
+            email,
+            error: error.message,
+          });
+          throw new Error(`Failed to send OTP: ${error.message}`);
+        }
 
-      this.logger.info('OTP sent successfully', { email });
-      this.posthog.capture(email, PostHogEvents.AUTH_OTP_SENT, { email });
+        this.logger.info('OTP sent successfully', { email });
+        this.posthog.capture(email, PostHogEvents.AUTH_OTP_SENT, { email });
 
-      return {
-        success: true,
-        message: 'Verification code sent to your email',
-      };
-    } catch (error) {
-      this.sentry.captureException(error as Error, { email, context: 'send_otp' });
-      throw error;
-    }
+        return {
+          success: true,
+          message: 'Verification code sent to your email',
+        };
+      } catch (error) {
+        this.sentry.captureException(error as Error, {
+          email,
+          context: 'send_otp',
+        });
+        throw error;
+      }
+    });
   }
 
   /**
    * Verify OTP code and create/authenticate user session
    */
-  async verifyOtp(email: string, token: string): Promise<{
+  async verifyOtp(
+    email: string,
+    token: string,
+  ): Promise<{
     accessToken: string;
     refreshToken: string;
     user: {
@@ -86,70 +149,91 @@ export class AuthService {
     };
     isNewUser: boolean;
   }> {
-    try {
-      const { data, error } = await this.supabase.getClient().auth.verifyOtp({
-        email,
-        token,
-        type: 'email',
-      });
-
-      if (error || !data.session || !data.user) {
-        this.logger.error('OTP verification failed', { email, error: error?.message });
-        throw new UnauthorizedException('Invalid or expired verification code');
-      }
-
-      // Check if this is a new user (created just now)
-      const isNewUser = new Date(data.user.created_at).getTime() > Date.now() - 60000; // Within last minute
-
-      this.logger.info('OTP verified successfully', {
-        userId: data.user.id,
-        email,
-        isNewUser,
-      });
+    return withSpan('auth.otp.verify', {}, async (span) => {
+      try {
+        const { data, error } = await this.supabase.getClient().auth.verifyOtp({
+          email,
+          token,
+          type: 'email',
+        });
 
-      this.posthog.capture(data.user.id, PostHogEvents.AUTH_OTP_VERIFIED, {
-        email,
-        isNewUser,
-      });
+        if (error || !data.session || !data.user) {
+          this.logger.error('OTP verification failed', {
+            email,
+            error: error?.message,
+          });
+          throw new UnauthorizedException(
+            'Invalid or expired verification code',
+          );
+        }
+
+        // Check if this is a new user (created just now)
+        const isNewUser =
+          new Date(data.user.created_at).getTime() > Date.now() - 60000; // Within last minute
+        span.setAttributes({
+          'enduser.id': data.user.id,
+          'auth.new_user': isNewUser,
+        });
 
-      if (isNewUser) {
-        this.posthog.capture(data.user.id, PostHogEvents.USER_SIGNED_UP, {
+        this.logger.info('OTP verified successfully', {
+          userId: data.user.id,
           email,
-          method: 'otp',
+          isNewUser,
         });
-      } else {
-        this.posthog.capture(data.user.id, PostHogEvents.USER_SIGNED_IN, {
+
+        this.posthog.capture(data.user.id, PostHogEvents.AUTH_OTP_VERIFIED, {
           email,
-          method: 'otp',
+          isNewUser,
         });
-      }
 
-      try {
-        await this.ensureTenantMembership(data.user.id, data.user.email || email);
-      } catch (tenantError) {
-        this.logger.warn('Tenant provisioning skipped during OTP login', {
-          userId: data.user.id,
-          error: tenantError instanceof Error ? tenantError.message : String(tenantError),
+        if (isNewUser) {
+          this.posthog.capture(data.user.id, PostHogEvents.USER_SIGNED_UP, {
+            email,
+            method: 'otp',
+          });
+        } else {
+          this.posthog.capture(data.user.id, PostHogEvents.USER_SIGNED_IN, {
+            email,
+            method: 'otp',
+          });
+        }
+
+        try {
+          await this.tenants.ensurePersonalWorkspace(
+            data.user.id,
+            data.user.email || email,
+          );
+        } catch (tenantError) {
+          this.logger.warn('Tenant provisioning skipped during OTP login', {
+            userId: data.user.id,
+            error:
+              tenantError instanceof Error
+                ? tenantError.message
+                : String(tenantError),
+          });
+        }
+
+        return {
+          accessToken: data.session.access_token,
+          refreshToken: data.session.refresh_token,
+          user: {
+            id: data.user.id,
+            email: data.user.email!,
+            createdAt: data.user.created_at,
+          },
+          isNewUser,
+        };
+      } catch (error) {
+        this.sentry.captureException(error as Error, {
+          email,
+          context: 'verify_otp',
         });
+        if (error instanceof UnauthorizedException) {
+          throw error;
+        }
+        throw new UnauthorizedException('Failed to verify code');
       }
-
-      return {
-        accessToken: data.session.access_token,
-        refreshToken: data.session.refresh_token,
-        user: {
-          id: data.user.id,
-          email: data.user.email!,
-          createdAt: data.user.created_at,
-        },
-        isNewUser,
-      };
-    } catch (error) {
-      this.sentry.captureException(error as Error, { email, context: 'verify_otp' });
-      if (error instanceof UnauthorizedException) {
-        throw error;
-      }
-      throw new UnauthorizedException('Failed to verify code');
-    }
+    });
   }
 
   /**
@@ -163,64 +247,79 @@ export class AuthService {
     };
     isNewUser: boolean;
   }> {
-    try {
-      // Verify the token with Supabase
-      const {
-        data: { user },
-        error,
-      } = await this.supabase.getClient().auth.getUser(accessToken);
-
-      if (error || !user) {
-        this.logger.error('Token exchange failed', { error: error?.message });
-        throw new UnauthorizedException('Invalid or expired token');
-      }
-
-      // Check if this is a new user (created within last minute)
-      const isNewUser = new Date(user.created_at).getTime() > Date.now() - 60000;
-
-      this.logger.info('Token exchange successful', {
-        userId: user.id,
-        email: user.email,
-        isNewUser,
-      });
-
-      // Track sign-in event
-      if (isNewUser) {
-        this.posthog.capture(user.id, PostHogEvents.USER_SIGNED_UP, {
-          email: user.email,
-          method: 'oauth_google',
-        });
-      } else {
-        this.posthog.capture(user.id, PostHogEvents.USER_SIGNED_IN, {
-          email: user.email,
-          method: 'oauth_google',
+    return withSpan('auth.session.exchange', {}, async (span) => {
+      try {
+        // Verify the token with Supabase
+        const {
+          data: { user },
+          error,
+        } = await this.supabase.getClient().auth.getUser(accessToken);
+
+        if (error || !user) {
+          this.logger.error('Token exchange failed', { error: error?.message });
+          throw new UnauthorizedException('Invalid or expired token');
+        }
+
+        // Check if this is a new user (created within last minute)
+        const isNewUser =
+          new Date(user.created_at).getTime() > Date.now() - 60000;
+        span.setAttributes({
+          'enduser.id': user.id,
+          'auth.new_user': isNewUser,
         });
-      }
 
-      try {
-        await this.ensureTenantMembership(user.id, user.email || '');
-      } catch (tenantError) {
-        this.logger.warn('Tenant provisioning skipped during session exchange', {
+        this.logger.info('Token exchange successful', {
           userId: user.id,
-          error: tenantError instanceof Error ? tenantError.message : String(tenantError),
+          email: user.email,
+          isNewUser,
         });
-      }
 
-      return {
-        user: {
-          id: user.id,
-          email: user.email!,
-          createdAt: user.created_at,
-        },
-        isNewUser,
-      };
-    } catch (error) {
-      this.sentry.captureException(error as Error, { context: 'exchange_session' });
-      if (error instanceof UnauthorizedException) {
-        throw error;
+        // Track sign-in event
+        if (isNewUser) {
+          this.posthog.capture(user.id, PostHogEvents.USER_SIGNED_UP, {
+            email: user.email,
+            method: 'oauth_google',
+          });
+        } else {
+          this.posthog.capture(user.id, PostHogEvents.USER_SIGNED_IN, {
+            email: user.email,
+            method: 'oauth_google',
+          });
+        }
+
+        try {
+          await this.tenants.ensurePersonalWorkspace(user.id, user.email || '');
+        } catch (tenantError) {
+          this.logger.warn(
+            'Tenant provisioning skipped during session exchange',
+            {
+              userId: user.id,
+              error:
+                tenantError instanceof Error
+                  ? tenantError.message
+                  : String(tenantError),
+            },
+          );
+        }
+
+        return {
+          user: {
+            id: user.id,
+            email: user.email!,
+            createdAt: user.created_at,
+          },
+          isNewUser,
+        };
+      } catch (error) {
+        this.sentry.captureException(error as Error, {
+          context: 'exchange_session',
+        });
+        if (error instanceof UnauthorizedException) {
+          throw error;
+        }
+        throw new UnauthorizedException('Failed to exchange token');
       }
-      throw new UnauthorizedException('Failed to exchange token');
-    }
+    });
   }
 
   /**
@@ -229,15 +328,22 @@ export class AuthService {
   async checkEmailExists(email: string): Promise<boolean> {
     try {
       // Check in Supabase auth.users table using admin API
-      const { data, error } = await this.supabase.getClient().auth.admin.listUsers();
+      const { data, error } = await this.supabase
+        .getClient()
+        .auth.admin.listUsers();
 
       if (error) {
-        this.logger.error('Failed to check email existence', { email, error: error.message });
+        this.logger.error('Failed to check email existence', {
+          email,
+          error: error.message,
+        });
         return false;
       }
 
       // Check if any user has this email
-      const userExists = data.users.some(user => user.email?.toLowerCase() === email.toLowerCase());
+      const userExists = data.users.some(
+        (user) => user.email?.toLowerCase() === email.toLowerCase(),
+      );
 
       return userExists;
     } catch (error) {
@@ -253,20 +359,26 @@ export class AuthService {
   /**
    * Generate Supabase OAuth (Google) sign-in URL for frontend authentication
    */
-  async getGoogleSignInUrl(redirectTo: string = 'http://localhost:8081/'): Promise<string> {
-    const { data, error } = await this.supabase.getClient().auth.signInWithOAuth({
-      provider: 'google',
-      options: {
-        redirectTo,
-        queryParams: {
-          access_type: 'offline',
-          prompt: 'consent',
+  async getGoogleSignInUrl(
+    redirectTo: string = 'http://localhost:8081/',
+  ): Promise<string> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .auth.signInWithOAuth({
+        provider: 'google',
+        options: {
+          redirectTo,
+          queryParams: {
+            access_type: 'offline',
+            prompt: 'consent',
+          },
         },
-      },
-    });
+      });
 
     if (error) {
-      this.logger.error('Failed to generate Google sign-in URL', { error: error.message });
+      this.logger.error('Failed to generate Google sign-in URL', {
+        error: error.message,
+      });
       throw new Error(`Failed to generate sign-in URL: ${error.message}`);
     }
     return data.url;
@@ -275,8 +387,11 @@ export class AuthService {
   /**
    * Generate the Google OAuth consent URL (for data sync)
    */
-  getGoogleAuthUrl(userId: string): string {
-    const stateToken = this.sessionService.createGoogleOAuthStateToken(userId);
+  getGoogleAuthUrl(userId: string, tenantId: string): string {
+    const stateToken = this.sessionService.createGoogleOAuthStateToken(
+      userId,
+      tenantId,
+    );
     const url = this.oauth2Client.generateAuthUrl({
       access_type: 'offline',
       prompt: 'consent',
@@ -289,115 +404,162 @@ export class AuthService {
   }
 
   /**
-   * Exchange authorization code for tokens, store in Supabase
+   * Exchange authorization code for tokens, store in Supabase under the
+   * workspace the connect flow was started from
    */
   async handleGoogleCallback(
     code: string,
     userId: string,
+    tenantId: string,
   ): Promise<GoogleTokens> {
-    try {
-      const { tokens } = await this.oauth2Client.getToken(code);
-
-      if (!tokens.access_token) {
-        throw new UnauthorizedException('Failed to obtain access token');
-      }
-
-      const googleTokens: GoogleTokens = {
-        accessToken: tokens.access_token,
-        refreshToken: tokens.refresh_token || null,
-        expiresAt: new Date(tokens.expiry_date || Date.now() + 3600 * 1000),
-        scopes: tokens.scope?.split(' ') || GOOGLE_SCOPES,
-      };
-
-      // Get user's Google profile info
-      this.oauth2Client.setCredentials(tokens);
-      const oauth2 = google.oauth2({ version: 'v2', auth: this.oauth2Client });
-      const { data: profile } = await oauth2.userinfo.get();
-      const tenantId = this.getDefaultTenantId(userId);
-      await this.ensureTenantMembership(userId, profile.email || undefined, profile.name || undefined);
-
-      // Keep one Google connection set per user for auth-only scope.
-      const { error: deleteError } = await this.supabase.getClient()
-        .from('source_connections')
-        .delete()
-        .eq('tenant_id', tenantId)
-        .eq('user_id', userId)
-        .in('source', [...GOOGLE_SOURCES]);
-
-      if (deleteError) {
-        this.logger.error('Failed to clean existing Google connection', {
-          userId,
-          error: deleteError.message,
-        });
-        throw new Error(`Failed to prepare Google connection: ${deleteError.message}`);
-      }
-
-      const { error: insertError } = await this.supabase.getClient()
-        .from('source_connections')
-        .upsert(
-          GOOGLE_SOURCES.map(source => ({
-            tenant_id: tenantId,
-            user_id: userId,
-            source,
-            external_account_id: profile.id || profile.email || 'unknown',
-            token_json: {
-              access_token: googleTokens.accessToken,
-              refresh_token: googleTokens.refreshToken,
-              expires_at: googleTokens.expiresAt.toISOString(),
-              scopes: googleTokens.scopes,
-              profile: {
-                email: profile.email,
-                name: profile.name,
-                picture: profile.picture,
-              },
-            },
-            status: 'active',
-          })),
-          { onConflict: 'tenant_id,user_id,source,external_account_id' },
-        );
-
-      if (insertError) {
-        this.logger.error('Failed to store connected account', { error: insertError.message });
-        throw new Error(`Failed to store tokens: ${insertError.message}`);
-      }
-
-      this.posthog.capture(userId, PostHogEvents.PLATFORM_CONNECTED, {
-        platform: 'google',
-        scopeCount: googleTokens.scopes.length,
-      });
-
-      this.logger.info('Google account connected', {
-        userId,
-        email: profile.email,
-      });
-
-      return googleTokens;
-    } catch (error) {
-      this.sentry.captureException(error as Error, { userId, context: 'google_callback' });
-      this.logger.error('Google OAuth callback failed', {
-        userId,
-        error: error instanceof Error ? error.message : String(error),
-      });
-      throw error;
-    }
+    return withSpan(
+      'auth.google.callback',
+      { 'enduser.id': userId, 'kue.tenant_id': tenantId },
+      async () => {
+        try {
+          // The user may have left the workspace, or lost the right to connect
+          // sources in it, since starting the flow
+          const workspace = await this.tenants.get(userId, tenantId);
+          assertPermission(workspace.role, Permissions.SOURCES_MANAGE);
+
+          const { tokens } = await this.oauth2Client.getToken(code);
+
+          if (!tokens.access_token) {
+            throw new UnauthorizedException('Failed to obtain access token');
+          }
+
+          const googleTokens: GoogleTokens = {
+            accessToken: tokens.access_token,
+            refreshToken: tokens.refresh_token || null,
+            expiresAt: new Date(tokens.expiry_date || Date.now() + 3600 * 1000),
+            scopes: tokens.scope?.split(' ') || GOOGLE_SCOPES,
+          };
+
+          // Get user's Google profile info
+          this.oauth2Client.setCredentials(tokens);
+          const oauth2 = google.oauth2({
+            version: 'v2',
+            auth: this.oauth2Client,
+          });
+          const { data: profile } = await oauth2.userinfo.get();
+
+          // Keep one Google connection set per user for auth-only scope.
+          const { error: deleteError } = await this.supabase
+            .getClient()
+            .from('source_connections')
+            .delete()
+            .eq('tenant_id', tenantId)
+            .eq('user_id', userId)
+            .in('source', [...GOOGLE_SOURCES]);
+
+          if (deleteError) {
+            this.logger.error('Failed to clean existing Google connection', {
+              userId,
+              error: deleteError.message,
+            });
+            throw new Error(
+              `Failed to prepare Google connection: ${deleteError.message}`,
+            );
+          }
+
+          const externalAccountId = profile.id || profile.email || 'unknown';
+          const { error: insertError } = await this.supabase
+            .getClient()
+            .from('source_connections')
+            .upsert(
+              GOOGLE_SOURCES.map((source) => ({
+                tenant_id: tenantId,
+                user_id: userId,
+                source,
+                external_account_id: externalAccountId,
+                ...this.connectionTokens.seal(
+                  { tenantId, userId, source, externalAccountId },
+                  {
+                    accessToken: googleTokens.accessToken,
+                    refreshToken: googleTokens.refreshToken,
+                    expires_at: googleTokens.expiresAt.toISOString(),
+                    scopes: googleTokens.scopes,
+                    profile: {
+                      email: profile.email,
+                      name: profile.name,
+                      picture: profile.picture,
+                    },
+                  },
+                ),
+                ...this.connectionHealth.initialStatus(
+                  source,
+                  googleTokens.scopes,
+                ),
+              })),
+              { onConflict: 'tenant_id,user_id,source,external_account_id' },
+            );
+
+          if (insertError) {
+            this.logger.error('Failed to store connected account', {
+              error: insertError.message,
+            });
+            throw new Error(`Failed to store tokens: ${insertError.message}`);
+          }
+
+          this.posthog.capture(userId, PostHogEvents.PLATFORM_CONNECTED, {
+            platform: 'google',
+            scopeCount: googleTokens.scopes.length,
+          });
+
+          this.logger.info('Google account connected', {
+            userId,
+            email: profile.email,
+          });
+
+          // Backfill runs in the background so the callback returns right away.
+          await this.jobs.sourceConnected(
+            tenantId,
+            userId,
+            GOOGLE_SOURCES.filter(
+              (source) =>
+                this.connectionHealth.initialStatus(source, googleTokens.scopes)
+                  .status === 'active',
+            ),
+          );
+
+          return googleTokens;
+        } catch (error) {
+          this.sentry.captureException(error as Error, {
+            userId,
+            context: 'google_callback',
+          });
+          this.logger.error('Google OAuth callback failed', {
+            userId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          throw error;
+        }
+      },
+    );
   }
 
   /**
-   * Get a valid OAuth2 client for a user, refreshing tokens if needed
+   * Get a valid OAuth2 client for a user, refreshing tokens if they expire
+   * within `refreshWithinMs`. A refresh that fails because access was
+   * revoked moves the connections out of `active`.
    */
-  async getAuthenticatedClient(userId: string): Promise<Auth.OAuth2Client> {
-    const tenantId = this.getDefaultTenantId(userId);
-    const { data, error } = await this.supabase.getClient()
+  async getAuthenticatedClient(
+    tenantId: string,
+    userId: string,
+    options: { refreshWithinMs?: number } = {},
+  ): Promise<Auth.OAuth2Client> {
+    const { data, error } = await this.supabase
+      .getClient()
       .from('source_connections')
-      .select('*')
+      .select(GOOGLE_CONNECTION_COLUMNS)
       .eq('tenant_id', tenantId)
       .eq('user_id', userId)
       .in('source', [...GOOGLE_SOURCES])
       .eq('status', 'active')
-      .order('updated_at', { ascending: false })
-      .limit(1);
+      .order('updated_at', { ascending: false });
 
-    const account = data?.[0];
+    const rows = (data ?? []) as GoogleConnectionRow[];
+    const account = rows[0];
 
     if (error || !account) {
       throw new UnauthorizedException('Google account not connected');
@@ -408,63 +570,174 @@ export class AuthService {
       this.config.get<string>('GOOGLE_CLIENT_SECRET'),
       this.config.get<string>('GOOGLE_REDIRECT_URI'),
     );
-    const tokenJson = (account.token_json ?? {}) as {
-      access_token?: string;
-      refresh_token?: string;
-      expires_at?: string;
-    };
+    const tokens = this.connectionTokens.open(
+      this.connectionTokens.keyOf(account),
+      account.token_json,
+    );
 
     client.setCredentials({
-      access_token: tokenJson.access_token,
-      refresh_token: tokenJson.refresh_token,
+      access_token: tokens.accessToken,
+      refresh_token: tokens.refreshToken,
     });
 
-    // Check if token is expired or about to expire (within 5 min)
-    const expiresAt = tokenJson.expires_at
-      ? new Date(tokenJson.expires_at)
+    // Check if token is expired or about to expire
+    const expiresAt = tokens.expires_at
+      ? new Date(tokens.expires_at)
       : new Date(Date.now() + 60 * 60 * 1000);
-    const isExpiring = expiresAt.getTime() - Date.now() < 5 * 60 * 1000;
+    const isExpiring =
+      expiresAt.getTime() - Date.now() <
+      (options.refreshWithinMs ?? TOKEN_REFRESH_WINDOW_MS);
+
+    if (isExpiring && tokens.refreshToken) {
+      await withSpan(
+        'auth.google.refresh_tokens',
+        { 'enduser.id': userId, 'kue.tenant_id': tenantId },
+        async () => {
+          try {
+            const { credentials } = await client.refreshAccessToken();
+            const refreshed = {
+              ...tokens,
+              accessToken: credentials.access_token ?? null,
+              expires_at: new Date(
+                credentials.expiry_date || Date.now() + 3600 * 1000,
+              ).toISOString(),
+            };
+
+            // Every source shares the grant, so keep all their rows current,
+            // each re-sealed under the active key
+            for (const row of rows) {
+              const { error: updateError } = await this.supabase
+                .getClient()
+                .from('source_connections')
+                .update(
+                  this.connectionTokens.seal(
+                    this.connectionTokens.keyOf(row),
+                    refreshed,
+                  ),
+                )
+                .eq('id', row.id);
+
+              if (updateError) {
+                throw new Error(
+                  `Failed to store refreshed tokens: ${updateError.message}`,
+                );
+              }
+            }
+
+            this.logger.info('Refreshed Google tokens', { userId });
+          } catch (refreshError) {
+            const failure = await this.connectionHealth.reportFailure(
+              { tenantId, userId, sources: GOOGLE_SOURCES },
+              refreshError,
+            );
+            this.logger.error('Failed to refresh Google tokens', {
+              userId,
+              failure,
+              error:
+                refreshError instanceof Error
+                  ? refreshError.message
+                  : String(refreshError),
+            });
+            await this.audit.record({
+              action: AuditActions.GOOGLE_TOKEN_REFRESH,
+              outcome: 'failure',
+              tenantId,
+              actorId: userId,
+              metadata: { failure },
+            });
+            if (failure === 'invalid_grant' || failure === 'missing_scopes') {
+              throw new UnauthorizedException(
+                'Google tokens expired. Please re-authenticate.',
+              );
+            }
+            throw new ServiceUnavailableException(
+              'Could not refresh Google tokens. Try again later.',
+            );
+          }
+        },
+      );
+    }
 
-    if (isExpiring && tokenJson.refresh_token) {
-      try {
-        const { credentials } = await client.refreshAccessToken();
-
-        // Update stored tokens
-        const updatedTokenJson = {
-          ...tokenJson,
-          access_token: credentials.access_token,
-          expires_at: new Date(
-            credentials.expiry_date || Date.now() + 3600 * 1000,
-          ).toISOString(),
-        };
+    return client;
+  }
 
-        await this.supabase.getClient()
-          .from('source_connections')
-          .update({
-            token_json: updatedTokenJson,
-            status: 'active',
-          })
-          .eq('id', account.id);
+  /**
+   * Refresh every active Google connection whose access token expires
+   * within `withinMs`, so syncs never start with a dead token and revoked
+   * grants are noticed without waiting for the next sync.
+   */
+  async refreshExpiringConnections(
+    withinMs: number,
+  ): Promise<{ users: number; refreshed: number; failed: number }> {
+    const cutoff = new Date(Date.now() + withinMs).toISOString();
+
+    // One refresh per connected account, i.e. per user and workspace. All
+    // pages are read first: refreshing moves rows out of the filter, which
+    // would shift the offsets of later pages.
+    const accounts = new Map<string, { tenantId: string; userId: string }>();
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .getClient()
+        .from('source_connections')
+        .select('id, tenant_id, user_id')
+        .in('source', [...GOOGLE_SOURCES])
+        .eq('status', 'active')
+        .lt('token_json->>expires_at', cutoff)
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
 
-        this.logger.info('Refreshed Google tokens', { userId });
-      } catch (refreshError) {
-        this.logger.error('Failed to refresh Google tokens', {
-          userId,
-          error: refreshError instanceof Error ? refreshError.message : String(refreshError),
+      if (error) {
+        throw new Error(
+          `Failed to load expiring connections: ${error.message}`,
+        );
+      }
+
+      const rows = (data ?? []) as { tenant_id: string; user_id: string }[];
+      for (const row of rows) {
+        accounts.set(`${row.tenant_id}:${row.user_id}`, {
+          tenantId: row.tenant_id,
+          userId: row.user_id,
         });
-        throw new UnauthorizedException('Google tokens expired. Please re-authenticate.');
       }
+      if (rows.length < PAGE_SIZE) break;
     }
 
-    return client;
+    let refreshed = 0;
+    let failed = 0;
+    for (const { tenantId, userId } of accounts.values()) {
+      try {
+        await this.getAuthenticatedClient(tenantId, userId, {
+          refreshWithinMs: withinMs,
+        });
+        refreshed += 1;
+      } catch {
+        // Already classified and logged by getAuthenticatedClient
+        failed += 1;
+      }
+    }
+
+    return { users: accounts.size, refreshed, failed };
+  }
+
+  /**
+   * Google connection health for `/auth/status`
+   */
+  async getGoogleConnectionHealth(
+    tenantId: string,
+    userId: string,
+  ): Promise<ConnectionHealthSummary> {
+    return this.connectionHealth.getSummary(tenantId, userId, GOOGLE_SOURCES);
   }
 
   /**
    * Check if a user has a connected Google account
    */
-  async hasGoogleConnection(userId: string): Promise<boolean> {
-    const tenantId = this.getDefaultTenantId(userId);
-    const { data, error } = await this.supabase.getClient()
+  async hasGoogleConnection(
+    tenantId: string,
+    userId: string,
+  ): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .getClient()
       .from('source_connections')
       .select('id')
       .eq('tenant_id', tenantId)
@@ -477,71 +750,188 @@ export class AuthService {
   }
 
   /**
-   * Disconnect a Google account
+   * What disconnecting Google would touch, without changing anything: the
+   * connection rows, and the contacts and interactions a purge would delete
+   */
+  async previewGoogleDisconnect(
+    tenantId: string,
+    userId: string,
+  ): Promise<GoogleDisconnectPreview> {
+    const connections = await this.loadGoogleConnections(tenantId, userId);
+
+    const counts = await Promise.all(
+      ['contacts', 'interactions'].map(async (table) => {
+        const { count, error } = await this.supabase
+          .getClient()
+          .from(table)
+          .select('id', { count: 'exact', head: true })
+          .eq('tenant_id', tenantId)
+          .eq('user_id', userId)
+          .in('source', [...GOOGLE_SOURCES]);
+
+        if (error) {
+          throw new Error(`Failed to count ${table}: ${error.message}`);
+        }
+        return count ?? 0;
+      }),
+    );
+
+    return {
+      connections: connections.length,
+      contacts: counts[0],
+      interactions: counts[1],
+    };
+  }
+
+  /**
+   * Disconnect the user's Google account from the workspace: revoke the
+   * grant at Google, mark the connections `revoked` and delete the stored
+   * tokens. With `purge`, also queue deletion of everything synced from
+   * Google. Safe to repeat, e.g. when queueing the purge failed.
+   */
+  async disconnectGoogle(
+    tenantId: string,
+    userId: string,
+    options: { purge: boolean },
+  ): Promise<GoogleDisconnectResult> {
+    return withSpan(
+      'auth.google.disconnect',
+      { 'enduser.id': userId, 'kue.tenant_id': tenantId },
+      async () => {
+        const connections = await this.loadGoogleConnections(tenantId, userId);
+        const revokedAtGoogle = await this.revokeGoogleGrants(connections);
+
+        const { error } = await this.supabase
+          .getClient()
+          .from('source_connections')
+          .update({
+            status: 'revoked',
+            status_reason: USER_DISCONNECTED,
+            status_changed_at: new Date().toISOString(),
+            token_json: {},
+            token_key_version: null,
+          })
+          .eq('tenant_id', tenantId)
+          .eq('user_id', userId)
+          .in('source', [...GOOGLE_SOURCES]);
+
+        if (error) {
+          this.logger.error('Failed to disconnect Google', {
+            userId,
+            error: error.message,
+          });
+          throw new Error('Failed to disconnect Google account');
+        }
+
+        this.logger.info('Google account disconnected', {
+          userId,
+          tenantId,
+          revokedAtGoogle,
+          purge: options.purge,
+        });
+
+        if (options.purge) {
+          await this.jobs.requestSourcePurge(tenantId, userId, [
+            ...GOOGLE_SOURCES,
+          ]);
+        }
+
+        return {
+          connections: connections.length,
+          revokedAtGoogle,
+          purgeQueued: options.purge,
+        };
+      },
+    );
+  }
+
+  /**
+   * Every Google connection row of the user in the workspace, whatever its
+   * status; 404 when they never connected Google there
    */
-  async disconnectGoogle(userId: string): Promise<void> {
-    const tenantId = this.getDefaultTenantId(userId);
-    const { error } = await this.supabase.getClient()
+  private async loadGoogleConnections(
+    tenantId: string,
+    userId: string,
+  ): Promise<GoogleConnectionRow[]> {
+    const { data, error } = await this.supabase
+      .getClient()
       .from('source_connections')
-      .update({ status: 'revoked' })
+      .select(GOOGLE_CONNECTION_COLUMNS)
       .eq('tenant_id', tenantId)
       .eq('user_id', userId)
-      .in('source', [...GOOGLE_SOURCES]);
+      .in('source', [...GOOGLE_SOURCES])
+      .order('updated_at', { ascending: false });
 
     if (error) {
-      this.logger.error('Failed to disconnect Google', { userId, error: error.message });
-      throw new Error('Failed to disconnect Google account');
+      throw new Error(`Failed to load Google connections: ${error.message}`);
     }
-
-    this.logger.info('Google account disconnected', { userId });
-  }
-
-  private getDefaultTenantId(userId: string): string {
-    return `tenant_${userId}`;
+    if (!data?.length) {
+      throw new NotFoundException('Google account not connected');
+    }
+    return data as GoogleConnectionRow[];
   }
 
-  private async ensureTenantMembership(
-    userId: string,
-    email?: string,
-    displayName?: string,
-  ): Promise<void> {
-    const tenantId = this.getDefaultTenantId(userId);
-    const tenantName = email ? `${email.split('@')[0]}'s workspace` : 'My Workspace';
-
-    const { error: tenantError } = await this.supabase.getClient()
-      .from('tenants')
-      .upsert(
-        {
-          tenant_id: tenantId,
-          name: tenantName,
-          plan: 'free',
-          settings_json: {},
-        },
-        { onConflict: 'tenant_id' },
-      );
-
-    if (tenantError) {
-      this.logger.error('Failed to upsert tenant', { userId, error: tenantError.message });
-      throw new Error(`Failed to initialize tenant: ${tenantError.message}`);
+  /**
+   * Revoke each connected account's grant at Google, so the tokens stop
+   * working everywhere and not just here. A grant Google no longer knows
+   * counts as revoked. Returns false when stored tokens could not be read,
+   * leaving deletion of our copy as the only cut-off; any other failure
+   * throws before anything was changed, so the user can retry.
+   */
+  private async revokeGoogleGrants(
+    connections: GoogleConnectionRow[],
+  ): Promise<boolean> {
+    // Every source of an account shares one grant; rows are newest first
+    const accounts = new Map<string, GoogleConnectionRow>();
+    for (const row of connections) {
+      if (!accounts.has(row.external_account_id)) {
+        accounts.set(row.external_account_id, row);
+      }
     }
 
-    const { error: membershipError } = await this.supabase.getClient()
-      .from('tenant_users')
-      .upsert(
-        {
-          tenant_id: tenantId,
-          user_id: userId,
-          email: email || '',
-          display_name: displayName || email || 'User',
-          role: 'admin',
-          status: 'active',
-        },
-        { onConflict: 'tenant_id,user_id' },
-      );
+    let revokedAll = true;
+    for (const row of accounts.values()) {
+      let token: string | null;
+      try {
+        const tokens = this.connectionTokens.open(
+          this.connectionTokens.keyOf(row),
+          row.token_json,
+        );
+        token = tokens.refreshToken ?? tokens.accessToken;
+      } catch (openError) {
+        this.sentry.captureException(openError, {
+          userId: row.user_id,
+          context: 'google_disconnect',
+        });
+        revokedAll = false;
+        continue;
+      }
+      // Already cleared by an earlier disconnect
+      if (!token) continue;
 
-    if (membershipError) {
-      this.logger.error('Failed to upsert tenant user', { userId, error: membershipError.message });
-      throw new Error(`Failed to initialize tenant user: ${membershipError.message}`);
+      try {
+        await this.oauth2Client.revokeToken(token);
+      } catch (revokeError) {
+        if (getGoogleErrorStatus(revokeError) === 400) {
+          // invalid_token: expired or revoked by the user at Google
+          continue;
+        }
+        this.sentry.captureException(revokeError, {
+          userId: row.user_id,
+          context: 'google_disconnect',
+        });
+        this.logger.error('Failed to revoke Google grant', {
+          userId: row.user_id,
+          error:
+            revokeError instanceof Error
+              ? revokeError.message
+              : String(revokeError),
+        });
+        throw new ServiceUnavailableException(
+          'Could not revoke access at Google. Try again later.',
+        );
+      }
     }
+    return revokedAll;
   }
 }
@@ -0,0 +1,250 @@
+import { Injectable } from '@nestjs/common';
+import { SupabaseService } from '../database/supabase.service';
+import { LoggerService } from '../observability/logger.service';
+import { SentryService } from '../observability/sentry.service';
+import type {
+  SourceConnectionSource,
+  SourceConnectionStatus,
+} from '../common/types/sources';
+import {
+  getGoogleErrorStatus,
+  getGoogleErrorText,
+} from '../sync/google-errors';
+
+/**
+ * Why a call with a connection's credentials failed:
+ *
+ * - `invalid_grant`: the grant was revoked or expired; only reconnecting helps
+ * - `missing_scopes`: the user did not grant a scope the source needs
+ * - `quota`: Google rate or quota limits; retry later
+ * - `transient`: network errors, 5xx and anything unrecognized
+ */
+export type ConnectionFailure =
+  | 'invalid_grant'
+  | 'missing_scopes'
+  | 'quota'
+  | 'transient';
+
+export interface ConnectionScope {
+  tenantId: string;
+  userId: string;
+  sources: readonly SourceConnectionSource[];
+}
+
+export interface SourceHealth {
+  source: SourceConnectionSource;
+  status: SourceConnectionStatus;
+  reason: string | null;
+  statusChangedAt: string | null;
+}
+
+export interface ConnectionHealthSummary {
+  connected: boolean;
+  /** True when the user has to go through the consent flow again. */
+  needsReconnect: boolean;
+  sources: SourceHealth[];
+}
+
+/** `status_reason` of connections the user disconnected on purpose. */
+export const USER_DISCONNECTED = 'disconnected';
+
+/** Scopes each Google source needs; missing ones put the source in `error`. */
+export const REQUIRED_SCOPES: Partial<Record<SourceConnectionSource, string>> =
+  {
+    gmail: 'https://www.googleapis.com/auth/gmail.readonly',
+    google_contacts: 'https://www.googleapis.com/auth/contacts.readonly',
+    google_calendar: 'https://www.googleapis.com/auth/calendar.readonly',
+  };
+
+const QUOTA_REASONS =
+  /rateLimitExceeded|userRateLimitExceeded|quotaExceeded|RESOURCE_EXHAUSTED/;
+const SCOPE_REASONS =
+  /insufficientPermissions|ACCESS_TOKEN_SCOPE_INSUFFICIENT|insufficient authentication scopes/i;
+
+export function classifyConnectionError(error: unknown): ConnectionFailure {
+  const status = getGoogleErrorStatus(error);
+  const text = getGoogleErrorText(error);
+
+  if (/invalid_grant/.test(text) || status === 401) return 'invalid_grant';
+  if (status === 429 || QUOTA_REASONS.test(text)) return 'quota';
+  if (status === 403 && SCOPE_REASONS.test(text)) return 'missing_scopes';
+  return 'transient';
+}
+
+/**
+ * Tracks whether source connections still work. Failures that only the user
+ * can fix move connections out of `active` (so syncs stop and the frontend
+ * can prompt for a reconnect); quota and transient failures leave the status
+ * alone and are retried.
+ */
+@Injectable()
+export class ConnectionHealthService {
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly logger: LoggerService,
+    private readonly sentry: SentryService,
+  ) {}
+
+  /**
+   * Initial status columns for a source being connected with `scopes`.
+   */
+  initialStatus(
+    source: SourceConnectionSource,
+    scopes: string[],
+  ): {
+    status: SourceConnectionStatus;
+    status_reason: ConnectionFailure | null;
+    status_changed_at: string;
+  } {
+    const required = REQUIRED_SCOPES[source];
+    const missing = !!required && !scopes.includes(required);
+    return {
+      status: missing ? 'error' : 'active',
+      status_reason: missing ? 'missing_scopes' : null,
+      status_changed_at: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Classify a failure and apply the matching transition:
+   * `invalid_grant` revokes, `missing_scopes` marks the connection `error`.
+   */
+  async reportFailure(
+    scope: ConnectionScope,
+    error: unknown,
+  ): Promise<ConnectionFailure> {
+    const failure = classifyConnectionError(error);
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (failure === 'invalid_grant') {
+      await this.transition(scope, 'revoked', failure);
+    } else if (failure === 'missing_scopes') {
+      await this.transition(scope, 'error', failure);
+    }
+
+    this.logger.warn('Source connection failure', {
+      userId: scope.userId,
+      sources: scope.sources,
+      failure,
+      error: message,
+    });
+    return failure;
+  }
+
+  async getSummary(
+    tenantId: string,
+    userId: string,
+    sources: readonly SourceConnectionSource[],
+  ): Promise<ConnectionHealthSummary> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('source_connections')
+      .select('source, status, status_reason, status_changed_at, updated_at')
+      .eq('tenant_id', tenantId)
+      .eq('user_id', userId)
+      .in('source', [...sources])
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load source connections: ${error.message}`);
+    }
+
+    // Newest row per source wins.
+    const bySource = new Map<SourceConnectionSource, SourceHealth>();
+    for (const row of (data ?? []) as {
+      source: SourceConnectionSource;
+      status: SourceConnectionStatus;
+      status_reason: string | null;
+      status_changed_at: string | null;
+    }[]) {
+      if (bySource.has(row.source)) continue;
+      bySource.set(row.source, {
+        source: row.source,
+        status: row.status,
+        reason: row.status_reason,
+        statusChangedAt: row.status_changed_at,
+      });
+    }
+
+    const health = [...bySource.values()];
+    return {
+      connected: health.some((source) => source.status === 'active'),
+      needsReconnect: health.some(
+        (source) =>
+          (source.status === 'revoked' &&
+            source.reason !== USER_DISCONNECTED) ||
+          (source.status === 'error' && source.reason === 'missing_scopes'),
+      ),
+      sources: health,
+    };
+  }
+
+  private async transition(
+    scope: ConnectionScope,
+    status: SourceConnectionStatus,
+    reason: ConnectionFailure,
+  ): Promise<void> {
+    let query = this.supabase
+      .getClient()
+      .from('source_connections')
+      .update({
+        status,
+        status_reason: reason,
+        status_changed_at: new Date().toISOString(),
+      })
+      .eq('tenant_id', scope.tenantId)
+      .eq('user_id', scope.userId)
+      .eq('status', 'active');
+
+    // A revoked grant takes down every source connected through the same
+    // account, not just the one that noticed.
+    const accounts =
+      reason === 'invalid_grant' ? await this.accountsOf(scope) : [];
+    query = accounts.length
+      ? query.in('external_account_id', accounts)
+      : query.in('source', [...scope.sources]);
+
+    const { error } = await query;
+
+    if (error) {
+      // The caller is already failing; losing the transition only delays
+      // it until the next failure.
+      this.sentry.captureException(error, {
+        userId: scope.userId,
+        context: 'connection_health',
+      });
+      this.logger.error('Failed to update connection status', {
+        userId: scope.userId,
+        status,
+        error: error.message,
+      });
+      return;
+    }
+
+    this.logger.info('Source connection status changed', {
+      userId: scope.userId,
+      sources: scope.sources,
+      status,
+      reason,
+    });
+  }
+
+  private async accountsOf(scope: ConnectionScope): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('source_connections')
+      .select('external_account_id')
+      .eq('tenant_id', scope.tenantId)
+      .eq('user_id', scope.userId)
+      .in('source', [...scope.sources]);
+
+    if (error) return [];
+    return [
+      ...new Set(
+        ((data ?? []) as { external_account_id: string }[]).map(
+          (row) => row.external_account_id,
+        ),
+      ),
+    ];
+  }
+}
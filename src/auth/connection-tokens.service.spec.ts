@@ -0,0 +1,180 @@
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { randomBytes } from 'crypto';
+import { SupabaseService } from '../database/supabase.service';
+import { LoggerService } from '../observability/logger.service';
+import { TEST_TENANT_ID, TEST_USER_ID } from '../testing/factories';
+import { FakeSupabase } from '../testing/fake-supabase';
+import { ConnectionTokensService } from './connection-tokens.service';
+import type { ConnectionTokenKey } from './connection-tokens.service';
+
+const OLD_KEYS = `k1:${randomBytes(32).toString('base64')}`;
+const NEW_KEYS = `k2:${randomBytes(32).toString('base64')},${OLD_KEYS}`;
+const RETIRED_KEYS = `k0:${randomBytes(32).toString('base64')}`;
+
+const TOKENS = {
+  accessToken: 'ya29.access',
+  refreshToken: '1//refresh',
+  expires_at: '2026-06-01T00:00:00.000Z',
+  scopes: ['gmail.readonly'],
+};
+
+function keyFor(externalAccountId: string): ConnectionTokenKey {
+  return {
+    tenantId: TEST_TENANT_ID,
+    userId: TEST_USER_ID,
+    source: 'gmail',
+    externalAccountId,
+  };
+}
+
+describe('ConnectionTokensService', () => {
+  let supabase: FakeSupabase;
+  let warn: jest.Mock;
+
+  async function build(keys: string): Promise<ConnectionTokensService> {
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        ConnectionTokensService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (name: string) =>
+              name === 'TOKEN_ENCRYPTION_KEYS' ? keys : undefined,
+          },
+        },
+        { provide: SupabaseService, useValue: supabase.service() },
+        { provide: LoggerService, useValue: { info: jest.fn(), warn } },
+      ],
+    }).compile();
+    return moduleRef.get(ConnectionTokensService);
+  }
+
+  function connectionRow(
+    id: string,
+    columns: { token_json: unknown; token_key_version: string | null },
+  ) {
+    const key = keyFor(`${id}@example.com`);
+    return {
+      id,
+      tenant_id: key.tenantId,
+      user_id: key.userId,
+      source: key.source,
+      external_account_id: key.externalAccountId,
+      updated_at: '2026-01-01T00:00:00.000Z',
+      ...columns,
+    };
+  }
+
+  beforeEach(() => {
+    supabase = new FakeSupabase();
+    warn = jest.fn();
+  });
+
+  it('opens the tokens it sealed and keeps metadata readable', async () => {
+    const service = await build(OLD_KEYS);
+    const key = keyFor('jane@example.com');
+
+    const sealed = service.seal(key, TOKENS);
+
+    expect(sealed.token_key_version).toBe('k1');
+    expect(sealed.token_json).toMatchObject({
+      expires_at: TOKENS.expires_at,
+      scopes: TOKENS.scopes,
+    });
+    expect(JSON.stringify(sealed.token_json)).not.toContain(
+      TOKENS.refreshToken,
+    );
+    expect(service.open(key, sealed.token_json)).toEqual(TOKENS);
+  });
+
+  it('rejects tokens copied onto another connection', async () => {
+    const service = await build(OLD_KEYS);
+    const { token_json } = service.seal(keyFor('jane@example.com'), TOKENS);
+
+    expect(() => service.open(keyFor('bob@example.com'), token_json)).toThrow();
+  });
+
+  it('rejects tokens sealed with a key that is not configured', async () => {
+    const retired = await build(RETIRED_KEYS);
+    const key = keyFor('jane@example.com');
+    const { token_json } = retired.seal(key, TOKENS);
+
+    const service = await build(NEW_KEYS);
+
+    expect(() => service.open(key, token_json)).toThrow(
+      'Token encryption key "k0" is not configured',
+    );
+  });
+
+  it('reads legacy plaintext rows', async () => {
+    const service = await build(NEW_KEYS);
+
+    expect(
+      service.open(keyFor('jane@example.com'), {
+        access_token: TOKENS.accessToken,
+        refresh_token: TOKENS.refreshToken,
+        expires_at: TOKENS.expires_at,
+      }),
+    ).toEqual({
+      accessToken: TOKENS.accessToken,
+      refreshToken: TOKENS.refreshToken,
+      expires_at: TOKENS.expires_at,
+    });
+  });
+
+  it('brings every row under the rotated key and skips the ones it cannot read', async () => {
+    const previous = await build(OLD_KEYS);
+    const retired = await build(RETIRED_KEYS);
+    supabase.seed('source_connections', [
+      connectionRow('c1', previous.seal(keyFor('c1@example.com'), TOKENS)),
+      connectionRow('c2', retired.seal(keyFor('c2@example.com'), TOKENS)),
+      connectionRow('c3', {
+        token_json: {
+          access_token: TOKENS.accessToken,
+          refresh_token: TOKENS.refreshToken,
+        },
+        token_key_version: null,
+      }),
+      connectionRow('c4', { token_json: {}, token_key_version: null }),
+    ]);
+
+    const service = await build(NEW_KEYS);
+    const result = await service.reencryptAll();
+
+    expect(result).toEqual({
+      scanned: 4,
+      reencrypted: 2,
+      conflicts: 0,
+      failed: 1,
+    });
+    const rows = supabase.rows('source_connections');
+    expect(rows.map((row) => [row.id, row.token_key_version])).toEqual([
+      ['c1', 'k2'],
+      ['c2', 'k0'],
+      ['c3', 'k2'],
+      ['c4', null],
+    ]);
+    for (const id of ['c1', 'c3']) {
+      const row = rows.find((candidate) => candidate.id === id)!;
+      expect(
+        service.open(keyFor(`${id}@example.com`), row.token_json),
+      ).toMatchObject({
+        accessToken: TOKENS.accessToken,
+        refreshToken: TOKENS.refreshToken,
+      });
+    }
+    expect(warn).toHaveBeenCalledWith(
+      'Token re-encryption failed for a connection',
+      expect.objectContaining({ connectionId: 'c2' }),
+    );
+
+    // A second run only revisits the rows it could not move.
+    expect(await service.reencryptAll()).toEqual({
+      scanned: 2,
+      reencrypted: 0,
+      conflicts: 0,
+      failed: 1,
+    });
+  });
+});
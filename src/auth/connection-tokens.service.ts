@@ -0,0 +1,308 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseService } from '../database/supabase.service';
+import { LoggerService } from '../observability/logger.service';
+import {
+  isTokenEnvelope,
+  openEnvelope,
+  parseKeyring,
+  rewrapEnvelope,
+  sealEnvelope,
+} from './token-envelope';
+import type { Keyring, TokenEnvelope } from './token-envelope';
+
+/**
+ * Identifies the connection row a token belongs to; bound into the
+ * ciphertext so it cannot be replayed onto another row.
+ */
+export interface ConnectionTokenKey {
+  tenantId: string;
+  userId: string;
+  source: string;
+  externalAccountId: string;
+}
+
+export interface ConnectionSecrets {
+  accessToken: string | null;
+  refreshToken: string | null;
+}
+
+/** Non-secret fields kept readable in `token_json`. */
+export interface ConnectionTokenMetadata {
+  expires_at?: string;
+  scopes?: string[];
+  profile?: Record<string, unknown>;
+}
+
+export type ConnectionTokens = ConnectionSecrets & ConnectionTokenMetadata;
+
+/**
+ * `token_json` as stored. Encrypted rows carry the secrets in `secret`;
+ * rows written before encryption still have them in plaintext.
+ */
+interface StoredTokenJson extends ConnectionTokenMetadata {
+  secret?: TokenEnvelope;
+  access_token?: string | null;
+  refresh_token?: string | null;
+}
+
+interface ConnectionTokenRow {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  source: string;
+  external_account_id: string;
+  token_json: StoredTokenJson | null;
+  token_key_version: string | null;
+  updated_at: string;
+}
+
+export interface ReencryptResult {
+  scanned: number;
+  reencrypted: number;
+  /** Rows changed by someone else while the job ran; the next run retries. */
+  conflicts: number;
+  /** Rows that could not be resealed or stored; logged by id. */
+  failed: number;
+}
+
+const REENCRYPT_PAGE_SIZE = 200;
+
+@Injectable()
+export class ConnectionTokensService implements OnModuleInit {
+  private readonly keyring: Keyring | null;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly supabase: SupabaseService,
+    private readonly logger: LoggerService,
+  ) {
+    this.keyring = parseKeyring(
+      this.config.get<string>('TOKEN_ENCRYPTION_KEYS'),
+    );
+  }
+
+  onModuleInit() {
+    if (this.keyring) return;
+    if (this.config.get<string>('NODE_ENV') === 'production') {
+      throw new Error('TOKEN_ENCRYPTION_KEYS is required in production');
+    }
+    this.logger.warn(
+      'TOKEN_ENCRYPTION_KEYS is not set; OAuth tokens are stored unencrypted',
+    );
+  }
+
+  isEncryptionEnabled(): boolean {
+    return !!this.keyring;
+  }
+
+  /**
+   * The `token_json` and `token_key_version` columns for a connection.
+   */
+  seal(
+    key: ConnectionTokenKey,
+    tokens: ConnectionTokens,
+  ): { token_json: StoredTokenJson; token_key_version: string | null } {
+    const { accessToken, refreshToken, ...metadata } = tokens;
+
+    if (!this.keyring) {
+      return {
+        token_json: {
+          ...metadata,
+          access_token: accessToken,
+          refresh_token: refreshToken,
+        },
+        token_key_version: null,
+      };
+    }
+
+    const secret = sealEnvelope(
+      JSON.stringify({ accessToken, refreshToken }),
+      this.keyring,
+      this.aad(key),
+    );
+    return {
+      token_json: { ...metadata, secret },
+      token_key_version: secret.kid,
+    };
+  }
+
+  /**
+   * Decrypt a stored `token_json`, accepting legacy plaintext rows.
+   */
+  open(key: ConnectionTokenKey, tokenJson: unknown): ConnectionTokens {
+    const stored = (tokenJson ?? {}) as StoredTokenJson;
+    const { secret, access_token, refresh_token, ...metadata } = stored;
+
+    if (!secret) {
+      return {
+        ...metadata,
+        accessToken: access_token ?? null,
+        refreshToken: refresh_token ?? null,
+      };
+    }
+    if (!isTokenEnvelope(secret)) {
+      throw new Error('Unrecognized token envelope');
+    }
+    if (!this.keyring) {
+      throw new Error(
+        'Stored tokens are encrypted but TOKEN_ENCRYPTION_KEYS is not set',
+      );
+    }
+
+    const secrets = JSON.parse(
+      openEnvelope(secret, this.keyring, this.aad(key)),
+    ) as ConnectionSecrets;
+    return {
+      ...metadata,
+      accessToken: secrets.accessToken ?? null,
+      refreshToken: secrets.refreshToken ?? null,
+    };
+  }
+
+  keyOf(row: {
+    tenant_id: string;
+    user_id: string;
+    source: string;
+    external_account_id: string;
+  }): ConnectionTokenKey {
+    return {
+      tenantId: row.tenant_id,
+      userId: row.user_id,
+      source: row.source,
+      externalAccountId: row.external_account_id,
+    };
+  }
+
+  /**
+   * Bring every connection under the active master key: rewrap data keys
+   * sealed with an older key and encrypt legacy plaintext rows. Rows are
+   * only written if unchanged since they were read, so a concurrent token
+   * refresh is never overwritten.
+   */
+  async reencryptAll(): Promise<ReencryptResult> {
+    const keyring = this.keyring;
+    if (!keyring) {
+      throw new Error('TOKEN_ENCRYPTION_KEYS is not set');
+    }
+
+    const result: ReencryptResult = {
+      scanned: 0,
+      reencrypted: 0,
+      conflicts: 0,
+      failed: 0,
+    };
+    let lastId: string | null = null;
+
+    for (;;) {
+      let query = this.supabase
+        .getClient()
+        .from('source_connections')
+        .select(
+          'id, tenant_id, user_id, source, external_account_id, token_json, token_key_version, updated_at',
+        )
+        .or(
+          `token_key_version.is.null,token_key_version.neq.${keyring.activeKid}`,
+        );
+      if (lastId) {
+        query = query.gt('id', lastId);
+      }
+
+      const { data, error } = await query
+        .order('id', { ascending: true })
+        .limit(REENCRYPT_PAGE_SIZE);
+
+      if (error) {
+        throw new Error(`Failed to load source connections: ${error.message}`);
+      }
+
+      const rows = (data ?? []) as ConnectionTokenRow[];
+      for (const row of rows) {
+        result.scanned += 1;
+        try {
+          const outcome = await this.reencryptRow(row, keyring);
+          if (outcome) result[outcome] += 1;
+        } catch (rowError) {
+          // One unreadable row (say, sealed with a key no longer in the
+          // keyring) must not keep every other row on the old key.
+          result.failed += 1;
+          this.logger.warn('Token re-encryption failed for a connection', {
+            connectionId: row.id,
+            error:
+              rowError instanceof Error ? rowError.message : String(rowError),
+          });
+        }
+      }
+
+      if (rows.length < REENCRYPT_PAGE_SIZE) break;
+      lastId = rows[rows.length - 1].id;
+    }
+
+    this.logger.info('Token re-encryption completed', {
+      activeKeyVersion: keyring.activeKid,
+      ...result,
+    });
+    return result;
+  }
+
+  /**
+   * Reseal one row and store it if unchanged since it was read. Returns
+   * null when the row holds no secrets.
+   */
+  private async reencryptRow(
+    row: ConnectionTokenRow,
+    keyring: Keyring,
+  ): Promise<'reencrypted' | 'conflicts' | null> {
+    const sealed = this.reseal(row, keyring);
+    if (!sealed) return null;
+
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('source_connections')
+      .update(sealed)
+      .eq('id', row.id)
+      .eq('updated_at', row.updated_at)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to store re-encrypted tokens: ${error.message}`);
+    }
+    return data?.length ? 'reencrypted' : 'conflicts';
+  }
+
+  /**
+   * The new column values for a row, or null when it holds no secrets.
+   */
+  private reseal(
+    row: ConnectionTokenRow,
+    keyring: Keyring,
+  ): { token_json: StoredTokenJson; token_key_version: string } | null {
+    const key = this.keyOf(row);
+    const stored = row.token_json ?? {};
+
+    if (stored.secret) {
+      const secret = rewrapEnvelope(stored.secret, keyring, this.aad(key));
+      return {
+        token_json: { ...stored, secret },
+        token_key_version: secret.kid,
+      };
+    }
+    if (!stored.access_token && !stored.refresh_token) return null;
+
+    const sealed = this.seal(key, this.open(key, stored));
+    return {
+      token_json: sealed.token_json,
+      token_key_version: keyring.activeKid,
+    };
+  }
+
+  private aad(key: ConnectionTokenKey): string {
+    return [
+      'source_connections',
+      key.tenantId,
+      key.userId,
+      key.source,
+      key.externalAccountId,
+    ].join(':');
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Permissions } from '../../tenants/permissions';
+import type { Permission } from '../../tenants/permissions';
+
+export class CreateApiKeyDto {
+  @ApiProperty({
+    description: 'Name to recognise the key by',
+    example: 'Data team notebook',
+    maxLength: 100,
+  })
+  @IsString()
+  @Matches(/\S/, { message: 'name must not be blank' })
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Permissions the key may use; your role must grant each one',
+    enum: Object.values(Permissions),
+    isArray: true,
+    default: [Permissions.NETWORK_READ],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(Object.values(Permissions), { each: true })
+  @IsOptional()
+  scopes: Permission[] = [Permissions.NETWORK_READ];
+
+  @ApiPropertyOptional({
+    description: 'Days until the key expires',
+    default: 90,
+    minimum: 1,
+    maximum: 365,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  @IsOptional()
+  expiresInDays: number = 90;
+}
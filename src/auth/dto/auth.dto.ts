@@ -1,63 +1,131 @@
-import { IsEmail, IsNotEmpty, IsString, Length, IsOptional } from 'class-validator';
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsString,
+  Length,
+  IsOptional,
+  IsIn,
+  IsBoolean,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
 
+export const SESSION_MODES = ['cookie', 'token'] as const;
+export type SessionMode = (typeof SESSION_MODES)[number];
+
 export class SendOtpDto {
-    @ApiProperty({
-        description: 'User email address',
-        example: 'user@example.com',
-    })
-    @IsEmail()
-    @IsNotEmpty()
-    email: string;
+  @ApiProperty({
+    description: 'User email address',
+    example: 'user@example.com',
+  })
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
 }
 
 export class VerifyOtpDto {
-    @ApiProperty({
-        description: 'User email address',
-        example: 'user@example.com',
-    })
-    @IsEmail()
-    @IsNotEmpty()
-    email: string;
-
-    @ApiProperty({
-        description: '6-digit verification code',
-        example: '123456',
-        minLength: 6,
-        maxLength: 6,
-    })
-    @IsString()
-    @IsNotEmpty()
-    @Length(6, 6, { message: 'Code must be exactly 6 digits' })
-    code: string;
+  @ApiProperty({
+    description: 'User email address',
+    example: 'user@example.com',
+  })
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
+
+  @ApiProperty({
+    description: '6-digit verification code',
+    example: '123456',
+    minLength: 6,
+    maxLength: 6,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Length(6, 6, { message: 'Code must be exactly 6 digits' })
+  code: string;
+
+  @ApiProperty({
+    description:
+      'cookie (default) sets the session cookie; token returns an access and refresh token instead',
+    enum: SESSION_MODES,
+    required: false,
+  })
+  @IsIn(SESSION_MODES)
+  @IsOptional()
+  session_mode?: SessionMode;
 }
 
 export class CheckEmailDto {
-    @ApiProperty({
-        description: 'Email address to check',
-        example: 'user@example.com',
-    })
-    @IsEmail()
-    @IsNotEmpty()
-    email: string;
+  @ApiProperty({
+    description: 'Email address to check',
+    example: 'user@example.com',
+  })
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
 }
 
 export class ExchangeSessionDto {
-    @ApiProperty({
-        description: 'Supabase access token',
-        example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
-    })
-    @IsString()
-    @IsNotEmpty()
-    access_token: string;
-
-    @ApiProperty({
-        description: 'Supabase refresh token (optional)',
-        example: '43c4w34...',
-        required: false,
-    })
-    @IsString()
-    @IsNotEmpty() // IsNotEmpty checks that if present, it's not empty string
-    @IsOptional()
-    refresh_token?: string;
+  @ApiProperty({
+    description: 'Supabase access token',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  access_token: string;
+
+  @ApiProperty({
+    description: 'Supabase refresh token (optional)',
+    example: '43c4w34...',
+    required: false,
+  })
+  @IsString()
+  @IsNotEmpty() // IsNotEmpty checks that if present, it's not empty string
+  @IsOptional()
+  refresh_token?: string;
+
+  @ApiProperty({
+    description:
+      'cookie (default) sets the session cookie; token returns an access and refresh token instead',
+    enum: SESSION_MODES,
+    required: false,
+  })
+  @IsIn(SESSION_MODES)
+  @IsOptional()
+  session_mode?: SessionMode;
+}
+
+export class RefreshSessionDto {
+  @ApiProperty({
+    description: 'Refresh token from the last token-mode sign-in or refresh',
+    example: 'q3V9m1kz0c7Q...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  refresh_token: string;
+}
+
+/** Query flags arrive as strings; only `true` turns one on. */
+const toBoolean = ({ value }: { value: unknown }) =>
+  value === true || value === 'true';
+
+export class DisconnectGoogleQueryDto {
+  @ApiProperty({
+    description: 'Also delete the contacts and interactions synced from Google',
+    required: false,
+    default: false,
+  })
+  @Transform(toBoolean)
+  @IsBoolean()
+  @IsOptional()
+  purge: boolean = false;
+
+  @ApiProperty({
+    description: 'Only report what would be disconnected and deleted',
+    required: false,
+    default: false,
+  })
+  @Transform(toBoolean)
+  @IsBoolean()
+  @IsOptional()
+  dryRun: boolean = false;
 }
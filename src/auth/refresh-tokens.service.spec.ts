@@ -0,0 +1,146 @@
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { createHash } from 'crypto';
+import { AuditService } from '../audit/audit.service';
+import { AuditActions } from '../audit/audit.types';
+import { SupabaseService } from '../database/supabase.service';
+import { LoggerService } from '../observability/logger.service';
+import { SentryService } from '../observability/sentry.service';
+import { TEST_USER_ID as USER_ID } from '../testing/factories';
+import { FakeSupabase } from '../testing/fake-supabase';
+import {
+  REFRESH_TOKEN_TTL_SECONDS,
+  RefreshTokensService,
+} from './refresh-tokens.service';
+import { UserSessionsService } from './user-sessions.service';
+
+const SESSION_ID = 'session-1';
+
+describe('RefreshTokensService', () => {
+  let supabase: FakeSupabase;
+  let sessions: {
+    findActive: jest.Mock;
+    extend: jest.Mock;
+    revoke: jest.Mock;
+  };
+  let audit: { record: jest.Mock };
+  let service: RefreshTokensService;
+
+  beforeEach(async () => {
+    supabase = new FakeSupabase().withDefaults('refresh_tokens', () => ({
+      used_at: null,
+      revoked_at: null,
+    }));
+    sessions = {
+      findActive: jest
+        .fn()
+        .mockResolvedValue({ id: SESSION_ID, tenant_id: 'tenant-1' }),
+      extend: jest.fn().mockResolvedValue(undefined),
+      revoke: jest.fn().mockResolvedValue(undefined),
+    };
+    audit = { record: jest.fn().mockResolvedValue(undefined) };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        RefreshTokensService,
+        { provide: SupabaseService, useValue: supabase.service() },
+        { provide: UserSessionsService, useValue: sessions },
+        {
+          provide: LoggerService,
+          useValue: { warn: jest.fn(), error: jest.fn() },
+        },
+        { provide: SentryService, useValue: { captureException: jest.fn() } },
+        { provide: AuditService, useValue: audit },
+      ],
+    }).compile();
+    service = moduleRef.get(RefreshTokensService);
+  });
+
+  function tokenRow(token: string) {
+    const hash = createHash('sha256').update(token).digest('hex');
+    return supabase
+      .rows('refresh_tokens')
+      .find((row) => row.token_hash === hash)!;
+  }
+
+  it('rotates a token into the same family and marks it used', async () => {
+    const first = await service.issue(USER_ID, SESSION_ID);
+
+    const next = await service.rotate(first.token);
+
+    expect(next).toMatchObject({ userId: USER_ID, sessionId: SESSION_ID });
+    expect(next.token).not.toBe(first.token);
+    expect(tokenRow(first.token).used_at).toEqual(expect.any(String));
+    expect(tokenRow(next.token)).toMatchObject({
+      session_id: SESSION_ID,
+      parent_id: tokenRow(first.token).id,
+      used_at: null,
+    });
+    expect(sessions.extend).toHaveBeenCalledWith(
+      SESSION_ID,
+      REFRESH_TOKEN_TTL_SECONDS,
+    );
+  });
+
+  it('revokes the family and the session when a token is replayed', async () => {
+    const first = await service.issue(USER_ID, SESSION_ID);
+    const next = await service.rotate(first.token);
+
+    await expect(service.rotate(first.token)).rejects.toThrow(
+      new UnauthorizedException('Refresh token reuse detected'),
+    );
+
+    expect(
+      supabase.rows('refresh_tokens').map((row) => row.revoked_at),
+    ).toEqual([expect.any(String), expect.any(String)]);
+    expect(sessions.revoke).toHaveBeenCalledWith(
+      USER_ID,
+      SESSION_ID,
+      'refresh_reuse',
+    );
+    expect(audit.record).toHaveBeenCalledWith({
+      action: AuditActions.REFRESH_TOKEN_REUSED,
+      outcome: 'failure',
+      actorId: USER_ID,
+      metadata: { sessionId: SESSION_ID },
+    });
+    await expect(service.rotate(next.token)).rejects.toThrow(
+      new UnauthorizedException('Invalid refresh token'),
+    );
+  });
+
+  it('still rejects a replay when the session is already gone', async () => {
+    const first = await service.issue(USER_ID, SESSION_ID);
+    await service.rotate(first.token);
+    sessions.revoke.mockRejectedValue(new NotFoundException());
+
+    await expect(service.rotate(first.token)).rejects.toThrow(
+      new UnauthorizedException('Refresh token reuse detected'),
+    );
+  });
+
+  it('rejects an expired token', async () => {
+    const first = await service.issue(USER_ID, SESSION_ID);
+    tokenRow(first.token).expires_at = '2020-01-01T00:00:00.000Z';
+
+    await expect(service.rotate(first.token)).rejects.toThrow(
+      new UnauthorizedException('Refresh token expired'),
+    );
+    expect(tokenRow(first.token).used_at).toBeNull();
+  });
+
+  it('rejects an unknown token', async () => {
+    await expect(service.rotate('not-a-token')).rejects.toThrow(
+      new UnauthorizedException('Invalid refresh token'),
+    );
+  });
+
+  it('rejects a token whose session was revoked', async () => {
+    const first = await service.issue(USER_ID, SESSION_ID);
+    sessions.findActive.mockResolvedValue(null);
+
+    await expect(service.rotate(first.token)).rejects.toThrow(
+      new UnauthorizedException('Session has been revoked'),
+    );
+  });
+});
@@ -0,0 +1,173 @@
+import {
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { AuditService } from '../audit/audit.service';
+import { AuditActions } from '../audit/audit.types';
+import { SupabaseService } from '../database/supabase.service';
+import { LoggerService } from '../observability/logger.service';
+import { SentryService } from '../observability/sentry.service';
+import { UserSessionsService } from './user-sessions.service';
+
+interface RefreshTokenRow {
+  id: string;
+  session_id: string;
+  user_id: string;
+  expires_at: string;
+  used_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface IssuedRefreshToken {
+  userId: string;
+  sessionId: string;
+  token: string;
+  expiresAt: string;
+}
+
+/** Lifetime of a refresh token; each rotation extends the session to match. */
+export const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+const TOKEN_BYTES = 32;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Opaque, single-use refresh tokens for token sessions. Every refresh
+ * rotates the token; the tokens rotated out of one login form a family
+ * keyed by its `user_sessions` row. Replaying a token that was already
+ * rotated means it leaked, so the whole family is revoked.
+ */
+@Injectable()
+export class RefreshTokensService {
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly userSessions: UserSessionsService,
+    private readonly logger: LoggerService,
+    private readonly sentry: SentryService,
+    private readonly audit: AuditService,
+  ) {}
+
+  async issue(
+    userId: string,
+    sessionId: string,
+    parentId?: string,
+  ): Promise<IssuedRefreshToken> {
+    const token = randomBytes(TOKEN_BYTES).toString('base64url');
+    const expiresAt = new Date(
+      Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000,
+    ).toISOString();
+
+    const { error } = await this.supabase
+      .getClient()
+      .from('refresh_tokens')
+      .insert({
+        session_id: sessionId,
+        user_id: userId,
+        token_hash: hashToken(token),
+        parent_id: parentId ?? null,
+        expires_at: expiresAt,
+      });
+
+    if (error) {
+      throw new Error(`Failed to issue refresh token: ${error.message}`);
+    }
+    return { userId, sessionId, token, expiresAt };
+  }
+
+  /**
+   * Exchange a refresh token for its successor.
+   */
+  async rotate(token: string): Promise<IssuedRefreshToken> {
+    const { data: row, error } = await this.supabase
+      .getClient()
+      .from('refresh_tokens')
+      .select('id, session_id, user_id, expires_at, used_at, revoked_at')
+      .eq('token_hash', hashToken(token))
+      .maybeSingle<RefreshTokenRow>();
+
+    if (error) {
+      throw new Error(`Failed to load refresh token: ${error.message}`);
+    }
+    if (!row || row.revoked_at) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+    if (row.used_at) {
+      await this.revokeFamily(row);
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+    if (new Date(row.expires_at).getTime() <= Date.now()) {
+      throw new UnauthorizedException('Refresh token expired');
+    }
+    if (!(await this.userSessions.findActive(row.user_id, row.session_id))) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    // Only one caller can flip `used_at`; whoever loses the race presented
+    // a token that was already rotated.
+    const { data: claimed, error: claimError } = await this.supabase
+      .getClient()
+      .from('refresh_tokens')
+      .update({ used_at: new Date().toISOString() })
+      .eq('id', row.id)
+      .is('used_at', null)
+      .select('id');
+
+    if (claimError) {
+      throw new Error(`Failed to rotate refresh token: ${claimError.message}`);
+    }
+    if (!claimed?.length) {
+      await this.revokeFamily(row);
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+
+    const next = await this.issue(row.user_id, row.session_id, row.id);
+    await this.userSessions.extend(row.session_id, REFRESH_TOKEN_TTL_SECONDS);
+    return next;
+  }
+
+  private async revokeFamily(row: RefreshTokenRow): Promise<void> {
+    this.logger.warn('Refresh token reuse detected; revoking session', {
+      userId: row.user_id,
+      sessionId: row.session_id,
+    });
+    this.sentry.captureException(new Error('Refresh token reuse detected'), {
+      userId: row.user_id,
+      context: 'refresh_token_reuse',
+    });
+    await this.audit.record({
+      action: AuditActions.REFRESH_TOKEN_REUSED,
+      outcome: 'failure',
+      actorId: row.user_id,
+      metadata: { sessionId: row.session_id },
+    });
+
+    const { error } = await this.supabase
+      .getClient()
+      .from('refresh_tokens')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('session_id', row.session_id)
+      .is('revoked_at', null);
+
+    if (error) {
+      this.logger.error('Failed to revoke refresh tokens', {
+        sessionId: row.session_id,
+        error: error.message,
+      });
+    }
+
+    try {
+      await this.userSessions.revoke(
+        row.user_id,
+        row.session_id,
+        'refresh_reuse',
+      );
+    } catch (revokeError) {
+      // Already revoked, e.g. by an earlier replay
+      if (!(revokeError instanceof NotFoundException)) throw revokeError;
+    }
+  }
+}
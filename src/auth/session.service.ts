@@ -1,126 +1,368 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as jwt from 'jsonwebtoken';
 import type { SignOptions } from 'jsonwebtoken';
+import { SupabaseService } from '../database/supabase.service';
 import { LoggerService } from '../observability/logger.service';
+import { withSpan } from '../observability/tracer';
+import { UserSessionsService } from './user-sessions.service';
+import type { SessionClient } from './user-sessions.service';
+import {
+  RefreshTokensService,
+  REFRESH_TOKEN_TTL_SECONDS,
+} from './refresh-tokens.service';
+import type { IssuedRefreshToken } from './refresh-tokens.service';
 
 export interface SessionPayload {
-    sub: string; // Supabase user ID
-    email: string;
-    name?: string;
-    avatar_url?: string;
-    purpose?: string;
-    iat?: number;
-    exp?: number;
+  sub: string; // Supabase user ID
+  sid?: string; // user_sessions row id
+  tid?: string; // tenant id (Google connect state only)
+  email: string;
+  name?: string;
+  avatar_url?: string;
+  purpose?: string;
+  typ?: 'access'; // set on token-session access tokens, absent on cookies
+  iat?: number;
+  exp?: number;
 }
 
 export interface SessionUser {
-    id: string;
-    email: string;
-    name?: string;
-    avatar_url?: string;
+  id: string;
+  email: string;
+  name?: string;
+  avatar_url?: string;
 }
 
+export interface VerifiedSession extends SessionUser {
+  sessionId: string;
+  /** Workspace stored on the session; set once the registry was checked. */
+  tenantId?: string | null;
+}
+
+/** Token-session credentials, returned in the response body instead of a cookie. */
+export interface SessionTokens {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  refresh_token: string;
+  refresh_expires_in: number;
+  session_id: string;
+}
+
+/** Lifetime of a session, shared by the JWT, its registry row and the cookie. */
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+/** Lifetime of a token-session access token; refresh tokens renew it. */
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
 @Injectable()
 export class SessionService {
-    private readonly secret: string;
-    private readonly expiresIn: string = '7d';
-    private readonly oauthStateExpiresIn: string = '10m';
-
-    constructor(
-        private readonly config: ConfigService,
-        private readonly logger: LoggerService,
-    ) {
-        const secretValue = this.config.get<string>('SESSION_SECRET');
-        if (!secretValue) {
-            throw new Error('SESSION_SECRET is not configured');
-        }
-        this.secret = secretValue;
+  private readonly secret: string;
+  private readonly oauthStateExpiresIn: string = '10m';
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly logger: LoggerService,
+    private readonly userSessions: UserSessionsService,
+    private readonly refreshTokens: RefreshTokensService,
+    private readonly supabase: SupabaseService,
+  ) {
+    const secretValue = this.config.get<string>('SESSION_SECRET');
+    if (!secretValue) {
+      throw new Error('SESSION_SECRET is not configured');
     }
+    this.secret = secretValue;
+  }
+
+  /**
+   * Record a new session and issue its token (JWT)
+   */
+  async startSession(
+    user: SessionUser,
+    client: SessionClient,
+  ): Promise<string> {
+    const session = await this.userSessions.create(
+      user.id,
+      SESSION_TTL_SECONDS,
+      client,
+    );
+    return this.createSessionToken(user, session.id);
+  }
+
+  /**
+   * Create a session token (JWT) for a recorded session
+   */
+  createSessionToken(user: SessionUser, sessionId: string): string {
+    const payload: SessionPayload = {
+      sub: user.id,
+      sid: sessionId,
+      email: user.email,
+      name: user.name,
+      avatar_url: user.avatar_url,
+    };
+
+    const token = jwt.sign(payload, this.secret, {
+      expiresIn: SESSION_TTL_SECONDS,
+    } as SignOptions);
+
+    this.logger.info('Session token created', { userId: user.id, sessionId });
+    return token;
+  }
+
+  /**
+   * Record a new token session and issue its access and refresh tokens
+   */
+  async startTokenSession(
+    user: SessionUser,
+    client: SessionClient,
+  ): Promise<SessionTokens> {
+    const session = await this.userSessions.create(
+      user.id,
+      REFRESH_TOKEN_TTL_SECONDS,
+      client,
+      'token',
+    );
+    const refresh = await this.refreshTokens.issue(user.id, session.id);
+    return this.toSessionTokens(user, refresh);
+  }
+
+  /**
+   * Rotate a refresh token and issue a fresh access token for its session
+   */
+  async refreshTokenSession(refreshToken: string): Promise<SessionTokens> {
+    return withSpan('auth.session.refresh', {}, async (span) => {
+      const refresh = await this.refreshTokens.rotate(refreshToken);
+      span.setAttributes({
+        'enduser.id': refresh.userId,
+        'kue.session_id': refresh.sessionId,
+      });
+
+      const {
+        data: { user },
+        error,
+      } = await this.supabase
+        .getClient()
+        .auth.admin.getUserById(refresh.userId);
+
+      if (error || !user?.email) {
+        throw new UnauthorizedException('User no longer exists');
+      }
+
+      return this.toSessionTokens(
+        {
+          id: user.id,
+          email: user.email,
+          name: user.user_metadata?.name as string | undefined,
+          avatar_url: user.user_metadata?.avatar_url as string | undefined,
+        },
+        refresh,
+      );
+    });
+  }
 
-    /**
-     * Create a new session token (JWT)
-     */
-    createSessionToken(user: SessionUser): string {
-        const payload: SessionPayload = {
-            sub: user.id,
-            email: user.email,
-            name: user.name,
-            avatar_url: user.avatar_url,
-        };
-
-        const token = jwt.sign(payload, this.secret, {
-            expiresIn: this.expiresIn,
-        } as SignOptions);
-
-        this.logger.info('Session token created', { userId: user.id });
-        return token;
+  /**
+   * Create a short-lived access token (JWT) for a token session
+   */
+  createAccessToken(user: SessionUser, sessionId: string): string {
+    const payload: SessionPayload = {
+      sub: user.id,
+      sid: sessionId,
+      email: user.email,
+      name: user.name,
+      avatar_url: user.avatar_url,
+      typ: 'access',
+    };
+
+    return jwt.sign(payload, this.secret, {
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    } as SignOptions);
+  }
+
+  /**
+   * Whether a bearer token claims to be one of our access tokens (unverified)
+   */
+  isAccessToken(token: string): boolean {
+    return this.decodeToken(token)?.typ === 'access';
+  }
+
+  /**
+   * Verify and decode a session token. Tokens without a session id predate
+   * the session registry and cannot be revoked, so they are rejected.
+   */
+  verifySessionToken(token: string): VerifiedSession | null {
+    return this.verifyToken(token, undefined);
+  }
+
+  /**
+   * Verify and decode a token-session access token
+   */
+  verifyAccessToken(token: string): VerifiedSession | null {
+    return this.verifyToken(token, 'access');
+  }
+
+  /**
+   * Verify a session token and check its session has not been revoked
+   */
+  async validateSession(token: string): Promise<VerifiedSession | null> {
+    return this.checkActive(this.verifySessionToken(token));
+  }
+
+  /**
+   * Verify an access token and check its session has not been revoked
+   */
+  async validateAccessToken(token: string): Promise<VerifiedSession | null> {
+    return this.checkActive(this.verifyAccessToken(token));
+  }
+
+  /**
+   * Decode token without verification (for debugging)
+   */
+  decodeToken(token: string): SessionPayload | null {
+    try {
+      return jwt.decode(token) as SessionPayload;
+    } catch {
+      return null;
     }
+  }
 
-    /**
-     * Verify and decode a session token
-     */
-    verifySessionToken(token: string): SessionUser | null {
-        try {
-            const payload = jwt.verify(token, this.secret) as SessionPayload;
-
-            return {
-                id: payload.sub,
-                email: payload.email,
-                name: payload.name,
-                avatar_url: payload.avatar_url,
-            };
-        } catch (error) {
-            if (error instanceof jwt.TokenExpiredError) {
-                this.logger.warn('Session token expired');
-            } else if (error instanceof jwt.JsonWebTokenError) {
-                this.logger.warn('Invalid session token');
-            } else {
-                this.logger.error('Session verification failed', {
-                    error: error instanceof Error ? error.message : String(error),
-                });
-            }
-            return null;
-        }
+  /**
+   * Create short-lived OAuth state token for Google connect callback CSRF protection.
+   */
+  createGoogleOAuthStateToken(userId: string, tenantId: string): string {
+    return jwt.sign(
+      {
+        sub: userId,
+        tid: tenantId,
+        purpose: 'google_connect',
+      } as SessionPayload,
+      this.secret,
+      { expiresIn: this.oauthStateExpiresIn } as SignOptions,
+    );
+  }
+
+  /**
+   * Verify OAuth state token and return the user and workspace when valid.
+   */
+  verifyGoogleOAuthStateToken(
+    token: string,
+  ): { userId: string; tenantId: string } | null {
+    try {
+      const payload = jwt.verify(token, this.secret) as SessionPayload;
+      if (
+        payload.purpose !== 'google_connect' ||
+        !payload.sub ||
+        !payload.tid
+      ) {
+        return null;
+      }
+      return { userId: payload.sub, tenantId: payload.tid };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Create the signed token carried by a workspace invitation link. `nonce`
+   * ties it to the invitation's current send, so resending supersedes it.
+   */
+  createInvitationToken(
+    invitationId: string,
+    nonce: string,
+    expiresAt: Date,
+  ): string {
+    return jwt.sign(
+      {
+        sub: invitationId,
+        jti: nonce,
+        purpose: 'invitation',
+        exp: Math.floor(expiresAt.getTime() / 1000),
+      },
+      this.secret,
+    );
+  }
+
+  /**
+   * Verify an invitation token and return what it names, or null when it
+   * is forged, expired or not an invitation token.
+   */
+  verifyInvitationToken(
+    token: string,
+  ): { invitationId: string; nonce: string } | null {
+    try {
+      const payload = jwt.verify(token, this.secret) as jwt.JwtPayload;
+      if (payload.purpose !== 'invitation' || !payload.sub || !payload.jti) {
+        return null;
+      }
+      return { invitationId: payload.sub, nonce: payload.jti };
+    } catch {
+      return null;
     }
+  }
+
+  private toSessionTokens(
+    user: SessionUser,
+    refresh: IssuedRefreshToken,
+  ): SessionTokens {
+    return {
+      access_token: this.createAccessToken(user, refresh.sessionId),
+      token_type: 'Bearer',
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+      refresh_token: refresh.token,
+      refresh_expires_in: REFRESH_TOKEN_TTL_SECONDS,
+      session_id: refresh.sessionId,
+    };
+  }
+
+  private verifyToken(
+    token: string,
+    typ: SessionPayload['typ'],
+  ): VerifiedSession | null {
+    try {
+      const payload = jwt.verify(token, this.secret) as SessionPayload;
+
+      if (!payload.sid || payload.purpose || payload.typ !== typ) {
+        this.logger.warn('Token is not a revocable session token', { typ });
+        return null;
+      }
 
-    /**
-     * Decode token without verification (for debugging)
-     */
-    decodeToken(token: string): SessionPayload | null {
-        try {
-            return jwt.decode(token) as SessionPayload;
-        } catch {
-            return null;
-        }
+      return {
+        id: payload.sub,
+        email: payload.email,
+        name: payload.name,
+        avatar_url: payload.avatar_url,
+        sessionId: payload.sid,
+      };
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        this.logger.warn('Session token expired', { typ });
+      } else if (error instanceof jwt.JsonWebTokenError) {
+        this.logger.warn('Invalid session token', { typ });
+      } else {
+        this.logger.error('Session verification failed', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      return null;
     }
+  }
 
-    /**
-     * Create short-lived OAuth state token for Google connect callback CSRF protection.
-     */
-    createGoogleOAuthStateToken(userId: string): string {
-        return jwt.sign(
-            {
-                sub: userId,
-                purpose: 'google_connect',
-            } as SessionPayload,
-            this.secret,
-            { expiresIn: this.oauthStateExpiresIn } as SignOptions,
-        );
+  private async checkActive(
+    session: VerifiedSession | null,
+  ): Promise<VerifiedSession | null> {
+    if (!session) {
+      return null;
     }
 
-    /**
-     * Verify OAuth state token and return user id when valid.
-     */
-    verifyGoogleOAuthStateToken(token: string): string | null {
-        try {
-            const payload = jwt.verify(token, this.secret) as SessionPayload;
-            if (payload.purpose !== 'google_connect' || !payload.sub) {
-                return null;
-            }
-            return payload.sub;
-        } catch {
-            return null;
-        }
+    const active = await this.userSessions.findActive(
+      session.id,
+      session.sessionId,
+    );
+    if (!active) {
+      this.logger.warn('Revoked or expired session used', {
+        userId: session.id,
+        sessionId: session.sessionId,
+      });
+      return null;
     }
+    return { ...session, tenantId: active.tenant_id };
+  }
 }
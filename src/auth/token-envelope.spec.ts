@@ -0,0 +1,81 @@
+import { randomBytes } from 'crypto';
+import {
+  openEnvelope,
+  parseKeyring,
+  rewrapEnvelope,
+  sealEnvelope,
+} from './token-envelope';
+import type { Keyring } from './token-envelope';
+
+const AAD = 'source_connections:tenant-1:user-1:gmail:jane@example.com';
+const OLD_KEY = randomBytes(32).toString('base64');
+const NEW_KEY = randomBytes(32).toString('base64');
+
+function keyring(value: string): Keyring {
+  const parsed = parseKeyring(value);
+  if (!parsed) throw new Error('empty keyring');
+  return parsed;
+}
+
+describe('token envelope', () => {
+  const current = keyring(`k1:${OLD_KEY}`);
+  const rotated = keyring(`k2:${NEW_KEY},k1:${OLD_KEY}`);
+
+  it('parses the first key as the active one', () => {
+    expect(rotated.activeKid).toBe('k2');
+    expect([...rotated.keys.keys()]).toEqual(['k2', 'k1']);
+    expect(parseKeyring('')).toBeNull();
+    expect(parseKeyring(undefined)).toBeNull();
+  });
+
+  it.each([
+    ['a key of the wrong length', `k1:${randomBytes(16).toString('base64')}`],
+    ['a key without an id', OLD_KEY],
+    ['a repeated id', `k1:${OLD_KEY},k1:${NEW_KEY}`],
+  ])('rejects %s', (_, value) => {
+    expect(() => parseKeyring(value)).toThrow();
+  });
+
+  it('opens what it sealed', () => {
+    const envelope = sealEnvelope('secret', current, AAD);
+
+    expect(envelope).toMatchObject({ v: 1, kid: 'k1' });
+    expect(JSON.stringify(envelope)).not.toContain('secret');
+    expect(openEnvelope(envelope, current, AAD)).toBe('secret');
+  });
+
+  it('rejects a ciphertext moved to another row', () => {
+    const envelope = sealEnvelope('secret', current, AAD);
+
+    expect(() =>
+      openEnvelope(envelope, current, AAD.replace('user-1', 'user-2')),
+    ).toThrow();
+  });
+
+  it('rejects a key id missing from the keyring', () => {
+    const envelope = sealEnvelope('secret', rotated, AAD);
+
+    expect(() => openEnvelope(envelope, current, AAD)).toThrow(
+      'Token encryption key "k2" is not configured',
+    );
+  });
+
+  it('rewraps the data key under the active key and keeps the payload', () => {
+    const envelope = sealEnvelope('secret', current, AAD);
+
+    const rewrapped = rewrapEnvelope(envelope, rotated, AAD);
+
+    expect(rewrapped.kid).toBe('k2');
+    expect(rewrapped.data).toBe(envelope.data);
+    expect(rewrapped.key).not.toBe(envelope.key);
+    expect(openEnvelope(rewrapped, keyring(`k2:${NEW_KEY}`), AAD)).toBe(
+      'secret',
+    );
+  });
+
+  it('leaves an envelope already under the active key alone', () => {
+    const envelope = sealEnvelope('secret', rotated, AAD);
+
+    expect(rewrapEnvelope(envelope, rotated, AAD)).toBe(envelope);
+  });
+});
@@ -0,0 +1,160 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+/**
+ * Envelope encryption for OAuth token material.
+ *
+ * Each record gets its own random data key. The payload is sealed with the
+ * data key and the data key is sealed ("wrapped") with a master key from the
+ * keyring, both with AES-256-GCM. Rotating the master key only rewraps data
+ * keys; payloads are never re-encrypted.
+ *
+ * Both layers authenticate `aad`, which ties a ciphertext to the record it
+ * was written for: copying it onto another row makes decryption fail.
+ */
+export interface TokenEnvelope {
+  v: 1;
+  /** Id of the master key that wrapped `key`. */
+  kid: string;
+  /** Wrapped data key: base64 of iv | tag | ciphertext. */
+  key: string;
+  /** Sealed payload: base64 of iv | tag | ciphertext. */
+  data: string;
+}
+
+export interface Keyring {
+  activeKid: string;
+  keys: Map<string, Buffer>;
+}
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/**
+ * Parse `kid:base64key` pairs separated by commas. The first key is the
+ * active one; the rest are kept to decrypt older records.
+ */
+export function parseKeyring(value: string | undefined): Keyring | null {
+  const entries = (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (!entries.length) return null;
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of entries) {
+    const separator = entry.indexOf(':');
+    const kid = entry.slice(0, separator).trim();
+    const key = Buffer.from(entry.slice(separator + 1).trim(), 'base64');
+    if (separator <= 0 || key.length !== KEY_BYTES) {
+      throw new Error(
+        `Invalid token encryption key "${kid || entry.slice(0, 8)}": expected kid:base64 of ${KEY_BYTES} bytes`,
+      );
+    }
+    if (keys.has(kid)) {
+      throw new Error(`Duplicate token encryption key id "${kid}"`);
+    }
+    keys.set(kid, key);
+  }
+
+  return { activeKid: [...keys.keys()][0], keys };
+}
+
+export function isTokenEnvelope(value: unknown): value is TokenEnvelope {
+  if (!value || typeof value !== 'object') return false;
+  const envelope = value as Partial<TokenEnvelope>;
+  return (
+    envelope.v === 1 &&
+    typeof envelope.kid === 'string' &&
+    typeof envelope.key === 'string' &&
+    typeof envelope.data === 'string'
+  );
+}
+
+export function sealEnvelope(
+  plaintext: string,
+  keyring: Keyring,
+  aad: string,
+): TokenEnvelope {
+  const dataKey = randomBytes(KEY_BYTES);
+  try {
+    return {
+      v: 1,
+      kid: keyring.activeKid,
+      key: seal(dataKey, masterKey(keyring, keyring.activeKid), aad),
+      data: seal(Buffer.from(plaintext, 'utf8'), dataKey, aad),
+    };
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+export function openEnvelope(
+  envelope: TokenEnvelope,
+  keyring: Keyring,
+  aad: string,
+): string {
+  const dataKey = open(envelope.key, masterKey(keyring, envelope.kid), aad);
+  try {
+    return open(envelope.data, dataKey, aad).toString('utf8');
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+/**
+ * Rewrap the data key under the active master key, leaving the payload
+ * untouched.
+ */
+export function rewrapEnvelope(
+  envelope: TokenEnvelope,
+  keyring: Keyring,
+  aad: string,
+): TokenEnvelope {
+  if (envelope.kid === keyring.activeKid) return envelope;
+
+  const dataKey = open(envelope.key, masterKey(keyring, envelope.kid), aad);
+  try {
+    return {
+      ...envelope,
+      kid: keyring.activeKid,
+      key: seal(dataKey, masterKey(keyring, keyring.activeKid), aad),
+    };
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+function masterKey(keyring: Keyring, kid: string): Buffer {
+  const key = keyring.keys.get(kid);
+  if (!key) {
+    throw new Error(`Token encryption key "${kid}" is not configured`);
+  }
+  return key;
+}
+
+function seal(plaintext: Buffer, key: Buffer, aad: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString(
+    'base64',
+  );
+}
+
+function open(sealed: string, key: Buffer, aad: string): Buffer {
+  const bytes = Buffer.from(sealed, 'base64');
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    key,
+    bytes.subarray(0, IV_BYTES),
+  );
+  decipher.setAAD(Buffer.from(aad, 'utf8'));
+  decipher.setAuthTag(bytes.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([
+    decipher.update(bytes.subarray(IV_BYTES + TAG_BYTES)),
+    decipher.final(),
+  ]);
+}
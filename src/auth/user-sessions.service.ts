@@ -0,0 +1,245 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { SupabaseService } from '../database/supabase.service';
+import { LoggerService } from '../observability/logger.service';
+
+export interface UserSessionRow {
+  id: string;
+  user_id: string;
+  kind: SessionKind;
+  /** Active workspace chosen with `POST /tenants/:id/switch`. */
+  tenant_id: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+  revoked_reason: string | null;
+}
+
+export interface SessionClient {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/** `cookie` for browser sessions, `token` for access/refresh token sessions. */
+export type SessionKind = 'cookie' | 'token';
+
+export type SessionRevokeReason =
+  | 'logout'
+  | 'revoked'
+  | 'revoked_all'
+  | 'refresh_reuse';
+
+const SESSION_COLUMNS =
+  'id, user_id, kind, tenant_id, user_agent, ip_address, created_at, last_seen_at, expires_at, revoked_at, revoked_reason';
+/** `last_seen_at` is written at most this often per session. */
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+const USER_AGENT_MAX_LENGTH = 512;
+
+/**
+ * Server-side registry of session cookies. A session JWT is only honoured
+ * while its `sid` points at a row here that is neither revoked nor expired,
+ * so signing out actually ends the session.
+ */
+@Injectable()
+export class UserSessionsService {
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  async create(
+    userId: string,
+    ttlSeconds: number,
+    client: SessionClient,
+    kind: SessionKind = 'cookie',
+  ): Promise<UserSessionRow> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('user_sessions')
+      .insert({
+        user_id: userId,
+        kind,
+        user_agent: client.userAgent?.slice(0, USER_AGENT_MAX_LENGTH) ?? null,
+        ip_address: client.ipAddress ?? null,
+        expires_at: new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+      })
+      .select(SESSION_COLUMNS)
+      .single<UserSessionRow>();
+
+    if (error) {
+      throw new Error(`Failed to create session: ${error.message}`);
+    }
+
+    this.logger.info('Session started', { userId, sessionId: data.id, kind });
+    return data;
+  }
+
+  /**
+   * The session if it may still be used, else null; also bumps
+   * `last_seen_at`.
+   */
+  async findActive(
+    userId: string,
+    sessionId: string,
+  ): Promise<Pick<UserSessionRow, 'id' | 'tenant_id'> | null> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('user_sessions')
+      .select('id, user_id, tenant_id, last_seen_at, expires_at, revoked_at')
+      .eq('id', sessionId)
+      .maybeSingle<
+        Pick<
+          UserSessionRow,
+          | 'id'
+          | 'user_id'
+          | 'tenant_id'
+          | 'last_seen_at'
+          | 'expires_at'
+          | 'revoked_at'
+        >
+      >();
+
+    if (error) {
+      throw new Error(`Failed to load session: ${error.message}`);
+    }
+    if (
+      !data ||
+      data.user_id !== userId ||
+      data.revoked_at ||
+      new Date(data.expires_at).getTime() <= Date.now()
+    ) {
+      return null;
+    }
+
+    if (
+      Date.now() - new Date(data.last_seen_at).getTime() >
+      LAST_SEEN_RESOLUTION_MS
+    ) {
+      const { error: touchError } = await this.supabase
+        .getClient()
+        .from('user_sessions')
+        .update({ last_seen_at: new Date().toISOString() })
+        .eq('id', sessionId);
+
+      if (touchError) {
+        this.logger.warn('Failed to update session last seen', {
+          sessionId,
+          error: touchError.message,
+        });
+      }
+    }
+    return { id: data.id, tenant_id: data.tenant_id };
+  }
+
+  /**
+   * Make `tenantId` the session's active workspace. Membership is checked
+   * by the caller.
+   */
+  async setTenant(
+    userId: string,
+    sessionId: string,
+    tenantId: string,
+  ): Promise<void> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('user_sessions')
+      .update({ tenant_id: tenantId })
+      .eq('id', sessionId)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to switch workspace: ${error.message}`);
+    }
+    if (!data?.length) {
+      throw new NotFoundException(`Session ${sessionId} not found`);
+    }
+  }
+
+  /**
+   * Push back the expiry of an active session, e.g. when its refresh token
+   * is rotated.
+   */
+  async extend(sessionId: string, ttlSeconds: number): Promise<void> {
+    const { error } = await this.supabase
+      .getClient()
+      .from('user_sessions')
+      .update({
+        expires_at: new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+        last_seen_at: new Date().toISOString(),
+      })
+      .eq('id', sessionId)
+      .is('revoked_at', null);
+
+    if (error) {
+      throw new Error(`Failed to extend session: ${error.message}`);
+    }
+  }
+
+  async listActive(userId: string): Promise<UserSessionRow[]> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('user_sessions')
+      .select(SESSION_COLUMNS)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('last_seen_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list sessions: ${error.message}`);
+    }
+    return (data ?? []) as UserSessionRow[];
+  }
+
+  async revoke(
+    userId: string,
+    sessionId: string,
+    reason: SessionRevokeReason,
+  ): Promise<void> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('user_sessions')
+      .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+      .eq('id', sessionId)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to revoke session: ${error.message}`);
+    }
+    if (!data?.length) {
+      throw new NotFoundException(`Session ${sessionId} not found`);
+    }
+
+    this.logger.info('Session revoked', { userId, sessionId, reason });
+  }
+
+  /**
+   * Revoke every active session of a user; returns how many were revoked.
+   */
+  async revokeAll(userId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('user_sessions')
+      .update({
+        revoked_at: new Date().toISOString(),
+        revoked_reason: 'revoked_all' satisfies SessionRevokeReason,
+      })
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to revoke sessions: ${error.message}`);
+    }
+
+    const revoked = data?.length ?? 0;
+    this.logger.info('All sessions revoked', { userId, revoked });
+    return revoked;
+  }
+}
@@ -1,14 +1,29 @@
 import { createParamDecorator, ExecutionContext } from '@nestjs/common';
 import { FastifyRequest } from 'fastify';
+import type { TenantRole } from '../../tenants/tenants.types';
+import type { Permission } from '../../tenants/permissions';
 
 export interface AuthenticatedUser {
   id: string;
   email: string;
+  /** Set for cookie and token sessions; Supabase bearer tokens have none. */
+  sessionId?: string;
+  /** Active workspace for this request, resolved by `AuthGuard`. */
+  tenantId: string;
+  /** The user's role in `tenantId`. */
+  role: TenantRole;
+  /** Set when the request authenticated with an API key. */
+  apiKeyId?: string;
+  /** The API key's scopes; absent for interactive logins, which are unscoped. */
+  scopes?: Permission[];
   metadata: Record<string, unknown>;
 }
 
 export const CurrentUser = createParamDecorator(
-  (data: keyof AuthenticatedUser | undefined, ctx: ExecutionContext): AuthenticatedUser | unknown => {
+  (
+    data: keyof AuthenticatedUser | undefined,
+    ctx: ExecutionContext,
+  ): AuthenticatedUser | unknown => {
     const request = ctx.switchToHttp().getRequest<FastifyRequest>();
     const user = (request as any).user as AuthenticatedUser;
 
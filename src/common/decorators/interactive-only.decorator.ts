@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const INTERACTIVE_ONLY_KEY = 'interactiveOnly';
+
+/**
+ * Reject API keys on a route; it needs a signed-in user. Used for managing
+ * credentials, sessions and memberships. Enforced by `AuthGuard`.
+ */
+export const InteractiveOnly = () => SetMetadata(INTERACTIVE_ONLY_KEY, true);
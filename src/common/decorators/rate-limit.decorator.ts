@@ -0,0 +1,19 @@
+import { SetMetadata } from '@nestjs/common';
+
+export interface RateLimitRule {
+  /** Rules with the same name share their counters. */
+  name: string;
+  /** Count requests per client IP or per `email` in the request body. */
+  by: 'ip' | 'email';
+  limit: number;
+  windowMs: number;
+}
+
+export const RATE_LIMIT_KEY = 'rateLimit';
+
+/**
+ * Sliding-window limits for a route, enforced by `RateLimitGuard`. Every
+ * rule must pass.
+ */
+export const RateLimit = (...rules: RateLimitRule[]) =>
+  SetMetadata(RATE_LIMIT_KEY, rules);
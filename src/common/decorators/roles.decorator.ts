@@ -0,0 +1,19 @@
+import { SetMetadata } from '@nestjs/common';
+import type { Permission } from '../../tenants/permissions';
+import type { TenantRole } from '../../tenants/tenants.types';
+
+export const ROLES_KEY = 'roles';
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * Allow only callers whose role in the active workspace is one of `roles`.
+ * Enforced by `RolesGuard`.
+ */
+export const Roles = (...roles: TenantRole[]) => SetMetadata(ROLES_KEY, roles);
+
+/**
+ * Allow only callers whose role grants every one of `permissions`.
+ * Enforced by `RolesGuard`.
+ */
+export const RequirePermission = (...permissions: Permission[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
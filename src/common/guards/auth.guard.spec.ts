@@ -0,0 +1,119 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { ApiKeysService } from '../../auth/api-keys.service';
+import type { AuthenticatedApiKey } from '../../auth/api-keys.service';
+import { SessionService } from '../../auth/session.service';
+import { SupabaseService } from '../../database/supabase.service';
+import { LoggerService } from '../../observability/logger.service';
+import { Permissions } from '../../tenants/permissions';
+import { TenantsService } from '../../tenants/tenants.service';
+import { InteractiveOnly } from '../decorators/interactive-only.decorator';
+import { RequirePermission } from '../decorators/roles.decorator';
+import { AuthGuard } from './auth.guard';
+
+class Routes {
+  status() {}
+
+  @RequirePermission(Permissions.NETWORK_READ)
+  listContacts() {}
+
+  @RequirePermission(Permissions.NETWORK_WRITE)
+  mergePersons() {}
+
+  @InteractiveOnly()
+  @RequirePermission(Permissions.NETWORK_READ)
+  listSessions() {}
+}
+
+const READ_KEY = 'kue_read';
+
+describe('AuthGuard', () => {
+  let guard: AuthGuard;
+
+  beforeEach(async () => {
+    const keys: Record<string, AuthenticatedApiKey> = {
+      [READ_KEY]: {
+        id: 'key-1',
+        userId: 'user-1',
+        email: 'owner@example.com',
+        tenantId: 'tenant-1',
+        scopes: [Permissions.NETWORK_READ],
+      },
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        AuthGuard,
+        Reflector,
+        { provide: SupabaseService, useValue: {} },
+        { provide: LoggerService, useValue: { warn: jest.fn() } },
+        {
+          provide: SessionService,
+          useValue: {
+            isAccessToken: (token: string) => token === 'access-token',
+            validateAccessToken: () =>
+              Promise.resolve({
+                id: 'user-1',
+                email: 'owner@example.com',
+                sessionId: 'session-1',
+              }),
+          },
+        },
+        {
+          provide: TenantsService,
+          useValue: {
+            resolveActive: () =>
+              Promise.resolve({ tenantId: 'tenant-1', role: 'owner' }),
+          },
+        },
+        {
+          provide: ApiKeysService,
+          useValue: {
+            authenticate: (token: string) =>
+              Promise.resolve(keys[token] ?? null),
+          },
+        },
+      ],
+    }).compile();
+    guard = moduleRef.get(AuthGuard);
+  });
+
+  function call(route: keyof Routes, token: string): Promise<boolean> {
+    const request = { headers: { authorization: `Bearer ${token}` } };
+    const context = {
+      getHandler: () => Routes.prototype[route],
+      getClass: () => Routes,
+      switchToHttp: () => ({ getRequest: () => request }),
+    };
+    return guard.canActivate(context as unknown as ExecutionContext);
+  }
+
+  it('lets a key call a route that needs one of its scopes', async () => {
+    await expect(call('listContacts', READ_KEY)).resolves.toBe(true);
+  });
+
+  it('rejects a key on a route that needs a scope it lacks', async () => {
+    await expect(call('mergePersons', READ_KEY)).rejects.toThrow(
+      new ForbiddenException(
+        'This API key does not have the network:write scope',
+      ),
+    );
+  });
+
+  it('rejects a key on a route that declares no permission', async () => {
+    await expect(call('status', READ_KEY)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+  });
+
+  it('rejects a key on an interactive-only route', async () => {
+    await expect(call('listSessions', READ_KEY)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+  });
+
+  it('still lets a signed-in user call a route that declares no permission', async () => {
+    await expect(call('status', 'access-token')).resolves.toBe(true);
+  });
+});
@@ -2,6 +2,8 @@ import {
   Injectable,
   CanActivate,
   ExecutionContext,
+  ForbiddenException,
+  HttpException,
   UnauthorizedException,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
@@ -9,7 +11,18 @@ import { FastifyRequest } from 'fastify';
 import { SupabaseService } from '../../database/supabase.service';
 import { LoggerService } from '../../observability/logger.service';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { INTERACTIVE_ONLY_KEY } from '../decorators/interactive-only.decorator';
+import { PERMISSIONS_KEY } from '../decorators/roles.decorator';
 import { SessionService } from '../../auth/session.service';
+import type { VerifiedSession } from '../../auth/session.service';
+import { ApiKeysService, isApiKey } from '../../auth/api-keys.service';
+import type { AuthenticatedApiKey } from '../../auth/api-keys.service';
+import { TenantsService } from '../../tenants/tenants.service';
+import type { Permission } from '../../tenants/permissions';
+import { TENANT_HEADER } from '../../tenants/tenants.types';
+import type { AuthenticatedUser } from '../decorators/current-user.decorator';
+
+type AuthenticatedRequest = FastifyRequest & { user?: AuthenticatedUser };
 
 @Injectable()
 export class AuthGuard implements CanActivate {
@@ -18,7 +31,9 @@ export class AuthGuard implements CanActivate {
     private readonly logger: LoggerService,
     private readonly reflector: Reflector,
     private readonly sessionService: SessionService,
-  ) { }
+    private readonly tenants: TenantsService,
+    private readonly apiKeys: ApiKeysService,
+  ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
     const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
@@ -30,36 +45,33 @@ export class AuthGuard implements CanActivate {
       return true;
     }
 
-    const request = context.switchToHttp().getRequest<FastifyRequest>();
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
     const authHeader = request.headers.authorization;
     const sessionCookie = request.cookies?.session;
 
-    // 1. Try Session Cookie (generated by our SessionService)
+    // 1. Try Session Cookie (generated by our SessionService, checked
+    //    against the session registry so revoked sessions are rejected)
     if (sessionCookie) {
-      const sessionUser = this.sessionService.verifySessionToken(sessionCookie);
+      const sessionUser =
+        await this.sessionService.validateSession(sessionCookie);
 
       if (sessionUser) {
-        // Attach the user to the request object
-        (request as any).user = {
-          id: sessionUser.id,
-          email: sessionUser.email,
-          metadata: {
-            name: sessionUser.name,
-            avatar_url: sessionUser.avatar_url,
-          },
-        };
+        await this.attachSessionUser(request, sessionUser);
         return true;
       }
-      // If cookie exists but invalid, we could throw or fall through. 
+      // If cookie exists but invalid, we could throw or fall through.
       // Let's log warning and try header (though unlikely to have both)
       this.logger.warn('Invalid session cookie present');
     }
 
-    // 2. Try Authorization Header (Supabase direct token)
+    // 2. Try Authorization Header (an API key, our access token or a
+    //    Supabase token)
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
       // If we had no cookie and no header, fail
       if (!sessionCookie) {
-        throw new UnauthorizedException('Missing or invalid authorization header');
+        throw new UnauthorizedException(
+          'Missing or invalid authorization header',
+        );
       }
       // If we had an invalid cookie and no header, fail
       throw new UnauthorizedException('Invalid or expired session');
@@ -67,6 +79,32 @@ export class AuthGuard implements CanActivate {
 
     const token = authHeader.substring(7);
 
+    // 2a. API key (scoped to one workspace, never interactive)
+    if (isApiKey(token)) {
+      const apiKey = await this.apiKeys.authenticate(token);
+
+      if (!apiKey) {
+        throw new UnauthorizedException('Invalid, expired or revoked API key');
+      }
+
+      this.assertKeyAllowed(context, apiKey);
+      await this.attachApiKeyUser(request, apiKey);
+      return true;
+    }
+
+    // 2b. Access token of a token session (issued by our SessionService)
+    if (this.sessionService.isAccessToken(token)) {
+      const session = await this.sessionService.validateAccessToken(token);
+
+      if (!session) {
+        throw new UnauthorizedException('Invalid or expired token');
+      }
+
+      await this.attachSessionUser(request, session);
+      return true;
+    }
+
+    // 2c. Supabase access token
     try {
       const {
         data: { user },
@@ -78,15 +116,19 @@ export class AuthGuard implements CanActivate {
       }
 
       // Attach the user to the request object
-      (request as any).user = {
-        id: user.id,
-        email: user.email,
-        metadata: user.user_metadata,
-      };
+      await this.attachUser(
+        request,
+        {
+          id: user.id,
+          email: user.email ?? '',
+          metadata: user.user_metadata,
+        },
+        null,
+      );
 
       return true;
     } catch (error) {
-      if (error instanceof UnauthorizedException) {
+      if (error instanceof HttpException) {
         throw error;
       }
 
@@ -96,4 +138,114 @@ export class AuthGuard implements CanActivate {
       throw new UnauthorizedException('Authentication failed');
     }
   }
+
+  private async attachSessionUser(
+    request: AuthenticatedRequest,
+    session: VerifiedSession,
+  ): Promise<void> {
+    await this.attachUser(
+      request,
+      {
+        id: session.id,
+        email: session.email,
+        sessionId: session.sessionId,
+        metadata: {
+          name: session.name,
+          avatar_url: session.avatar_url,
+        },
+      },
+      session.tenantId ?? null,
+    );
+  }
+
+  /**
+   * Keys are denied by default: a route must declare a permission with
+   * `@RequirePermission`, and the key must hold every one it declares as a
+   * scope. Routes without one (account status, workspace listings) and
+   * `@InteractiveOnly` routes are closed to keys.
+   */
+  private assertKeyAllowed(
+    context: ExecutionContext,
+    apiKey: AuthenticatedApiKey,
+  ): void {
+    const targets = [context.getHandler(), context.getClass()];
+    const interactiveOnly = this.reflector.getAllAndOverride<boolean>(
+      INTERACTIVE_ONLY_KEY,
+      targets,
+    );
+    const permissions = this.reflector.getAllAndOverride<Permission[]>(
+      PERMISSIONS_KEY,
+      targets,
+    );
+    if (interactiveOnly || !permissions?.length) {
+      throw new ForbiddenException('API keys cannot be used for this endpoint');
+    }
+
+    const missing = permissions.find(
+      (permission) => !apiKey.scopes.includes(permission),
+    );
+    if (missing) {
+      throw new ForbiddenException(
+        `This API key does not have the ${missing} scope`,
+      );
+    }
+  }
+
+  /**
+   * API keys always act in the workspace they were created for, with the
+   * key holder's current role there.
+   */
+  private async attachApiKeyUser(
+    request: AuthenticatedRequest,
+    apiKey: AuthenticatedApiKey,
+  ): Promise<void> {
+    const requested = this.requestedTenant(request);
+    if (requested && requested !== apiKey.tenantId) {
+      throw new ForbiddenException(
+        'API keys can only act in the workspace they were created for',
+      );
+    }
+
+    const user = { id: apiKey.userId, email: apiKey.email };
+    const tenant = await this.tenants.resolveActive(user, {
+      requested: apiKey.tenantId,
+    });
+
+    request.user = {
+      ...user,
+      tenantId: tenant.tenantId,
+      role: tenant.role,
+      apiKeyId: apiKey.id,
+      scopes: apiKey.scopes,
+      metadata: {},
+    } satisfies AuthenticatedUser;
+  }
+
+  /**
+   * Resolve the active workspace (the `X-Tenant-Id` header, else the one
+   * stored on the session, else the default) and attach the user with it.
+   * Asking for a workspace the user does not belong to is a 403.
+   */
+  private async attachUser(
+    request: AuthenticatedRequest,
+    user: Omit<AuthenticatedUser, 'tenantId' | 'role'>,
+    sessionTenantId: string | null,
+  ): Promise<void> {
+    const tenant = await this.tenants.resolveActive(user, {
+      requested: this.requestedTenant(request),
+      sessionTenantId,
+    });
+
+    request.user = {
+      ...user,
+      tenantId: tenant.tenantId,
+      role: tenant.role,
+    } satisfies AuthenticatedUser;
+  }
+
+  private requestedTenant(request: FastifyRequest): string | undefined {
+    const header = request.headers[TENANT_HEADER];
+    const requested = (Array.isArray(header) ? header[0] : header)?.trim();
+    return requested || undefined;
+  }
 }
@@ -0,0 +1,118 @@
+import { ExecutionContext, HttpException, HttpStatus } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { LoggerService } from '../../observability/logger.service';
+import { SentryService } from '../../observability/sentry.service';
+import { MemoryRateLimitStore } from '../../rate-limit/memory-rate-limit.store';
+import { RATE_LIMIT_STORE } from '../../rate-limit/rate-limit.types';
+import { RateLimit } from '../decorators/rate-limit.decorator';
+import { RateLimitGuard } from './rate-limit.guard';
+
+const MINUTE_MS = 60 * 1000;
+
+class RoutesStandIn {
+  @RateLimit(
+    { name: 'send-otp', by: 'ip', limit: 3, windowMs: MINUTE_MS },
+    { name: 'send-otp', by: 'email', limit: 2, windowMs: MINUTE_MS },
+  )
+  sendOtp() {}
+
+  unlimited() {}
+}
+
+describe('RateLimitGuard', () => {
+  let guard: RateLimitGuard;
+  let headers: Record<string, unknown>;
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-01T12:00:00.000Z') });
+    headers = {};
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        RateLimitGuard,
+        Reflector,
+        { provide: RATE_LIMIT_STORE, useValue: new MemoryRateLimitStore() },
+        {
+          provide: LoggerService,
+          useValue: { warn: jest.fn(), error: jest.fn() },
+        },
+        { provide: SentryService, useValue: { captureException: jest.fn() } },
+      ],
+    }).compile();
+    guard = moduleRef.get(RateLimitGuard);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function request(
+    handler: keyof RoutesStandIn,
+    ip: string,
+    email?: string,
+  ): Promise<boolean> {
+    const reply = {
+      header: (name: string, value: unknown) => {
+        headers[name] = value;
+        return reply;
+      },
+    };
+    const context = {
+      getHandler: () => RoutesStandIn.prototype[handler],
+      getClass: () => RoutesStandIn,
+      switchToHttp: () => ({
+        getRequest: () => ({ ip, url: '/auth/send-otp', body: { email } }),
+        getResponse: () => reply,
+      }),
+    };
+    return guard.canActivate(context as unknown as ExecutionContext);
+  }
+
+  it('rejects the request over the limit with 429 and Retry-After', async () => {
+    await expect(request('sendOtp', '10.0.0.1')).resolves.toBe(true);
+    await expect(request('sendOtp', '10.0.0.1')).resolves.toBe(true);
+    await expect(request('sendOtp', '10.0.0.1')).resolves.toBe(true);
+
+    jest.advanceTimersByTime(20 * 1000);
+    const rejected = await request('sendOtp', '10.0.0.1').catch(
+      (error: unknown) => error,
+    );
+
+    expect(rejected).toBeInstanceOf(HttpException);
+    expect((rejected as HttpException).getStatus()).toBe(
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+    expect(headers['Retry-After']).toBe(40);
+    await expect(request('sendOtp', '10.0.0.2')).resolves.toBe(true);
+  });
+
+  it('counts each email separately, whatever its case', async () => {
+    await request('sendOtp', '10.0.0.1', 'Jane@Example.com');
+    await request('sendOtp', '10.0.0.2', ' jane@example.com ');
+
+    await expect(
+      request('sendOtp', '10.0.0.3', 'jane@example.com'),
+    ).rejects.toBeInstanceOf(HttpException);
+    await expect(
+      request('sendOtp', '10.0.0.3', 'bob@example.com'),
+    ).resolves.toBe(true);
+  });
+
+  it('opens up again once the window has passed', async () => {
+    for (let i = 0; i < 3; i++) await request('sendOtp', '10.0.0.1');
+    await expect(request('sendOtp', '10.0.0.1')).rejects.toBeInstanceOf(
+      HttpException,
+    );
+
+    jest.advanceTimersByTime(MINUTE_MS);
+
+    await expect(request('sendOtp', '10.0.0.1')).resolves.toBe(true);
+  });
+
+  it('lets routes without rules through', async () => {
+    for (let i = 0; i < 10; i++) {
+      await expect(request('unlimited', '10.0.0.1')).resolves.toBe(true);
+    }
+  });
+});
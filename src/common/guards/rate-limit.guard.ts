@@ -0,0 +1,104 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { LoggerService } from '../../observability/logger.service';
+import { SentryService } from '../../observability/sentry.service';
+import { RATE_LIMIT_STORE } from '../../rate-limit/rate-limit.types';
+import type {
+  RateLimitResult,
+  RateLimitStore,
+} from '../../rate-limit/rate-limit.types';
+import { RATE_LIMIT_KEY } from '../decorators/rate-limit.decorator';
+import type { RateLimitRule } from '../decorators/rate-limit.decorator';
+
+/**
+ * Enforces the `@RateLimit` rules of a route. Rejected requests get `429`
+ * with a `Retry-After` header. Store errors fail open.
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  constructor(
+    @Inject(RATE_LIMIT_STORE) private readonly store: RateLimitStore,
+    private readonly reflector: Reflector,
+    private readonly logger: LoggerService,
+    private readonly sentry: SentryService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const rules = this.reflector.getAllAndOverride<RateLimitRule[]>(
+      RATE_LIMIT_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!rules?.length) return true;
+
+    const http = context.switchToHttp();
+    const request = http.getRequest<FastifyRequest>();
+
+    for (const rule of rules) {
+      const subject = this.subjectOf(rule, request);
+      if (!subject) continue;
+
+      let result: RateLimitResult;
+      try {
+        result = await this.store.hit(
+          `${rule.name}:${rule.by}:${subject}`,
+          rule.limit,
+          rule.windowMs,
+        );
+      } catch (error) {
+        this.sentry.captureException(error, {
+          context: 'rate_limit',
+          rule: rule.name,
+        });
+        this.logger.error('Rate limit store failed', {
+          rule: rule.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        continue;
+      }
+
+      if (!result.allowed) {
+        const retryAfter = Math.max(
+          1,
+          Math.ceil((result.resetAt - Date.now()) / 1000),
+        );
+        this.logger.warn('Rate limit exceeded', {
+          rule: rule.name,
+          by: rule.by,
+          path: request.url,
+        });
+
+        http.getResponse<FastifyReply>().header('Retry-After', retryAfter);
+        throw new HttpException(
+          {
+            statusCode: HttpStatus.TOO_MANY_REQUESTS,
+            message: 'Too many requests, try again later',
+            retryAfter,
+          },
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    }
+
+    return true;
+  }
+
+  private subjectOf(
+    rule: RateLimitRule,
+    request: FastifyRequest,
+  ): string | undefined {
+    if (rule.by === 'ip') return request.ip;
+
+    const email = (request.body as { email?: unknown } | undefined)?.email;
+    return typeof email === 'string' && email.trim()
+      ? email.trim().toLowerCase()
+      : undefined;
+  }
+}
@@ -0,0 +1,75 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { FastifyRequest } from 'fastify';
+import { LoggerService } from '../../observability/logger.service';
+import { assertPermission } from '../../tenants/permissions';
+import type { Permission } from '../../tenants/permissions';
+import type { TenantRole } from '../../tenants/tenants.types';
+import { PERMISSIONS_KEY, ROLES_KEY } from '../decorators/roles.decorator';
+import type { AuthenticatedUser } from '../decorators/current-user.decorator';
+
+/**
+ * Enforces `@Roles` and `@RequirePermission` against the caller's role in
+ * the active workspace, and for API keys against the key's scopes too.
+ * Must run after `AuthGuard`, which resolves both:
+ * `@UseGuards(AuthGuard, RolesGuard)`.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly logger: LoggerService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const targets = [context.getHandler(), context.getClass()];
+    const roles = this.reflector.getAllAndOverride<TenantRole[]>(
+      ROLES_KEY,
+      targets,
+    );
+    const permissions = this.reflector.getAllAndOverride<Permission[]>(
+      PERMISSIONS_KEY,
+      targets,
+    );
+    if (!roles?.length && !permissions?.length) return true;
+
+    const request = context
+      .switchToHttp()
+      .getRequest<FastifyRequest & { user?: AuthenticatedUser }>();
+    const user = request.user;
+    if (!user) {
+      throw new ForbiddenException('No workspace role for this request');
+    }
+
+    try {
+      if (roles?.length && !roles.includes(user.role)) {
+        throw new ForbiddenException(
+          `Your role (${user.role}) cannot perform this action; requires ${roles.join(' or ')}`,
+        );
+      }
+      for (const permission of permissions ?? []) {
+        assertPermission(user.role, permission);
+        if (user.scopes && !user.scopes.includes(permission)) {
+          throw new ForbiddenException(
+            `This API key does not have the ${permission} scope`,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.warn('Permission denied', {
+        userId: user.id,
+        tenantId: user.tenantId,
+        role: user.role,
+        path: request.url,
+      });
+      throw error;
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,28 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { runWithRequestContext } from '../../observability/request-context';
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+/** Ids we accept from callers; anything else is replaced. */
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Gives each request a correlation id, reusing the caller's `X-Request-Id`
+ * when it is well formed, and echoes it in the response. Log lines written
+ * while handling the request carry it as `request_id`.
+ */
+@Injectable()
+export class RequestIdMiddleware implements NestMiddleware {
+  use(req: IncomingMessage, res: ServerResponse, next: () => void): void {
+    const incoming = req.headers[REQUEST_ID_HEADER];
+    const requestId =
+      typeof incoming === 'string' && VALID_REQUEST_ID.test(incoming)
+        ? incoming
+        : randomUUID();
+
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+    runWithRequestContext({ requestId }, next);
+  }
+}
@@ -4,6 +4,12 @@ export const PostHogEvents = {
   AUTH_OTP_SENT: 'auth_otp_sent',
   AUTH_OTP_VERIFIED: 'auth_otp_verified',
   PLATFORM_CONNECTED: 'platform_connected',
+  SYNC_COMPLETED: 'sync_completed',
+  CONTACTS_IMPORTED: 'contacts_imported',
+  NETWORK_SEARCHED: 'network_searched',
+  WORKSPACE_CREATED: 'workspace_created',
+  INVITATION_SENT: 'invitation_sent',
+  INVITATION_ACCEPTED: 'invitation_accepted',
 } as const;
 
 export type PostHogEventName =
@@ -18,4 +24,24 @@ export interface PostHogEventProperties {
     platform: string;
     scopeCount: number;
   };
+  [PostHogEvents.SYNC_COMPLETED]: {
+    source: string;
+    added: number;
+    updated: number;
+    deleted: number;
+    fullSync: boolean;
+  };
+  [PostHogEvents.CONTACTS_IMPORTED]: {
+    source: string;
+    rows: number;
+    imported: number;
+    errors: number;
+  };
+  [PostHogEvents.NETWORK_SEARCHED]: {
+    resultCount: number;
+    interactionFilter: boolean;
+  };
+  [PostHogEvents.WORKSPACE_CREATED]: { tenantId: string };
+  [PostHogEvents.INVITATION_SENT]: { tenantId: string; role: string };
+  [PostHogEvents.INVITATION_ACCEPTED]: { tenantId: string; role: string };
 }
@@ -0,0 +1,26 @@
+export const SourceConnectionSources = {
+  GOOGLE_CONTACTS: 'google_contacts',
+  GMAIL: 'gmail',
+  GOOGLE_CALENDAR: 'google_calendar',
+  LINKEDIN: 'linkedin',
+  TWITTER: 'twitter',
+  CSV_IMPORT: 'csv_import',
+} as const;
+
+/**
+ * Mirrors the `source_connection_source` enum in the database.
+ */
+export type SourceConnectionSource =
+  (typeof SourceConnectionSources)[keyof typeof SourceConnectionSources];
+
+export const SourceConnectionStatuses = {
+  ACTIVE: 'active',
+  REVOKED: 'revoked',
+  ERROR: 'error',
+} as const;
+
+/**
+ * Mirrors the `source_connection_status` enum in the database.
+ */
+export type SourceConnectionStatus =
+  (typeof SourceConnectionStatuses)[keyof typeof SourceConnectionStatuses];
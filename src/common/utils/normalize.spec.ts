@@ -0,0 +1,28 @@
+import { normalizeLinkedinUrl } from './normalize';
+
+describe('normalizeLinkedinUrl', () => {
+  it('reduces a profile URL to its canonical form', () => {
+    expect(
+      normalizeLinkedinUrl('https://www.LinkedIn.com/in/Jane-Doe/?trk=x'),
+    ).toBe('linkedin.com/in/jane-doe');
+  });
+
+  it('decodes escaped characters in the slug', () => {
+    expect(normalizeLinkedinUrl('linkedin.com/in/jos%C3%A9-doe')).toBe(
+      'linkedin.com/in/josé-doe',
+    );
+  });
+
+  it('keeps a slug with a malformed escape as written', () => {
+    expect(normalizeLinkedinUrl('linkedin.com/in/jane%zz-doe%')).toBe(
+      'linkedin.com/in/jane%zz-doe%',
+    );
+  });
+
+  it('ignores URLs that are not profiles', () => {
+    expect(
+      normalizeLinkedinUrl('https://linkedin.com/company/acme'),
+    ).toBeNull();
+    expect(normalizeLinkedinUrl('')).toBeNull();
+  });
+});
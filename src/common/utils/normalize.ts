@@ -0,0 +1,84 @@
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Lowercase and trim an email address. Returns null when the value is not a
+ * plausible address so callers can drop it instead of storing junk.
+ */
+export function normalizeEmail(value?: string | null): string | null {
+  if (!value) return null;
+  const email = value.trim().toLowerCase();
+  return EMAIL_PATTERN.test(email) ? email : null;
+}
+
+/**
+ * Reduce a phone number to digits, keeping a leading `+` for international
+ * numbers. Returns null when fewer than 7 digits remain.
+ */
+export function normalizePhone(value?: string | null): string | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  const digits = trimmed.replace(/\D/g, '');
+  if (digits.length < 7) return null;
+  return trimmed.startsWith('+') ? `+${digits}` : digits;
+}
+
+/**
+ * Canonical `linkedin.com/in/<slug>` form of a profile URL, so the same
+ * profile matches regardless of scheme, subdomain, query or trailing slash.
+ */
+export function normalizeLinkedinUrl(value?: string | null): string | null {
+  if (!value) return null;
+  const match = value
+    .trim()
+    .toLowerCase()
+    .match(
+      /^(?:https?:\/\/)?(?:[a-z]{2,3}\.)?linkedin\.com\/(in|pub)\/([^/?#]+)/,
+    );
+  if (!match) return null;
+  return `linkedin.com/${match[1]}/${decodeSlug(match[2])}`;
+}
+
+/** A malformed %-escape leaves the slug as it was written. */
+function decodeSlug(slug: string): string {
+  try {
+    return decodeURIComponent(slug);
+  } catch {
+    return slug;
+  }
+}
+
+/**
+ * Lowercase, strip accents and punctuation, and sort name tokens so that
+ * "Doe, Jane" and "Jane Doe" compare equal.
+ */
+export function normalizeName(value?: string | null): string | null {
+  if (!value) return null;
+  const tokens = value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort();
+  return tokens.length ? tokens.join(' ') : null;
+}
+
+const COMPANY_SUFFIXES =
+  /\b(inc|incorporated|llc|ltd|limited|corp|corporation|co|company|gmbh|plc|sa|ag|bv)\b/g;
+
+/**
+ * Company name without punctuation or legal suffixes ("Acme, Inc." -> "acme").
+ */
+export function normalizeCompany(value?: string | null): string | null {
+  if (!value) return null;
+  const company = value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(COMPANY_SUFFIXES, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return company || null;
+}
@@ -14,10 +14,14 @@ const envSchema = z.object({
 
   GOOGLE_CLIENT_ID: z.string().optional(),
   GOOGLE_CLIENT_SECRET: z.string().optional(),
-  GOOGLE_REDIRECT_URI: z.string().default('http://localhost:3000/auth/callback'),
+  GOOGLE_REDIRECT_URI: z
+    .string()
+    .default('http://localhost:3000/auth/callback'),
 
   SESSION_SECRET: z.string(),
+  TOKEN_ENCRYPTION_KEYS: z.string().optional(),
   FRONTEND_URL: z.string().default('http://localhost:8081'),
+  TRUST_PROXY: z.string().optional(),
 
   SENTRY_DSN: z.string().optional(),
 
@@ -25,6 +29,30 @@ const envSchema = z.object({
   POSTHOG_HOST: z.string().default('https://us.i.posthog.com'),
 
   LOGTAIL_SOURCE_TOKEN: z.string().optional(),
+  LOG_REDACTION: z.enum(['hash', 'mask', 'off']).default('hash'),
+  REDACTION_SALT: z.string().optional(),
+
+  GMAIL_BACKFILL_DAYS: z.coerce.number().int().positive().default(90),
+  CALENDAR_BACKFILL_DAYS: z.coerce.number().int().positive().default(90),
+
+  UPSTASH_REDIS_REST_URL: z.string().optional(),
+  UPSTASH_REDIS_REST_TOKEN: z.string().optional(),
+
+  RESEND_API_KEY: z.string().optional(),
+  MAIL_FROM: z.string().default('Kue <onboarding@resend.dev>'),
+
+  NEO4J_URI: z.string().optional(),
+  NEO4J_USERNAME: z.string().optional(),
+  NEO4J_PASSWORD: z.string().optional(),
+  NEO4J_DATABASE: z.string().optional(),
+
+  ANTHROPIC_API_KEY: z.string().optional(),
+  SEARCH_MODEL: z.string().default('claude-3-5-haiku-latest'),
+
+  INNGEST_EVENT_KEY: z.string().optional(),
+  INNGEST_SIGNING_KEY: z.string().optional(),
+  INNGEST_DEV: z.string().optional(),
+  SYNC_SCHEDULE: z.string().default('0 * * * *'),
 });
 
 @Module({
@@ -34,7 +62,10 @@ const envSchema = z.object({
       validate: (config: Record<string, unknown>) => {
         const parsed = envSchema.safeParse(config);
         if (!parsed.success) {
-          console.error('Invalid environment variables:', parsed.error.flatten().fieldErrors);
+          console.error(
+            'Invalid environment variables:',
+            parsed.error.flatten().fieldErrors,
+          );
           throw new Error('Invalid environment variables');
         }
         return parsed.data;
@@ -42,4 +73,4 @@ const envSchema = z.object({
     }),
   ],
 })
-export class ConfigModule { }
+export class ConfigModule {}
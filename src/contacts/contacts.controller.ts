@@ -0,0 +1,37 @@
+import { Controller, Get, HttpStatus, Query, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthGuard } from '../common/guards/auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { RequirePermission } from '../common/decorators/roles.decorator';
+import { Permissions } from '../tenants/permissions';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../common/decorators/current-user.decorator';
+import { ContactsService } from './contacts.service';
+import { ListContactsQueryDto } from './dto/contacts.dto';
+
+@ApiTags('Contacts')
+@Controller('contacts')
+export class ContactsController {
+  constructor(private readonly contactsService: ContactsService) {}
+
+  @Get()
+  @UseGuards(AuthGuard, RolesGuard)
+  @RequirePermission(Permissions.NETWORK_READ)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List synced contacts for the current user' })
+  async listContacts(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: ListContactsQueryDto,
+  ) {
+    const { contacts, total } = await this.contactsService.listContacts(
+      user.tenantId,
+      user.id,
+      { limit: query.limit, offset: query.offset, search: query.q },
+    );
+
+    return {
+      statusCode: HttpStatus.OK,
+      data: { contacts, total, limit: query.limit, offset: query.offset },
+    };
+  }
+}
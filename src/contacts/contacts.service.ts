@@ -0,0 +1,347 @@
+import { Injectable } from '@nestjs/common';
+import { SupabaseService } from '../database/supabase.service';
+import { LoggerService } from '../observability/logger.service';
+import type { SourceConnectionSource } from '../common/types/sources';
+import {
+  normalizeEmail,
+  normalizeLinkedinUrl,
+} from '../common/utils/normalize';
+
+export interface ContactEmail {
+  value: string;
+  type?: string;
+  primary?: boolean;
+}
+
+export interface ContactPhone {
+  value: string;
+  normalized: string | null;
+  type?: string;
+}
+
+export interface ContactOrganization {
+  name?: string;
+  title?: string;
+  department?: string;
+}
+
+export interface ContactPhoto {
+  url: string;
+  default?: boolean;
+}
+
+export interface ContactInput {
+  sourceRecordId: string;
+  displayName?: string | null;
+  givenName?: string | null;
+  familyName?: string | null;
+  emails: ContactEmail[];
+  phones: ContactPhone[];
+  organizations: ContactOrganization[];
+  photos: ContactPhoto[];
+  linkedinUrl?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Identifies which user's records from which source a write applies to.
+ */
+export interface ContactScope {
+  tenantId: string;
+  userId: string;
+  source: SourceConnectionSource;
+  sourceConnectionId?: string | null;
+}
+
+export interface ContactRow {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  source: SourceConnectionSource;
+  source_connection_id: string | null;
+  source_record_id: string;
+  display_name: string | null;
+  given_name: string | null;
+  family_name: string | null;
+  primary_email: string | null;
+  emails: ContactEmail[];
+  phones: ContactPhone[];
+  organizations: ContactOrganization[];
+  photos: ContactPhoto[];
+  linkedin_url: string | null;
+  source_metadata: Record<string, unknown>;
+  last_synced_at: string;
+  deleted_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ListContactsOptions {
+  limit: number;
+  offset: number;
+  search?: string;
+}
+
+const UPSERT_CHUNK_SIZE = 500;
+
+@Injectable()
+export class ContactsService {
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Insert or update contacts for a source. Rows are matched on their source
+   * record id, and anything written here is considered live again.
+   */
+  async upsertContacts(
+    scope: ContactScope,
+    contacts: ContactInput[],
+    syncedAt: Date = new Date(),
+  ): Promise<{ added: number; updated: number }> {
+    let added = 0;
+    let updated = 0;
+
+    for (let i = 0; i < contacts.length; i += UPSERT_CHUNK_SIZE) {
+      const chunk = contacts.slice(i, i + UPSERT_CHUNK_SIZE);
+      const recordIds = chunk.map((contact) => contact.sourceRecordId);
+
+      const { data: existing, error: existingError } = await this.supabase
+        .getClient()
+        .from('contacts')
+        .select('source_record_id')
+        .eq('tenant_id', scope.tenantId)
+        .eq('user_id', scope.userId)
+        .eq('source', scope.source)
+        .in('source_record_id', recordIds);
+
+      if (existingError) {
+        throw new Error(
+          `Failed to load existing contacts: ${existingError.message}`,
+        );
+      }
+
+      const existingIds = new Set(
+        (existing ?? []).map((row) => row.source_record_id as string),
+      );
+
+      const { error } = await this.supabase
+        .getClient()
+        .from('contacts')
+        .upsert(
+          chunk.map((contact) => this.toRow(scope, contact, syncedAt)),
+          { onConflict: 'tenant_id,user_id,source,source_record_id' },
+        );
+
+      if (error) {
+        this.logger.error('Failed to upsert contacts', {
+          userId: scope.userId,
+          source: scope.source,
+          error: error.message,
+        });
+        throw new Error(`Failed to store contacts: ${error.message}`);
+      }
+
+      const chunkUpdated = recordIds.filter((id) => existingIds.has(id)).length;
+      updated += chunkUpdated;
+      added += chunk.length - chunkUpdated;
+    }
+
+    return { added, updated };
+  }
+
+  /**
+   * Soft-delete contacts the source reported as removed.
+   */
+  async markDeleted(
+    scope: ContactScope,
+    sourceRecordIds: string[],
+  ): Promise<number> {
+    if (!sourceRecordIds.length) return 0;
+
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('contacts')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('tenant_id', scope.tenantId)
+      .eq('user_id', scope.userId)
+      .eq('source', scope.source)
+      .in('source_record_id', sourceRecordIds)
+      .is('deleted_at', null)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to delete contacts: ${error.message}`);
+    }
+    return data?.length ?? 0;
+  }
+
+  /**
+   * Soft-delete every live contact of a source that was not written since
+   * `syncedBefore`. Used after a full resync to drop records that no longer
+   * exist upstream.
+   */
+  async markStaleDeleted(
+    scope: ContactScope,
+    syncedBefore: Date,
+  ): Promise<number> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('contacts')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('tenant_id', scope.tenantId)
+      .eq('user_id', scope.userId)
+      .eq('source', scope.source)
+      .lt('last_synced_at', syncedBefore.toISOString())
+      .is('deleted_at', null)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to delete stale contacts: ${error.message}`);
+    }
+    return data?.length ?? 0;
+  }
+
+  /**
+   * Like `markStaleDeleted`, but limited to the records written through one
+   * source connection (one CSV import, for instance).
+   */
+  async markStaleDeletedForConnection(
+    sourceConnectionId: string,
+    syncedBefore: Date,
+  ): Promise<number> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('contacts')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('source_connection_id', sourceConnectionId)
+      .lt('last_synced_at', syncedBefore.toISOString())
+      .is('deleted_at', null)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to delete stale contacts: ${error.message}`);
+    }
+    return data?.length ?? 0;
+  }
+
+  /**
+   * Permanently remove every contact written through a source connection.
+   */
+  async deleteForConnection(sourceConnectionId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('contacts')
+      .delete()
+      .eq('source_connection_id', sourceConnectionId)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to remove contacts: ${error.message}`);
+    }
+    return data?.length ?? 0;
+  }
+
+  /**
+   * Permanently remove every contact a user synced from `sources`.
+   */
+  async deleteForSources(
+    tenantId: string,
+    userId: string,
+    sources: readonly SourceConnectionSource[],
+  ): Promise<number> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('contacts')
+      .delete()
+      .eq('tenant_id', tenantId)
+      .eq('user_id', userId)
+      .in('source', [...sources])
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to remove contacts: ${error.message}`);
+    }
+    return data?.length ?? 0;
+  }
+
+  /**
+   * Live contacts anywhere in the tenant whose primary email is in `emails`.
+   */
+  async findByPrimaryEmails(
+    tenantId: string,
+    emails: string[],
+  ): Promise<ContactRow[]> {
+    if (!emails.length) return [];
+
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('contacts')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .in('primary_email', emails)
+      .is('deleted_at', null);
+
+    if (error) {
+      throw new Error(`Failed to look up contacts: ${error.message}`);
+    }
+    return (data ?? []) as ContactRow[];
+  }
+
+  async listContacts(
+    tenantId: string,
+    userId: string,
+    options: ListContactsOptions,
+  ): Promise<{ contacts: ContactRow[]; total: number }> {
+    let query = this.supabase
+      .getClient()
+      .from('contacts')
+      .select('*', { count: 'exact' })
+      .eq('tenant_id', tenantId)
+      .eq('user_id', userId)
+      .is('deleted_at', null);
+
+    if (options.search) {
+      const term = options.search.replace(/[%,()]/g, ' ').trim();
+      query = query.or(
+        `display_name.ilike.%${term}%,primary_email.ilike.%${term}%`,
+      );
+    }
+
+    const { data, error, count } = await query
+      .order('display_name', { ascending: true, nullsFirst: false })
+      .range(options.offset, options.offset + options.limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to list contacts: ${error.message}`);
+    }
+
+    return { contacts: (data ?? []) as ContactRow[], total: count ?? 0 };
+  }
+
+  private toRow(scope: ContactScope, contact: ContactInput, syncedAt: Date) {
+    const primary =
+      contact.emails.find((email) => email.primary) ?? contact.emails[0];
+
+    return {
+      tenant_id: scope.tenantId,
+      user_id: scope.userId,
+      source: scope.source,
+      source_connection_id: scope.sourceConnectionId ?? null,
+      source_record_id: contact.sourceRecordId,
+      display_name: contact.displayName ?? null,
+      given_name: contact.givenName ?? null,
+      family_name: contact.familyName ?? null,
+      primary_email: normalizeEmail(primary?.value),
+      emails: contact.emails,
+      phones: contact.phones,
+      organizations: contact.organizations,
+      photos: contact.photos,
+      linkedin_url: normalizeLinkedinUrl(contact.linkedinUrl),
+      source_metadata: contact.metadata ?? {},
+      last_synced_at: syncedAt.toISOString(),
+      deleted_at: null,
+    };
+  }
+}
@@ -0,0 +1,28 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ListContactsQueryDto {
+  @ApiPropertyOptional({ description: 'Page size', default: 50, maximum: 200 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @IsOptional()
+  limit: number = 50;
+
+  @ApiPropertyOptional({ description: 'Number of rows to skip', default: 0 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  offset: number = 0;
+
+  @ApiPropertyOptional({
+    description: 'Case-insensitive match on name or primary email',
+    example: 'jane',
+  })
+  @IsString()
+  @IsOptional()
+  q?: string;
+}
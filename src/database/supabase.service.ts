@@ -1,7 +1,103 @@
 import { Injectable, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import type { Attributes } from '@opentelemetry/api';
 import { LoggerService } from '../observability/logger.service';
+import { withSpan } from '../observability/tracer';
+
+const REST_OPERATIONS: Record<string, string> = {
+  GET: 'select',
+  HEAD: 'select',
+  POST: 'insert',
+  PATCH: 'update',
+  DELETE: 'delete',
+};
+
+/**
+ * Span name and attributes for a Supabase API call. Query strings carry
+ * filter values (emails, ids), so only the path is recorded.
+ */
+function describeSupabaseCall(
+  url: URL,
+  method: string,
+  headers: Headers,
+): { name: string; attributes: Attributes } {
+  const [api, , ...rest] = url.pathname.split('/').filter(Boolean);
+  const attributes: Attributes = { 'server.address': url.host };
+
+  if (api === 'rest' && rest[0] === 'rpc') {
+    return {
+      name: `supabase rpc ${rest[1]}`,
+      attributes: {
+        ...attributes,
+        'db.system.name': 'postgresql',
+        'db.operation.name': 'rpc',
+        'db.stored_procedure.name': rest[1],
+      },
+    };
+  }
+  if (api === 'rest' && rest[0]) {
+    const operation = headers.get('prefer')?.includes('resolution=')
+      ? 'upsert'
+      : (REST_OPERATIONS[method] ?? method.toLowerCase());
+    return {
+      name: `supabase ${operation} ${rest[0]}`,
+      attributes: {
+        ...attributes,
+        'db.system.name': 'postgresql',
+        'db.operation.name': operation,
+        'db.collection.name': rest[0],
+      },
+    };
+  }
+
+  // Auth and other APIs; ids in the path would make every name unique
+  const route = rest.filter((segment) => !/\d/.test(segment)).join('/');
+  return {
+    name: `supabase ${api ?? 'api'} ${method} ${route}`.trim(),
+    attributes: { ...attributes, 'http.request.method': method },
+  };
+}
+
+/**
+ * `fetch` for the Supabase client: each call gets a client span named
+ * after its table and operation, or its auth endpoint. `tracing.ts` keeps
+ * the generic fetch span off these calls so each has only this one.
+ */
+function tracedFetch(
+  input: RequestInfo | URL,
+  init?: RequestInit,
+): Promise<Response> {
+  const request = input instanceof Request ? input : undefined;
+  const url = new URL(
+    input instanceof Request
+      ? input.url
+      : input instanceof URL
+        ? input.href
+        : input,
+  );
+  const method = (init?.method ?? request?.method ?? 'GET').toUpperCase();
+  const { name, attributes } = describeSupabaseCall(
+    url,
+    method,
+    new Headers(init?.headers ?? request?.headers),
+  );
+
+  return withSpan(
+    name,
+    attributes,
+    async (span) => {
+      const response = await fetch(input, init);
+      span.setAttribute('http.response.status_code', response.status);
+      if (response.status >= 400) {
+        span.setStatus({ code: SpanStatusCode.ERROR });
+      }
+      return response;
+    },
+    SpanKind.CLIENT,
+  );
+}
 
 @Injectable()
 export class SupabaseService implements OnModuleInit {
@@ -10,7 +106,7 @@ export class SupabaseService implements OnModuleInit {
   constructor(
     private configService: ConfigService,
     private logger: LoggerService,
-  ) { }
+  ) {}
 
   onModuleInit(): void {
     const url = this.configService.get<string>('SUPABASE_URL');
@@ -24,6 +120,7 @@ export class SupabaseService implements OnModuleInit {
           autoRefreshToken: false,
           persistSession: false,
         },
+        global: { fetch: tracedFetch },
       });
       this.logger.info('Supabase client initialized', { url });
     } else {
@@ -43,7 +140,10 @@ export class SupabaseService implements OnModuleInit {
   async verifyConnectivity(): Promise<boolean> {
     if (!this.client) return false;
     try {
-      const { error } = await this.client.from('tenants').select('tenant_id').limit(0);
+      const { error } = await this.client
+        .from('tenants')
+        .select('tenant_id')
+        .limit(0);
       return !error;
     } catch {
       return false;
@@ -0,0 +1,39 @@
+import { Type } from 'class-transformer';
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class IntroPathsQueryDto {
+  @ApiPropertyOptional({ description: 'Person to reach' })
+  @IsUUID('4')
+  @IsOptional()
+  personId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Reach anyone at this company',
+    example: 'Acme',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  company?: string;
+
+  @ApiPropertyOptional({
+    description: 'Maximum paths',
+    default: 10,
+    maximum: 50,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  @IsOptional()
+  limit: number = 10;
+}
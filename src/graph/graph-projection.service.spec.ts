@@ -0,0 +1,171 @@
+import { Test } from '@nestjs/testing';
+import { SupabaseService } from '../database/supabase.service';
+import { IdentityService } from '../identity/identity.service';
+import type { PersonRow } from '../identity/identity.service';
+import { LoggerService } from '../observability/logger.service';
+import { ScoringService } from '../scoring/scoring.service';
+import {
+  TEST_TENANT_ID as TENANT_ID,
+  TEST_USER_ID as USER_ID,
+  personRow,
+} from '../testing/factories';
+import { FakeNeo4j } from '../testing/fake-neo4j';
+import { FakeSupabase } from '../testing/fake-supabase';
+import { GraphProjectionService, companyKey } from './graph-projection.service';
+import { Neo4jService } from './neo4j.service';
+
+describe('GraphProjectionService', () => {
+  let neo4j: FakeNeo4j;
+  let persons: PersonRow[];
+  let service: GraphProjectionService;
+
+  beforeEach(async () => {
+    neo4j = new FakeNeo4j();
+    persons = [
+      personRow('p1', { company: 'Acme, Inc.' }),
+      personRow('p2', { company: 'ACME' }),
+      personRow('p3'),
+    ];
+    const supabase = new FakeSupabase().seed('tenant_users', [
+      {
+        tenant_id: TENANT_ID,
+        user_id: USER_ID,
+        email: 'owner@example.com',
+        display_name: 'Owner',
+        status: 'active',
+      },
+      {
+        tenant_id: TENANT_ID,
+        user_id: 'user-2',
+        email: '',
+        display_name: null,
+        status: 'active',
+      },
+      {
+        tenant_id: TENANT_ID,
+        user_id: 'user-3',
+        email: 'gone@example.com',
+        display_name: null,
+        status: 'removed',
+      },
+      {
+        tenant_id: 'tenant-2',
+        user_id: 'user-4',
+        email: 'other@example.com',
+        display_name: null,
+        status: 'active',
+      },
+    ]);
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        GraphProjectionService,
+        { provide: Neo4jService, useValue: neo4j },
+        {
+          provide: SupabaseService,
+          useValue: supabase.service(),
+        },
+        {
+          provide: IdentityService,
+          useValue: { listAllPersons: () => Promise.resolve(persons) },
+        },
+        {
+          provide: ScoringService,
+          useValue: {
+            listAllScores: () =>
+              Promise.resolve([
+                {
+                  person_id: 'p1',
+                  score: 72,
+                  tier: 'strong',
+                  last_interaction_at: '2026-02-01T00:00:00.000Z',
+                },
+              ]),
+          },
+        },
+        { provide: LoggerService, useValue: { info: jest.fn() } },
+      ],
+    }).compile();
+    service = moduleRef.get(GraphProjectionService);
+  });
+
+  it('keys companies on their normalized name within a tenant', () => {
+    expect(companyKey(TENANT_ID, 'Acme, Inc.')).toBe('tenant-1:acme');
+    expect(companyKey(TENANT_ID, 'ACME')).toBe('tenant-1:acme');
+    expect(companyKey(TENANT_ID, 'Inc.')).toBeNull();
+  });
+
+  it('projects members, persons and relationships', async () => {
+    const result = await service.projectUser(TENANT_ID, USER_ID);
+
+    expect(result).toEqual({ members: 2, persons: 3, companies: 1, knows: 1 });
+    expect(neo4j.paramsOf('MERGE (u)-[:MEMBER_OF]->(t)')).toEqual([
+      {
+        tenantId: TENANT_ID,
+        members: [
+          { id: USER_ID, email: 'owner@example.com', displayName: 'Owner' },
+          { id: 'user-2', email: null, displayName: null },
+        ],
+      },
+    ]);
+
+    const [{ persons: projected }] = neo4j.paramsOf('MERGE (p:Person');
+    expect(
+      (projected as { id: string; companyKey: string | null }[]).map(
+        ({ id, companyKey: key }) => ({ id, key }),
+      ),
+    ).toEqual([
+      { id: 'p1', key: 'tenant-1:acme' },
+      { id: 'p2', key: 'tenant-1:acme' },
+      { id: 'p3', key: null },
+    ]);
+
+    const [knows] = neo4j.paramsOf('MERGE (u)-[k:KNOWS]->(p)');
+    expect(knows).toMatchObject({
+      userId: USER_ID,
+      scores: [
+        {
+          personId: 'p1',
+          score: 72,
+          tier: 'strong',
+          lastInteractionAt: '2026-02-01T00:00:00.000Z',
+        },
+      ],
+    });
+  });
+
+  it('removes what the last run projected and this one did not', async () => {
+    await service.projectUser(TENANT_ID, USER_ID);
+
+    expect(neo4j.paramsOf('NOT u.id IN $memberIds')).toEqual([
+      { tenantId: TENANT_ID, memberIds: [USER_ID, 'user-2'] },
+    ]);
+    expect(neo4j.paramsOf('NOT p.id IN $personIds')).toEqual([
+      { tenantId: TENANT_ID, personIds: ['p1', 'p2', 'p3'] },
+    ]);
+
+    // Stale KNOWS edges are those not stamped by this run.
+    const [stamped] = neo4j.paramsOf('MERGE (u)-[k:KNOWS]->(p)');
+    const [stale] = neo4j.paramsOf('k.projectedAt <> $projectedAt');
+    expect(stale.projectedAt).toBe(stamped.projectedAt);
+  });
+
+  it('writes persons in batches', async () => {
+    persons = Array.from({ length: 2500 }, (_, i) => personRow(`p${i}`));
+
+    await service.projectUser(TENANT_ID, USER_ID);
+
+    expect(
+      neo4j
+        .paramsOf('MERGE (p:Person')
+        .map((params) => (params.persons as unknown[]).length),
+    ).toEqual([1000, 1000, 500]);
+  });
+
+  it('does nothing without a graph database', async () => {
+    neo4j.configured = false;
+
+    await expect(service.projectUser(TENANT_ID, USER_ID)).resolves.toBeNull();
+    expect(neo4j.writes).toEqual([]);
+  });
+});
@@ -0,0 +1,208 @@
+import { Injectable } from '@nestjs/common';
+import { SupabaseService } from '../database/supabase.service';
+import { LoggerService } from '../observability/logger.service';
+import { normalizeCompany } from '../common/utils/normalize';
+import { IdentityService } from '../identity/identity.service';
+import { ScoringService } from '../scoring/scoring.service';
+import { Neo4jService } from './neo4j.service';
+
+export interface ProjectionResult {
+  members: number;
+  persons: number;
+  companies: number;
+  knows: number;
+}
+
+const BATCH_SIZE = 1000;
+
+/**
+ * Company nodes are per tenant and keyed on the normalized name, so
+ * "Acme, Inc." and "ACME" land on the same node.
+ */
+export function companyKey(tenantId: string, company: string): string | null {
+  const normalized = normalizeCompany(company);
+  return normalized ? `${tenantId}:${normalized}` : null;
+}
+
+/**
+ * Mirrors the relational data into Neo4j:
+ *
+ *   (:User)-[:MEMBER_OF]->(:Tenant)
+ *   (:User)-[:KNOWS {score, tier, lastInteractionAt}]->(:Person)
+ *   (:Person)-[:WORKS_AT]->(:Company)
+ *
+ * Supabase stays the source of truth; every projection run overwrites what
+ * it covers, so re-running it is always safe.
+ */
+@Injectable()
+export class GraphProjectionService {
+  constructor(
+    private readonly neo4j: Neo4jService,
+    private readonly supabase: SupabaseService,
+    private readonly identity: IdentityService,
+    private readonly scoring: ScoringService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  isEnabled(): boolean {
+    return this.neo4j.isConfigured();
+  }
+
+  /**
+   * Project the tenant's members and persons, plus the user's KNOWS edges.
+   * Returns null when Neo4j is not configured.
+   */
+  async projectUser(
+    tenantId: string,
+    userId: string,
+  ): Promise<ProjectionResult | null> {
+    if (!this.isEnabled()) return null;
+
+    const members = await this.projectMembers(tenantId);
+    const { persons, companies } = await this.projectPersons(tenantId);
+    const knows = await this.projectKnows(tenantId, userId);
+
+    const result: ProjectionResult = { members, persons, companies, knows };
+    this.logger.info('Graph projection completed', { userId, ...result });
+    return result;
+  }
+
+  private async projectMembers(tenantId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('tenant_users')
+      .select('user_id, email, display_name')
+      .eq('tenant_id', tenantId)
+      .eq('status', 'active');
+
+    if (error) {
+      throw new Error(`Failed to load tenant members: ${error.message}`);
+    }
+
+    const members = (
+      (data ?? []) as {
+        user_id: string;
+        email: string;
+        display_name: string | null;
+      }[]
+    ).map((member) => ({
+      id: member.user_id,
+      email: member.email || null,
+      displayName: member.display_name,
+    }));
+
+    await this.neo4j.write(
+      `MERGE (t:Tenant {id: $tenantId})
+       WITH t
+       UNWIND $members AS member
+       MERGE (u:User {id: member.id})
+       SET u.email = member.email, u.displayName = member.displayName
+       MERGE (u)-[:MEMBER_OF]->(t)`,
+      { tenantId, members },
+    );
+    await this.neo4j.write(
+      `MATCH (u:User)-[m:MEMBER_OF]->(:Tenant {id: $tenantId})
+       WHERE NOT u.id IN $memberIds
+       DELETE m`,
+      { tenantId, memberIds: members.map((member) => member.id) },
+    );
+    return members.length;
+  }
+
+  private async projectPersons(
+    tenantId: string,
+  ): Promise<{ persons: number; companies: number }> {
+    const persons = (await this.identity.listAllPersons(tenantId)).map(
+      (person) => ({
+        id: person.id,
+        displayName: person.display_name,
+        primaryEmail: person.primary_email,
+        company: person.company,
+        title: person.title,
+        companyKey: person.company
+          ? companyKey(tenantId, person.company)
+          : null,
+      }),
+    );
+
+    for (let i = 0; i < persons.length; i += BATCH_SIZE) {
+      await this.neo4j.write(
+        `UNWIND $persons AS person
+         MERGE (p:Person {id: person.id})
+         SET p.tenantId = $tenantId,
+             p.displayName = person.displayName,
+             p.primaryEmail = person.primaryEmail,
+             p.company = person.company,
+             p.title = person.title
+         WITH p, person
+         OPTIONAL MATCH (p)-[w:WORKS_AT]->(c:Company)
+         WHERE c.key <> coalesce(person.companyKey, '')
+         DELETE w
+         WITH DISTINCT p, person
+         WHERE person.companyKey IS NOT NULL
+         MERGE (c:Company {key: person.companyKey})
+         ON CREATE SET c.tenantId = $tenantId, c.name = person.company
+         MERGE (p)-[:WORKS_AT]->(c)`,
+        { tenantId, persons: persons.slice(i, i + BATCH_SIZE) },
+      );
+    }
+
+    // Persons merged away or removed since the last run.
+    await this.neo4j.write(
+      `MATCH (p:Person {tenantId: $tenantId})
+       WHERE NOT p.id IN $personIds
+       DETACH DELETE p`,
+      { tenantId, personIds: persons.map((person) => person.id) },
+    );
+    await this.neo4j.write(
+      `MATCH (c:Company {tenantId: $tenantId})
+       WHERE NOT (c)<-[:WORKS_AT]-()
+       DELETE c`,
+      { tenantId },
+    );
+
+    return {
+      persons: persons.length,
+      companies: new Set(
+        persons.map((person) => person.companyKey).filter(Boolean),
+      ).size,
+    };
+  }
+
+  private async projectKnows(
+    tenantId: string,
+    userId: string,
+  ): Promise<number> {
+    const scores = (await this.scoring.listAllScores(tenantId, userId)).map(
+      (row) => ({
+        personId: row.person_id,
+        score: row.score,
+        tier: row.tier,
+        lastInteractionAt: row.last_interaction_at,
+      }),
+    );
+    const projectedAt = new Date().toISOString();
+
+    for (let i = 0; i < scores.length; i += BATCH_SIZE) {
+      await this.neo4j.write(
+        `MATCH (u:User {id: $userId})
+         UNWIND $scores AS row
+         MATCH (p:Person {id: row.personId})
+         MERGE (u)-[k:KNOWS]->(p)
+         SET k.score = row.score,
+             k.tier = row.tier,
+             k.lastInteractionAt = row.lastInteractionAt,
+             k.projectedAt = $projectedAt`,
+        { userId, projectedAt, scores: scores.slice(i, i + BATCH_SIZE) },
+      );
+    }
+
+    await this.neo4j.write(
+      `MATCH (:User {id: $userId})-[k:KNOWS]->(:Person {tenantId: $tenantId})
+       WHERE k.projectedAt <> $projectedAt
+       DELETE k`,
+      { tenantId, userId, projectedAt },
+    );
+    return scores.length;
+  }
+}
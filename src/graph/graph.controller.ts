@@ -0,0 +1,69 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  ServiceUnavailableException,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthGuard } from '../common/guards/auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { RequirePermission } from '../common/decorators/roles.decorator';
+import { Permissions } from '../tenants/permissions';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../common/decorators/current-user.decorator';
+import { GraphService } from './graph.service';
+import { GraphProjectionService } from './graph-projection.service';
+import { IntroPathsQueryDto } from './dto/graph.dto';
+
+@ApiTags('Graph')
+@Controller('graph')
+@UseGuards(AuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class GraphController {
+  constructor(
+    private readonly graphService: GraphService,
+    private readonly projectionService: GraphProjectionService,
+  ) {}
+
+  @Get('paths')
+  @RequirePermission(Permissions.NETWORK_READ)
+  @ApiOperation({
+    summary: 'Ranked warm-introduction paths to a person or company',
+  })
+  async findPaths(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: IntroPathsQueryDto,
+  ) {
+    const paths = await this.graphService.findIntroPaths(
+      user.tenantId,
+      user.id,
+      { personId: query.personId, company: query.company, limit: query.limit },
+    );
+    return { statusCode: HttpStatus.OK, data: { paths } };
+  }
+
+  @Post('project')
+  @RequirePermission(Permissions.NETWORK_WRITE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Rebuild the graph projection for the current user',
+  })
+  async project(@CurrentUser() user: AuthenticatedUser) {
+    const result = await this.projectionService.projectUser(
+      user.tenantId,
+      user.id,
+    );
+    if (!result) {
+      throw new ServiceUnavailableException('Graph database is not configured');
+    }
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Graph projection completed',
+      data: result,
+    };
+  }
+}
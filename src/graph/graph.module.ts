@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { IdentityModule } from '../identity/identity.module';
+import { ScoringModule } from '../scoring/scoring.module';
+import { GraphController } from './graph.controller';
+import { GraphProjectionService } from './graph-projection.service';
+import { GraphService } from './graph.service';
+import { Neo4jService } from './neo4j.service';
+
+@Module({
+  imports: [AuthModule, IdentityModule, ScoringModule],
+  controllers: [GraphController],
+  providers: [Neo4jService, GraphProjectionService, GraphService],
+  exports: [Neo4jService, GraphProjectionService],
+})
+export class GraphModule {}
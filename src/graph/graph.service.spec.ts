@@ -0,0 +1,88 @@
+import {
+  BadRequestException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { introCandidate } from '../testing/factories';
+import { FakeNeo4j } from '../testing/fake-neo4j';
+import { GraphService } from './graph.service';
+import { Neo4jService } from './neo4j.service';
+
+const TARGET = {
+  id: 'person-1',
+  displayName: 'Jane Doe',
+  primaryEmail: 'jane@acme.com',
+  company: 'Acme, Inc.',
+  title: 'CTO',
+};
+
+describe('GraphService', () => {
+  let neo4j: FakeNeo4j;
+  let service: GraphService;
+
+  beforeEach(async () => {
+    neo4j = new FakeNeo4j();
+    const moduleRef = await Test.createTestingModule({
+      providers: [GraphService, { provide: Neo4jService, useValue: neo4j }],
+    }).compile();
+    service = moduleRef.get(GraphService);
+  });
+
+  it('looks up a company by its normalized key', async () => {
+    await service.findIntroPaths('tenant-1', 'user-1', {
+      company: 'ACME Inc',
+      limit: 10,
+    });
+
+    expect(neo4j.reads).toEqual([
+      { tenantId: 'tenant-1', personId: null, companyKey: 'tenant-1:acme' },
+    ]);
+  });
+
+  it('ranks the candidates the graph returns', async () => {
+    neo4j.rows = [
+      introCandidate('person-1', 'teammate', 90, { target: TARGET }),
+      introCandidate('person-1', 'user-1', 60, { target: TARGET }),
+    ];
+
+    const paths = await service.findIntroPaths('tenant-1', 'user-1', {
+      personId: 'person-1',
+      limit: 10,
+    });
+
+    expect(neo4j.reads[0]).toMatchObject({
+      personId: 'person-1',
+      companyKey: null,
+    });
+    expect(
+      paths.map((path) => ({ direct: path.direct, strength: path.strength })),
+    ).toEqual([
+      { direct: false, strength: 0.765 },
+      { direct: true, strength: 0.6 },
+    ]);
+  });
+
+  it('needs a person or a company', async () => {
+    await expect(
+      service.findIntroPaths('tenant-1', 'user-1', { limit: 10 }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      service.findIntroPaths('tenant-1', 'user-1', {
+        company: ', Inc.',
+        limit: 10,
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('responds 503 without a graph database', async () => {
+    neo4j.configured = false;
+
+    await expect(
+      service.findIntroPaths('tenant-1', 'user-1', {
+        personId: 'person-1',
+        limit: 10,
+      }),
+    ).rejects.toBeInstanceOf(ServiceUnavailableException);
+    expect(neo4j.reads).toEqual([]);
+  });
+});
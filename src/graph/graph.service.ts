@@ -0,0 +1,60 @@
+import {
+  BadRequestException,
+  Injectable,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Neo4jService } from './neo4j.service';
+import { companyKey } from './graph-projection.service';
+import { rankIntroPaths } from './intro-paths';
+import type { IntroCandidate, IntroPath } from './intro-paths';
+
+export interface IntroPathQuery {
+  personId?: string;
+  company?: string;
+  limit: number;
+}
+
+const CANDIDATES_QUERY = `
+  MATCH (:Tenant {id: $tenantId})<-[:MEMBER_OF]-(via:User)-[k:KNOWS]->(target:Person {tenantId: $tenantId})
+  WHERE ($personId IS NOT NULL AND target.id = $personId)
+     OR ($companyKey IS NOT NULL AND (target)-[:WORKS_AT]->(:Company {key: $companyKey}))
+  RETURN target {.id, .displayName, .primaryEmail, .company, .title} AS target,
+         via {.id, .email, .displayName} AS via,
+         k.score AS score,
+         k.tier AS tier,
+         k.lastInteractionAt AS lastInteractionAt
+`;
+
+@Injectable()
+export class GraphService {
+  constructor(private readonly neo4j: Neo4jService) {}
+
+  /**
+   * Ranked ways to reach a person, or anyone at a company: the user's own
+   * relationships first, then introductions through workspace teammates.
+   */
+  async findIntroPaths(
+    tenantId: string,
+    userId: string,
+    query: IntroPathQuery,
+  ): Promise<IntroPath[]> {
+    if (!this.neo4j.isConfigured()) {
+      throw new ServiceUnavailableException('Graph database is not configured');
+    }
+    if (!query.personId && !query.company) {
+      throw new BadRequestException('Provide either personId or company');
+    }
+
+    const key = query.company ? companyKey(tenantId, query.company) : null;
+    if (query.company && !key) {
+      throw new BadRequestException('Company name is empty');
+    }
+
+    const candidates = await this.neo4j.read<IntroCandidate>(CANDIDATES_QUERY, {
+      tenantId,
+      personId: query.personId ?? null,
+      companyKey: key,
+    });
+    return rankIntroPaths(candidates, userId, query.limit);
+  }
+}
@@ -0,0 +1,82 @@
+import { TEST_USER_ID as USER_ID, introCandidate } from '../testing/factories';
+import {
+  MAX_PATHS_PER_TARGET,
+  TEAMMATE_HOP_FACTOR,
+  rankIntroPaths,
+} from './intro-paths';
+
+describe('rankIntroPaths', () => {
+  it('discounts introductions through teammates', () => {
+    const [direct, intro] = rankIntroPaths(
+      [introCandidate('p1', 'teammate', 80), introCandidate('p1', USER_ID, 80)],
+      USER_ID,
+      10,
+    );
+
+    expect(direct).toMatchObject({
+      direct: true,
+      introducer: null,
+      strength: 0.8,
+    });
+    expect(intro).toMatchObject({
+      direct: false,
+      introducer: { id: 'teammate' },
+      strength: 0.8 * TEAMMATE_HOP_FACTOR,
+      relationshipScore: 80,
+    });
+  });
+
+  it('prefers a strong teammate over a weak direct tie', () => {
+    const paths = rankIntroPaths(
+      [introCandidate('p1', USER_ID, 20), introCandidate('p1', 'teammate', 90)],
+      USER_ID,
+      10,
+    );
+
+    expect(paths.map((path) => path.introducer?.id ?? null)).toEqual([
+      'teammate',
+      null,
+    ]);
+  });
+
+  it('breaks ties on the most recent interaction', () => {
+    const paths = rankIntroPaths(
+      [
+        introCandidate('p1', 'a', 50, {
+          lastInteractionAt: '2026-01-01T00:00:00.000Z',
+        }),
+        introCandidate('p1', 'b', 50, {
+          lastInteractionAt: '2026-03-01T00:00:00.000Z',
+        }),
+        introCandidate('p1', 'c', 50, { lastInteractionAt: null }),
+      ],
+      USER_ID,
+      10,
+    );
+
+    expect(paths.map((path) => path.introducer?.id)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('caps paths per target and applies the limit', () => {
+    const teammates = ['a', 'b', 'c', 'd', 'e'];
+    const paths = rankIntroPaths(
+      [
+        ...teammates.map((id, i) => introCandidate('p1', id, 90 - i)),
+        introCandidate('p2', 'a', 10),
+        introCandidate('p3', 'a', 5),
+      ],
+      USER_ID,
+      4,
+    );
+
+    expect(paths.filter((path) => path.target.id === 'p1').length).toBe(
+      MAX_PATHS_PER_TARGET,
+    );
+    expect(paths.map((path) => path.target.id)).toEqual([
+      'p1',
+      'p1',
+      'p1',
+      'p2',
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Ranking for warm-introduction paths. A path is either the user's own
+ * relationship with the target or a teammate's; the Neo4j query supplies the
+ * candidates and this decides their order.
+ */
+
+export interface GraphPersonSummary {
+  id: string;
+  displayName: string | null;
+  primaryEmail: string | null;
+  company: string | null;
+  title: string | null;
+}
+
+export interface GraphUserSummary {
+  id: string;
+  email: string | null;
+  displayName: string | null;
+}
+
+export interface IntroCandidate {
+  target: GraphPersonSummary;
+  /** Workspace member whose KNOWS edge reaches the target. */
+  via: GraphUserSummary;
+  score: number;
+  tier: string | null;
+  lastInteractionAt: string | null;
+}
+
+export interface IntroPath {
+  target: GraphPersonSummary;
+  /** True when the requesting user already knows the target. */
+  direct: boolean;
+  introducer: GraphUserSummary | null;
+  /** 0..1; relationship score, discounted for the extra hop. */
+  strength: number;
+  relationshipScore: number;
+  tier: string | null;
+  lastInteractionAt: string | null;
+}
+
+/** An intro through a teammate is worth less than an equally strong direct tie. */
+export const TEAMMATE_HOP_FACTOR = 0.85;
+export const MAX_PATHS_PER_TARGET = 3;
+
+export function rankIntroPaths(
+  candidates: IntroCandidate[],
+  userId: string,
+  limit: number,
+): IntroPath[] {
+  const paths = candidates
+    .map((candidate): IntroPath => {
+      const direct = candidate.via.id === userId;
+      return {
+        target: candidate.target,
+        direct,
+        introducer: direct ? null : candidate.via,
+        strength:
+          Math.round(
+            (candidate.score / 100) * (direct ? 1 : TEAMMATE_HOP_FACTOR) * 1000,
+          ) / 1000,
+        relationshipScore: candidate.score,
+        tier: candidate.tier,
+        lastInteractionAt: candidate.lastInteractionAt,
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.strength - a.strength ||
+        (b.lastInteractionAt ?? '').localeCompare(a.lastInteractionAt ?? ''),
+    );
+
+  const perTarget = new Map<string, number>();
+  const ranked: IntroPath[] = [];
+  for (const path of paths) {
+    const count = perTarget.get(path.target.id) ?? 0;
+    if (count >= MAX_PATHS_PER_TARGET) continue;
+    perTarget.set(path.target.id, count + 1);
+    ranked.push(path);
+    if (ranked.length >= limit) break;
+  }
+  return ranked;
+}
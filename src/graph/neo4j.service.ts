@@ -0,0 +1,103 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import neo4j, { Driver } from 'neo4j-driver';
+import { LoggerService } from '../observability/logger.service';
+
+// Uniqueness constraints double as the lookup indexes for MERGE.
+const SCHEMA_STATEMENTS = [
+  'CREATE CONSTRAINT tenant_id IF NOT EXISTS FOR (t:Tenant) REQUIRE t.id IS UNIQUE',
+  'CREATE CONSTRAINT user_id IF NOT EXISTS FOR (u:User) REQUIRE u.id IS UNIQUE',
+  'CREATE CONSTRAINT person_id IF NOT EXISTS FOR (p:Person) REQUIRE p.id IS UNIQUE',
+  'CREATE CONSTRAINT company_key IF NOT EXISTS FOR (c:Company) REQUIRE c.key IS UNIQUE',
+  'CREATE INDEX person_tenant IF NOT EXISTS FOR (p:Person) ON (p.tenantId)',
+];
+
+@Injectable()
+export class Neo4jService implements OnModuleInit, OnModuleDestroy {
+  private driver: Driver | null = null;
+  private database: string | undefined;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  onModuleInit(): void {
+    const uri = this.configService.get<string>('NEO4J_URI');
+    const username = this.configService.get<string>('NEO4J_USERNAME');
+    const password = this.configService.get<string>('NEO4J_PASSWORD');
+
+    if (!uri || !username || !password) {
+      this.logger.warn('Neo4j credentials not configured, graph disabled');
+      return;
+    }
+
+    this.driver = neo4j.driver(uri, neo4j.auth.basic(username, password), {
+      disableLosslessIntegers: true,
+    });
+    this.database = this.configService.get<string>('NEO4J_DATABASE');
+    this.logger.info('Neo4j driver initialized', { uri });
+
+    // Not awaited: the driver retries while the server is unreachable, and
+    // that must not hold up application startup.
+    void this.ensureSchema();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.driver?.close();
+  }
+
+  isConfigured(): boolean {
+    return !!this.driver;
+  }
+
+  async read<T = Record<string, unknown>>(
+    cypher: string,
+    params: Record<string, unknown> = {},
+  ): Promise<T[]> {
+    const { records } = await this.getDriver().executeQuery(cypher, params, {
+      routing: neo4j.routing.READ,
+      database: this.database,
+    });
+    return records.map((record) => record.toObject() as T);
+  }
+
+  async write(
+    cypher: string,
+    params: Record<string, unknown> = {},
+  ): Promise<void> {
+    await this.getDriver().executeQuery(cypher, params, {
+      routing: neo4j.routing.WRITE,
+      database: this.database,
+    });
+  }
+
+  async verifyConnectivity(): Promise<boolean> {
+    if (!this.driver) return false;
+    try {
+      await this.driver.verifyConnectivity({ database: this.database });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async ensureSchema(): Promise<void> {
+    try {
+      for (const statement of SCHEMA_STATEMENTS) {
+        await this.write(statement);
+      }
+    } catch (error) {
+      this.logger.warn('Neo4j schema setup failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private getDriver(): Driver {
+    if (!this.driver) {
+      throw new Error('Neo4j driver not initialized');
+    }
+    return this.driver;
+  }
+}
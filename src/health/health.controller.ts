@@ -0,0 +1,40 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { HealthCheck, HealthCheckService } from '@nestjs/terminus';
+import { Public } from '../common/decorators/public.decorator';
+import { IntegrationsHealthIndicator } from './integrations.health';
+
+@ApiTags('Health')
+@Controller('health')
+export class HealthController {
+  constructor(
+    private readonly health: HealthCheckService,
+    private readonly integrations: IntegrationsHealthIndicator,
+  ) {}
+
+  @Get('live')
+  @Public()
+  @HealthCheck()
+  @ApiOperation({ summary: 'Liveness probe: the process is serving requests' })
+  live() {
+    return this.health.check([]);
+  }
+
+  @Get('ready')
+  @Public()
+  @HealthCheck()
+  @ApiOperation({
+    summary:
+      'Readiness probe: Supabase is reachable and Google OAuth is configured; reports optional integrations',
+  })
+  ready() {
+    return this.health.check([
+      () => this.integrations.supabaseReachable(),
+      () => this.integrations.googleOAuthConfigured(),
+      () => this.integrations.neo4jReachable(),
+      () => this.integrations.posthogConfigured(),
+      () => this.integrations.logtailConfigured(),
+      () => this.integrations.queueConfigured(),
+    ]);
+  }
+}
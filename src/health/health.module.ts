@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { TerminusModule } from '@nestjs/terminus';
+import { GraphModule } from '../graph/graph.module';
+import { HealthController } from './health.controller';
+import { IntegrationsHealthIndicator } from './integrations.health';
+
+@Module({
+  imports: [TerminusModule, GraphModule],
+  controllers: [HealthController],
+  providers: [IntegrationsHealthIndicator],
+})
+export class HealthModule {}
@@ -0,0 +1,120 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HealthIndicatorService } from '@nestjs/terminus';
+import type { HealthIndicatorResult } from '@nestjs/terminus';
+import { SupabaseService } from '../database/supabase.service';
+import { Neo4jService } from '../graph/neo4j.service';
+import { isInngestDev } from '../jobs/inngest.client';
+import { LoggerService } from '../observability/logger.service';
+import { PosthogService } from '../observability/posthog.service';
+import { withTimeout } from '../common/utils/async';
+
+/** Budget for each network round trip; config-only checks need none. */
+export const HEALTH_CHECK_TIMEOUT_MS = 3000;
+
+/**
+ * One health indicator per dependency, so `/health/ready` reports each
+ * separately. Supabase and the Google OAuth config are required: without
+ * them the API cannot serve requests. The other integrations are optional
+ * and never report `down`; their details say whether they are configured
+ * and, where there is something to call, reachable.
+ */
+@Injectable()
+export class IntegrationsHealthIndicator {
+  constructor(
+    private readonly health: HealthIndicatorService,
+    private readonly config: ConfigService,
+    private readonly supabase: SupabaseService,
+    private readonly neo4j: Neo4jService,
+    private readonly posthog: PosthogService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  async supabaseReachable(key = 'supabase'): Promise<HealthIndicatorResult> {
+    const indicator = this.health.check(key);
+    if (
+      !this.config.get<string>('SUPABASE_URL') ||
+      !this.config.get<string>('SUPABASE_SERVICE_ROLE_KEY')
+    ) {
+      return indicator.down({ configured: false });
+    }
+
+    const started = Date.now();
+    try {
+      const reachable = await withTimeout(
+        this.supabase.verifyConnectivity(),
+        HEALTH_CHECK_TIMEOUT_MS,
+      );
+      const latencyMs = Date.now() - started;
+      return reachable
+        ? indicator.up({ configured: true, latencyMs })
+        : indicator.down({ configured: true, latencyMs, reachable: false });
+    } catch (error) {
+      return indicator.down({
+        configured: true,
+        reachable: false,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  googleOAuthConfigured(key = 'google_oauth'): HealthIndicatorResult {
+    const indicator = this.health.check(key);
+    const missing = [
+      'GOOGLE_CLIENT_ID',
+      'GOOGLE_CLIENT_SECRET',
+      'GOOGLE_REDIRECT_URI',
+    ].filter((name) => !this.config.get<string>(name));
+
+    return missing.length
+      ? indicator.down({ configured: false, missing })
+      : indicator.up({ configured: true });
+  }
+
+  async neo4jReachable(key = 'neo4j'): Promise<HealthIndicatorResult> {
+    const indicator = this.health.check(key);
+    if (!this.neo4j.isConfigured()) {
+      return indicator.up({ configured: false });
+    }
+
+    const started = Date.now();
+    let reachable = false;
+    try {
+      reachable = await withTimeout(
+        this.neo4j.verifyConnectivity(),
+        HEALTH_CHECK_TIMEOUT_MS,
+      );
+    } catch {
+      // Timed out; reported below
+    }
+    if (!reachable) {
+      this.logger.warn('Neo4j health check failed');
+    }
+    return indicator.up({
+      configured: true,
+      reachable,
+      latencyMs: Date.now() - started,
+    });
+  }
+
+  posthogConfigured(key = 'posthog'): HealthIndicatorResult {
+    return this.health
+      .check(key)
+      .up({ configured: this.posthog.isConfigured() });
+  }
+
+  logtailConfigured(key = 'logtail'): HealthIndicatorResult {
+    return this.health.check(key).up({ configured: this.logger.isShipping() });
+  }
+
+  queueConfigured(key = 'queue'): HealthIndicatorResult {
+    const dev = isInngestDev(this.config);
+    return this.health.check(key).up({
+      configured:
+        dev ||
+        (!!this.config.get<string>('INNGEST_EVENT_KEY') &&
+          !!this.config.get<string>('INNGEST_SIGNING_KEY')),
+      mode: dev ? 'dev' : 'cloud',
+    });
+  }
+}
@@ -0,0 +1,82 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ListPersonsQueryDto {
+  @ApiPropertyOptional({ description: 'Page size', default: 50, maximum: 200 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @IsOptional()
+  limit: number = 50;
+
+  @ApiPropertyOptional({ description: 'Number of rows to skip', default: 0 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  offset: number = 0;
+
+  @ApiPropertyOptional({
+    description: 'Case-insensitive match on name, primary email or company',
+    example: 'jane',
+  })
+  @IsString()
+  @IsOptional()
+  q?: string;
+}
+
+export class MergePersonsDto {
+  @ApiProperty({
+    description: 'Persons to merge into one',
+    example: [
+      '0b6f3c0e-7a51-4a8e-9a43-0d7b1f6f2a11',
+      '5d2e8f7a-1c3b-4e6d-8f9a-2b4c6d8e0f13',
+    ],
+  })
+  @IsArray()
+  @ArrayMinSize(2)
+  @IsUUID('4', { each: true })
+  personIds: string[];
+
+  @ApiPropertyOptional({
+    description: 'Person that survives the merge; defaults to the first id',
+  })
+  @IsUUID('4')
+  @IsOptional()
+  targetPersonId?: string;
+
+  @ApiPropertyOptional({ example: 'Same person, personal and work email' })
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  reason?: string;
+}
+
+export class UnmergePersonDto {
+  @ApiProperty({
+    description: 'Contacts to split off into a new person',
+    example: ['9c1d2e3f-4a5b-4c6d-8e7f-0a1b2c3d4e5f'],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsUUID('4', { each: true })
+  contactIds: string[];
+
+  @ApiPropertyOptional({ example: 'Different people with the same name' })
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  reason?: string;
+}
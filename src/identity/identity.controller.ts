@@ -0,0 +1,133 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiBody, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthGuard } from '../common/guards/auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { RequirePermission } from '../common/decorators/roles.decorator';
+import { Permissions } from '../tenants/permissions';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../common/decorators/current-user.decorator';
+import { IdentityService } from './identity.service';
+import {
+  ListPersonsQueryDto,
+  MergePersonsDto,
+  UnmergePersonDto,
+} from './dto/identity.dto';
+
+@ApiTags('Persons')
+@Controller('persons')
+@UseGuards(AuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class IdentityController {
+  constructor(private readonly identityService: IdentityService) {}
+
+  @Get()
+  @RequirePermission(Permissions.NETWORK_READ)
+  @ApiOperation({ summary: 'List resolved persons in the workspace' })
+  async listPersons(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: ListPersonsQueryDto,
+  ) {
+    const { persons, total } = await this.identityService.listPersons(
+      user.tenantId,
+      { limit: query.limit, offset: query.offset, search: query.q },
+    );
+
+    return {
+      statusCode: HttpStatus.OK,
+      data: { persons, total, limit: query.limit, offset: query.offset },
+    };
+  }
+
+  @Post('resolve')
+  @RequirePermission(Permissions.NETWORK_WRITE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Re-run identity resolution over all contacts' })
+  async resolve(@CurrentUser() user: AuthenticatedUser) {
+    const summary = await this.identityService.resolveTenant(user.tenantId);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Identity resolution completed',
+      data: summary,
+    };
+  }
+
+  @Post('merge')
+  @RequirePermission(Permissions.NETWORK_WRITE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Manually merge persons into one' })
+  @ApiBody({ type: MergePersonsDto })
+  async merge(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: MergePersonsDto,
+  ) {
+    const person = await this.identityService.merge(
+      user.tenantId,
+      user.id,
+      dto.personIds,
+      dto.targetPersonId,
+      dto.reason,
+    );
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Persons merged',
+      data: person,
+    };
+  }
+
+  @Get(':id')
+  @RequirePermission(Permissions.NETWORK_READ)
+  @ApiOperation({ summary: 'Get a person with the source contacts behind it' })
+  async getPerson(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    const person = await this.identityService.getPerson(user.tenantId, id);
+    return { statusCode: HttpStatus.OK, data: person };
+  }
+
+  @Get(':id/history')
+  @RequirePermission(Permissions.NETWORK_READ)
+  @ApiOperation({ summary: 'Merge and unmerge decisions involving a person' })
+  async getHistory(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    const decisions = await this.identityService.getHistory(user.tenantId, id);
+    return { statusCode: HttpStatus.OK, data: { decisions } };
+  }
+
+  @Post(':id/unmerge')
+  @RequirePermission(Permissions.NETWORK_WRITE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Split contacts off a person into a new person' })
+  @ApiBody({ type: UnmergePersonDto })
+  async unmerge(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UnmergePersonDto,
+  ) {
+    const result = await this.identityService.unmerge(
+      user.tenantId,
+      user.id,
+      id,
+      dto.contactIds,
+      dto.reason,
+    );
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Person unmerged',
+      data: result,
+    };
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { IdentityController } from './identity.controller';
+import { IdentityService } from './identity.service';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [IdentityController],
+  providers: [IdentityService],
+  exports: [IdentityService],
+})
+export class IdentityModule {}
@@ -0,0 +1,948 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { SupabaseService } from '../database/supabase.service';
+import { LoggerService } from '../observability/logger.service';
+import type {
+  ContactOrganization,
+  ContactRow,
+} from '../contacts/contacts.service';
+import {
+  normalizeCompany,
+  normalizeEmail,
+  normalizeName,
+  normalizePhone,
+} from '../common/utils/normalize';
+import { clusterRecords, findMatches, participantRecordId } from './matching';
+import type { IdentityRecord, MatchMethod } from './matching';
+
+export interface PersonRow {
+  id: string;
+  tenant_id: string;
+  display_name: string | null;
+  primary_email: string | null;
+  company: string | null;
+  title: string | null;
+  linkedin_url: string | null;
+  contact_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PersonContactLink {
+  contact_id: string;
+  person_id: string;
+  match_method: MatchMethod;
+  confidence: number;
+  locked: boolean;
+}
+
+export interface PersonParticipantLink {
+  email: string;
+  person_id: string;
+  display_name: string | null;
+  match_method: MatchMethod;
+  confidence: number;
+  locked: boolean;
+}
+
+export interface PersonDetail extends PersonRow {
+  contacts: (ContactRow & {
+    match_method: MatchMethod;
+    confidence: number;
+    locked: boolean;
+  })[];
+  /** Addresses the person used on emails and meetings. */
+  participants: Omit<PersonParticipantLink, 'person_id'>[];
+}
+
+export interface IdentityDecisionRow {
+  id: string;
+  tenant_id: string;
+  actor_user_id: string;
+  action: 'merge' | 'unmerge';
+  person_ids: string[];
+  contact_ids: string[];
+  result_person_id: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+export interface ResolutionSummary {
+  contacts: number;
+  participants: number;
+  persons: number;
+  personsCreated: number;
+  personsRemoved: number;
+  multiSourcePersons: number;
+}
+
+export interface ListPersonsOptions {
+  limit: number;
+  offset: number;
+  search?: string;
+}
+
+type ResolvableContact = Pick<
+  ContactRow,
+  | 'id'
+  | 'source'
+  | 'display_name'
+  | 'given_name'
+  | 'family_name'
+  | 'primary_email'
+  | 'emails'
+  | 'phones'
+  | 'organizations'
+  | 'linkedin_url'
+>;
+
+/** Someone seen on the tenant's live interactions, by normalized email. */
+interface ResolvableParticipant {
+  email: string;
+  display_name: string | null;
+  sources: Set<string>;
+}
+
+const CONTACT_COLUMNS =
+  'id, source, display_name, given_name, family_name, primary_email, emails, phones, organizations, linkedin_url';
+const PARTICIPANT_LINK_COLUMNS =
+  'email, person_id, display_name, match_method, confidence, locked';
+const PAGE_SIZE = 1000;
+const WRITE_CHUNK_SIZE = 500;
+
+// Sources whose names and titles are maintained by the person themselves or
+// curated by the user win when building a person's summary.
+const SOURCE_PRIORITY = ['google_contacts', 'linkedin', 'csv_import'];
+
+@Injectable()
+export class IdentityService {
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Re-cluster every live contact in a tenant, and everyone on its live
+   * emails and meetings, into persons. Participants match contacts and each
+   * other by email. Existing person ids are reused where a cluster still
+   * contains their records, and records locked by a manual decision never
+   * move.
+   */
+  async resolveTenant(tenantId: string): Promise<ResolutionSummary> {
+    const contacts = await this.loadAll<ResolvableContact>(
+      'contacts',
+      CONTACT_COLUMNS,
+      tenantId,
+      { orderBy: 'id', liveOnly: true },
+    );
+    const links = await this.loadAll<PersonContactLink>(
+      'person_contacts',
+      'contact_id, person_id, match_method, confidence, locked',
+      tenantId,
+      { orderBy: 'contact_id' },
+    );
+    const participants = await this.loadParticipants(tenantId);
+    const participantLinks = await this.loadAll<PersonParticipantLink>(
+      'person_participants',
+      PARTICIPANT_LINK_COLUMNS,
+      tenantId,
+      { orderBy: 'email' },
+    );
+    const existingPersons = await this.loadAll<{ id: string }>(
+      'persons',
+      'id',
+      tenantId,
+      { orderBy: 'id' },
+    );
+
+    const linkByContact = new Map(links.map((link) => [link.contact_id, link]));
+    const linkByRecord = new Map<string, { person_id: string }>([
+      ...links.map((link) => [link.contact_id, link] as const),
+      ...participantLinks.map(
+        (link) => [participantRecordId(link.email), link] as const,
+      ),
+    ]);
+    const contactById = new Map(
+      contacts.map((contact) => [contact.id, contact]),
+    );
+    const participantById = new Map(
+      participants.map((participant) => [
+        participantRecordId(participant.email),
+        participant,
+      ]),
+    );
+    const participantLinkByEmail = new Map(
+      participantLinks.map((link) => [link.email, link]),
+    );
+    const records = [
+      ...contacts.map((contact) =>
+        this.toRecord(contact, linkByContact.get(contact.id)),
+      ),
+      ...participants.map((participant) =>
+        this.toParticipantRecord(
+          participant,
+          participantLinkByEmail.get(participant.email),
+        ),
+      ),
+    ];
+    const clusters = clusterRecords(records, findMatches(records));
+
+    const claimed = new Set<string>();
+    const persons: Record<string, unknown>[] = [];
+    const assignments: Record<string, unknown>[] = [];
+    const participantAssignments: Record<string, unknown>[] = [];
+    let personsCreated = 0;
+    let multiSourcePersons = 0;
+
+    for (const cluster of clusters) {
+      let personId = cluster.anchorPersonId;
+      if (!personId || claimed.has(personId)) {
+        personId = this.majorityPerson(
+          cluster.members.map((member) => linkByRecord.get(member.id)),
+          claimed,
+        );
+      }
+      if (!personId) {
+        personId = randomUUID();
+        personsCreated++;
+      }
+      claimed.add(personId);
+
+      const memberContacts: ResolvableContact[] = [];
+      const memberParticipants: ResolvableParticipant[] = [];
+      for (const member of cluster.members) {
+        const link = {
+          person_id: personId,
+          tenant_id: tenantId,
+          match_method: member.method,
+          confidence: member.confidence,
+          locked: member.method === 'manual',
+        };
+        const participant = participantById.get(member.id);
+        if (participant) {
+          memberParticipants.push(participant);
+          participantAssignments.push({
+            ...link,
+            email: participant.email,
+            display_name: participant.display_name,
+          });
+        } else {
+          memberContacts.push(contactById.get(member.id)!);
+          assignments.push({ ...link, contact_id: member.id });
+        }
+      }
+
+      persons.push({
+        id: personId,
+        ...this.summarize(tenantId, memberContacts, memberParticipants),
+      });
+      const sources = new Set([
+        ...memberContacts.map((contact) => contact.source),
+        ...memberParticipants.flatMap((participant) => [
+          ...participant.sources,
+        ]),
+      ]);
+      if (sources.size > 1) {
+        multiSourcePersons++;
+      }
+    }
+
+    await this.upsertChunks('persons', persons, 'id');
+    await this.upsertChunks('person_contacts', assignments, 'contact_id');
+    await this.upsertChunks(
+      'person_participants',
+      participantAssignments,
+      'tenant_id,email',
+    );
+
+    // Links for contacts that were soft-deleted since the last run, and for
+    // addresses no longer on any live interaction.
+    const orphanedLinks = links
+      .filter((link) => !contactById.has(link.contact_id))
+      .map((link) => link.contact_id);
+    await this.deleteChunks('person_contacts', 'contact_id', orphanedLinks);
+    const orphanedParticipants = participantLinks
+      .filter((link) => !participantById.has(participantRecordId(link.email)))
+      .map((link) => link.email);
+    await this.deleteChunks(
+      'person_participants',
+      'email',
+      orphanedParticipants,
+      tenantId,
+    );
+
+    const removedPersons = existingPersons
+      .map((person) => person.id)
+      .filter((id) => !claimed.has(id));
+    await this.deleteChunks('persons', 'id', removedPersons);
+
+    const summary: ResolutionSummary = {
+      contacts: contacts.length,
+      participants: participants.length,
+      persons: persons.length,
+      personsCreated,
+      personsRemoved: removedPersons.length,
+      multiSourcePersons,
+    };
+    this.logger.info('Identity resolution completed', { tenantId, ...summary });
+    return summary;
+  }
+
+  /**
+   * Every normalized email of the tenant's live contacts and interaction
+   * participants, mapped to the person it resolved to.
+   */
+  async getPersonIdsByEmail(tenantId: string): Promise<Map<string, string>> {
+    const contacts = await this.loadAll<
+      Pick<ContactRow, 'id' | 'primary_email' | 'emails'>
+    >('contacts', 'id, primary_email, emails', tenantId, {
+      orderBy: 'id',
+      liveOnly: true,
+    });
+    const links = await this.loadAll<PersonContactLink>(
+      'person_contacts',
+      'contact_id, person_id',
+      tenantId,
+      { orderBy: 'contact_id' },
+    );
+
+    const personByContact = new Map(
+      links.map((link) => [link.contact_id, link.person_id]),
+    );
+    const personByEmail = new Map<string, string>();
+    for (const contact of contacts) {
+      const personId = personByContact.get(contact.id);
+      if (!personId) continue;
+      for (const value of [
+        contact.primary_email,
+        ...contact.emails.map((email) => email.value),
+      ]) {
+        const email = normalizeEmail(value);
+        if (email && !personByEmail.has(email)) {
+          personByEmail.set(email, personId);
+        }
+      }
+    }
+
+    const participantLinks = await this.loadAll<
+      Pick<PersonParticipantLink, 'email' | 'person_id'>
+    >('person_participants', 'email, person_id', tenantId, {
+      orderBy: 'email',
+    });
+    for (const link of participantLinks) {
+      if (!personByEmail.has(link.email)) {
+        personByEmail.set(link.email, link.person_id);
+      }
+    }
+    return personByEmail;
+  }
+
+  /**
+   * Every person in a tenant, for bulk consumers such as the graph projection
+   */
+  async listAllPersons(tenantId: string): Promise<PersonRow[]> {
+    return this.loadAll<PersonRow>('persons', '*', tenantId, {
+      orderBy: 'id',
+    });
+  }
+
+  async listPersons(
+    tenantId: string,
+    options: ListPersonsOptions,
+  ): Promise<{ persons: PersonRow[]; total: number }> {
+    let query = this.supabase
+      .getClient()
+      .from('persons')
+      .select('*', { count: 'exact' })
+      .eq('tenant_id', tenantId);
+
+    if (options.search) {
+      const term = options.search.replace(/[%,()]/g, ' ').trim();
+      query = query.or(
+        `display_name.ilike.%${term}%,primary_email.ilike.%${term}%,company.ilike.%${term}%`,
+      );
+    }
+
+    const { data, error, count } = await query
+      .order('display_name', { ascending: true, nullsFirst: false })
+      .range(options.offset, options.offset + options.limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to list persons: ${error.message}`);
+    }
+    return { persons: (data ?? []) as PersonRow[], total: count ?? 0 };
+  }
+
+  async getPerson(tenantId: string, personId: string): Promise<PersonDetail> {
+    const person = await this.findPerson(tenantId, personId);
+
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('person_contacts')
+      .select('match_method, confidence, locked, contact:contacts(*)')
+      .eq('person_id', personId);
+
+    if (error) {
+      throw new Error(`Failed to load person contacts: ${error.message}`);
+    }
+
+    const rows = (data ?? []) as unknown as (Omit<
+      PersonContactLink,
+      'contact_id' | 'person_id'
+    > & { contact: ContactRow })[];
+    const participants = await this.loadPersonParticipants(personId);
+
+    return {
+      ...person,
+      contacts: rows.map(({ contact, match_method, confidence, locked }) => ({
+        ...contact,
+        match_method,
+        confidence: Number(confidence),
+        locked,
+      })),
+      participants: participants.map((participant) => ({
+        email: participant.email,
+        display_name: participant.display_name,
+        match_method: participant.match_method,
+        confidence: Number(participant.confidence),
+        locked: participant.locked,
+      })),
+    };
+  }
+
+  /**
+   * Manually merge persons into one. Every contact and participant involved
+   * is locked to the surviving person so automatic resolution cannot split
+   * them again.
+   */
+  async merge(
+    tenantId: string,
+    actorUserId: string,
+    personIds: string[],
+    targetPersonId?: string,
+    reason?: string,
+  ): Promise<PersonDetail> {
+    const ids = [...new Set(personIds)];
+    if (ids.length < 2) {
+      throw new BadRequestException('Merging needs at least two persons');
+    }
+
+    const targetId = targetPersonId ?? ids[0];
+    if (!ids.includes(targetId)) {
+      throw new BadRequestException(
+        'targetPersonId must be one of the merged persons',
+      );
+    }
+
+    for (const id of ids) {
+      await this.findPerson(tenantId, id);
+    }
+
+    const { data: moved, error } = await this.supabase
+      .getClient()
+      .from('person_contacts')
+      .update({
+        person_id: targetId,
+        match_method: 'manual',
+        confidence: 1,
+        locked: true,
+      })
+      .in('person_id', ids)
+      .select('contact_id');
+
+    if (error) {
+      throw new Error(`Failed to merge persons: ${error.message}`);
+    }
+
+    const { error: participantsError } = await this.supabase
+      .getClient()
+      .from('person_participants')
+      .update({
+        person_id: targetId,
+        match_method: 'manual',
+        confidence: 1,
+        locked: true,
+      })
+      .in('person_id', ids);
+
+    if (participantsError) {
+      throw new Error(
+        `Failed to merge person participants: ${participantsError.message}`,
+      );
+    }
+
+    await this.deleteChunks(
+      'persons',
+      'id',
+      ids.filter((id) => id !== targetId),
+    );
+    await this.refreshPerson(tenantId, targetId);
+    await this.recordDecision({
+      tenant_id: tenantId,
+      actor_user_id: actorUserId,
+      action: 'merge',
+      person_ids: ids,
+      contact_ids: (moved ?? []).map((row) => row.contact_id as string),
+      result_person_id: targetId,
+      reason: reason ?? null,
+    });
+
+    this.logger.info('Persons merged', {
+      tenantId,
+      userId: actorUserId,
+      personIds: ids,
+      targetPersonId: targetId,
+    });
+    return this.getPerson(tenantId, targetId);
+  }
+
+  /**
+   * Split contacts off a person into a new person. Both sides are locked so
+   * automatic resolution keeps them apart; participants stay on the
+   * original person.
+   */
+  async unmerge(
+    tenantId: string,
+    actorUserId: string,
+    personId: string,
+    contactIds: string[],
+    reason?: string,
+  ): Promise<{ person: PersonDetail; splitPerson: PersonDetail }> {
+    const person = await this.getPerson(tenantId, personId);
+    const ids = [...new Set(contactIds)];
+    const owned = new Set(person.contacts.map((contact) => contact.id));
+
+    const foreign = ids.filter((id) => !owned.has(id));
+    if (foreign.length) {
+      throw new BadRequestException(
+        `Contacts do not belong to this person: ${foreign.join(', ')}`,
+      );
+    }
+    if (!ids.length || ids.length === owned.size) {
+      throw new BadRequestException(
+        'Unmerge must leave at least one contact on each person',
+      );
+    }
+
+    const splitPersonId = randomUUID();
+    const { error: insertError } = await this.supabase
+      .getClient()
+      .from('persons')
+      .insert({ id: splitPersonId, tenant_id: tenantId });
+
+    if (insertError) {
+      throw new Error(`Failed to create person: ${insertError.message}`);
+    }
+
+    const manual = { match_method: 'manual', confidence: 1, locked: true };
+    const { error: moveError } = await this.supabase
+      .getClient()
+      .from('person_contacts')
+      .update({ ...manual, person_id: splitPersonId })
+      .in('contact_id', ids);
+
+    if (moveError) {
+      throw new Error(`Failed to unmerge person: ${moveError.message}`);
+    }
+
+    const { error: lockError } = await this.supabase
+      .getClient()
+      .from('person_contacts')
+      .update(manual)
+      .eq('person_id', personId);
+
+    if (lockError) {
+      throw new Error(`Failed to lock person contacts: ${lockError.message}`);
+    }
+
+    const { error: participantLockError } = await this.supabase
+      .getClient()
+      .from('person_participants')
+      .update(manual)
+      .eq('person_id', personId);
+
+    if (participantLockError) {
+      throw new Error(
+        `Failed to lock person participants: ${participantLockError.message}`,
+      );
+    }
+
+    await this.refreshPerson(tenantId, personId);
+    await this.refreshPerson(tenantId, splitPersonId);
+    await this.recordDecision({
+      tenant_id: tenantId,
+      actor_user_id: actorUserId,
+      action: 'unmerge',
+      person_ids: [personId, splitPersonId],
+      contact_ids: ids,
+      result_person_id: splitPersonId,
+      reason: reason ?? null,
+    });
+
+    this.logger.info('Person unmerged', {
+      tenantId,
+      userId: actorUserId,
+      personId,
+      splitPersonId,
+      contacts: ids.length,
+    });
+    return {
+      person: await this.getPerson(tenantId, personId),
+      splitPerson: await this.getPerson(tenantId, splitPersonId),
+    };
+  }
+
+  /**
+   * Merge and unmerge decisions that involved a person, newest first.
+   */
+  async getHistory(
+    tenantId: string,
+    personId: string,
+  ): Promise<IdentityDecisionRow[]> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('identity_decisions')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .contains('person_ids', [personId])
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load identity history: ${error.message}`);
+    }
+    return (data ?? []) as IdentityDecisionRow[];
+  }
+
+  private async findPerson(
+    tenantId: string,
+    personId: string,
+  ): Promise<PersonRow> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('persons')
+      .select('*')
+      .eq('id', personId)
+      .eq('tenant_id', tenantId)
+      .maybeSingle<PersonRow>();
+
+    if (error) {
+      throw new Error(`Failed to load person: ${error.message}`);
+    }
+    if (!data) {
+      throw new NotFoundException(`Person ${personId} not found`);
+    }
+    return data;
+  }
+
+  private async refreshPerson(
+    tenantId: string,
+    personId: string,
+  ): Promise<void> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('person_contacts')
+      .select(`contact:contacts(${CONTACT_COLUMNS})`)
+      .eq('person_id', personId);
+
+    if (error) {
+      throw new Error(`Failed to load person contacts: ${error.message}`);
+    }
+
+    const contacts = (
+      (data ?? []) as unknown as { contact: ResolvableContact }[]
+    )
+      .map((row) => row.contact)
+      .filter(Boolean);
+    const participants = (await this.loadPersonParticipants(personId)).map(
+      (link) => ({
+        email: link.email,
+        display_name: link.display_name,
+        sources: new Set<string>(),
+      }),
+    );
+
+    const { error: updateError } = await this.supabase
+      .getClient()
+      .from('persons')
+      .update(this.summarize(tenantId, contacts, participants))
+      .eq('id', personId);
+
+    if (updateError) {
+      throw new Error(`Failed to update person: ${updateError.message}`);
+    }
+  }
+
+  private async loadPersonParticipants(
+    personId: string,
+  ): Promise<PersonParticipantLink[]> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('person_participants')
+      .select(PARTICIPANT_LINK_COLUMNS)
+      .eq('person_id', personId)
+      .order('email', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load person participants: ${error.message}`);
+    }
+    return (data ?? []) as unknown as PersonParticipantLink[];
+  }
+
+  private async recordDecision(
+    decision: Omit<IdentityDecisionRow, 'id' | 'created_at'>,
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .getClient()
+      .from('identity_decisions')
+      .insert(decision);
+
+    if (error) {
+      throw new Error(`Failed to record identity decision: ${error.message}`);
+    }
+  }
+
+  private toRecord(
+    contact: ResolvableContact,
+    link?: PersonContactLink,
+  ): IdentityRecord {
+    const emails = [
+      contact.primary_email,
+      ...contact.emails.map((e) => e.value),
+    ]
+      .map((email) => normalizeEmail(email))
+      .filter((email): email is string => !!email);
+    const phones = contact.phones
+      .map((phone) => phone.normalized ?? normalizePhone(phone.value))
+      .filter((phone): phone is string => !!phone);
+
+    return {
+      id: contact.id,
+      emails: [...new Set(emails)],
+      phones: [...new Set(phones)],
+      linkedinUrl: contact.linkedin_url,
+      name: normalizeName(this.nameOf(contact)),
+      company: normalizeCompany(contact.organizations[0]?.name),
+      lockedPersonId: link?.locked ? link.person_id : null,
+    };
+  }
+
+  /**
+   * Participants are matched on email alone: without a company there is
+   * nothing to qualify a fuzzy name match with.
+   */
+  private toParticipantRecord(
+    participant: ResolvableParticipant,
+    link?: PersonParticipantLink,
+  ): IdentityRecord {
+    return {
+      id: participantRecordId(participant.email),
+      emails: [participant.email],
+      phones: [],
+      linkedinUrl: null,
+      name: null,
+      company: null,
+      lockedPersonId: link?.locked ? link.person_id : null,
+    };
+  }
+
+  /**
+   * The existing person most members were already assigned to, so ids stay
+   * stable across runs.
+   */
+  private majorityPerson(
+    links: ({ person_id: string } | undefined)[],
+    claimed: Set<string>,
+  ): string | null {
+    const votes = new Map<string, number>();
+    for (const link of links) {
+      if (!link || claimed.has(link.person_id)) continue;
+      votes.set(link.person_id, (votes.get(link.person_id) ?? 0) + 1);
+    }
+
+    let winner: string | null = null;
+    let most = 0;
+    for (const [personId, count] of votes) {
+      if (count > most) {
+        winner = personId;
+        most = count;
+      }
+    }
+    return winner;
+  }
+
+  /**
+   * Contacts win over participants: an address book entry says more about
+   * someone than the name on an email header.
+   */
+  private summarize(
+    tenantId: string,
+    contacts: ResolvableContact[],
+    participants: ResolvableParticipant[] = [],
+  ) {
+    const ranked = [...contacts].sort(
+      (a, b) => this.sourceRank(a.source) - this.sourceRank(b.source),
+    );
+    const first = <T>(pick: (contact: ResolvableContact) => T | null) =>
+      ranked.map(pick).find((value) => !!value) ?? null;
+    const organization = first<ContactOrganization>(
+      (contact) => contact.organizations.find((org) => !!org.name) ?? null,
+    );
+
+    return {
+      tenant_id: tenantId,
+      display_name:
+        first((contact) => this.nameOf(contact)) ??
+        participants.find((participant) => !!participant.display_name)
+          ?.display_name ??
+        null,
+      primary_email:
+        first((contact) => contact.primary_email) ??
+        participants[0]?.email ??
+        null,
+      company: organization?.name ?? null,
+      title: organization?.title ?? null,
+      linkedin_url: first((contact) => contact.linkedin_url),
+      contact_count: contacts.length,
+    };
+  }
+
+  private nameOf(contact: ResolvableContact): string | null {
+    return (
+      contact.display_name ||
+      [contact.given_name, contact.family_name].filter(Boolean).join(' ') ||
+      null
+    );
+  }
+
+  private sourceRank(source: string): number {
+    const rank = SOURCE_PRIORITY.indexOf(source);
+    return rank === -1 ? SOURCE_PRIORITY.length : rank;
+  }
+
+  /**
+   * Everyone on the tenant's live interactions, one entry per address with
+   * the first display name seen for it.
+   */
+  private async loadParticipants(
+    tenantId: string,
+  ): Promise<ResolvableParticipant[]> {
+    const byEmail = new Map<string, ResolvableParticipant>();
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .getClient()
+        .from('interaction_participants')
+        .select('email, display_name, interaction:interactions!inner(source)')
+        .eq('tenant_id', tenantId)
+        .is('interaction.deleted_at', null)
+        .order('interaction_id', { ascending: true })
+        .order('email', { ascending: true })
+        .order('role', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(
+          `Failed to load interaction participants: ${error.message}`,
+        );
+      }
+
+      const page = (data ?? []) as unknown as {
+        email: string;
+        display_name: string | null;
+        interaction: { source: string };
+      }[];
+      for (const row of page) {
+        const participant = byEmail.get(row.email) ?? {
+          email: row.email,
+          display_name: null,
+          sources: new Set<string>(),
+        };
+        participant.display_name ??= row.display_name;
+        participant.sources.add(row.interaction.source);
+        byEmail.set(row.email, participant);
+      }
+      if (page.length < PAGE_SIZE) return [...byEmail.values()];
+    }
+  }
+
+  /**
+   * Every row of a tenant-scoped table, read in pages
+   */
+  private async loadAll<T>(
+    table: string,
+    columns: string,
+    tenantId: string,
+    options: { orderBy: string; liveOnly?: boolean },
+  ): Promise<T[]> {
+    const rows: T[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = this.supabase
+        .getClient()
+        .from(table)
+        .select(columns)
+        .eq('tenant_id', tenantId);
+      if (options.liveOnly) {
+        query = query.is('deleted_at', null);
+      }
+
+      const { data, error } = await query
+        .order(options.orderBy, { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load ${table}: ${error.message}`);
+      }
+      const page = (data ?? []) as unknown as T[];
+      rows.push(...page);
+      if (page.length < PAGE_SIZE) return rows;
+    }
+  }
+
+  private async upsertChunks(
+    table: string,
+    rows: object[],
+    onConflict: string,
+  ): Promise<void> {
+    for (let i = 0; i < rows.length; i += WRITE_CHUNK_SIZE) {
+      const { error } = await this.supabase
+        .getClient()
+        .from(table)
+        .upsert(rows.slice(i, i + WRITE_CHUNK_SIZE), { onConflict });
+
+      if (error) {
+        throw new Error(`Failed to store ${table}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Delete rows by `column`; pass `tenantId` for tables whose key is only
+   * unique within a tenant.
+   */
+  private async deleteChunks(
+    table: string,
+    column: string,
+    values: string[],
+    tenantId?: string,
+  ): Promise<void> {
+    for (let i = 0; i < values.length; i += WRITE_CHUNK_SIZE) {
+      let query = this.supabase
+        .getClient()
+        .from(table)
+        .delete()
+        .in(column, values.slice(i, i + WRITE_CHUNK_SIZE));
+      if (tenantId) {
+        query = query.eq('tenant_id', tenantId);
+      }
+
+      const { error } = await query;
+
+      if (error) {
+        throw new Error(`Failed to remove ${table}: ${error.message}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { clusterRecords, findMatches, participantRecordId } from './matching';
+import type { IdentityRecord } from './matching';
+
+function record(
+  id: string,
+  overrides: Partial<IdentityRecord> = {},
+): IdentityRecord {
+  return {
+    id,
+    emails: [],
+    phones: [],
+    linkedinUrl: null,
+    name: null,
+    company: null,
+    lockedPersonId: null,
+    ...overrides,
+  };
+}
+
+function cluster(records: IdentityRecord[]) {
+  return clusterRecords(records, findMatches(records)).map((c) => ({
+    anchorPersonId: c.anchorPersonId,
+    ids: c.members.map((member) => member.id).sort(),
+  }));
+}
+
+describe('clusterRecords', () => {
+  it('joins records that share an email', () => {
+    const clusters = cluster([
+      record('c1', { emails: ['ada@example.com'] }),
+      record('c2', { emails: ['ada@example.com'] }),
+      record('c3', { emails: ['grace@example.com'] }),
+    ]);
+
+    expect(clusters).toEqual([
+      { anchorPersonId: null, ids: ['c1', 'c2'] },
+      { anchorPersonId: null, ids: ['c3'] },
+    ]);
+  });
+
+  it('keeps records locked to the same person together without a match', () => {
+    const clusters = cluster([
+      record('c1', { emails: ['ada@example.com'], lockedPersonId: 'p1' }),
+      record('c2', { emails: ['ada@work.example'], lockedPersonId: 'p1' }),
+    ]);
+
+    expect(clusters).toEqual([{ anchorPersonId: 'p1', ids: ['c1', 'c2'] }]);
+  });
+
+  it('keeps both sides of an unmerge apart', () => {
+    const clusters = cluster([
+      record('c1', { emails: ['ada@example.com'], lockedPersonId: 'p1' }),
+      record('c2', { emails: ['ada@example.com'], lockedPersonId: 'p2' }),
+      record('c3', { lockedPersonId: 'p2' }),
+    ]);
+
+    expect(clusters).toEqual([
+      { anchorPersonId: 'p1', ids: ['c1'] },
+      { anchorPersonId: 'p2', ids: ['c2', 'c3'] },
+    ]);
+  });
+
+  it('pulls unlocked matches into a locked cluster', () => {
+    const [only] = clusterRecords(
+      [
+        record('c1', { lockedPersonId: 'p1' }),
+        record('c2', { phones: ['+15551234567'], lockedPersonId: 'p1' }),
+        record('c3', { phones: ['+15551234567'] }),
+      ],
+      findMatches([
+        record('c2', { phones: ['+15551234567'] }),
+        record('c3', { phones: ['+15551234567'] }),
+      ]),
+    );
+
+    expect(only.anchorPersonId).toBe('p1');
+    expect(only.members).toEqual([
+      { id: 'c1', method: 'manual', confidence: 1 },
+      { id: 'c2', method: 'manual', confidence: 1 },
+      { id: 'c3', method: 'phone', confidence: 0.9 },
+    ]);
+  });
+
+  it('joins interaction participants to contacts by email', () => {
+    const ada = participantRecordId('ada@example.com');
+    const bob = participantRecordId('bob@example.com');
+    const clusters = cluster([
+      record('c1', { emails: ['ada@example.com'] }),
+      record(ada, { emails: ['ada@example.com'] }),
+      record(bob, { emails: ['bob@example.com'] }),
+    ]);
+
+    expect(clusters).toEqual([
+      { anchorPersonId: null, ids: ['c1', ada] },
+      { anchorPersonId: null, ids: [bob] },
+    ]);
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Pure matching and clustering logic for identity resolution. Kept free of
+ * database access so the rules can be reasoned about (and tuned) in isolation.
+ */
+
+export type MatchMethod =
+  | 'email'
+  | 'linkedin'
+  | 'phone'
+  | 'name_company'
+  | 'manual'
+  | 'singleton';
+
+export interface IdentityRecord {
+  /** A contact id, or a participant key from `participantRecordId`. */
+  id: string;
+  emails: string[];
+  phones: string[];
+  linkedinUrl: string | null;
+  /** Output of `normalizeName`. */
+  name: string | null;
+  /** Output of `normalizeCompany`. */
+  company: string | null;
+  /** Set when a manual merge/unmerge pinned this record to a person. */
+  lockedPersonId: string | null;
+}
+
+export interface MatchEdge {
+  a: string;
+  b: string;
+  method: MatchMethod;
+  confidence: number;
+}
+
+export interface Cluster {
+  /** Person the cluster is pinned to by a manual decision, if any. */
+  anchorPersonId: string | null;
+  members: { id: string; method: MatchMethod; confidence: number }[];
+}
+
+/**
+ * Record id for someone seen on interactions, keyed by their normalized
+ * email so it cannot collide with a contact id.
+ */
+export function participantRecordId(email: string): string {
+  return `participant:${email}`;
+}
+
+export const MATCH_CONFIDENCE = {
+  email: 0.99,
+  linkedin: 0.98,
+  phone: 0.9,
+  /** Scaled by name similarity for fuzzy name+company matches. */
+  nameCompany: 0.85,
+} as const;
+
+export const NAME_SIMILARITY_THRESHOLD = 0.92;
+
+/**
+ * Exact matches on shared identifiers, plus fuzzy name matches between
+ * records at the same company.
+ */
+export function findMatches(records: IdentityRecord[]): MatchEdge[] {
+  const edges: MatchEdge[] = [];
+
+  const linkShared = (
+    keyOf: (record: IdentityRecord) => string[],
+    method: MatchMethod,
+    confidence: number,
+  ) => {
+    const firstByKey = new Map<string, string>();
+    for (const record of records) {
+      for (const key of keyOf(record)) {
+        const first = firstByKey.get(key);
+        if (!first) {
+          firstByKey.set(key, record.id);
+        } else if (first !== record.id) {
+          edges.push({ a: first, b: record.id, method, confidence });
+        }
+      }
+    }
+  };
+
+  linkShared((record) => record.emails, 'email', MATCH_CONFIDENCE.email);
+  linkShared(
+    (record) => (record.linkedinUrl ? [record.linkedinUrl] : []),
+    'linkedin',
+    MATCH_CONFIDENCE.linkedin,
+  );
+  linkShared((record) => record.phones, 'phone', MATCH_CONFIDENCE.phone);
+
+  const byCompany = new Map<string, IdentityRecord[]>();
+  for (const record of records) {
+    if (!record.company || !record.name) continue;
+    const group = byCompany.get(record.company) ?? [];
+    group.push(record);
+    byCompany.set(record.company, group);
+  }
+
+  for (const group of byCompany.values()) {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const similarity = jaroWinkler(group[i].name!, group[j].name!);
+        if (similarity >= NAME_SIMILARITY_THRESHOLD) {
+          edges.push({
+            a: group[i].id,
+            b: group[j].id,
+            method: 'name_company',
+            confidence: round(MATCH_CONFIDENCE.nameCompany * similarity),
+          });
+        }
+      }
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * Union-find over match edges, strongest first. Records pinned to the same
+ * person by a manual decision start out joined, whether or not any edge
+ * links them, and two groups pinned to different persons are never joined.
+ */
+export function clusterRecords(
+  records: IdentityRecord[],
+  edges: MatchEdge[],
+): Cluster[] {
+  const parent = new Map<string, string>();
+  const anchor = new Map<string, string | null>();
+  const best = new Map<string, { method: MatchMethod; confidence: number }>();
+
+  for (const record of records) {
+    parent.set(record.id, record.id);
+    anchor.set(record.id, record.lockedPersonId);
+  }
+
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  const firstByAnchor = new Map<string, string>();
+  for (const record of records) {
+    if (!record.lockedPersonId) continue;
+    const first = firstByAnchor.get(record.lockedPersonId);
+    if (first) {
+      parent.set(record.id, first);
+    } else {
+      firstByAnchor.set(record.lockedPersonId, record.id);
+    }
+  }
+
+  const remember = (id: string, method: MatchMethod, confidence: number) => {
+    const current = best.get(id);
+    if (!current || current.confidence < confidence) {
+      best.set(id, { method, confidence });
+    }
+  };
+
+  for (const edge of [...edges].sort((x, y) => y.confidence - x.confidence)) {
+    const rootA = find(edge.a);
+    const rootB = find(edge.b);
+    if (rootA === rootB) continue;
+
+    const anchorA = anchor.get(rootA) ?? null;
+    const anchorB = anchor.get(rootB) ?? null;
+    if (anchorA && anchorB && anchorA !== anchorB) continue;
+
+    parent.set(rootB, rootA);
+    anchor.set(rootA, anchorA ?? anchorB);
+    remember(edge.a, edge.method, edge.confidence);
+    remember(edge.b, edge.method, edge.confidence);
+  }
+
+  const clusters = new Map<string, Cluster>();
+  for (const record of records) {
+    const root = find(record.id);
+    const cluster = clusters.get(root) ?? {
+      anchorPersonId: anchor.get(root) ?? null,
+      members: [],
+    };
+    const match = record.lockedPersonId
+      ? { method: 'manual' as const, confidence: 1 }
+      : (best.get(record.id) ?? {
+          method: 'singleton' as const,
+          confidence: 1,
+        });
+    cluster.members.push({ id: record.id, ...match });
+    clusters.set(root, cluster);
+  }
+
+  return [...clusters.values()];
+}
+
+/**
+ * Jaro-Winkler similarity in [0, 1].
+ */
+export function jaroWinkler(left: string, right: string): number {
+  if (left === right) return 1;
+  if (!left.length || !right.length) return 0;
+
+  const window = Math.max(
+    0,
+    Math.floor(Math.max(left.length, right.length) / 2) - 1,
+  );
+  const leftMatched = new Array<boolean>(left.length).fill(false);
+  const rightMatched = new Array<boolean>(right.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < left.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(i + window + 1, right.length);
+    for (let j = start; j < end; j++) {
+      if (rightMatched[j] || left[i] !== right[j]) continue;
+      leftMatched[i] = true;
+      rightMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (!matches) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < left.length; i++) {
+    if (!leftMatched[i]) continue;
+    while (!rightMatched[k]) k++;
+    if (left[i] !== right[k]) transpositions++;
+    k++;
+  }
+
+  const jaro =
+    (matches / left.length +
+      matches / right.length +
+      (matches - transpositions / 2) / matches) /
+    3;
+
+  let prefix = 0;
+  while (
+    prefix < Math.min(4, left.length, right.length) &&
+    left[prefix] === right[prefix]
+  ) {
+    prefix++;
+  }
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
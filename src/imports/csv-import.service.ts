@@ -0,0 +1,488 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { SupabaseService } from '../database/supabase.service';
+import { LoggerService } from '../observability/logger.service';
+import { PosthogService } from '../observability/posthog.service';
+import { PostHogEvents } from '../common/types/events';
+import { SourceConnectionSources } from '../common/types/sources';
+import { ContactsService } from '../contacts/contacts.service';
+import { SyncService } from '../sync/sync.service';
+import type { ContactScope } from '../contacts/contacts.service';
+import { readCsvRows, splitHeader } from './csv-parsing';
+import type { ParsedCsv } from './csv-parsing';
+import { mapRows, suggestMapping, validateMapping } from './import-mapping';
+import type { ColumnMapping, MappedContact, RowError } from './import-mapping';
+
+export interface CsvImportInput {
+  content: string;
+  fileName?: string;
+  mapping?: ColumnMapping;
+  hasHeader?: boolean;
+}
+
+export interface DuplicateMatch {
+  row: number;
+  email: string | null;
+  reason: 'in_file' | 'existing_contact';
+  duplicateOfRow?: number;
+  contactId?: string;
+  contactSource?: string;
+}
+
+export interface ImportPreview {
+  hasHeader: boolean;
+  headers: string[];
+  mapping: ColumnMapping;
+  totalRows: number;
+  validRows: number;
+  errors: RowError[];
+  duplicates: DuplicateMatch[];
+  sample: MappedContact[];
+}
+
+export interface CsvImportRow {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  source_connection_id: string;
+  file_name: string | null;
+  has_header: boolean;
+  mapping: ColumnMapping;
+  status: 'completed' | 'rolled_back';
+  row_count: number;
+  imported_count: number;
+  error_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+const SAMPLE_SIZE = 20;
+const IMPORT_COLUMNS =
+  'id, tenant_id, user_id, source_connection_id, file_name, has_header, mapping, status, row_count, imported_count, error_count, created_at, updated_at';
+
+@Injectable()
+export class CsvImportService {
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly contacts: ContactsService,
+    private readonly sync: SyncService,
+    private readonly logger: LoggerService,
+    private readonly posthog: PosthogService,
+  ) {}
+
+  /**
+   * Dry run: parse and validate the file without writing anything
+   */
+  async preview(
+    tenantId: string,
+    input: CsvImportInput,
+  ): Promise<ImportPreview> {
+    const { parsed, mapping, mapped } = this.analyse(input);
+    return this.buildPreview(tenantId, parsed, mapping, mapped);
+  }
+
+  /**
+   * Import the file as a new `csv_import` source connection
+   */
+  async commit(
+    tenantId: string,
+    userId: string,
+    input: CsvImportInput,
+  ): Promise<{
+    import: CsvImportRow;
+    added: number;
+    updated: number;
+    errors: RowError[];
+  }> {
+    const { parsed, mapping, mapped } = this.analyse(input);
+    if (!mapped.contacts.length) {
+      throw new BadRequestException('No valid rows to import');
+    }
+
+    const importId = randomUUID();
+    const { data: connection, error: connectionError } = await this.supabase
+      .getClient()
+      .from('source_connections')
+      .insert({
+        tenant_id: tenantId,
+        user_id: userId,
+        source: SourceConnectionSources.CSV_IMPORT,
+        external_account_id: importId,
+        token_json: {},
+        status: 'active',
+      })
+      .select('id')
+      .single();
+
+    if (connectionError || !connection) {
+      throw new Error(
+        `Failed to register CSV import: ${connectionError?.message ?? 'no row returned'}`,
+      );
+    }
+    const connectionId = (connection as { id: string }).id;
+
+    const { data: stored, error: importError } = await this.supabase
+      .getClient()
+      .from('csv_imports')
+      .insert({
+        id: importId,
+        tenant_id: tenantId,
+        user_id: userId,
+        source_connection_id: connectionId,
+        file_name: input.fileName ?? null,
+        content: input.content,
+        has_header: parsed.hasHeader,
+        mapping,
+        row_count: parsed.rows.length,
+        imported_count: mapped.contacts.length,
+        error_count: mapped.errors.length,
+      })
+      .select(IMPORT_COLUMNS)
+      .single();
+
+    if (importError || !stored) {
+      // Without its import row the connection would be an empty source
+      await this.discardConnection(connectionId);
+      throw new Error(
+        `Failed to record CSV import: ${importError?.message ?? 'no row returned'}`,
+      );
+    }
+
+    const counts = await this.contacts.upsertContacts(
+      this.scope(tenantId, userId, connectionId),
+      this.withRecordIds(importId, mapped.contacts),
+    );
+
+    this.logger.info('CSV import committed', {
+      userId,
+      importId,
+      rows: parsed.rows.length,
+      ...counts,
+    });
+    await this.sync.refreshDerivedData(tenantId, userId, {
+      contactsChanged: true,
+      source: SourceConnectionSources.CSV_IMPORT,
+    });
+    this.posthog.capture(userId, PostHogEvents.CONTACTS_IMPORTED, {
+      source: SourceConnectionSources.CSV_IMPORT,
+      rows: parsed.rows.length,
+      imported: mapped.contacts.length,
+      errors: mapped.errors.length,
+    });
+
+    return {
+      import: stored as CsvImportRow,
+      ...counts,
+      errors: mapped.errors,
+    };
+  }
+
+  /**
+   * Re-apply a committed import, optionally with a corrected mapping. Rows
+   * that no longer map to a contact are soft-deleted.
+   */
+  async rerun(
+    tenantId: string,
+    userId: string,
+    importId: string,
+    mappingOverride?: ColumnMapping,
+  ): Promise<{
+    import: CsvImportRow;
+    added: number;
+    updated: number;
+    deleted: number;
+    errors: RowError[];
+  }> {
+    const existing = await this.getImportWithContent(
+      tenantId,
+      userId,
+      importId,
+    );
+    if (existing.status !== 'completed') {
+      throw new BadRequestException('Rolled back imports cannot be re-run');
+    }
+
+    const { parsed, mapping, mapped } = this.analyse({
+      content: existing.content,
+      mapping: mappingOverride ?? existing.mapping,
+      hasHeader: existing.has_header,
+    });
+
+    const startedAt = new Date();
+    const counts = await this.contacts.upsertContacts(
+      this.scope(tenantId, userId, existing.source_connection_id),
+      this.withRecordIds(importId, mapped.contacts),
+      startedAt,
+    );
+    const deleted = await this.contacts.markStaleDeletedForConnection(
+      existing.source_connection_id,
+      startedAt,
+    );
+
+    const { data: updated, error } = await this.supabase
+      .getClient()
+      .from('csv_imports')
+      .update({
+        mapping,
+        row_count: parsed.rows.length,
+        imported_count: mapped.contacts.length,
+        error_count: mapped.errors.length,
+      })
+      .eq('id', importId)
+      .select(IMPORT_COLUMNS)
+      .single();
+
+    if (error || !updated) {
+      throw new Error(`Failed to update CSV import: ${error?.message}`);
+    }
+
+    this.logger.info('CSV import re-run', {
+      userId,
+      importId,
+      ...counts,
+      deleted,
+    });
+    await this.sync.refreshDerivedData(tenantId, userId, {
+      contactsChanged: true,
+      source: SourceConnectionSources.CSV_IMPORT,
+    });
+    return {
+      import: updated as CsvImportRow,
+      ...counts,
+      deleted,
+      errors: mapped.errors,
+    };
+  }
+
+  /**
+   * Remove every contact created by an import and revoke its connection
+   */
+  async rollback(
+    tenantId: string,
+    userId: string,
+    importId: string,
+  ): Promise<{ import: CsvImportRow; removed: number }> {
+    const existing = await this.getImportWithContent(
+      tenantId,
+      userId,
+      importId,
+    );
+    if (existing.status === 'rolled_back') {
+      throw new BadRequestException('Import is already rolled back');
+    }
+
+    const removed = await this.contacts.deleteForConnection(
+      existing.source_connection_id,
+    );
+
+    const { error: connectionError } = await this.supabase
+      .getClient()
+      .from('source_connections')
+      .update({ status: 'revoked' })
+      .eq('id', existing.source_connection_id);
+
+    if (connectionError) {
+      throw new Error(
+        `Failed to revoke CSV import connection: ${connectionError.message}`,
+      );
+    }
+
+    const { data: updated, error } = await this.supabase
+      .getClient()
+      .from('csv_imports')
+      .update({ status: 'rolled_back' })
+      .eq('id', importId)
+      .select(IMPORT_COLUMNS)
+      .single();
+
+    if (error || !updated) {
+      throw new Error(`Failed to update CSV import: ${error?.message}`);
+    }
+
+    this.logger.info('CSV import rolled back', { userId, importId, removed });
+    await this.sync.refreshDerivedData(tenantId, userId, {
+      contactsChanged: true,
+      source: SourceConnectionSources.CSV_IMPORT,
+    });
+    return { import: updated as CsvImportRow, removed };
+  }
+
+  async listImports(tenantId: string, userId: string): Promise<CsvImportRow[]> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('csv_imports')
+      .select(IMPORT_COLUMNS)
+      .eq('tenant_id', tenantId)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list CSV imports: ${error.message}`);
+    }
+    return (data ?? []) as CsvImportRow[];
+  }
+
+  /**
+   * Shared dry-run report: validation errors plus rows that duplicate each
+   * other or a contact already in the tenant.
+   */
+  async buildPreview(
+    tenantId: string,
+    parsed: ParsedCsv,
+    mapping: ColumnMapping,
+    mapped: { contacts: MappedContact[]; errors: RowError[] },
+  ): Promise<ImportPreview> {
+    const duplicates: DuplicateMatch[] = [];
+    const firstRowByKey = new Map<string, number>();
+
+    for (const item of mapped.contacts) {
+      const firstRow = firstRowByKey.get(item.key);
+      if (firstRow !== undefined) {
+        duplicates.push({
+          row: item.row,
+          email: item.email,
+          reason: 'in_file',
+          duplicateOfRow: firstRow,
+        });
+      } else {
+        firstRowByKey.set(item.key, item.row);
+      }
+    }
+
+    const emails = [
+      ...new Set(
+        mapped.contacts
+          .map((item) => item.email)
+          .filter((email): email is string => !!email),
+      ),
+    ];
+    const existing = await this.contacts.findByPrimaryEmails(tenantId, emails);
+    const existingByEmail = new Map(
+      existing.map((contact) => [contact.primary_email, contact]),
+    );
+
+    for (const item of mapped.contacts) {
+      const match = item.email ? existingByEmail.get(item.email) : undefined;
+      if (match) {
+        duplicates.push({
+          row: item.row,
+          email: item.email,
+          reason: 'existing_contact',
+          contactId: match.id,
+          contactSource: match.source,
+        });
+      }
+    }
+
+    return {
+      hasHeader: parsed.hasHeader,
+      headers: parsed.headers,
+      mapping,
+      totalRows: parsed.rows.length,
+      validRows: mapped.contacts.length,
+      errors: mapped.errors,
+      duplicates: duplicates.sort((a, b) => a.row - b.row),
+      sample: mapped.contacts.slice(0, SAMPLE_SIZE),
+    };
+  }
+
+  private analyse(input: CsvImportInput): {
+    parsed: ParsedCsv;
+    mapping: ColumnMapping;
+    mapped: { contacts: MappedContact[]; errors: RowError[] };
+  } {
+    let rows: string[][];
+    try {
+      rows = readCsvRows(input.content);
+    } catch (error) {
+      throw new BadRequestException(
+        `Could not parse CSV: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    if (!rows.length) {
+      throw new BadRequestException('CSV file is empty');
+    }
+
+    const parsed = splitHeader(rows, input.hasHeader);
+    const mapping = input.mapping ?? suggestMapping(parsed.headers);
+    const problems = validateMapping(mapping, parsed.headers);
+    if (problems.length) {
+      throw new BadRequestException({
+        message: 'Invalid column mapping',
+        errors: problems,
+        headers: parsed.headers,
+        suggestedMapping: suggestMapping(parsed.headers),
+      });
+    }
+
+    return { parsed, mapping, mapped: mapRows(parsed, mapping) };
+  }
+
+  private withRecordIds(importId: string, contacts: MappedContact[]) {
+    // Later rows win when the file repeats a contact.
+    const byKey = new Map(contacts.map((item) => [item.key, item]));
+    return [...byKey.values()].map((item) => ({
+      ...item.contact,
+      sourceRecordId: `${importId}:${item.key}`,
+    }));
+  }
+
+  private scope(
+    tenantId: string,
+    userId: string,
+    sourceConnectionId: string,
+  ): ContactScope {
+    return {
+      tenantId,
+      userId,
+      source: SourceConnectionSources.CSV_IMPORT,
+      sourceConnectionId,
+    };
+  }
+
+  /**
+   * Delete a connection registered for an import that was never recorded.
+   * Best effort: the original failure is what the caller reports.
+   */
+  private async discardConnection(connectionId: string): Promise<void> {
+    const { error } = await this.supabase
+      .getClient()
+      .from('source_connections')
+      .delete()
+      .eq('id', connectionId);
+
+    if (error) {
+      this.logger.error('Failed to discard CSV import connection', {
+        connectionId,
+        error: error.message,
+      });
+    }
+  }
+
+  private async getImportWithContent(
+    tenantId: string,
+    userId: string,
+    importId: string,
+  ): Promise<CsvImportRow & { content: string }> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('csv_imports')
+      .select(`${IMPORT_COLUMNS}, content`)
+      .eq('id', importId)
+      .eq('tenant_id', tenantId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load CSV import: ${error.message}`);
+    }
+    if (!data) {
+      throw new NotFoundException('CSV import not found');
+    }
+    return data as CsvImportRow & { content: string };
+  }
+}
@@ -0,0 +1,59 @@
+import { parse } from 'csv-parse/sync';
+
+export interface ParsedCsv {
+  headers: string[];
+  /** Data rows, excluding the header row when there is one. */
+  rows: string[][];
+  hasHeader: boolean;
+  /** 1-based line of the first data row, for error reporting. */
+  firstRowNumber: number;
+}
+
+const EMAIL_LIKE = /@/;
+const NUMBER_LIKE = /^[\d\s()+.-]+$/;
+
+export function readCsvRows(content: string): string[][] {
+  return parse(content, {
+    bom: true,
+    relax_column_count: true,
+    relax_quotes: true,
+    skip_empty_lines: true,
+    trim: true,
+  }) as string[][];
+}
+
+/**
+ * A first row is treated as a header when every cell is filled and none of
+ * them looks like data (an email address or a phone number).
+ */
+export function looksLikeHeader(row: string[] | undefined): boolean {
+  if (!row?.length) return false;
+  return row.every(
+    (cell) => !!cell && !EMAIL_LIKE.test(cell) && !NUMBER_LIKE.test(cell),
+  );
+}
+
+export function splitHeader(rows: string[][], hasHeader?: boolean): ParsedCsv {
+  const withHeader = hasHeader ?? looksLikeHeader(rows[0]);
+  const width = Math.max(0, ...rows.map((row) => row.length));
+
+  if (withHeader) {
+    const headers = rows[0].map((cell, index) => cell || `Column ${index + 1}`);
+    for (let index = headers.length; index < width; index++) {
+      headers.push(`Column ${index + 1}`);
+    }
+    return {
+      headers,
+      rows: rows.slice(1),
+      hasHeader: true,
+      firstRowNumber: 2,
+    };
+  }
+
+  return {
+    headers: Array.from({ length: width }, (_, index) => `Column ${index + 1}`),
+    rows,
+    hasHeader: false,
+    firstRowNumber: 1,
+  };
+}
@@ -0,0 +1,69 @@
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import type { ColumnMapping } from '../import-mapping';
+
+export class CsvImportDto {
+  @ApiProperty({
+    description: 'Raw CSV file contents',
+    example: 'Name,Email,Company\nJane Doe,jane@example.com,Acme',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5 * 1024 * 1024)
+  content: string;
+
+  @ApiPropertyOptional({ example: 'contacts.csv' })
+  @IsString()
+  @IsOptional()
+  fileName?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Target field -> CSV column. Fields: fullName, firstName, lastName, email, phone, company, title. Omit to use the detected mapping.',
+    example: { fullName: 'Name', email: 'Email', company: 'Company' },
+  })
+  @IsObject()
+  @IsOptional()
+  mapping?: ColumnMapping;
+
+  @ApiPropertyOptional({
+    description: 'Whether the first row is a header. Detected when omitted.',
+  })
+  @IsBoolean()
+  @IsOptional()
+  hasHeader?: boolean;
+}
+
+export class RerunImportDto {
+  @ApiPropertyOptional({
+    description:
+      'Replacement column mapping; the stored one is used when omitted',
+  })
+  @IsObject()
+  @IsOptional()
+  mapping?: ColumnMapping;
+}
+
+export class LinkedinImportDto {
+  @ApiProperty({
+    description: 'Contents of Connections.csv from the LinkedIn data export',
+    example:
+      'Notes:\n"When exporting your connection data..."\n\nFirst Name,Last Name,URL,Email Address,Company,Position,Connected On\nJane,Doe,https://www.linkedin.com/in/janedoe,,Acme,CTO,15 Jan 2024',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5 * 1024 * 1024)
+  content: string;
+
+  @ApiPropertyOptional({ example: 'Connections.csv' })
+  @IsString()
+  @IsOptional()
+  fileName?: string;
+}
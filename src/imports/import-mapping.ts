@@ -0,0 +1,176 @@
+import { createHash } from 'crypto';
+import type { ContactInput } from '../contacts/contacts.service';
+import { normalizeEmail, normalizePhone } from '../common/utils/normalize';
+import type { ParsedCsv } from './csv-parsing';
+
+export const IMPORT_FIELDS = [
+  'fullName',
+  'firstName',
+  'lastName',
+  'email',
+  'phone',
+  'company',
+  'title',
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+/**
+ * Target contact field -> CSV column header.
+ */
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface RowError {
+  row: number;
+  field?: ImportField;
+  message: string;
+}
+
+export interface MappedContact {
+  row: number;
+  /** Stable per-row identity used to build the contact's source record id. */
+  key: string;
+  email: string | null;
+  contact: ContactInput;
+}
+
+const FIELD_SYNONYMS: Record<ImportField, string[]> = {
+  fullName: ['name', 'full name', 'fullname', 'contact name', 'display name'],
+  firstName: ['first name', 'firstname', 'given name', 'first'],
+  lastName: ['last name', 'lastname', 'surname', 'family name', 'last'],
+  email: ['email', 'email address', 'e-mail', 'mail', 'work email'],
+  phone: ['phone', 'phone number', 'mobile', 'mobile phone', 'telephone'],
+  company: ['company', 'organization', 'organisation', 'employer', 'account'],
+  title: ['title', 'job title', 'position', 'role'],
+};
+
+const canonical = (value: string) =>
+  value.toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Guess a mapping from header names, for the preview to offer as a default.
+ */
+export function suggestMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const byCanonical = new Map(
+    headers.map((header) => [canonical(header), header]),
+  );
+
+  for (const field of IMPORT_FIELDS) {
+    const match = FIELD_SYNONYMS[field]
+      .map(canonical)
+      .find((synonym) => byCanonical.has(synonym));
+    if (match) mapping[field] = byCanonical.get(match);
+  }
+  return mapping;
+}
+
+/**
+ * Returns a list of problems with a user-supplied mapping; empty when valid.
+ */
+export function validateMapping(
+  mapping: ColumnMapping,
+  headers: string[],
+): string[] {
+  const problems: string[] = [];
+  const known = new Set(headers);
+
+  for (const [field, column] of Object.entries(mapping)) {
+    if (!IMPORT_FIELDS.includes(field as ImportField)) {
+      problems.push(`Unknown target field "${field}"`);
+    } else if (column && !known.has(column)) {
+      problems.push(`Column "${column}" mapped to ${field} is not in the file`);
+    }
+  }
+
+  if (
+    !mapping.email &&
+    !mapping.fullName &&
+    !mapping.firstName &&
+    !mapping.lastName
+  ) {
+    problems.push('Mapping must include an email or a name column');
+  }
+  return problems;
+}
+
+/**
+ * Apply a mapping to parsed rows. Rows without an email or a name, or with
+ * an unusable email, are reported instead of returned.
+ */
+export function mapRows(
+  parsed: ParsedCsv,
+  mapping: ColumnMapping,
+): { contacts: MappedContact[]; errors: RowError[] } {
+  const indexes = new Map<ImportField, number>();
+  for (const field of IMPORT_FIELDS) {
+    const column = mapping[field];
+    if (column) indexes.set(field, parsed.headers.indexOf(column));
+  }
+
+  const contacts: MappedContact[] = [];
+  const errors: RowError[] = [];
+
+  parsed.rows.forEach((cells, offset) => {
+    const row = parsed.firstRowNumber + offset;
+    const value = (field: ImportField) => {
+      const index = indexes.get(field);
+      return index === undefined ? '' : (cells[index] ?? '').trim();
+    };
+
+    const rawEmail = value('email');
+    const email = normalizeEmail(rawEmail);
+    if (rawEmail && !email) {
+      errors.push({
+        row,
+        field: 'email',
+        message: `Invalid email "${rawEmail}"`,
+      });
+      return;
+    }
+
+    const firstName = value('firstName');
+    const lastName = value('lastName');
+    const displayName =
+      value('fullName') || [firstName, lastName].filter(Boolean).join(' ');
+    if (!email && !displayName) {
+      errors.push({ row, message: 'Row has neither an email nor a name' });
+      return;
+    }
+
+    const rawPhone = value('phone');
+    const company = value('company');
+    const title = value('title');
+
+    contacts.push({
+      row,
+      key: email ?? hashKey([displayName, company, rawPhone]),
+      email,
+      contact: {
+        sourceRecordId: '',
+        displayName: displayName || null,
+        givenName: firstName || null,
+        familyName: lastName || null,
+        emails: email ? [{ value: email, primary: true }] : [],
+        phones: rawPhone
+          ? [{ value: rawPhone, normalized: normalizePhone(rawPhone) }]
+          : [],
+        organizations:
+          company || title
+            ? [{ name: company || undefined, title: title || undefined }]
+            : [],
+        photos: [],
+        metadata: { row },
+      },
+    });
+  });
+
+  return { contacts, errors };
+}
+
+function hashKey(parts: string[]): string {
+  return createHash('sha256')
+    .update(parts.map((part) => part.toLowerCase()).join('|'))
+    .digest('hex')
+    .slice(0, 24);
+}
@@ -0,0 +1,167 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiBody, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthGuard } from '../common/guards/auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { RequirePermission } from '../common/decorators/roles.decorator';
+import { Permissions } from '../tenants/permissions';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../common/decorators/current-user.decorator';
+import { CsvImportService } from './csv-import.service';
+import { LinkedinImportService } from './linkedin-import.service';
+import {
+  CsvImportDto,
+  LinkedinImportDto,
+  RerunImportDto,
+} from './dto/imports.dto';
+
+@ApiTags('Imports')
+@Controller('imports')
+@UseGuards(AuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class ImportsController {
+  constructor(
+    private readonly csvImportService: CsvImportService,
+    private readonly linkedinImportService: LinkedinImportService,
+  ) {}
+
+  @Post('csv/preview')
+  @RequirePermission(Permissions.NETWORK_WRITE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Dry-run a CSV import: parsed rows, validation errors, duplicates',
+  })
+  @ApiBody({ type: CsvImportDto })
+  async previewCsv(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: CsvImportDto,
+  ) {
+    const preview = await this.csvImportService.preview(user.tenantId, dto);
+    return { statusCode: HttpStatus.OK, data: preview };
+  }
+
+  @Post('csv')
+  @RequirePermission(Permissions.NETWORK_WRITE)
+  @ApiOperation({ summary: 'Import contacts from a CSV file' })
+  @ApiBody({ type: CsvImportDto })
+  async importCsv(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: CsvImportDto,
+  ) {
+    const result = await this.csvImportService.commit(
+      user.tenantId,
+      user.id,
+      dto,
+    );
+    return {
+      statusCode: HttpStatus.CREATED,
+      message: 'CSV imported',
+      data: result,
+    };
+  }
+
+  @Post('linkedin/preview')
+  @RequirePermission(Permissions.NETWORK_WRITE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Dry-run a LinkedIn Connections.csv import' })
+  @ApiBody({ type: LinkedinImportDto })
+  async previewLinkedin(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: LinkedinImportDto,
+  ) {
+    const preview = await this.linkedinImportService.preview(
+      user.tenantId,
+      dto,
+    );
+    return { statusCode: HttpStatus.OK, data: preview };
+  }
+
+  @Post('linkedin')
+  @RequirePermission(Permissions.NETWORK_WRITE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary:
+      'Import or refresh contacts from a LinkedIn Connections.csv export',
+  })
+  @ApiBody({ type: LinkedinImportDto })
+  async importLinkedin(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: LinkedinImportDto,
+  ) {
+    const result = await this.linkedinImportService.commit(
+      user.tenantId,
+      user.id,
+      dto,
+    );
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'LinkedIn connections imported',
+      data: result,
+    };
+  }
+
+  @Get()
+  @RequirePermission(Permissions.NETWORK_READ)
+  @ApiOperation({ summary: 'List CSV imports' })
+  async listImports(@CurrentUser() user: AuthenticatedUser) {
+    const imports = await this.csvImportService.listImports(
+      user.tenantId,
+      user.id,
+    );
+    return { statusCode: HttpStatus.OK, data: { imports } };
+  }
+
+  @Post(':id/rerun')
+  @RequirePermission(Permissions.NETWORK_WRITE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Re-apply a CSV import, optionally with a new mapping',
+  })
+  @ApiBody({ type: RerunImportDto })
+  async rerunImport(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: RerunImportDto,
+  ) {
+    const result = await this.csvImportService.rerun(
+      user.tenantId,
+      user.id,
+      id,
+      dto.mapping,
+    );
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'CSV import re-run',
+      data: result,
+    };
+  }
+
+  @Delete(':id')
+  @RequirePermission(Permissions.NETWORK_WRITE)
+  @ApiOperation({ summary: 'Roll back a CSV import and remove its contacts' })
+  async rollbackImport(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    const result = await this.csvImportService.rollback(
+      user.tenantId,
+      user.id,
+      id,
+    );
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'CSV import rolled back',
+      data: result,
+    };
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { ContactsModule } from '../contacts/contacts.module';
+import { SyncModule } from '../sync/sync.module';
+import { CsvImportService } from './csv-import.service';
+import { LinkedinImportService } from './linkedin-import.service';
+import { ImportsController } from './imports.controller';
+
+@Module({
+  imports: [AuthModule, ContactsModule, SyncModule],
+  controllers: [ImportsController],
+  providers: [CsvImportService, LinkedinImportService],
+})
+export class ImportsModule {}
@@ -0,0 +1,320 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { SupabaseService } from '../database/supabase.service';
+import { LoggerService } from '../observability/logger.service';
+import { PosthogService } from '../observability/posthog.service';
+import { PostHogEvents } from '../common/types/events';
+import { SourceConnectionSources } from '../common/types/sources';
+import {
+  normalizeEmail,
+  normalizeLinkedinUrl,
+} from '../common/utils/normalize';
+import { ContactsService } from '../contacts/contacts.service';
+import type { ContactScope } from '../contacts/contacts.service';
+import { CheckpointService } from '../sync/checkpoint.service';
+import { SyncService } from '../sync/sync.service';
+import { CsvImportService } from './csv-import.service';
+import type { ImportPreview } from './csv-import.service';
+import { readCsvRows } from './csv-parsing';
+import type { ParsedCsv } from './csv-parsing';
+import type { ColumnMapping, MappedContact, RowError } from './import-mapping';
+
+export interface LinkedinImportInput {
+  content: string;
+  fileName?: string;
+}
+
+// Column set of the "Connections.csv" file in LinkedIn's data export.
+const COLUMNS = {
+  firstName: 'First Name',
+  lastName: 'Last Name',
+  url: 'URL',
+  email: 'Email Address',
+  company: 'Company',
+  position: 'Position',
+  connectedOn: 'Connected On',
+} as const;
+
+const EXPORT_MAPPING: ColumnMapping = {
+  firstName: COLUMNS.firstName,
+  lastName: COLUMNS.lastName,
+  email: COLUMNS.email,
+  company: COLUMNS.company,
+  title: COLUMNS.position,
+};
+
+// One connection row per user holds every LinkedIn contact; re-imports
+// replace its contents.
+const EXPORT_ACCOUNT_ID = 'connections_export';
+
+const MONTHS = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+
+@Injectable()
+export class LinkedinImportService {
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly contacts: ContactsService,
+    private readonly sync: SyncService,
+    private readonly checkpoints: CheckpointService,
+    private readonly csvImports: CsvImportService,
+    private readonly logger: LoggerService,
+    private readonly posthog: PosthogService,
+  ) {}
+
+  async preview(
+    tenantId: string,
+    input: LinkedinImportInput,
+  ): Promise<ImportPreview> {
+    const parsed = this.parseExport(input.content);
+    return this.csvImports.buildPreview(
+      tenantId,
+      parsed,
+      EXPORT_MAPPING,
+      this.mapRows(parsed),
+    );
+  }
+
+  /**
+   * Import a Connections.csv export. Rows are keyed on the profile URL, so a
+   * newer export updates existing contacts, and connections missing from it
+   * are soft-deleted.
+   */
+  async commit(
+    tenantId: string,
+    userId: string,
+    input: LinkedinImportInput,
+  ): Promise<{
+    added: number;
+    updated: number;
+    deleted: number;
+    errors: RowError[];
+  }> {
+    const parsed = this.parseExport(input.content);
+    const mapped = this.mapRows(parsed);
+    if (!mapped.contacts.length) {
+      throw new BadRequestException('No valid connections to import');
+    }
+
+    const connectionId = await this.ensureConnection(tenantId, userId);
+    const scope: ContactScope = {
+      tenantId,
+      userId,
+      source: SourceConnectionSources.LINKEDIN,
+      sourceConnectionId: connectionId,
+    };
+
+    const byKey = new Map(mapped.contacts.map((item) => [item.key, item]));
+    const startedAt = new Date();
+    const counts = await this.contacts.upsertContacts(
+      scope,
+      [...byKey.values()].map((item) => ({
+        ...item.contact,
+        sourceRecordId: item.key,
+      })),
+      startedAt,
+    );
+    const deleted = await this.contacts.markStaleDeleted(scope, startedAt);
+
+    const latestConnectedOn = mapped.contacts
+      .map((item) => item.contact.metadata?.connectedOn as string | null)
+      .filter((date): date is string => !!date)
+      .sort()
+      .pop();
+
+    await this.checkpoints.save(
+      { tenantId, userId, source: SourceConnectionSources.LINKEDIN },
+      {
+        cursorValue: latestConnectedOn ?? null,
+        cursorJson: {
+          fileName: input.fileName ?? null,
+          rows: parsed.rows.length,
+          importedAt: startedAt.toISOString(),
+        },
+      },
+    );
+
+    this.logger.info('LinkedIn export imported', {
+      userId,
+      rows: parsed.rows.length,
+      ...counts,
+      deleted,
+    });
+    await this.sync.refreshDerivedData(tenantId, userId, {
+      contactsChanged: true,
+      source: SourceConnectionSources.LINKEDIN,
+    });
+    this.posthog.capture(userId, PostHogEvents.CONTACTS_IMPORTED, {
+      source: SourceConnectionSources.LINKEDIN,
+      rows: parsed.rows.length,
+      imported: mapped.contacts.length,
+      errors: mapped.errors.length,
+    });
+
+    return { ...counts, deleted, errors: mapped.errors };
+  }
+
+  /**
+   * The export starts with a free-text "Notes:" preamble before the real
+   * header row, so locate the header instead of assuming it is first.
+   */
+  private parseExport(content: string): ParsedCsv {
+    let rows: string[][];
+    try {
+      rows = readCsvRows(content);
+    } catch (error) {
+      throw new BadRequestException(
+        `Could not parse LinkedIn export: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    const headerIndex = rows.findIndex(
+      (row) =>
+        row.includes(COLUMNS.firstName) &&
+        row.includes(COLUMNS.lastName) &&
+        row.includes(COLUMNS.url),
+    );
+    if (headerIndex === -1) {
+      throw new BadRequestException(
+        'This does not look like a LinkedIn Connections.csv export',
+      );
+    }
+
+    return {
+      headers: rows[headerIndex],
+      rows: rows.slice(headerIndex + 1),
+      hasHeader: true,
+      firstRowNumber: headerIndex + 2,
+    };
+  }
+
+  private mapRows(parsed: ParsedCsv): {
+    contacts: MappedContact[];
+    errors: RowError[];
+  } {
+    const index = (column: string) => parsed.headers.indexOf(column);
+    const columns = {
+      firstName: index(COLUMNS.firstName),
+      lastName: index(COLUMNS.lastName),
+      url: index(COLUMNS.url),
+      email: index(COLUMNS.email),
+      company: index(COLUMNS.company),
+      position: index(COLUMNS.position),
+      connectedOn: index(COLUMNS.connectedOn),
+    };
+
+    const contacts: MappedContact[] = [];
+    const errors: RowError[] = [];
+
+    parsed.rows.forEach((cells, offset) => {
+      const row = parsed.firstRowNumber + offset;
+      const cell = (position: number) =>
+        position === -1 ? '' : (cells[position] ?? '').trim();
+
+      const firstName = cell(columns.firstName);
+      const lastName = cell(columns.lastName);
+      const displayName = [firstName, lastName].filter(Boolean).join(' ');
+      const linkedinUrl = normalizeLinkedinUrl(cell(columns.url));
+      // Most connections hide their email address, so a blank one is normal.
+      const email = normalizeEmail(cell(columns.email));
+      const company = cell(columns.company);
+      const position = cell(columns.position);
+
+      const key =
+        linkedinUrl ??
+        email ??
+        (displayName
+          ? `name:${displayName.toLowerCase()}|${company.toLowerCase()}`
+          : null);
+      if (!key) {
+        errors.push({ row, message: 'Row has no profile URL, email or name' });
+        return;
+      }
+
+      contacts.push({
+        row,
+        key,
+        email,
+        contact: {
+          sourceRecordId: key,
+          displayName: displayName || null,
+          givenName: firstName || null,
+          familyName: lastName || null,
+          emails: email ? [{ value: email, primary: true }] : [],
+          phones: [],
+          organizations:
+            company || position
+              ? [{ name: company || undefined, title: position || undefined }]
+              : [],
+          photos: [],
+          linkedinUrl,
+          metadata: {
+            connectedOn: parseConnectedOn(cell(columns.connectedOn)),
+          },
+        },
+      });
+    });
+
+    return { contacts, errors };
+  }
+
+  private async ensureConnection(
+    tenantId: string,
+    userId: string,
+  ): Promise<string> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('source_connections')
+      .upsert(
+        {
+          tenant_id: tenantId,
+          user_id: userId,
+          source: SourceConnectionSources.LINKEDIN,
+          external_account_id: EXPORT_ACCOUNT_ID,
+          token_json: {},
+          status: 'active',
+        },
+        { onConflict: 'tenant_id,user_id,source,external_account_id' },
+      )
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      throw new Error(
+        `Failed to register LinkedIn connection: ${error?.message ?? 'no row returned'}`,
+      );
+    }
+    return (data as { id: string }).id;
+  }
+}
+
+/**
+ * "Connected On" is written like "15 Jan 2024"; returns an ISO date or null.
+ */
+function parseConnectedOn(value: string): string | null {
+  const match = value.match(/^(\d{1,2})\s+([A-Za-z]{3})[a-z]*\s+(\d{4})$/);
+  if (match) {
+    const month = MONTHS.indexOf(match[2].toLowerCase());
+    if (month !== -1) {
+      return new Date(Date.UTC(Number(match[3]), month, Number(match[1])))
+        .toISOString()
+        .slice(0, 10);
+    }
+  }
+
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed)
+    ? null
+    : new Date(parsed).toISOString().slice(0, 10);
+}
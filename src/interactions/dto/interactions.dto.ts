@@ -0,0 +1,34 @@
+import { Type } from 'class-transformer';
+import { IsEmail, IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import type { InteractionKind } from '../interactions.service';
+
+export class ListInteractionsQueryDto {
+  @ApiPropertyOptional({ description: 'Page size', default: 50, maximum: 200 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @IsOptional()
+  limit: number = 50;
+
+  @ApiPropertyOptional({ description: 'Number of rows to skip', default: 0 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  offset: number = 0;
+
+  @ApiPropertyOptional({ enum: ['email', 'meeting'] })
+  @IsIn(['email', 'meeting'])
+  @IsOptional()
+  kind?: InteractionKind;
+
+  @ApiPropertyOptional({
+    description: 'Only interactions with this participant',
+    example: 'jane@example.com',
+  })
+  @IsEmail()
+  @IsOptional()
+  email?: string;
+}
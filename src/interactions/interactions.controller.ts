@@ -0,0 +1,39 @@
+import { Controller, Get, HttpStatus, Query, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthGuard } from '../common/guards/auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { RequirePermission } from '../common/decorators/roles.decorator';
+import { Permissions } from '../tenants/permissions';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../common/decorators/current-user.decorator';
+import { InteractionsService } from './interactions.service';
+import { ListInteractionsQueryDto } from './dto/interactions.dto';
+
+@ApiTags('Interactions')
+@Controller('interactions')
+export class InteractionsController {
+  constructor(private readonly interactionsService: InteractionsService) {}
+
+  @Get()
+  @UseGuards(AuthGuard, RolesGuard)
+  @RequirePermission(Permissions.NETWORK_READ)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List emails and meetings for the current user' })
+  async listInteractions(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: ListInteractionsQueryDto,
+  ) {
+    const { interactions, total } =
+      await this.interactionsService.listInteractions(user.tenantId, user.id, {
+        limit: query.limit,
+        offset: query.offset,
+        kind: query.kind,
+        email: query.email,
+      });
+
+    return {
+      statusCode: HttpStatus.OK,
+      data: { interactions, total, limit: query.limit, offset: query.offset },
+    };
+  }
+}
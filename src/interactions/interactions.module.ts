@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { InteractionsController } from './interactions.controller';
+import { InteractionsService } from './interactions.service';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [InteractionsController],
+  providers: [InteractionsService],
+  exports: [InteractionsService],
+})
+export class InteractionsModule {}
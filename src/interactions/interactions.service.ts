@@ -0,0 +1,516 @@
+import { Injectable } from '@nestjs/common';
+import { SupabaseService } from '../database/supabase.service';
+import { LoggerService } from '../observability/logger.service';
+import type { SourceConnectionSource } from '../common/types/sources';
+import { normalizeEmail } from '../common/utils/normalize';
+
+export type InteractionKind = 'email' | 'meeting';
+export type InteractionDirection = 'inbound' | 'outbound';
+export type ParticipantRole = 'from' | 'to' | 'cc' | 'organizer' | 'attendee';
+
+export interface ParticipantInput {
+  email: string;
+  displayName?: string | null;
+  role: ParticipantRole;
+  responseStatus?: string | null;
+}
+
+export interface InteractionInput {
+  sourceRecordId: string;
+  kind: InteractionKind;
+  direction?: InteractionDirection | null;
+  occurredAt: Date;
+  subject?: string | null;
+  threadId?: string | null;
+  /** Counterparties only; the owning user is never stored as a participant. */
+  participants: ParticipantInput[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface InteractionScope {
+  tenantId: string;
+  userId: string;
+  source: SourceConnectionSource;
+}
+
+export interface InteractionParticipantRow {
+  email: string;
+  display_name: string | null;
+  role: ParticipantRole;
+  response_status: string | null;
+  contact_id: string | null;
+}
+
+export interface InteractionRow {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  source: SourceConnectionSource;
+  source_record_id: string;
+  kind: InteractionKind;
+  direction: InteractionDirection | null;
+  occurred_at: string;
+  subject: string | null;
+  thread_id: string | null;
+  metadata: Record<string, unknown>;
+  deleted_at: string | null;
+  interaction_participants?: InteractionParticipantRow[];
+}
+
+export interface InteractionFilters {
+  /** Only interactions involving one of these (normalized) addresses. */
+  emails?: string[];
+  kind?: InteractionKind;
+  after?: Date;
+  before?: Date;
+}
+
+export interface ListInteractionsOptions {
+  limit: number;
+  offset: number;
+  kind?: InteractionKind;
+  email?: string;
+}
+
+const UPSERT_CHUNK_SIZE = 200;
+const PAGE_SIZE = 1000;
+// Keeps `in (...)` filters within URL length limits.
+const LOOKUP_CHUNK_SIZE = 200;
+const WITH_PARTICIPANTS =
+  '*, interaction_participants(email, display_name, role, response_status, contact_id)';
+
+@Injectable()
+export class InteractionsService {
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Insert or update interactions and replace their participant lists.
+   * Participants are linked to the user's contacts by email when one exists.
+   */
+  async upsertInteractions(
+    scope: InteractionScope,
+    interactions: InteractionInput[],
+    syncedAt: Date = new Date(),
+  ): Promise<{ added: number; updated: number }> {
+    let added = 0;
+    let updated = 0;
+
+    for (let i = 0; i < interactions.length; i += UPSERT_CHUNK_SIZE) {
+      const chunk = interactions.slice(i, i + UPSERT_CHUNK_SIZE);
+      const recordIds = chunk.map((item) => item.sourceRecordId);
+
+      const { data: existing, error: existingError } = await this.supabase
+        .getClient()
+        .from('interactions')
+        .select('source_record_id')
+        .eq('tenant_id', scope.tenantId)
+        .eq('user_id', scope.userId)
+        .eq('source', scope.source)
+        .in('source_record_id', recordIds);
+
+      if (existingError) {
+        throw new Error(
+          `Failed to load existing interactions: ${existingError.message}`,
+        );
+      }
+      const existingIds = new Set(
+        (existing ?? []).map((row) => row.source_record_id as string),
+      );
+
+      const { data: stored, error } = await this.supabase
+        .getClient()
+        .from('interactions')
+        .upsert(
+          chunk.map((item) => ({
+            tenant_id: scope.tenantId,
+            user_id: scope.userId,
+            source: scope.source,
+            source_record_id: item.sourceRecordId,
+            kind: item.kind,
+            direction: item.direction ?? null,
+            occurred_at: item.occurredAt.toISOString(),
+            subject: item.subject ?? null,
+            thread_id: item.threadId ?? null,
+            metadata: item.metadata ?? {},
+            last_synced_at: syncedAt.toISOString(),
+            deleted_at: null,
+          })),
+          { onConflict: 'tenant_id,user_id,source,source_record_id' },
+        )
+        .select('id, source_record_id');
+
+      if (error) {
+        this.logger.error('Failed to upsert interactions', {
+          userId: scope.userId,
+          source: scope.source,
+          error: error.message,
+        });
+        throw new Error(`Failed to store interactions: ${error.message}`);
+      }
+
+      const idsByRecord = new Map(
+        ((stored ?? []) as { id: string; source_record_id: string }[]).map(
+          (row) => [row.source_record_id, row.id],
+        ),
+      );
+      await this.replaceParticipants(scope, chunk, idsByRecord);
+
+      const chunkUpdated = recordIds.filter((id) => existingIds.has(id)).length;
+      updated += chunkUpdated;
+      added += chunk.length - chunkUpdated;
+    }
+
+    return { added, updated };
+  }
+
+  async markDeleted(
+    scope: InteractionScope,
+    sourceRecordIds: string[],
+  ): Promise<number> {
+    if (!sourceRecordIds.length) return 0;
+
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('interactions')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('tenant_id', scope.tenantId)
+      .eq('user_id', scope.userId)
+      .eq('source', scope.source)
+      .in('source_record_id', sourceRecordIds)
+      .is('deleted_at', null)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to delete interactions: ${error.message}`);
+    }
+    return data?.length ?? 0;
+  }
+
+  /**
+   * Soft-delete live interactions of a source not written since
+   * `syncedBefore`. Pass `occurredAfter` when the full resync only covered
+   * history from that point on, so older interactions are kept.
+   */
+  async markStaleDeleted(
+    scope: InteractionScope,
+    syncedBefore: Date,
+    occurredAfter?: Date,
+  ): Promise<number> {
+    let query = this.supabase
+      .getClient()
+      .from('interactions')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('tenant_id', scope.tenantId)
+      .eq('user_id', scope.userId)
+      .eq('source', scope.source)
+      .lt('last_synced_at', syncedBefore.toISOString())
+      .is('deleted_at', null);
+
+    if (occurredAfter) {
+      query = query.gte('occurred_at', occurredAfter.toISOString());
+    }
+
+    const { data, error } = await query.select('id');
+
+    if (error) {
+      throw new Error(`Failed to delete stale interactions: ${error.message}`);
+    }
+    return data?.length ?? 0;
+  }
+
+  /**
+   * Permanently remove every interaction a user synced from `sources`,
+   * with their participants.
+   */
+  async deleteForSources(
+    tenantId: string,
+    userId: string,
+    sources: readonly SourceConnectionSource[],
+  ): Promise<number> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('interactions')
+      .delete()
+      .eq('tenant_id', tenantId)
+      .eq('user_id', userId)
+      .in('source', [...sources])
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to remove interactions: ${error.message}`);
+    }
+    return data?.length ?? 0;
+  }
+
+  /**
+   * Normalized emails of everyone on the user's interactions written or
+   * deleted since `since`, so callers can refresh only what changed.
+   */
+  async findParticipantEmailsChangedSince(
+    tenantId: string,
+    userId: string,
+    since: Date,
+  ): Promise<Set<string>> {
+    const emails = new Set<string>();
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .getClient()
+        .from('interactions')
+        .select('id, interaction_participants(email)')
+        .eq('tenant_id', tenantId)
+        .eq('user_id', userId)
+        .gte('updated_at', since.toISOString())
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(
+          `Failed to load changed interactions: ${error.message}`,
+        );
+      }
+
+      const page = (data ?? []) as Pick<
+        InteractionRow,
+        'id' | 'interaction_participants'
+      >[];
+      for (const row of page) {
+        for (const participant of row.interaction_participants ?? []) {
+          emails.add(participant.email);
+        }
+      }
+      if (page.length < PAGE_SIZE) return emails;
+    }
+  }
+
+  /**
+   * Every live interaction of a user with its participants, narrowed by the
+   * given filters.
+   */
+  async listWithParticipants(
+    tenantId: string,
+    userId: string,
+    filters: InteractionFilters = {},
+  ): Promise<InteractionRow[]> {
+    if (!filters.emails) {
+      const rows: InteractionRow[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const query = this.supabase
+          .getClient()
+          .from('interactions')
+          .select(WITH_PARTICIPANTS)
+          .eq('tenant_id', tenantId)
+          .eq('user_id', userId)
+          .is('deleted_at', null);
+
+        const { data, error } = await this.applyFilters(query, filters)
+          .order('id', { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) {
+          throw new Error(`Failed to load interactions: ${error.message}`);
+        }
+        const page = (data ?? []) as InteractionRow[];
+        rows.push(...page);
+        if (page.length < PAGE_SIZE) return rows;
+      }
+    }
+
+    const interactionIds = new Set<string>();
+    for (let i = 0; i < filters.emails.length; i += LOOKUP_CHUNK_SIZE) {
+      const { data, error } = await this.supabase
+        .getClient()
+        .from('interaction_participants')
+        .select('interaction_id')
+        .eq('tenant_id', tenantId)
+        .eq('user_id', userId)
+        .in('email', filters.emails.slice(i, i + LOOKUP_CHUNK_SIZE));
+
+      if (error) {
+        throw new Error(`Failed to look up participants: ${error.message}`);
+      }
+      for (const row of (data ?? []) as { interaction_id: string }[]) {
+        interactionIds.add(row.interaction_id);
+      }
+    }
+
+    const ids = [...interactionIds];
+    const rows: InteractionRow[] = [];
+    for (let i = 0; i < ids.length; i += LOOKUP_CHUNK_SIZE) {
+      const query = this.supabase
+        .getClient()
+        .from('interactions')
+        .select(WITH_PARTICIPANTS)
+        .in('id', ids.slice(i, i + LOOKUP_CHUNK_SIZE))
+        .is('deleted_at', null);
+
+      const { data, error } = await this.applyFilters(query, filters);
+
+      if (error) {
+        throw new Error(`Failed to load interactions: ${error.message}`);
+      }
+      rows.push(...((data ?? []) as InteractionRow[]));
+    }
+    return rows;
+  }
+
+  async listInteractions(
+    tenantId: string,
+    userId: string,
+    options: ListInteractionsOptions,
+  ): Promise<{ interactions: InteractionRow[]; total: number }> {
+    const participantSelect = options.email
+      ? 'interaction_participants!inner(email, display_name, role, response_status, contact_id)'
+      : 'interaction_participants(email, display_name, role, response_status, contact_id)';
+
+    let query = this.supabase
+      .getClient()
+      .from('interactions')
+      .select(`*, ${participantSelect}`, { count: 'exact' })
+      .eq('tenant_id', tenantId)
+      .eq('user_id', userId)
+      .is('deleted_at', null);
+
+    if (options.kind) {
+      query = query.eq('kind', options.kind);
+    }
+    if (options.email) {
+      query = query.eq(
+        'interaction_participants.email',
+        normalizeEmail(options.email) ?? options.email,
+      );
+    }
+
+    const { data, error, count } = await query
+      .order('occurred_at', { ascending: false })
+      .range(options.offset, options.offset + options.limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to list interactions: ${error.message}`);
+    }
+
+    return {
+      interactions: (data ?? []) as InteractionRow[],
+      total: count ?? 0,
+    };
+  }
+
+  private applyFilters<
+    Query extends {
+      eq(column: string, value: unknown): Query;
+      gte(column: string, value: unknown): Query;
+      lt(column: string, value: unknown): Query;
+    },
+  >(query: Query, filters: InteractionFilters): Query {
+    let filtered = query;
+    if (filters.kind) {
+      filtered = filtered.eq('kind', filters.kind);
+    }
+    if (filters.after) {
+      filtered = filtered.gte('occurred_at', filters.after.toISOString());
+    }
+    if (filters.before) {
+      filtered = filtered.lt('occurred_at', filters.before.toISOString());
+    }
+    return filtered;
+  }
+
+  private async replaceParticipants(
+    scope: InteractionScope,
+    interactions: InteractionInput[],
+    idsByRecord: Map<string, string>,
+  ): Promise<void> {
+    const interactionIds = [...idsByRecord.values()];
+    if (!interactionIds.length) return;
+
+    const { error: deleteError } = await this.supabase
+      .getClient()
+      .from('interaction_participants')
+      .delete()
+      .in('interaction_id', interactionIds);
+
+    if (deleteError) {
+      throw new Error(
+        `Failed to reset interaction participants: ${deleteError.message}`,
+      );
+    }
+
+    const rows: Record<string, unknown>[] = [];
+    const seen = new Set<string>();
+
+    for (const item of interactions) {
+      const interactionId = idsByRecord.get(item.sourceRecordId);
+      if (!interactionId) continue;
+
+      for (const participant of item.participants) {
+        const email = normalizeEmail(participant.email);
+        const key = `${interactionId}:${email}:${participant.role}`;
+        if (!email || seen.has(key)) continue;
+        seen.add(key);
+
+        rows.push({
+          interaction_id: interactionId,
+          tenant_id: scope.tenantId,
+          user_id: scope.userId,
+          email,
+          display_name: participant.displayName ?? null,
+          role: participant.role,
+          response_status: participant.responseStatus ?? null,
+        });
+      }
+    }
+    if (!rows.length) return;
+
+    const contactIds = await this.findContactIdsByEmail(scope, [
+      ...new Set(rows.map((row) => row.email as string)),
+    ]);
+
+    const { error } = await this.supabase
+      .getClient()
+      .from('interaction_participants')
+      .insert(
+        rows.map((row) => ({
+          ...row,
+          contact_id: contactIds.get(row.email as string) ?? null,
+        })),
+      );
+
+    if (error) {
+      throw new Error(
+        `Failed to store interaction participants: ${error.message}`,
+      );
+    }
+  }
+
+  private async findContactIdsByEmail(
+    scope: InteractionScope,
+    emails: string[],
+  ): Promise<Map<string, string>> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('contacts')
+      .select('id, primary_email')
+      .eq('tenant_id', scope.tenantId)
+      .eq('user_id', scope.userId)
+      .in('primary_email', emails)
+      .is('deleted_at', null);
+
+    if (error) {
+      this.logger.warn('Failed to link participants to contacts', {
+        userId: scope.userId,
+        error: error.message,
+      });
+      return new Map();
+    }
+
+    return new Map(
+      ((data ?? []) as { id: string; primary_email: string }[]).map((row) => [
+        row.primary_email,
+        row.id,
+      ]),
+    );
+  }
+}
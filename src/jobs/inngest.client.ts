@@ -0,0 +1,52 @@
+import { ConfigService } from '@nestjs/config';
+import { EventSchemas, Inngest } from 'inngest';
+import { JobEvents } from './jobs.events';
+import type { JobEventData } from './jobs.events';
+
+export const INNGEST_CLIENT = Symbol('INNGEST_CLIENT');
+
+/**
+ * Whether `INNGEST_DEV` points the client at a local dev server.
+ */
+export function isInngestDev(config: ConfigService): boolean {
+  const dev = config.get<string>('INNGEST_DEV');
+  return !!dev && dev !== '0' && dev !== 'false';
+}
+
+/**
+ * With `INNGEST_DEV` set the client talks to the local dev server
+ * (`npx inngest-cli@latest dev`), or to the URL it holds, and needs no keys.
+ */
+export function createInngestClient(config: ConfigService) {
+  const dev = config.get<string>('INNGEST_DEV');
+  const isDev = isInngestDev(config);
+
+  return new Inngest({
+    id: 'kue-platform',
+    eventKey: config.get<string>('INNGEST_EVENT_KEY'),
+    isDev,
+    baseUrl: isDev && dev && /^https?:\/\//.test(dev) ? dev : undefined,
+    schemas: new EventSchemas().fromRecord<{
+      [JobEvents.SOURCE_CONNECTED]: {
+        data: JobEventData[typeof JobEvents.SOURCE_CONNECTED];
+      };
+      [JobEvents.TENANT_SYNC_REQUESTED]: {
+        data: JobEventData[typeof JobEvents.TENANT_SYNC_REQUESTED];
+      };
+      [JobEvents.SYNC_REQUESTED]: {
+        data: JobEventData[typeof JobEvents.SYNC_REQUESTED];
+      };
+      [JobEvents.SOURCE_PURGE_REQUESTED]: {
+        data: JobEventData[typeof JobEvents.SOURCE_PURGE_REQUESTED];
+      };
+      [JobEvents.TOKENS_REENCRYPT_REQUESTED]: {
+        data: JobEventData[typeof JobEvents.TOKENS_REENCRYPT_REQUESTED];
+      };
+      [JobEvents.DERIVED_DATA_REFRESH_REQUESTED]: {
+        data: JobEventData[typeof JobEvents.DERIVED_DATA_REFRESH_REQUESTED];
+      };
+    }>(),
+  });
+}
+
+export type KueInngest = ReturnType<typeof createInngestClient>;
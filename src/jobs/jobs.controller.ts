@@ -0,0 +1,44 @@
+import { All, Controller, Inject, Req, Res } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiExcludeController } from '@nestjs/swagger';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { serve } from 'inngest/fastify';
+import { INNGEST_CLIENT } from './inngest.client';
+import type { KueInngest } from './inngest.client';
+import { SyncFunctions } from './sync.functions';
+import { TokenFunctions } from './token.functions';
+
+/**
+ * The endpoint Inngest (or the local dev server) calls to discover and run
+ * functions. Requests are verified with `INNGEST_SIGNING_KEY` outside dev
+ * mode, so there is no user auth here.
+ */
+@ApiExcludeController()
+@Controller('api/inngest')
+export class JobsController {
+  private readonly handler: ReturnType<typeof serve>;
+
+  constructor(
+    @Inject(INNGEST_CLIENT) inngest: KueInngest,
+    syncFunctions: SyncFunctions,
+    tokenFunctions: TokenFunctions,
+    config: ConfigService,
+  ) {
+    this.handler = serve({
+      client: inngest,
+      functions: [...syncFunctions.build(), ...tokenFunctions.build()],
+      signingKey: config.get<string>('INNGEST_SIGNING_KEY'),
+    });
+  }
+
+  @All()
+  async serve(
+    @Req()
+    request: FastifyRequest<{
+      Querystring: Record<string, string | undefined>;
+    }>,
+    @Res() reply: FastifyReply,
+  ) {
+    return this.handler(request, reply);
+  }
+}
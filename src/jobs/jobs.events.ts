@@ -0,0 +1,49 @@
+import type { SourceConnectionSource } from '../common/types/sources';
+
+export const JobEvents = {
+  /** A user (re)connected an account; backfill its sources. */
+  SOURCE_CONNECTED: 'kue/source.connected',
+  /** Sync every active connection in one tenant. */
+  TENANT_SYNC_REQUESTED: 'kue/tenant.sync.requested',
+  /** Sync one user's connection to one source. */
+  SYNC_REQUESTED: 'kue/sync.requested',
+  /** Delete everything a user synced from disconnected sources. */
+  SOURCE_PURGE_REQUESTED: 'kue/source.purge.requested',
+  /** Rewrap stored OAuth tokens under the active master key. */
+  TOKENS_REENCRYPT_REQUESTED: 'kue/tokens.reencrypt.requested',
+  /** Rebuild persons, scores and the graph after a user's data changed. */
+  DERIVED_DATA_REFRESH_REQUESTED: 'kue/derived-data.refresh.requested',
+} as const;
+
+export type SyncReason = 'manual' | 'backfill' | 'scheduled' | 'resync';
+
+export interface JobEventData {
+  [JobEvents.SOURCE_CONNECTED]: {
+    tenantId: string;
+    userId: string;
+    sources: SourceConnectionSource[];
+  };
+  [JobEvents.TENANT_SYNC_REQUESTED]: {
+    tenantId: string;
+  };
+  [JobEvents.SYNC_REQUESTED]: {
+    tenantId: string;
+    userId: string;
+    source: SourceConnectionSource;
+    reason: SyncReason;
+  };
+  [JobEvents.SOURCE_PURGE_REQUESTED]: {
+    tenantId: string;
+    userId: string;
+    sources: SourceConnectionSource[];
+  };
+  [JobEvents.TOKENS_REENCRYPT_REQUESTED]: Record<string, never>;
+  [JobEvents.DERIVED_DATA_REFRESH_REQUESTED]: {
+    tenantId: string;
+    userId: string;
+    contactsChanged: boolean;
+    /** ISO time; only interactions changed after it need rescoring. */
+    since?: string;
+    source?: string;
+  };
+}
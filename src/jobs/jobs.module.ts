@@ -0,0 +1,31 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthModule } from '../auth/auth.module';
+import { SyncModule } from '../sync/sync.module';
+import { createInngestClient, INNGEST_CLIENT } from './inngest.client';
+import { JobsController } from './jobs.controller';
+import { JobsService } from './jobs.service';
+import { SyncFunctions } from './sync.functions';
+import { TokenFunctions } from './token.functions';
+
+/**
+ * Global so feature modules can enqueue jobs without importing the modules
+ * the job functions themselves depend on.
+ */
+@Global()
+@Module({
+  imports: [AuthModule, SyncModule],
+  controllers: [JobsController],
+  providers: [
+    {
+      provide: INNGEST_CLIENT,
+      useFactory: createInngestClient,
+      inject: [ConfigService],
+    },
+    JobsService,
+    SyncFunctions,
+    TokenFunctions,
+  ],
+  exports: [JobsService],
+})
+export class JobsModule {}
@@ -0,0 +1,141 @@
+import {
+  Inject,
+  Injectable,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { LoggerService } from '../observability/logger.service';
+import { SentryService } from '../observability/sentry.service';
+import type { SourceConnectionSource } from '../common/types/sources';
+import { INNGEST_CLIENT } from './inngest.client';
+import type { KueInngest } from './inngest.client';
+import { JobEvents } from './jobs.events';
+import type { SyncReason } from './jobs.events';
+
+/**
+ * Sends the events that start background jobs.
+ */
+@Injectable()
+export class JobsService {
+  constructor(
+    @Inject(INNGEST_CLIENT) private readonly inngest: KueInngest,
+    private readonly logger: LoggerService,
+    private readonly sentry: SentryService,
+  ) {}
+
+  /**
+   * Backfill newly connected sources. The caller's own work already
+   * succeeded, so a failure to enqueue is reported rather than thrown; the
+   * scheduled sync picks the sources up later.
+   */
+  async sourceConnected(
+    tenantId: string,
+    userId: string,
+    sources: SourceConnectionSource[],
+  ): Promise<void> {
+    try {
+      await this.inngest.send({
+        name: JobEvents.SOURCE_CONNECTED,
+        data: { tenantId, userId, sources },
+      });
+      this.logger.info('Initial sync enqueued', { userId, sources });
+    } catch (error) {
+      this.sentry.captureException(error, { userId, context: 'jobs' });
+      this.logger.warn('Failed to enqueue initial sync', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Queue a sync of one source on a user's request; a `resync` drops its
+   * checkpoint first. It runs behind any sync already in progress for the
+   * same connection.
+   */
+  async requestSync(
+    tenantId: string,
+    userId: string,
+    source: SourceConnectionSource,
+    reason: Extract<SyncReason, 'manual' | 'resync'>,
+  ): Promise<void> {
+    try {
+      await this.inngest.send({
+        name: JobEvents.SYNC_REQUESTED,
+        data: { tenantId, userId, source, reason },
+      });
+    } catch (error) {
+      this.sentry.captureException(error, { userId, source, context: 'jobs' });
+      this.logger.error('Failed to enqueue sync', {
+        userId,
+        source,
+        reason,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new ServiceUnavailableException(
+        reason === 'resync'
+          ? 'Could not queue the resync'
+          : 'Could not queue the sync',
+      );
+    }
+  }
+
+  /**
+   * Queue deletion of the data a user synced from `sources`
+   */
+  async requestSourcePurge(
+    tenantId: string,
+    userId: string,
+    sources: SourceConnectionSource[],
+  ): Promise<void> {
+    try {
+      await this.inngest.send({
+        name: JobEvents.SOURCE_PURGE_REQUESTED,
+        data: { tenantId, userId, sources },
+      });
+      this.logger.info('Source data purge enqueued', { userId, sources });
+    } catch (error) {
+      this.sentry.captureException(error, { userId, context: 'jobs' });
+      this.logger.error('Failed to enqueue source data purge', {
+        userId,
+        sources,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new ServiceUnavailableException('Could not queue the data removal');
+    }
+  }
+
+  /**
+   * Queue a rebuild of the persons, scores and graph derived from a user's
+   * data. The data itself is already stored, so a failure to enqueue is
+   * reported rather than thrown; the next change queues another rebuild.
+   */
+  async requestDerivedDataRefresh(
+    tenantId: string,
+    userId: string,
+    options: { contactsChanged: boolean; since?: Date; source?: string },
+  ): Promise<void> {
+    try {
+      await this.inngest.send({
+        name: JobEvents.DERIVED_DATA_REFRESH_REQUESTED,
+        data: {
+          tenantId,
+          userId,
+          contactsChanged: options.contactsChanged,
+          since: options.since?.toISOString(),
+          source: options.source,
+        },
+      });
+    } catch (error) {
+      this.sentry.captureException(error, {
+        userId,
+        source: options.source,
+        context: 'jobs',
+      });
+      this.logger.warn('Failed to enqueue derived data refresh', {
+        userId,
+        source: options.source,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,297 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NonRetriableError, RetryAfterError } from 'inngest';
+import type { InngestFunction } from 'inngest';
+import { SupabaseService } from '../database/supabase.service';
+import type { SourceConnectionSource } from '../common/types/sources';
+import { getGoogleErrorStatus } from '../sync/google-errors';
+import { SyncService } from '../sync/sync.service';
+import { SourcePurgeService } from '../sync/source-purge.service';
+import type { DerivedDataRequest } from '../sync/sync.types';
+import { INNGEST_CLIENT } from './inngest.client';
+import type { KueInngest } from './inngest.client';
+import { JobEvents } from './jobs.events';
+import type { JobEventData } from './jobs.events';
+
+const SYNC_RETRIES = 5;
+const RATE_LIMIT_RETRY_AFTER = '5m';
+// PostgREST caps responses at 1000 rows by default.
+const PAGE_SIZE = 1000;
+const DERIVED_DATA_BATCH_SIZE = 100;
+const DERIVED_DATA_BATCH_TIMEOUT = '30s';
+
+/**
+ * Inngest functions that keep connected sources in sync:
+ *
+ *   kue/source.connected  -> one kue/sync.requested per source (backfill)
+ *   cron                  -> one kue/tenant.sync.requested per tenant
+ *   kue/tenant.sync.requested -> one kue/sync.requested per connection
+ *   kue/sync.requested    -> SyncService.syncSource, at most one run per
+ *                            connection at a time; a `resync` drops the
+ *                            checkpoint first
+ *   kue/source.purge.requested -> SourcePurgeService.purge, after a user
+ *                            disconnected the sources
+ *   kue/derived-data.refresh.requested -> SyncService.rebuildDerivedData,
+ *                            batched and one run at a time per tenant
+ *
+ * The first sync of a connection has no checkpoint, so it is the backfill;
+ * every later one is incremental.
+ */
+@Injectable()
+export class SyncFunctions {
+  constructor(
+    @Inject(INNGEST_CLIENT) private readonly inngest: KueInngest,
+    private readonly syncService: SyncService,
+    private readonly sourcePurge: SourcePurgeService,
+    private readonly supabase: SupabaseService,
+    private readonly config: ConfigService,
+  ) {}
+
+  build(): InngestFunction.Any[] {
+    return [
+      this.backfillOnConnect(),
+      this.scheduledSync(),
+      this.tenantSync(),
+      this.syncConnection(),
+      this.purgeSourceData(),
+      this.refreshDerivedData(),
+    ];
+  }
+
+  private backfillOnConnect() {
+    return this.inngest.createFunction(
+      { id: 'backfill-connected-sources' },
+      { event: JobEvents.SOURCE_CONNECTED },
+      async ({ event, step }) => {
+        const { tenantId, userId } = event.data;
+        const sources = event.data.sources.filter((source) =>
+          this.syncService.isSupported(source),
+        );
+        if (!sources.length) return { enqueued: 0 };
+
+        await step.sendEvent(
+          'enqueue-backfills',
+          sources.map((source) => ({
+            name: JobEvents.SYNC_REQUESTED,
+            data: { tenantId, userId, source, reason: 'backfill' as const },
+          })),
+        );
+        return { enqueued: sources.length };
+      },
+    );
+  }
+
+  private scheduledSync() {
+    return this.inngest.createFunction(
+      { id: 'scheduled-sync' },
+      { cron: this.config.get<string>('SYNC_SCHEDULE', '0 * * * *') },
+      async ({ step }) => {
+        const tenantIds = await step.run('load-tenants', () =>
+          this.loadTenantsWithConnections(),
+        );
+        if (!tenantIds.length) return { tenants: 0 };
+
+        await step.sendEvent(
+          'fan-out-tenants',
+          tenantIds.map((tenantId) => ({
+            name: JobEvents.TENANT_SYNC_REQUESTED,
+            data: { tenantId },
+          })),
+        );
+        return { tenants: tenantIds.length };
+      },
+    );
+  }
+
+  private tenantSync() {
+    return this.inngest.createFunction(
+      {
+        id: 'tenant-sync',
+        concurrency: { limit: 1, key: 'event.data.tenantId' },
+      },
+      { event: JobEvents.TENANT_SYNC_REQUESTED },
+      async ({ event, step }) => {
+        const { tenantId } = event.data;
+        const connections = await step.run('load-connections', () =>
+          this.loadActiveConnections(tenantId),
+        );
+        if (!connections.length) return { enqueued: 0 };
+
+        await step.sendEvent(
+          'fan-out-connections',
+          connections.map(({ userId, source }) => ({
+            name: JobEvents.SYNC_REQUESTED,
+            data: { tenantId, userId, source, reason: 'scheduled' as const },
+          })),
+        );
+        return { enqueued: connections.length };
+      },
+    );
+  }
+
+  private syncConnection() {
+    return this.inngest.createFunction(
+      {
+        id: 'sync-connection',
+        retries: SYNC_RETRIES,
+        // Connectors checkpoint as they go, so two runs against the same
+        // connection would race on the cursor.
+        concurrency: {
+          limit: 1,
+          key: 'event.data.tenantId + ":" + event.data.userId + ":" + event.data.source',
+        },
+      },
+      { event: JobEvents.SYNC_REQUESTED },
+      async ({ event, step }) => {
+        const { tenantId, userId, source, reason } = event.data;
+
+        return step.run('sync', async () => {
+          try {
+            return await this.syncService.syncSource(tenantId, userId, source, {
+              trigger: reason,
+              fullResync: reason === 'resync',
+            });
+          } catch (error) {
+            // The connection was removed or disconnected since the event
+            // was sent; retrying cannot help.
+            if (error instanceof NotFoundException) {
+              throw new NonRetriableError(error.message, { cause: error });
+            }
+            if (getGoogleErrorStatus(error) === 429) {
+              throw new RetryAfterError(
+                'Google API rate limit reached',
+                RATE_LIMIT_RETRY_AFTER,
+                { cause: error },
+              );
+            }
+            throw error;
+          }
+        });
+      },
+    );
+  }
+
+  private purgeSourceData() {
+    return this.inngest.createFunction(
+      {
+        id: 'purge-source-data',
+        concurrency: {
+          limit: 1,
+          key: 'event.data.tenantId + ":" + event.data.userId',
+        },
+      },
+      { event: JobEvents.SOURCE_PURGE_REQUESTED },
+      async ({ event, step }) => {
+        const { tenantId, userId, sources } = event.data;
+        return step.run('purge', () =>
+          this.sourcePurge.purge(tenantId, userId, sources),
+        );
+      },
+    );
+  }
+
+  private refreshDerivedData() {
+    return this.inngest.createFunction(
+      {
+        id: 'refresh-derived-data',
+        // Identity resolution rewrites the tenant's persons, so concurrent
+        // runs would race and create duplicates. A burst of syncs in one
+        // tenant collapses into a single resolve.
+        concurrency: { limit: 1, key: 'event.data.tenantId' },
+        batchEvents: {
+          maxSize: DERIVED_DATA_BATCH_SIZE,
+          timeout: DERIVED_DATA_BATCH_TIMEOUT,
+          key: 'event.data.tenantId',
+        },
+      },
+      { event: JobEvents.DERIVED_DATA_REFRESH_REQUESTED },
+      async ({ events, step }) => {
+        const { tenantId } = events[0].data;
+        const requests = mergeDerivedDataRequests(
+          events.map((event) => event.data),
+        );
+        await step.run('rebuild', () =>
+          this.syncService.rebuildDerivedData(tenantId, requests),
+        );
+        return { users: requests.length };
+      },
+    );
+  }
+
+  private async loadTenantsWithConnections(): Promise<string[]> {
+    const rows = await this.loadActiveConnectionRows<{ tenant_id: string }>(
+      'tenant_id',
+    );
+    return [...new Set(rows.map((row) => row.tenant_id))];
+  }
+
+  private async loadActiveConnections(
+    tenantId: string,
+  ): Promise<{ userId: string; source: SourceConnectionSource }[]> {
+    const rows = await this.loadActiveConnectionRows<{
+      user_id: string;
+      source: SourceConnectionSource;
+    }>('user_id, source', tenantId);
+
+    const seen = new Set<string>();
+    const connections: { userId: string; source: SourceConnectionSource }[] =
+      [];
+    for (const row of rows) {
+      const key = `${row.user_id}:${row.source}`;
+      if (seen.has(key) || !this.syncService.isSupported(row.source)) continue;
+      seen.add(key);
+      connections.push({ userId: row.user_id, source: row.source });
+    }
+    return connections;
+  }
+  /**
+   * Every active connection, optionally in one tenant, read in pages
+   */
+  private async loadActiveConnectionRows<T>(
+    columns: string,
+    tenantId?: string,
+  ): Promise<T[]> {
+    const rows: T[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = this.supabase
+        .getClient()
+        .from('source_connections')
+        .select(columns)
+        .eq('status', 'active');
+      if (tenantId) {
+        query = query.eq('tenant_id', tenantId);
+      }
+
+      const { data, error } = await query
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load source connections: ${error.message}`);
+      }
+      const page = (data ?? []) as unknown as T[];
+      rows.push(...page);
+      if (page.length < PAGE_SIZE) return rows;
+    }
+  }
+}
+
+/**
+ * One request per user, rescoring from the earliest change. Contact changes
+ * can move people between persons, so they rebuild every score.
+ */
+function mergeDerivedDataRequests(
+  events: JobEventData[typeof JobEvents.DERIVED_DATA_REFRESH_REQUESTED][],
+): DerivedDataRequest[] {
+  const byUser = new Map<string, DerivedDataRequest>();
+  for (const { userId, contactsChanged, since } of events) {
+    const from = contactsChanged || !since ? undefined : new Date(since);
+    const current = byUser.get(userId);
+    if (!current) {
+      byUser.set(userId, { userId, since: from });
+    } else if (current.since && (!from || from < current.since)) {
+      current.since = from;
+    }
+  }
+  return [...byUser.values()];
+}
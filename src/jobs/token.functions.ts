@@ -0,0 +1,66 @@
+import { Inject, Injectable } from '@nestjs/common';
+import type { InngestFunction } from 'inngest';
+import { AuthService } from '../auth/auth.service';
+import { ConnectionTokensService } from '../auth/connection-tokens.service';
+import { INNGEST_CLIENT } from './inngest.client';
+import type { KueInngest } from './inngest.client';
+import { JobEvents } from './jobs.events';
+
+const REENCRYPT_SCHEDULE = '0 3 * * *';
+const REFRESH_SCHEDULE = '*/15 * * * *';
+/** Wider than the schedule, so no token expires between two runs. */
+const REFRESH_WINDOW_MS = 30 * 60 * 1000;
+
+/**
+ * Proactive refresh: every 15 minutes, refresh access tokens that expire
+ * within the next 30. A refresh rejected by Google marks the connections
+ * `revoked` (see ConnectionHealthService), so dead connections surface in
+ * `/auth/status` without waiting for a sync.
+ *
+ * Key rotation: put the new master key first in `TOKEN_ENCRYPTION_KEYS`,
+ * keep the old one after it, and deploy. This job (daily, or on demand via
+ * `kue/tokens.reencrypt.requested`) rewraps every record under the new key
+ * and encrypts any legacy plaintext rows. Once a run reports nothing left
+ * to do, the old key can be removed.
+ */
+@Injectable()
+export class TokenFunctions {
+  constructor(
+    @Inject(INNGEST_CLIENT) private readonly inngest: KueInngest,
+    private readonly connectionTokens: ConnectionTokensService,
+    private readonly authService: AuthService,
+  ) {}
+
+  build(): InngestFunction.Any[] {
+    return [this.refreshExpiringTokens(), this.reencryptTokens()];
+  }
+
+  private refreshExpiringTokens() {
+    return this.inngest.createFunction(
+      { id: 'refresh-expiring-tokens', concurrency: { limit: 1 } },
+      { cron: REFRESH_SCHEDULE },
+      async ({ step }) =>
+        step.run('refresh', () =>
+          this.authService.refreshExpiringConnections(REFRESH_WINDOW_MS),
+        ),
+    );
+  }
+
+  private reencryptTokens() {
+    return this.inngest.createFunction(
+      { id: 'reencrypt-tokens', concurrency: { limit: 1 } },
+      [
+        { event: JobEvents.TOKENS_REENCRYPT_REQUESTED },
+        { cron: REENCRYPT_SCHEDULE },
+      ],
+      async ({ step }) => {
+        if (!this.connectionTokens.isEncryptionEnabled()) {
+          return { skipped: 'TOKEN_ENCRYPTION_KEYS is not set' };
+        }
+        return step.run('reencrypt', () =>
+          this.connectionTokens.reencryptAll(),
+        );
+      },
+    );
+  }
+}
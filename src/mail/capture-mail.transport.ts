@@ -0,0 +1,22 @@
+import type { MailMessage, MailTransport } from './mail.types';
+
+/**
+ * Keeps outgoing mail in memory so tests can assert on it.
+ */
+export class CaptureMailTransport implements MailTransport {
+  readonly sent: MailMessage[] = [];
+
+  send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+    return Promise.resolve();
+  }
+
+  /** Most recent message to `to`, if any. */
+  lastTo(to: string): MailMessage | undefined {
+    return [...this.sent].reverse().find((message) => message.to === to);
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
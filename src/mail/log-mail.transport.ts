@@ -0,0 +1,26 @@
+import { LoggerService } from '../observability/logger.service';
+import type { MailMessage, MailTransport } from './mail.types';
+
+/**
+ * Writes mail to the log instead of sending it, for local development.
+ * Bodies carry links with live tokens, which redaction would strip, so
+ * when requested they are printed to the console as they are, outside the
+ * logger.
+ */
+export class LogMailTransport implements MailTransport {
+  constructor(
+    private readonly logger: LoggerService,
+    private readonly printBody: boolean,
+  ) {}
+
+  send(message: MailMessage): Promise<void> {
+    this.logger.info('Mail not sent (no transport configured)', {
+      to: message.to,
+      subject: message.subject,
+    });
+    if (this.printBody) {
+      console.log(`--- Mail to ${message.to} ---\n${message.text}\n---`);
+    }
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,46 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LoggerService } from '../observability/logger.service';
+import { LogMailTransport } from './log-mail.transport';
+import { MAIL_TRANSPORT } from './mail.types';
+import type { MailTransport } from './mail.types';
+import { ResendMailTransport } from './resend-mail.transport';
+
+/**
+ * Resend when `RESEND_API_KEY` is set; otherwise mail is only logged.
+ */
+export function createMailTransport(
+  config: ConfigService,
+  logger: LoggerService,
+): MailTransport {
+  const apiKey = config.get<string>('RESEND_API_KEY');
+  const isProduction = config.get<string>('NODE_ENV') === 'production';
+
+  if (apiKey) {
+    return new ResendMailTransport(
+      apiKey,
+      config.getOrThrow<string>('MAIL_FROM'),
+    );
+  }
+  if (isProduction) {
+    logger.warn('RESEND_API_KEY is not set; outgoing mail is dropped');
+  }
+  // Bodies bypass redaction, so they are never printed where logs are shipped
+  return new LogMailTransport(logger, !isProduction && !logger.isShipping());
+}
+
+/**
+ * Global so any feature can send mail without importing it.
+ */
+@Global()
+@Module({
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      useFactory: createMailTransport,
+      inject: [ConfigService, LoggerService],
+    },
+  ],
+  exports: [MAIL_TRANSPORT],
+})
+export class MailModule {}
@@ -0,0 +1,16 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Delivers transactional email. Swap the `MAIL_TRANSPORT` provider for a
+ * `CaptureMailTransport` to inspect outgoing mail in tests.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export const MAIL_TRANSPORT = Symbol('MAIL_TRANSPORT');
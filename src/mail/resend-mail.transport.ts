@@ -0,0 +1,37 @@
+import type { MailMessage, MailTransport } from './mail.types';
+
+const RESEND_API_URL = 'https://api.resend.com/emails';
+
+/**
+ * Sends mail through the Resend HTTP API.
+ */
+export class ResendMailTransport implements MailTransport {
+  constructor(
+    private readonly apiKey: string,
+    private readonly from: string,
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const response = await fetch(RESEND_API_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(
+        `Failed to send mail: ${response.status} ${detail}`.trim(),
+      );
+    }
+  }
+}
@@ -1,3 +1,5 @@
+// Must run before anything it instruments is loaded
+import './tracing';
 import { NestFactory } from '@nestjs/core';
 import {
   FastifyAdapter,
@@ -8,10 +10,29 @@ import { ConfigService } from '@nestjs/config';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { AppModule } from './app.module';
 
+/**
+ * Fastify `trustProxy` from `TRUST_PROXY`: a hop count, `true`, or a list of
+ * proxy addresses. Unset trusts nothing, so `request.ip` cannot be spoofed
+ * with `X-Forwarded-For`.
+ */
+function parseTrustProxy(
+  value: string | undefined,
+): boolean | number | string[] {
+  if (!value) return false;
+  if (value === 'true') return true;
+  if (/^\d+$/.test(value)) return Number(value);
+  return value.split(',').map((address) => address.trim());
+}
+
 async function bootstrap() {
   const app = await NestFactory.create<NestFastifyApplication>(
     AppModule,
-    new FastifyAdapter(),
+    new FastifyAdapter({
+      // CSV imports are posted as JSON strings, so allow bodies above the 1MB default
+      bodyLimit: 10 * 1024 * 1024,
+      // Rate limits and the session registry key on the client IP
+      trustProxy: parseTrustProxy(process.env.TRUST_PROXY),
+    }),
   );
 
   const configService = app.get(ConfigService);
@@ -25,6 +46,8 @@ async function bootstrap() {
       'https://kue-platform.vercel.app',
     ].filter((origin): origin is string => !!origin),
     credentials: true,
+    // Lets the frontend report the id of a failed request
+    exposedHeaders: ['X-Request-Id'],
   });
 
   // Register cookie support for session management
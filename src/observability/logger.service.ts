@@ -1,51 +1,90 @@
 import { Injectable, OnModuleDestroy } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Logtail } from '@logtail/node';
+import { activeTraceIds } from './tracer';
+import { currentRequestId } from './request-context';
+import { RedactionService } from './redaction.service';
 
 @Injectable()
 export class LoggerService implements OnModuleDestroy {
   private logtail: Logtail | null = null;
 
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private redaction: RedactionService,
+  ) {
     const token = this.configService.get<string>('LOGTAIL_SOURCE_TOKEN');
     if (token) {
       this.logtail = new Logtail(token);
     }
   }
 
+  /** Whether logs are shipped to Logtail as well as the console. */
+  isShipping(): boolean {
+    return !!this.logtail;
+  }
+
   info(message: string, context?: Record<string, unknown>): void {
+    const entry = this.prepare(context);
+    const text = this.redaction.redactText(message);
     if (this.logtail) {
-      this.logtail.info(message, context);
+      this.logtail.info(text, entry);
     } else {
-      console.log(JSON.stringify({ level: 'info', message, ...context }));
+      console.log(JSON.stringify({ level: 'info', message: text, ...entry }));
     }
   }
 
   warn(message: string, context?: Record<string, unknown>): void {
+    const entry = this.prepare(context);
+    const text = this.redaction.redactText(message);
     if (this.logtail) {
-      this.logtail.warn(message, context);
+      this.logtail.warn(text, entry);
     } else {
-      console.warn(JSON.stringify({ level: 'warn', message, ...context }));
+      console.warn(JSON.stringify({ level: 'warn', message: text, ...entry }));
     }
   }
 
   error(message: string, context?: Record<string, unknown>): void {
+    const entry = this.prepare(context);
+    const text = this.redaction.redactText(message);
     if (this.logtail) {
-      this.logtail.error(message, context);
+      this.logtail.error(text, entry);
     } else {
-      console.error(JSON.stringify({ level: 'error', message, ...context }));
+      console.error(
+        JSON.stringify({ level: 'error', message: text, ...entry }),
+      );
     }
   }
 
   debug(message: string, context?: Record<string, unknown>): void {
+    const entry = this.prepare(context);
+    const text = this.redaction.redactText(message);
     if (this.logtail) {
-      this.logtail.debug(message, context);
+      this.logtail.debug(text, entry);
     } else {
-      console.debug(JSON.stringify({ level: 'debug', message, ...context }));
+      console.debug(
+        JSON.stringify({ level: 'debug', message: text, ...entry }),
+      );
     }
   }
 
   async onModuleDestroy(): Promise<void> {
     await this.logtail?.flush();
   }
+
+  /**
+   * Redacts the context and adds `request_id`, plus `trace_id` and
+   * `span_id` when a span is active.
+   */
+  private prepare(
+    context?: Record<string, unknown>,
+  ): Record<string, unknown> | undefined {
+    const entry = this.redaction.redact(context);
+    const requestId = currentRequestId();
+    const ids = activeTraceIds();
+    if (!requestId && !ids) {
+      return entry;
+    }
+    return { ...entry, ...(requestId && { request_id: requestId }), ...ids };
+  }
 }
@@ -2,10 +2,11 @@ import { Global, Module } from '@nestjs/common';
 import { SentryService } from './sentry.service';
 import { PosthogService } from './posthog.service';
 import { LoggerService } from './logger.service';
+import { RedactionService } from './redaction.service';
 
 @Global()
 @Module({
-  providers: [SentryService, PosthogService, LoggerService],
-  exports: [SentryService, PosthogService, LoggerService],
+  providers: [RedactionService, SentryService, PosthogService, LoggerService],
+  exports: [RedactionService, SentryService, PosthogService, LoggerService],
 })
 export class ObservabilityModule {}
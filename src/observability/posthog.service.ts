@@ -1,12 +1,20 @@
 import { Injectable, OnModuleDestroy } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PostHog } from 'posthog-node';
+import { RedactionService } from './redaction.service';
 
+/**
+ * Product analytics. Ids and properties go through `RedactionService`, so
+ * events keyed by an email address use its hash instead.
+ */
 @Injectable()
 export class PosthogService implements OnModuleDestroy {
   private client: PostHog | null = null;
 
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private redaction: RedactionService,
+  ) {
     const apiKey = this.configService.get<string>('POSTHOG_API_KEY');
     const host = this.configService.get<string>('POSTHOG_HOST');
 
@@ -15,25 +23,26 @@ export class PosthogService implements OnModuleDestroy {
     }
   }
 
+  isConfigured(): boolean {
+    return !!this.client;
+  }
+
   capture(
     userId: string,
     event: string,
     properties?: Record<string, unknown>,
   ): void {
     this.client?.capture({
-      distinctId: userId,
+      distinctId: this.redaction.distinctId(userId),
       event,
-      properties,
+      properties: this.redaction.redact(properties),
     });
   }
 
-  identify(
-    userId: string,
-    properties?: Record<string, unknown>,
-  ): void {
+  identify(userId: string, properties?: Record<string, unknown>): void {
     this.client?.identify({
-      distinctId: userId,
-      properties,
+      distinctId: this.redaction.distinctId(userId),
+      properties: this.redaction.redact(properties),
     });
   }
 
@@ -0,0 +1,125 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+
+/**
+ * How email addresses are written to logs and analytics: `hash` replaces
+ * them with a stable keyed hash, `mask` keeps the first letter and the
+ * domain, `off` leaves them as they are. Secrets are removed under every
+ * policy.
+ */
+export type RedactionPolicy = 'hash' | 'mask' | 'off';
+
+export const REDACTED = '[REDACTED]';
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+/** JWTs, bearer credentials and Kue API keys inside free text. */
+const SECRET_PATTERNS = [
+  /\beyJ[\w-]+\.[\w-]+\.[\w-]*/g,
+  /\bBearer\s+[\w.~+/-]+=*/gi,
+  /\bkue_[\w-]{16,}/g,
+];
+/** Context keys whose string values are always secrets, compared lowercased with separators removed. */
+const SECRET_KEY_PATTERN =
+  /token|secret|password|passcode|authorization|cookie|apikey|privatekey|^otp$|^code$/;
+const MAX_DEPTH = 6;
+const HASH_LENGTH = 16;
+
+/**
+ * Scrubs personal data and secrets from what we send to log and analytics
+ * providers. Configured with `LOG_REDACTION`; hashes are keyed with
+ * `REDACTION_SALT` (or `SESSION_SECRET`) so they cannot be reversed by
+ * hashing guessed addresses.
+ */
+@Injectable()
+export class RedactionService {
+  private readonly policy: RedactionPolicy;
+  private readonly salt: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.policy =
+      this.configService.get<RedactionPolicy>('LOG_REDACTION') ?? 'hash';
+    this.salt =
+      this.configService.get<string>('REDACTION_SALT') ||
+      this.configService.getOrThrow<string>('SESSION_SECRET');
+  }
+
+  /**
+   * The text with secrets removed and email addresses redacted
+   */
+  redactText(text: string): string {
+    let redacted = text;
+    for (const pattern of SECRET_PATTERNS) {
+      redacted = redacted.replace(pattern, REDACTED);
+    }
+    if (this.policy === 'off') {
+      return redacted;
+    }
+    return redacted.replace(EMAIL_PATTERN, (email) => this.redactEmail(email));
+  }
+
+  /**
+   * A copy of a log or event context with every string value redacted and
+   * secret-named fields removed
+   */
+  redact(
+    context?: Record<string, unknown>,
+  ): Record<string, unknown> | undefined {
+    return context && (this.redactValue(context, 0) as Record<string, unknown>);
+  }
+
+  /**
+   * A stable analytics id for an email address, so events from before
+   * sign-in can still be grouped; other ids pass through unchanged
+   */
+  distinctId(id: string): string {
+    if (this.policy === 'off' || !id.includes('@')) {
+      return id;
+    }
+    // Masked addresses collide, so analytics ids are always hashed
+    return this.hashEmail(id);
+  }
+
+  private redactValue(value: unknown, depth: number): unknown {
+    if (typeof value === 'string') {
+      return this.redactText(value);
+    }
+    if (depth >= MAX_DEPTH || value === null || typeof value !== 'object') {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item, depth + 1));
+    }
+    if (Object.getPrototypeOf(value) !== Object.prototype) {
+      return value;
+    }
+
+    const redacted: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      redacted[key] =
+        typeof item === 'string' && isSecretKey(key)
+          ? REDACTED
+          : this.redactValue(item, depth + 1);
+    }
+    return redacted;
+  }
+
+  private redactEmail(email: string): string {
+    if (this.policy === 'mask') {
+      const [local, domain] = email.split('@');
+      return `${local.charAt(0)}***@${domain}`;
+    }
+    return this.hashEmail(email);
+  }
+
+  private hashEmail(email: string): string {
+    const digest = createHmac('sha256', this.salt)
+      .update(email.trim().toLowerCase())
+      .digest('hex');
+    return `email_${digest.slice(0, HASH_LENGTH)}`;
+  }
+}
+
+function isSecretKey(key: string): boolean {
+  return SECRET_KEY_PATTERN.test(key.toLowerCase().replace(/[^a-z]/g, ''));
+}
@@ -0,0 +1,25 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface RequestContext {
+  /** From the caller's `X-Request-Id`, else generated. */
+  requestId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run `fn` with `context` visible to everything it calls, sync or async
+ */
+export function runWithRequestContext<T>(
+  context: RequestContext,
+  fn: () => T,
+): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * The id of the request being handled, if any; background jobs have none
+ */
+export function currentRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
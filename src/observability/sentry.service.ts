@@ -1,12 +1,21 @@
 import { Injectable } from '@nestjs/common';
 import * as Sentry from '@sentry/nestjs';
+import { RedactionService } from './redaction.service';
+import { currentRequestId } from './request-context';
 
 @Injectable()
 export class SentryService {
+  constructor(private readonly redaction: RedactionService) {}
+
   captureException(error: unknown, context?: Record<string, unknown>): void {
     Sentry.withScope((scope) => {
-      if (context) {
-        scope.setExtras(context);
+      const extras = this.redaction.redact(context);
+      if (extras) {
+        scope.setExtras(extras);
+      }
+      const requestId = currentRequestId();
+      if (requestId) {
+        scope.setTag('request_id', requestId);
       }
       Sentry.captureException(error);
     });
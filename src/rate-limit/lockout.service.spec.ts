@@ -0,0 +1,105 @@
+import { Test } from '@nestjs/testing';
+import { LoggerService } from '../observability/logger.service';
+import { SentryService } from '../observability/sentry.service';
+import { LockoutService } from './lockout.service';
+import { MemoryRateLimitStore } from './memory-rate-limit.store';
+import { RATE_LIMIT_STORE } from './rate-limit.types';
+
+const SCOPE = 'otp';
+const EMAIL = 'jane@example.com';
+const MINUTE_S = 60;
+
+describe('LockoutService', () => {
+  let store: MemoryRateLimitStore;
+  let sentry: { captureException: jest.Mock };
+  let service: LockoutService;
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-01T12:00:00.000Z') });
+    store = new MemoryRateLimitStore();
+    sentry = { captureException: jest.fn() };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        LockoutService,
+        { provide: RATE_LIMIT_STORE, useValue: store },
+        {
+          provide: LoggerService,
+          useValue: { warn: jest.fn(), error: jest.fn() },
+        },
+        { provide: SentryService, useValue: sentry },
+      ],
+    }).compile();
+    service = moduleRef.get(LockoutService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  async function fail(times: number): Promise<number[]> {
+    const locks: number[] = [];
+    for (let i = 0; i < times; i++) {
+      locks.push(await service.recordFailure(SCOPE, EMAIL));
+    }
+    return locks;
+  }
+
+  it('locks on the fifth failure and doubles the lock after that', async () => {
+    expect(await fail(7)).toEqual([
+      0,
+      0,
+      0,
+      0,
+      5 * MINUTE_S,
+      10 * MINUTE_S,
+      20 * MINUTE_S,
+    ]);
+    expect(await service.retryAfter(SCOPE, EMAIL)).toBe(20 * MINUTE_S);
+  });
+
+  it('caps the lock at a day', async () => {
+    const locks = await fail(15);
+
+    expect(locks[locks.length - 1]).toBe(24 * 60 * MINUTE_S);
+  });
+
+  it('counts down and lifts the lock when it ends', async () => {
+    await fail(5);
+
+    jest.advanceTimersByTime(2 * MINUTE_S * 1000);
+    expect(await service.retryAfter(SCOPE, EMAIL)).toBe(3 * MINUTE_S);
+
+    jest.advanceTimersByTime(3 * MINUTE_S * 1000);
+    expect(await service.retryAfter(SCOPE, EMAIL)).toBe(0);
+  });
+
+  it('keeps subjects and scopes apart', async () => {
+    await fail(5);
+
+    expect(await service.retryAfter(SCOPE, 'bob@example.com')).toBe(0);
+    expect(await service.retryAfter('password', EMAIL)).toBe(0);
+  });
+
+  it('starts over after a success', async () => {
+    await fail(5);
+
+    await service.reset(SCOPE, EMAIL);
+
+    expect(await service.retryAfter(SCOPE, EMAIL)).toBe(0);
+    expect(await fail(4)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('fails open when the store is down', async () => {
+    jest
+      .spyOn(store, 'increment')
+      .mockRejectedValue(new Error('connection refused'));
+    jest
+      .spyOn(store, 'lockedUntil')
+      .mockRejectedValue(new Error('connection refused'));
+
+    expect(await service.recordFailure(SCOPE, EMAIL)).toBe(0);
+    expect(await service.retryAfter(SCOPE, EMAIL)).toBe(0);
+    expect(sentry.captureException).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,98 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { LoggerService } from '../observability/logger.service';
+import { SentryService } from '../observability/sentry.service';
+import { RATE_LIMIT_STORE } from './rate-limit.types';
+import type { RateLimitStore } from './rate-limit.types';
+
+/** Failures allowed before the first lock. */
+const MAX_FAILURES = 5;
+/** The first lock; every further failure doubles it. */
+const BASE_LOCK_MS = 5 * 60 * 1000;
+const MAX_LOCK_MS = 24 * 60 * 60 * 1000;
+/** Failures are forgotten this long after the last one. */
+const FAILURE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Progressive lockout against brute force: after `MAX_FAILURES` failed
+ * attempts on a subject (e.g. an email address) it is locked, and each
+ * further failure doubles the lock. A success clears the record.
+ *
+ * Store errors fail open so an outage of the store never blocks sign-in.
+ */
+@Injectable()
+export class LockoutService {
+  constructor(
+    @Inject(RATE_LIMIT_STORE) private readonly store: RateLimitStore,
+    private readonly logger: LoggerService,
+    private readonly sentry: SentryService,
+  ) {}
+
+  /**
+   * Seconds until `subject` may try again, or 0 when it is not locked.
+   */
+  async retryAfter(scope: string, subject: string): Promise<number> {
+    try {
+      const until = await this.store.lockedUntil(this.lockKey(scope, subject));
+      return until ? Math.ceil((until - Date.now()) / 1000) : 0;
+    } catch (error) {
+      this.reportStoreError(error, scope);
+      return 0;
+    }
+  }
+
+  /**
+   * Record a failed attempt; returns the lock it triggered in seconds, or 0.
+   */
+  async recordFailure(scope: string, subject: string): Promise<number> {
+    try {
+      const failures = await this.store.increment(
+        this.failureKey(scope, subject),
+        FAILURE_TTL_MS,
+      );
+      if (failures < MAX_FAILURES) return 0;
+
+      const lockMs = Math.min(
+        BASE_LOCK_MS * 2 ** (failures - MAX_FAILURES),
+        MAX_LOCK_MS,
+      );
+      await this.store.lock(this.lockKey(scope, subject), lockMs);
+
+      this.logger.warn('Lockout triggered', {
+        scope,
+        failures,
+        lockSeconds: lockMs / 1000,
+      });
+      return lockMs / 1000;
+    } catch (error) {
+      this.reportStoreError(error, scope);
+      return 0;
+    }
+  }
+
+  async reset(scope: string, subject: string): Promise<void> {
+    try {
+      await this.store.clear(
+        this.failureKey(scope, subject),
+        this.lockKey(scope, subject),
+      );
+    } catch (error) {
+      this.reportStoreError(error, scope);
+    }
+  }
+
+  private failureKey(scope: string, subject: string): string {
+    return `lockout:${scope}:failures:${subject}`;
+  }
+
+  private lockKey(scope: string, subject: string): string {
+    return `lockout:${scope}:lock:${subject}`;
+  }
+
+  private reportStoreError(error: unknown, scope: string): void {
+    this.sentry.captureException(error, { context: 'lockout', scope });
+    this.logger.error('Lockout store failed', {
+      scope,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
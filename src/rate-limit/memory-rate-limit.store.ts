@@ -0,0 +1,86 @@
+import type { RateLimitResult, RateLimitStore } from './rate-limit.types';
+
+/** Sweep expired entries once the maps grow past this many keys. */
+const SWEEP_THRESHOLD = 10_000;
+
+/**
+ * `RateLimitStore` kept in process memory. Limits are per instance and
+ * reset on restart, so only use it for local development and tests.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly windows = new Map<
+    string,
+    { hits: number[]; windowMs: number }
+  >();
+  private readonly values = new Map<
+    string,
+    { value: number; expiresAt: number }
+  >();
+
+  hit(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+    const now = Date.now();
+    const hits = (this.windows.get(key)?.hits ?? []).filter(
+      (at) => at > now - windowMs,
+    );
+    const allowed = hits.length < limit;
+    if (allowed) hits.push(now);
+
+    this.windows.set(key, { hits, windowMs });
+    this.sweep(now);
+
+    return Promise.resolve({
+      allowed,
+      limit,
+      remaining: Math.max(0, limit - hits.length),
+      resetAt: hits.length ? hits[0] + windowMs : now,
+    });
+  }
+
+  increment(key: string, ttlMs: number): Promise<number> {
+    const now = Date.now();
+    const value = (this.read(key, now) ?? 0) + 1;
+    this.values.set(key, { value, expiresAt: now + ttlMs });
+    this.sweep(now);
+    return Promise.resolve(value);
+  }
+
+  lock(key: string, durationMs: number): Promise<void> {
+    const until = Date.now() + durationMs;
+    this.values.set(key, { value: until, expiresAt: until });
+    return Promise.resolve();
+  }
+
+  lockedUntil(key: string): Promise<number | null> {
+    return Promise.resolve(this.read(key, Date.now()));
+  }
+
+  clear(...keys: string[]): Promise<void> {
+    for (const key of keys) {
+      this.values.delete(key);
+    }
+    return Promise.resolve();
+  }
+
+  private read(key: string, now: number): number | null {
+    const entry = this.values.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= now) {
+      this.values.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  private sweep(now: number): void {
+    if (this.windows.size + this.values.size < SWEEP_THRESHOLD) return;
+
+    for (const [key, { hits, windowMs }] of this.windows) {
+      if (!hits.length || hits[hits.length - 1] <= now - windowMs) {
+        this.windows.delete(key);
+      }
+    }
+    for (const [key, { expiresAt }] of this.values) {
+      if (expiresAt <= now) this.values.delete(key);
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Redis } from '@upstash/redis';
+import { LoggerService } from '../observability/logger.service';
+import { LockoutService } from './lockout.service';
+import { MemoryRateLimitStore } from './memory-rate-limit.store';
+import { RATE_LIMIT_STORE } from './rate-limit.types';
+import type { RateLimitStore } from './rate-limit.types';
+import { UpstashRateLimitStore } from './upstash-rate-limit.store';
+
+/**
+ * Upstash when `UPSTASH_REDIS_REST_URL` and `UPSTASH_REDIS_REST_TOKEN` are
+ * set, so limits hold across instances; memory otherwise.
+ */
+export function createRateLimitStore(
+  config: ConfigService,
+  logger: LoggerService,
+): RateLimitStore {
+  const url = config.get<string>('UPSTASH_REDIS_REST_URL');
+  const token = config.get<string>('UPSTASH_REDIS_REST_TOKEN');
+
+  if (url && token) {
+    return new UpstashRateLimitStore(new Redis({ url, token }));
+  }
+  if (config.get<string>('NODE_ENV') === 'production') {
+    logger.warn(
+      'UPSTASH_REDIS_REST_URL is not set; rate limits are kept in memory per instance',
+    );
+  }
+  return new MemoryRateLimitStore();
+}
+
+/**
+ * Global so any controller can use `RateLimitGuard` without importing it.
+ */
+@Global()
+@Module({
+  providers: [
+    {
+      provide: RATE_LIMIT_STORE,
+      useFactory: createRateLimitStore,
+      inject: [ConfigService, LoggerService],
+    },
+    LockoutService,
+  ],
+  exports: [RATE_LIMIT_STORE, LockoutService],
+})
+export class RateLimitModule {}
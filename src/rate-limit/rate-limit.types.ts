@@ -0,0 +1,26 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Epoch milliseconds at which the window has room again. */
+  resetAt: number;
+}
+
+/**
+ * Storage behind rate limits and lockouts. Bound to `RATE_LIMIT_STORE`:
+ * Upstash Redis when configured, otherwise an in-process memory store for
+ * local development and tests.
+ */
+export interface RateLimitStore {
+  /** Count a hit in the sliding window `key`; rejected hits are not counted. */
+  hit(key: string, limit: number, windowMs: number): Promise<RateLimitResult>;
+  /** Increment a counter that expires `ttlMs` after its last increment. */
+  increment(key: string, ttlMs: number): Promise<number>;
+  lock(key: string, durationMs: number): Promise<void>;
+  /** Epoch milliseconds the lock on `key` ends, or null when unlocked. */
+  lockedUntil(key: string): Promise<number | null>;
+  /** Delete counters and locks; sliding windows are left to expire. */
+  clear(...keys: string[]): Promise<void>;
+}
+
+export const RATE_LIMIT_STORE = Symbol('RATE_LIMIT_STORE');
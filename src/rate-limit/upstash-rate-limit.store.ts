@@ -0,0 +1,76 @@
+import { Ratelimit } from '@upstash/ratelimit';
+import { Redis } from '@upstash/redis';
+import type { RateLimitResult, RateLimitStore } from './rate-limit.types';
+
+const KEY_PREFIX = 'kue:ratelimit';
+
+/**
+ * `RateLimitStore` on Upstash Redis, shared by every API instance. Sliding
+ * windows use `@upstash/ratelimit`; counters and locks are plain keys with
+ * a TTL.
+ */
+export class UpstashRateLimitStore implements RateLimitStore {
+  /** One limiter per limit/window pair; they share the key prefix. */
+  private readonly limiters = new Map<string, Ratelimit>();
+
+  constructor(private readonly redis: Redis) {}
+
+  async hit(
+    key: string,
+    limit: number,
+    windowMs: number,
+  ): Promise<RateLimitResult> {
+    const result = await this.limiter(limit, windowMs).limit(key);
+    return {
+      allowed: result.success,
+      limit: result.limit,
+      remaining: result.remaining,
+      resetAt: result.reset,
+    };
+  }
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    const name = `${KEY_PREFIX}:count:${key}`;
+    const [value] = await this.redis
+      .pipeline()
+      .incr(name)
+      .pexpire(name, ttlMs)
+      .exec<[number, number]>();
+    return value;
+  }
+
+  async lock(key: string, durationMs: number): Promise<void> {
+    await this.redis.set(`${KEY_PREFIX}:lock:${key}`, Date.now() + durationMs, {
+      px: durationMs,
+    });
+  }
+
+  async lockedUntil(key: string): Promise<number | null> {
+    const until = await this.redis.get<number>(`${KEY_PREFIX}:lock:${key}`);
+    return until && until > Date.now() ? until : null;
+  }
+
+  async clear(...keys: string[]): Promise<void> {
+    if (!keys.length) return;
+    await this.redis.del(
+      ...keys.flatMap((key) => [
+        `${KEY_PREFIX}:count:${key}`,
+        `${KEY_PREFIX}:lock:${key}`,
+      ]),
+    );
+  }
+
+  private limiter(limit: number, windowMs: number): Ratelimit {
+    const id = `${limit}:${windowMs}`;
+    let limiter = this.limiters.get(id);
+    if (!limiter) {
+      limiter = new Ratelimit({
+        redis: this.redis,
+        limiter: Ratelimit.slidingWindow(limit, `${windowMs} ms`),
+        prefix: `${KEY_PREFIX}:window`,
+      });
+      this.limiters.set(id, limiter);
+    }
+    return limiter;
+  }
+}
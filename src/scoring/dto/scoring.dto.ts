@@ -0,0 +1,26 @@
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import type { RelationshipTier } from '../relationship-score';
+
+export class ListScoresQueryDto {
+  @ApiPropertyOptional({ description: 'Page size', default: 50, maximum: 200 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @IsOptional()
+  limit: number = 50;
+
+  @ApiPropertyOptional({ description: 'Number of rows to skip', default: 0 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  offset: number = 0;
+
+  @ApiPropertyOptional({ enum: ['strong', 'medium', 'weak'] })
+  @IsIn(['strong', 'medium', 'weak'])
+  @IsOptional()
+  tier?: RelationshipTier;
+}
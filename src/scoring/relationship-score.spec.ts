@@ -0,0 +1,166 @@
+import {
+  DECAY_HALF_LIFE_DAYS,
+  SCORE_WEIGHTS,
+  computeRelationshipScore,
+} from './relationship-score';
+import type { InteractionSignal } from './relationship-score';
+
+const NOW = new Date('2026-06-01T00:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysAgo(days: number): Date {
+  return new Date(NOW.getTime() - days * DAY_MS);
+}
+
+function email(direction: 'inbound' | 'outbound', days = 0): InteractionSignal {
+  return { kind: 'email', direction, occurredAt: daysAgo(days) };
+}
+
+function meeting(days = 0, attendeeCount = 2): InteractionSignal {
+  return {
+    kind: 'meeting',
+    direction: null,
+    occurredAt: daysAgo(days),
+    attendeeCount,
+  };
+}
+
+function times(count: number, signal: () => InteractionSignal) {
+  return Array.from({ length: count }, signal);
+}
+
+describe('computeRelationshipScore', () => {
+  it.each([
+    ['emailFrequency', 30],
+    ['meetings', 25],
+    ['recency', 20],
+    ['reciprocity', 15],
+    ['longevity', 10],
+  ] as const)('weighs %s at %i points', (name, weight) => {
+    const { breakdown } = computeRelationshipScore([email('outbound')], NOW);
+
+    expect(SCORE_WEIGHTS[name]).toBe(weight);
+    expect(breakdown.components[name].weight).toBe(weight);
+  });
+
+  it.each([
+    ['no signals', []],
+    ['only future signals', [email('outbound', -3), meeting(-10)]],
+  ])('scores %s as zero', (_, signals) => {
+    const result = computeRelationshipScore(signals, NOW);
+
+    expect(result.score).toBe(0);
+    expect(result.tier).toBe('weak');
+    expect(result.breakdown.explanation).toEqual([]);
+    expect(result.breakdown.facts).toEqual({
+      emailsSent: 0,
+      emailsReceived: 0,
+      meetings: 0,
+      oneOnOneMeetings: 0,
+      firstInteractionAt: null,
+      lastInteractionAt: null,
+      daysSinceLastInteraction: null,
+    });
+  });
+
+  it('ignores a signal dated after now', () => {
+    const past = [email('outbound', 10), email('inbound', 5)];
+
+    expect(
+      computeRelationshipScore([...past, email('inbound', -1)], NOW),
+    ).toEqual(computeRelationshipScore(past, NOW));
+  });
+
+  it.each([
+    [0, 1],
+    [60, 0.5],
+    [120, 0.25],
+  ])('halves recency every 60 days (%i days ago)', (days, value) => {
+    const { breakdown } = computeRelationshipScore(
+      [email('outbound', days)],
+      NOW,
+    );
+
+    expect(breakdown.components.recency.value).toBe(value);
+  });
+
+  it(`counts a signal ${DECAY_HALF_LIFE_DAYS} days old half as much as a fresh one`, () => {
+    const fresh = computeRelationshipScore([email('outbound')], NOW);
+    const old = computeRelationshipScore(
+      times(2, () => email('outbound', DECAY_HALF_LIFE_DAYS)),
+      NOW,
+    );
+
+    expect(old.breakdown.components.emailFrequency).toEqual(
+      fresh.breakdown.components.emailFrequency,
+    );
+  });
+
+  it('weighs a 1:1 above a larger meeting', () => {
+    const oneOnOne = computeRelationshipScore([meeting(0, 2)], NOW);
+    const group = computeRelationshipScore([meeting(0, 5)], NOW);
+
+    expect(oneOnOne.breakdown.components.meetings.points).toBeGreaterThan(
+      group.breakdown.components.meetings.points,
+    );
+  });
+
+  it.each([
+    ['8 emails', 29.9, 'weak', times(8, () => email('outbound'))],
+    ['9 emails', 30.86, 'medium', times(9, () => email('outbound'))],
+    [
+      '17 emails each way',
+      59.51,
+      'medium',
+      [
+        ...times(17, () => email('outbound')),
+        ...times(17, () => email('inbound')),
+      ],
+    ],
+    [
+      '18 emails each way',
+      60.05,
+      'strong',
+      [
+        ...times(18, () => email('outbound')),
+        ...times(18, () => email('inbound')),
+      ],
+    ],
+  ])('scores %s today at %d (%s)', (_, score, tier, signals) => {
+    const result = computeRelationshipScore(signals, NOW);
+
+    expect(result.score).toBeCloseTo(score, 2);
+    expect(result.tier).toBe(tier);
+  });
+
+  it('explains the components worth a point, strongest first', () => {
+    const result = computeRelationshipScore(
+      [
+        email('outbound', 400),
+        email('inbound', 380),
+        email('outbound', 30),
+        email('inbound', 20),
+        meeting(10, 2),
+        meeting(3, 6),
+      ],
+      NOW,
+    );
+
+    expect(result.breakdown.explanation).toEqual([
+      'Last in touch 3 days ago',
+      'Two-way conversation (2 sent, 2 received)',
+      'Known since 2025-04-27',
+      '2 meetings, 1 of them 1:1',
+      '4 emails exchanged',
+    ]);
+  });
+
+  it('says when the last contact was today', () => {
+    const { breakdown } = computeRelationshipScore([email('outbound')], NOW);
+
+    expect(breakdown.explanation).toEqual([
+      'In touch today',
+      '1 emails exchanged',
+    ]);
+  });
+});
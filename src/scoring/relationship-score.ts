@@ -0,0 +1,227 @@
+/**
+ * Pure relationship-strength model. Every signal is decayed by age so that a
+ * relationship that went quiet fades instead of keeping its old score.
+ */
+
+export interface InteractionSignal {
+  kind: 'email' | 'meeting';
+  direction: 'inbound' | 'outbound' | null;
+  occurredAt: Date;
+  /** Everyone in the meeting, including the user. */
+  attendeeCount?: number;
+}
+
+export interface ScoreComponent {
+  /** Normalized strength of this signal, 0..1. */
+  value: number;
+  weight: number;
+  /** `value * weight`; components add up to the total score. */
+  points: number;
+}
+
+export type ScoreComponentName =
+  | 'emailFrequency'
+  | 'recency'
+  | 'reciprocity'
+  | 'meetings'
+  | 'longevity';
+
+export type RelationshipTier = 'strong' | 'medium' | 'weak';
+
+export interface ScoreBreakdown {
+  components: Record<ScoreComponentName, ScoreComponent>;
+  facts: {
+    emailsSent: number;
+    emailsReceived: number;
+    meetings: number;
+    oneOnOneMeetings: number;
+    firstInteractionAt: string | null;
+    lastInteractionAt: string | null;
+    daysSinceLastInteraction: number | null;
+  };
+  /** Human-readable reasons, strongest first, for the UI to show. */
+  explanation: string[];
+}
+
+export interface RelationshipScore {
+  score: number;
+  tier: RelationshipTier;
+  breakdown: ScoreBreakdown;
+}
+
+export const SCORE_WEIGHTS: Record<ScoreComponentName, number> = {
+  emailFrequency: 30,
+  meetings: 25,
+  recency: 20,
+  reciprocity: 15,
+  longevity: 10,
+};
+
+/** Age at which an interaction counts half as much as a fresh one. */
+export const DECAY_HALF_LIFE_DAYS = 180;
+const RECENCY_HALF_LIFE_DAYS = 60;
+/** Decayed email count at which frequency reaches ~63% of its weight. */
+const EMAIL_SATURATION = 20;
+/** Decayed, size-weighted meeting count at which meetings reach ~63%. */
+const MEETING_SATURATION = 6;
+const LONGEVITY_FULL_DAYS = 730;
+
+const TIER_THRESHOLDS = { strong: 60, medium: 30 } as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function computeRelationshipScore(
+  signals: InteractionSignal[],
+  now: Date = new Date(),
+): RelationshipScore {
+  const past = signals
+    .filter((signal) => signal.occurredAt.getTime() <= now.getTime())
+    .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+
+  const ageDays = (signal: InteractionSignal) =>
+    (now.getTime() - signal.occurredAt.getTime()) / DAY_MS;
+  const decay = (signal: InteractionSignal) =>
+    halfLife(ageDays(signal), DECAY_HALF_LIFE_DAYS);
+
+  const emails = past.filter((signal) => signal.kind === 'email');
+  const meetings = past.filter((signal) => signal.kind === 'meeting');
+  const sent = emails.filter((signal) => signal.direction === 'outbound');
+  const received = emails.filter((signal) => signal.direction === 'inbound');
+
+  const decayedSent = sum(sent.map(decay));
+  const decayedReceived = sum(received.map(decay));
+  const decayedEmails = sum(emails.map(decay));
+  // A 1:1 counts fully; larger meetings say less about any one attendee.
+  const decayedMeetings = sum(
+    meetings.map(
+      (signal) => decay(signal) * meetingSizeWeight(signal.attendeeCount),
+    ),
+  );
+
+  const first = past[0] ?? null;
+  const last = past[past.length - 1] ?? null;
+  const daysSinceLast = last ? ageDays(last) : null;
+  const spanDays =
+    first && last
+      ? (last.occurredAt.getTime() - first.occurredAt.getTime()) / DAY_MS
+      : 0;
+
+  const values: Record<ScoreComponentName, number> = {
+    emailFrequency: saturate(decayedEmails, EMAIL_SATURATION),
+    meetings: saturate(decayedMeetings, MEETING_SATURATION),
+    recency:
+      daysSinceLast === null
+        ? 0
+        : halfLife(daysSinceLast, RECENCY_HALF_LIFE_DAYS),
+    reciprocity:
+      decayedSent && decayedReceived
+        ? Math.min(decayedSent, decayedReceived) /
+          Math.max(decayedSent, decayedReceived)
+        : 0,
+    // Scaled by recency so an old, long-dormant relationship does not keep
+    // full longevity credit.
+    longevity:
+      Math.min(1, spanDays / LONGEVITY_FULL_DAYS) *
+      (daysSinceLast === null
+        ? 0
+        : halfLife(daysSinceLast, DECAY_HALF_LIFE_DAYS)),
+  };
+
+  const components = Object.fromEntries(
+    (Object.keys(SCORE_WEIGHTS) as ScoreComponentName[]).map((name) => {
+      const value = round(values[name], 3);
+      return [
+        name,
+        {
+          value,
+          weight: SCORE_WEIGHTS[name],
+          points: round(value * SCORE_WEIGHTS[name], 2),
+        },
+      ];
+    }),
+  ) as Record<ScoreComponentName, ScoreComponent>;
+
+  const score = round(
+    sum(Object.values(components).map((component) => component.points)),
+    2,
+  );
+  const facts: ScoreBreakdown['facts'] = {
+    emailsSent: sent.length,
+    emailsReceived: received.length,
+    meetings: meetings.length,
+    oneOnOneMeetings: meetings.filter(
+      (signal) => (signal.attendeeCount ?? 2) <= 2,
+    ).length,
+    firstInteractionAt: first?.occurredAt.toISOString() ?? null,
+    lastInteractionAt: last?.occurredAt.toISOString() ?? null,
+    daysSinceLastInteraction:
+      daysSinceLast === null ? null : Math.floor(daysSinceLast),
+  };
+
+  return {
+    score,
+    tier:
+      score >= TIER_THRESHOLDS.strong
+        ? 'strong'
+        : score >= TIER_THRESHOLDS.medium
+          ? 'medium'
+          : 'weak',
+    breakdown: {
+      components,
+      facts,
+      explanation: explain(components, facts),
+    },
+  };
+}
+
+function explain(
+  components: Record<ScoreComponentName, ScoreComponent>,
+  facts: ScoreBreakdown['facts'],
+): string[] {
+  const reasons: Record<ScoreComponentName, () => string> = {
+    emailFrequency: () =>
+      `${facts.emailsSent + facts.emailsReceived} emails exchanged`,
+    meetings: () =>
+      facts.oneOnOneMeetings
+        ? `${facts.meetings} meetings, ${facts.oneOnOneMeetings} of them 1:1`
+        : `${facts.meetings} meetings together`,
+    recency: () =>
+      facts.daysSinceLastInteraction === 0
+        ? 'In touch today'
+        : `Last in touch ${facts.daysSinceLastInteraction} days ago`,
+    reciprocity: () =>
+      `Two-way conversation (${facts.emailsSent} sent, ${facts.emailsReceived} received)`,
+    longevity: () =>
+      `Known since ${facts.firstInteractionAt?.slice(0, 10) ?? 'unknown'}`,
+  };
+
+  return (Object.keys(components) as ScoreComponentName[])
+    .filter((name) => components[name].points >= 1)
+    .sort((a, b) => components[b].points - components[a].points)
+    .map((name) => reasons[name]());
+}
+
+/**
+ * 1 for a 1:1, falling off with the square root of the other attendees.
+ */
+function meetingSizeWeight(attendeeCount = 2): number {
+  const others = Math.max(1, attendeeCount - 1);
+  return 1 / Math.sqrt(others);
+}
+
+function halfLife(ageDays: number, halfLifeDays: number): number {
+  return Math.pow(0.5, Math.max(0, ageDays) / halfLifeDays);
+}
+
+function saturate(value: number, scale: number): number {
+  return 1 - Math.exp(-value / scale);
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
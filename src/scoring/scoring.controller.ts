@@ -0,0 +1,77 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthGuard } from '../common/guards/auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { RequirePermission } from '../common/decorators/roles.decorator';
+import { Permissions } from '../tenants/permissions';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../common/decorators/current-user.decorator';
+import { ScoringService } from './scoring.service';
+import { ListScoresQueryDto } from './dto/scoring.dto';
+
+@ApiTags('Scores')
+@Controller('scores')
+@UseGuards(AuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class ScoringController {
+  constructor(private readonly scoringService: ScoringService) {}
+
+  @Get()
+  @RequirePermission(Permissions.NETWORK_READ)
+  @ApiOperation({ summary: 'List relationship scores, strongest first' })
+  async listScores(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: ListScoresQueryDto,
+  ) {
+    const { scores, total } = await this.scoringService.listScores(
+      user.tenantId,
+      user.id,
+      { limit: query.limit, offset: query.offset, tier: query.tier },
+    );
+
+    return {
+      statusCode: HttpStatus.OK,
+      data: { scores, total, limit: query.limit, offset: query.offset },
+    };
+  }
+
+  @Get('persons/:personId')
+  @RequirePermission(Permissions.NETWORK_READ)
+  @ApiOperation({
+    summary: 'Relationship score with a person, with its breakdown',
+  })
+  async getScore(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('personId', ParseUUIDPipe) personId: string,
+  ) {
+    const score = await this.scoringService.getScore(
+      user.tenantId,
+      user.id,
+      personId,
+    );
+    return { statusCode: HttpStatus.OK, data: score };
+  }
+
+  @Post('recompute')
+  @RequirePermission(Permissions.NETWORK_WRITE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Rebuild every relationship score for the user' })
+  async recompute(@CurrentUser() user: AuthenticatedUser) {
+    const result = await this.scoringService.recompute(user.tenantId, user.id);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Relationship scores recomputed',
+      data: result,
+    };
+  }
+}
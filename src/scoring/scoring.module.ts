@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { IdentityModule } from '../identity/identity.module';
+import { InteractionsModule } from '../interactions/interactions.module';
+import { ScoringController } from './scoring.controller';
+import { ScoringService } from './scoring.service';
+
+@Module({
+  imports: [AuthModule, IdentityModule, InteractionsModule],
+  controllers: [ScoringController],
+  providers: [ScoringService],
+  exports: [ScoringService],
+})
+export class ScoringModule {}
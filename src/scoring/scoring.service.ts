@@ -0,0 +1,330 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { SupabaseService } from '../database/supabase.service';
+import { LoggerService } from '../observability/logger.service';
+import { IdentityService } from '../identity/identity.service';
+import type { PersonRow } from '../identity/identity.service';
+import { InteractionsService } from '../interactions/interactions.service';
+import type { InteractionRow } from '../interactions/interactions.service';
+import { computeRelationshipScore } from './relationship-score';
+import type {
+  InteractionSignal,
+  RelationshipTier,
+  ScoreBreakdown,
+} from './relationship-score';
+
+export interface RelationshipScoreRow {
+  tenant_id: string;
+  user_id: string;
+  person_id: string;
+  score: number;
+  tier: RelationshipTier;
+  breakdown: ScoreBreakdown;
+  last_interaction_at: string | null;
+  computed_at: string;
+  person?: Pick<
+    PersonRow,
+    'id' | 'display_name' | 'primary_email' | 'company' | 'title'
+  >;
+}
+
+export interface ListScoresOptions {
+  limit: number;
+  offset: number;
+  tier?: RelationshipTier;
+}
+
+export interface RecomputeResult {
+  persons: number;
+  removed: number;
+  incremental: boolean;
+}
+
+const SCORE_COLUMNS =
+  'tenant_id, user_id, person_id, score, tier, breakdown, last_interaction_at, computed_at, person:persons(id, display_name, primary_email, company, title)';
+const WRITE_CHUNK_SIZE = 500;
+const PAGE_SIZE = 1000;
+
+@Injectable()
+export class ScoringService {
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly identity: IdentityService,
+    private readonly interactions: InteractionsService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Recompute a user's relationship scores. With `since`, only persons on
+   * interactions written or deleted after that time are rescored; without
+   * it every score is rebuilt and scores for persons the user no longer
+   * interacts with are dropped.
+   */
+  async recompute(
+    tenantId: string,
+    userId: string,
+    since?: Date,
+  ): Promise<RecomputeResult> {
+    const personByEmail = await this.identity.getPersonIdsByEmail(tenantId);
+
+    let touchedPersons: Set<string> | null = null;
+    let interactions: InteractionRow[];
+
+    if (since) {
+      const changedEmails =
+        await this.interactions.findParticipantEmailsChangedSince(
+          tenantId,
+          userId,
+          since,
+        );
+      touchedPersons = new Set(
+        [...changedEmails]
+          .map((email) => personByEmail.get(email))
+          .filter((personId): personId is string => !!personId),
+      );
+      if (!touchedPersons.size) {
+        return { persons: 0, removed: 0, incremental: true };
+      }
+
+      // Any address of a touched person, so every interaction with them is
+      // included, not only the ones that changed.
+      const emails = [...personByEmail]
+        .filter(([, personId]) => touchedPersons!.has(personId))
+        .map(([email]) => email);
+      interactions = await this.interactions.listWithParticipants(
+        tenantId,
+        userId,
+        { emails },
+      );
+    } else {
+      interactions = await this.interactions.listWithParticipants(
+        tenantId,
+        userId,
+      );
+    }
+
+    const signalsByPerson = this.collectSignals(interactions, personByEmail);
+    if (touchedPersons) {
+      for (const personId of signalsByPerson.keys()) {
+        if (!touchedPersons.has(personId)) signalsByPerson.delete(personId);
+      }
+    }
+
+    const now = new Date();
+    const rows = [...signalsByPerson].map(([personId, signals]) => {
+      const result = computeRelationshipScore(signals, now);
+      return {
+        tenant_id: tenantId,
+        user_id: userId,
+        person_id: personId,
+        score: result.score,
+        tier: result.tier,
+        breakdown: result.breakdown,
+        last_interaction_at: result.breakdown.facts.lastInteractionAt,
+        computed_at: now.toISOString(),
+      };
+    });
+
+    for (let i = 0; i < rows.length; i += WRITE_CHUNK_SIZE) {
+      const { error } = await this.supabase
+        .getClient()
+        .from('relationship_scores')
+        .upsert(rows.slice(i, i + WRITE_CHUNK_SIZE), {
+          onConflict: 'tenant_id,user_id,person_id',
+        });
+
+      if (error) {
+        throw new Error(
+          `Failed to store relationship scores: ${error.message}`,
+        );
+      }
+    }
+
+    const removed = await this.removeStale(
+      tenantId,
+      userId,
+      new Set(signalsByPerson.keys()),
+      touchedPersons,
+    );
+
+    const result: RecomputeResult = {
+      persons: rows.length,
+      removed,
+      incremental: !!since,
+    };
+    this.logger.info('Relationship scores recomputed', { userId, ...result });
+    return result;
+  }
+
+  async listScores(
+    tenantId: string,
+    userId: string,
+    options: ListScoresOptions,
+  ): Promise<{ scores: RelationshipScoreRow[]; total: number }> {
+    let query = this.supabase
+      .getClient()
+      .from('relationship_scores')
+      .select(SCORE_COLUMNS, { count: 'exact' })
+      .eq('tenant_id', tenantId)
+      .eq('user_id', userId);
+
+    if (options.tier) {
+      query = query.eq('tier', options.tier);
+    }
+
+    const { data, error, count } = await query
+      .order('score', { ascending: false })
+      .range(options.offset, options.offset + options.limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to list relationship scores: ${error.message}`);
+    }
+    return {
+      scores: ((data ?? []) as unknown as RelationshipScoreRow[]).map(
+        (row) => ({ ...row, score: Number(row.score) }),
+      ),
+      total: count ?? 0,
+    };
+  }
+
+  /**
+   * Every score of a user without the breakdown, for bulk consumers such as
+   * the graph projection
+   */
+  async listAllScores(
+    tenantId: string,
+    userId: string,
+  ): Promise<
+    Pick<
+      RelationshipScoreRow,
+      'person_id' | 'score' | 'tier' | 'last_interaction_at'
+    >[]
+  > {
+    const rows: Pick<
+      RelationshipScoreRow,
+      'person_id' | 'score' | 'tier' | 'last_interaction_at'
+    >[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .getClient()
+        .from('relationship_scores')
+        .select('person_id, score, tier, last_interaction_at')
+        .eq('tenant_id', tenantId)
+        .eq('user_id', userId)
+        .order('person_id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load relationship scores: ${error.message}`);
+      }
+
+      const page = (data ?? []) as typeof rows;
+      rows.push(...page.map((row) => ({ ...row, score: Number(row.score) })));
+      if (page.length < PAGE_SIZE) return rows;
+    }
+  }
+
+  async getScore(
+    tenantId: string,
+    userId: string,
+    personId: string,
+  ): Promise<RelationshipScoreRow> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('relationship_scores')
+      .select(SCORE_COLUMNS)
+      .eq('tenant_id', tenantId)
+      .eq('user_id', userId)
+      .eq('person_id', personId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load relationship score: ${error.message}`);
+    }
+    if (!data) {
+      throw new NotFoundException(`No relationship score for ${personId}`);
+    }
+
+    const row = data as unknown as RelationshipScoreRow;
+    return { ...row, score: Number(row.score) };
+  }
+
+  /**
+   * Group each interaction under every distinct person taking part in it.
+   */
+  private collectSignals(
+    interactions: InteractionRow[],
+    personByEmail: Map<string, string>,
+  ): Map<string, InteractionSignal[]> {
+    const signalsByPerson = new Map<string, InteractionSignal[]>();
+
+    for (const interaction of interactions) {
+      const personIds = new Set(
+        (interaction.interaction_participants ?? [])
+          .map((participant) => personByEmail.get(participant.email))
+          .filter((personId): personId is string => !!personId),
+      );
+      const attendeeCount = interaction.metadata?.attendeeCount;
+
+      for (const personId of personIds) {
+        const signals = signalsByPerson.get(personId) ?? [];
+        signals.push({
+          kind: interaction.kind,
+          direction: interaction.direction,
+          occurredAt: new Date(interaction.occurred_at),
+          attendeeCount:
+            typeof attendeeCount === 'number' ? attendeeCount : undefined,
+        });
+        signalsByPerson.set(personId, signals);
+      }
+    }
+    return signalsByPerson;
+  }
+
+  /**
+   * Delete scores of persons that no longer have interactions, limited to
+   * `scope` when rescoring incrementally.
+   */
+  private async removeStale(
+    tenantId: string,
+    userId: string,
+    scored: Set<string>,
+    scope: Set<string> | null,
+  ): Promise<number> {
+    let stale: string[];
+    if (scope) {
+      stale = [...scope].filter((personId) => !scored.has(personId));
+    } else {
+      const { data, error } = await this.supabase
+        .getClient()
+        .from('relationship_scores')
+        .select('person_id')
+        .eq('tenant_id', tenantId)
+        .eq('user_id', userId);
+
+      if (error) {
+        throw new Error(`Failed to load relationship scores: ${error.message}`);
+      }
+      stale = ((data ?? []) as { person_id: string }[])
+        .map((row) => row.person_id)
+        .filter((personId) => !scored.has(personId));
+    }
+
+    for (let i = 0; i < stale.length; i += WRITE_CHUNK_SIZE) {
+      const { error } = await this.supabase
+        .getClient()
+        .from('relationship_scores')
+        .delete()
+        .eq('tenant_id', tenantId)
+        .eq('user_id', userId)
+        .in('person_id', stale.slice(i, i + WRITE_CHUNK_SIZE));
+
+      if (error) {
+        throw new Error(
+          `Failed to remove relationship scores: ${error.message}`,
+        );
+      }
+    }
+    return stale.length;
+  }
+}
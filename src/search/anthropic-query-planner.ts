@@ -0,0 +1,65 @@
+import { Injectable, ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ChatAnthropic } from '@langchain/anthropic';
+import type { BaseLanguageModelInput } from '@langchain/core/language_models/base';
+import { OutputParserException } from '@langchain/core/output_parsers';
+import type { Runnable } from '@langchain/core/runnables';
+import { networkQuerySchema } from './search-query';
+import type { QueryPlanContext, QueryPlanner } from './search.types';
+
+const SYSTEM_PROMPT = `You translate questions about a user's professional network into a structured search.
+The network holds people (name, company, job title) and the user's emails and meetings with them.
+Rules:
+- Only use filters the question asks for; leave arrays empty and fields null otherwise.
+- Resolve relative dates ("last 6 months", "this year") against today's date.
+- Put industries and sectors (e.g. fintech) in keywords, roles in titles, and subjects discussed in topics.
+- Default to sort "relevance" and limit 20 unless the question says otherwise.`;
+
+/**
+ * `QueryPlanner` backed by Claude through LangChain's structured output.
+ */
+@Injectable()
+export class AnthropicQueryPlanner implements QueryPlanner {
+  private model: Runnable<
+    BaseLanguageModelInput,
+    Record<string, unknown>
+  > | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async plan(question: string, context: QueryPlanContext): Promise<unknown> {
+    try {
+      return await this.getModel().invoke([
+        { role: 'system', content: SYSTEM_PROMPT },
+        {
+          role: 'user',
+          content: `Today is ${context.today}.\n\nQuestion: ${question}`,
+        },
+      ]);
+    } catch (error) {
+      // The model answered, just not in the schema; the caller rejects it
+      // like any other invalid query.
+      if (error instanceof OutputParserException) return null;
+      throw error;
+    }
+  }
+
+  private getModel() {
+    if (!this.model) {
+      const apiKey = this.configService.get<string>('ANTHROPIC_API_KEY');
+      if (!apiKey) {
+        throw new ServiceUnavailableException('Search is not configured');
+      }
+
+      this.model = new ChatAnthropic({
+        apiKey,
+        model: this.configService.get<string>('SEARCH_MODEL'),
+        temperature: 0,
+        maxRetries: 2,
+      }).withStructuredOutput<Record<string, unknown>>(networkQuerySchema, {
+        name: 'network_search',
+      });
+    }
+    return this.model;
+  }
+}
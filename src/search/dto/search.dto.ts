@@ -0,0 +1,15 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AskDto {
+  @ApiProperty({
+    description: 'Question about your network',
+    example:
+      'Who do I know at fintech startups that I met in the last 6 months?',
+    maxLength: 500,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  question: string;
+}
@@ -0,0 +1,49 @@
+import type { NetworkQuery } from './search-query';
+import type { QueryPlanContext, QueryPlanner } from './search.types';
+
+/** The plan for a question with no filters: everyone, most relevant first. */
+export const MATCH_EVERYONE: NetworkQuery = {
+  keywords: [],
+  companies: [],
+  titles: [],
+  topics: [],
+  interactionKind: 'any',
+  interactedAfter: null,
+  interactedBefore: null,
+  minInteractions: null,
+  tier: null,
+  sort: 'relevance',
+  limit: 20,
+};
+
+/**
+ * Deterministic `QueryPlanner` for tests. Answers each question with the
+ * plan registered for it, or `MATCH_EVERYONE`, and keeps what it was asked.
+ */
+export class FakeQueryPlanner implements QueryPlanner {
+  readonly asked: { question: string; context: QueryPlanContext }[] = [];
+  private readonly plans = new Map<string, unknown>();
+  private failure: unknown = null;
+
+  /** Answer `question` with `plan`, which need not be a valid query. */
+  respondTo(question: string, plan: unknown): this {
+    this.plans.set(question, plan);
+    return this;
+  }
+
+  /** Reject every question with `error`, as a failing model call would. */
+  failWith(error: unknown): this {
+    this.failure = error;
+    return this;
+  }
+
+  plan(question: string, context: QueryPlanContext): Promise<unknown> {
+    this.asked.push({ question, context });
+    if (this.failure) {
+      return Promise.reject(this.failure as Error);
+    }
+    return Promise.resolve(
+      this.plans.has(question) ? this.plans.get(question) : MATCH_EVERYONE,
+    );
+  }
+}
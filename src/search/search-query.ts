@@ -0,0 +1,73 @@
+import { z } from 'zod';
+
+/**
+ * The structured form of a network question. The planner must produce this
+ * shape; whatever it returns is validated against it before execution, so
+ * the executor never sees free-form model output.
+ */
+export const networkQuerySchema = z.object({
+  keywords: z
+    .array(z.string().min(1).max(60))
+    .max(10)
+    .describe(
+      'Words that must appear in the person name, company or title, e.g. "fintech". Empty when not needed.',
+    ),
+  companies: z
+    .array(z.string().min(1).max(100))
+    .max(10)
+    .describe('Company names to restrict to; any one may match.'),
+  titles: z
+    .array(z.string().min(1).max(60))
+    .max(10)
+    .describe(
+      'Job title fragments; any one may match, e.g. ["investor", "partner", "vc"].',
+    ),
+  topics: z
+    .array(z.string().min(1).max(60))
+    .max(10)
+    .describe('Words to match in email subjects or meeting titles.'),
+  interactionKind: z
+    .enum(['email', 'meeting', 'any'])
+    .describe('"meeting" for met/had calls with, "email" for emailed.'),
+  interactedAfter: z
+    .string()
+    .date()
+    .nullable()
+    .describe('Inclusive YYYY-MM-DD lower bound on interaction dates.'),
+  interactedBefore: z
+    .string()
+    .date()
+    .nullable()
+    .describe('Exclusive YYYY-MM-DD upper bound on interaction dates.'),
+  minInteractions: z
+    .number()
+    .int()
+    .min(1)
+    .max(1000)
+    .nullable()
+    .describe('Minimum number of matching interactions per person.'),
+  tier: z
+    .enum(['strong', 'medium', 'weak'])
+    .nullable()
+    .describe('Relationship strength; "know well" means strong.'),
+  sort: z
+    .enum(['relevance', 'recent', 'strength'])
+    .describe('How to order results.'),
+  limit: z.number().int().min(1).max(50).describe('Number of results.'),
+});
+
+export type NetworkQuery = z.infer<typeof networkQuerySchema>;
+
+/**
+ * True when the query constrains interactions, which means people without
+ * a matching interaction are excluded.
+ */
+export function constrainsInteractions(query: NetworkQuery): boolean {
+  return (
+    query.interactionKind !== 'any' ||
+    !!query.interactedAfter ||
+    !!query.interactedBefore ||
+    !!query.minInteractions ||
+    query.topics.length > 0
+  );
+}
@@ -0,0 +1,40 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthGuard } from '../common/guards/auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { RequirePermission } from '../common/decorators/roles.decorator';
+import { Permissions } from '../tenants/permissions';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../common/decorators/current-user.decorator';
+import { SearchService } from './search.service';
+import { AskDto } from './dto/search.dto';
+
+@ApiTags('Search')
+@Controller('search')
+@UseGuards(AuthGuard, RolesGuard)
+@RequirePermission(Permissions.NETWORK_READ)
+@ApiBearerAuth()
+export class SearchController {
+  constructor(private readonly searchService: SearchService) {}
+
+  @Post('ask')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Answer a natural-language question about your network',
+  })
+  async ask(@CurrentUser() user: AuthenticatedUser, @Body() dto: AskDto) {
+    const result = await this.searchService.ask(
+      user.tenantId,
+      user.id,
+      dto.question,
+    );
+    return { statusCode: HttpStatus.OK, data: result };
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { IdentityModule } from '../identity/identity.module';
+import { InteractionsModule } from '../interactions/interactions.module';
+import { ScoringModule } from '../scoring/scoring.module';
+import { AnthropicQueryPlanner } from './anthropic-query-planner';
+import { SearchController } from './search.controller';
+import { SearchService } from './search.service';
+import { QUERY_PLANNER } from './search.types';
+
+@Module({
+  imports: [AuthModule, IdentityModule, InteractionsModule, ScoringModule],
+  controllers: [SearchController],
+  providers: [
+    { provide: QUERY_PLANNER, useClass: AnthropicQueryPlanner },
+    SearchService,
+  ],
+})
+export class SearchModule {}
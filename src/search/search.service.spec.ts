@@ -0,0 +1,212 @@
+import {
+  BadGatewayException,
+  BadRequestException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { IdentityService } from '../identity/identity.service';
+import { InteractionsService } from '../interactions/interactions.service';
+import type { InteractionFilters } from '../interactions/interactions.service';
+import { LoggerService } from '../observability/logger.service';
+import { PosthogService } from '../observability/posthog.service';
+import { ScoringService } from '../scoring/scoring.service';
+import {
+  TEST_TENANT_ID as TENANT_ID,
+  TEST_USER_ID as USER_ID,
+  interactionRow,
+  personRow,
+} from '../testing/factories';
+import { FakeQueryPlanner, MATCH_EVERYONE } from './fake-query-planner';
+import { SearchService } from './search.service';
+import { QUERY_PLANNER } from './search.types';
+
+const PERSONS = [
+  personRow('jane', { company: 'Acme Ventures', title: 'Partner' }),
+  personRow('bob', { company: 'Globex', title: 'Engineer' }),
+  personRow('carol', { company: 'Acme Ventures', title: 'Investor' }),
+];
+
+const INTERACTIONS = [
+  interactionRow('i1', 'jane@example.com', {
+    source: 'google_calendar',
+    kind: 'meeting',
+    occurred_at: '2026-03-01T10:00:00.000Z',
+    subject: 'Fundraising sync',
+  }),
+  interactionRow('i2', 'jane@example.com', {
+    occurred_at: '2026-02-01T10:00:00.000Z',
+    subject: 'Re: fundraising',
+  }),
+  interactionRow('i3', 'carol@example.com', {
+    source: 'google_calendar',
+    kind: 'meeting',
+    occurred_at: '2026-01-10T10:00:00.000Z',
+    subject: 'Intro',
+  }),
+];
+
+describe('SearchService', () => {
+  let planner: FakeQueryPlanner;
+  let interactionFilters: InteractionFilters[];
+  let service: SearchService;
+
+  beforeEach(async () => {
+    planner = new FakeQueryPlanner();
+    interactionFilters = [];
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        SearchService,
+        { provide: QUERY_PLANNER, useValue: planner },
+        {
+          provide: IdentityService,
+          useValue: {
+            listAllPersons: () => Promise.resolve(PERSONS),
+            getPersonIdsByEmail: () =>
+              Promise.resolve(
+                new Map(PERSONS.map((p) => [p.primary_email, p.id])),
+              ),
+          },
+        },
+        {
+          provide: InteractionsService,
+          useValue: {
+            listWithParticipants: (
+              _tenantId: string,
+              _userId: string,
+              filters: InteractionFilters,
+            ) => {
+              interactionFilters.push(filters);
+              return Promise.resolve(
+                INTERACTIONS.filter(
+                  (row) => !filters.kind || row.kind === filters.kind,
+                ),
+              );
+            },
+          },
+        },
+        {
+          provide: ScoringService,
+          useValue: {
+            listAllScores: () =>
+              Promise.resolve([
+                { person_id: 'jane', score: 80, tier: 'strong' },
+                { person_id: 'carol', score: 40, tier: 'medium' },
+              ]),
+          },
+        },
+        {
+          provide: LoggerService,
+          useValue: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+        { provide: PosthogService, useValue: { capture: jest.fn() } },
+      ],
+    }).compile();
+    service = moduleRef.get(SearchService);
+  });
+
+  it('runs the planned query over persons and interactions', async () => {
+    const question = 'Which investors did I meet this year?';
+    planner.respondTo(question, {
+      ...MATCH_EVERYONE,
+      titles: ['partner', 'investor'],
+      interactionKind: 'meeting',
+      interactedAfter: '2026-01-01',
+    });
+
+    const response = await service.ask(TENANT_ID, USER_ID, question);
+
+    expect(planner.asked.map((asked) => asked.question)).toEqual([question]);
+    expect(planner.asked[0].context.today).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(interactionFilters).toEqual([
+      {
+        kind: 'meeting',
+        after: new Date('2026-01-01'),
+        before: undefined,
+      },
+    ]);
+    expect(
+      response.results.map((result) => ({
+        id: result.person.id,
+        matched: result.matchedInteractions,
+        citations: result.citations.map((citation) => citation.interactionId),
+      })),
+    ).toEqual([
+      { id: 'jane', matched: 1, citations: ['i1'] },
+      { id: 'carol', matched: 1, citations: ['i3'] },
+    ]);
+  });
+
+  it('matches topics against subjects and applies the minimum', async () => {
+    planner.respondTo('fundraising', {
+      ...MATCH_EVERYONE,
+      topics: ['fundraising'],
+      minInteractions: 2,
+    });
+
+    const { results } = await service.ask(TENANT_ID, USER_ID, 'fundraising');
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({
+      person: { id: 'jane' },
+      score: 80,
+      tier: 'strong',
+      matchedInteractions: 2,
+      lastInteractionAt: '2026-03-01T10:00:00.000Z',
+    });
+  });
+
+  it('keeps everyone when no interaction filter is set', async () => {
+    planner.respondTo('strongest', {
+      ...MATCH_EVERYONE,
+      sort: 'strength',
+      limit: 2,
+    });
+
+    const response = await service.ask(TENANT_ID, USER_ID, 'strongest');
+
+    expect(response.total).toBe(3);
+    expect(response.results.map((result) => result.person.id)).toEqual([
+      'jane',
+      'carol',
+    ]);
+  });
+
+  it('rejects a plan that does not fit the query schema', async () => {
+    planner.respondTo('???', { ...MATCH_EVERYONE, limit: 500 });
+
+    await expect(service.ask(TENANT_ID, USER_ID, '???')).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    expect(interactionFilters).toEqual([]);
+  });
+
+  it.each([
+    ['a rate limit', { status: 429 }, ServiceUnavailableException],
+    ['an overloaded model', { status: 529 }, ServiceUnavailableException],
+    [
+      'a network error',
+      new Error('socket hang up'),
+      ServiceUnavailableException,
+    ],
+    ['a server error', { status: 500 }, BadGatewayException],
+    ['a rejected request', { status: 400 }, BadGatewayException],
+  ])('maps %s from the model to an upstream error', async (_, error, type) => {
+    planner.failWith(error);
+
+    await expect(
+      service.ask(TENANT_ID, USER_ID, 'anyone'),
+    ).rejects.toBeInstanceOf(type);
+  });
+
+  it('passes through errors the planner already mapped', async () => {
+    const notConfigured = new ServiceUnavailableException(
+      'Search is not configured',
+    );
+    planner.failWith(notConfigured);
+
+    await expect(service.ask(TENANT_ID, USER_ID, 'anyone')).rejects.toBe(
+      notConfigured,
+    );
+  });
+});
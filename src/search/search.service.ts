@@ -0,0 +1,272 @@
+import {
+  BadGatewayException,
+  BadRequestException,
+  HttpException,
+  Inject,
+  Injectable,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { LoggerService } from '../observability/logger.service';
+import { PosthogService } from '../observability/posthog.service';
+import { PostHogEvents } from '../common/types/events';
+import { IdentityService } from '../identity/identity.service';
+import type { PersonRow } from '../identity/identity.service';
+import { InteractionsService } from '../interactions/interactions.service';
+import type { InteractionRow } from '../interactions/interactions.service';
+import { ScoringService } from '../scoring/scoring.service';
+import type { RelationshipTier } from '../scoring/relationship-score';
+import { constrainsInteractions, networkQuerySchema } from './search-query';
+import type { NetworkQuery } from './search-query';
+import { QUERY_PLANNER } from './search.types';
+import type { QueryPlanner } from './search.types';
+
+export interface SearchCitation {
+  interactionId: string;
+  source: string;
+  kind: string;
+  occurredAt: string;
+  subject: string | null;
+}
+
+export interface SearchResult {
+  person: Pick<
+    PersonRow,
+    'id' | 'display_name' | 'primary_email' | 'company' | 'title'
+  >;
+  score: number | null;
+  tier: RelationshipTier | null;
+  matchedInteractions: number;
+  lastInteractionAt: string | null;
+  /** Most recent matching interactions, the evidence behind the result. */
+  citations: SearchCitation[];
+}
+
+export interface SearchResponse {
+  question: string;
+  query: NetworkQuery;
+  total: number;
+  results: SearchResult[];
+}
+
+const CITATIONS_PER_RESULT = 5;
+// Rate limited or overloaded: worth retrying shortly.
+const PLANNER_BUSY_STATUSES = new Set([429, 503, 529]);
+
+@Injectable()
+export class SearchService {
+  constructor(
+    @Inject(QUERY_PLANNER) private readonly planner: QueryPlanner,
+    private readonly identity: IdentityService,
+    private readonly interactions: InteractionsService,
+    private readonly scoring: ScoringService,
+    private readonly logger: LoggerService,
+    private readonly posthog: PosthogService,
+  ) {}
+
+  /**
+   * Answer a natural-language question: plan a structured query, validate
+   * it, then run it over the user's persons and interactions.
+   */
+  async ask(
+    tenantId: string,
+    userId: string,
+    question: string,
+  ): Promise<SearchResponse> {
+    const planned = await this.planner
+      .plan(question, { today: new Date().toISOString().slice(0, 10) })
+      .catch((error: unknown) => {
+        throw this.plannerFailure(userId, error);
+      });
+
+    const parsed = networkQuerySchema.safeParse(planned);
+    if (!parsed.success) {
+      this.logger.warn('Search planner returned an invalid query', {
+        userId,
+        issues: parsed.error.issues.map((issue) => issue.message),
+      });
+      throw new BadRequestException(
+        'Could not turn the question into a search. Try rephrasing it.',
+      );
+    }
+
+    const query = parsed.data;
+    const results = await this.execute(tenantId, userId, query);
+
+    this.logger.info('Network search completed', {
+      userId,
+      results: results.length,
+    });
+    this.posthog.capture(userId, PostHogEvents.NETWORK_SEARCHED, {
+      resultCount: results.length,
+      interactionFilter: constrainsInteractions(query),
+    });
+
+    return {
+      question,
+      query,
+      total: results.length,
+      results: results.slice(0, query.limit),
+    };
+  }
+
+  /**
+   * Run a validated query. Person filters (keywords, companies, titles) are
+   * matched against resolved persons; interaction filters decide which
+   * interactions count as matches and become citations.
+   */
+  async execute(
+    tenantId: string,
+    userId: string,
+    query: NetworkQuery,
+  ): Promise<SearchResult[]> {
+    const persons = (await this.identity.listAllPersons(tenantId)).filter(
+      (person) => this.matchesPerson(person, query),
+    );
+    if (!persons.length) return [];
+
+    const interactions = (
+      await this.interactions.listWithParticipants(tenantId, userId, {
+        kind:
+          query.interactionKind === 'any' ? undefined : query.interactionKind,
+        after: query.interactedAfter
+          ? new Date(query.interactedAfter)
+          : undefined,
+        before: query.interactedBefore
+          ? new Date(query.interactedBefore)
+          : undefined,
+      })
+    ).filter((interaction) => this.matchesTopics(interaction, query.topics));
+
+    const personByEmail = await this.identity.getPersonIdsByEmail(tenantId);
+    const interactionsByPerson = new Map<string, InteractionRow[]>();
+    for (const interaction of interactions) {
+      const personIds = new Set(
+        (interaction.interaction_participants ?? [])
+          .map((participant) => personByEmail.get(participant.email))
+          .filter((personId): personId is string => !!personId),
+      );
+      for (const personId of personIds) {
+        const list = interactionsByPerson.get(personId) ?? [];
+        list.push(interaction);
+        interactionsByPerson.set(personId, list);
+      }
+    }
+
+    const scores = new Map(
+      (await this.scoring.listAllScores(tenantId, userId)).map((row) => [
+        row.person_id,
+        row,
+      ]),
+    );
+    const minInteractions = constrainsInteractions(query)
+      ? (query.minInteractions ?? 1)
+      : 0;
+
+    const results = persons
+      .map((person): SearchResult => {
+        const matched = (interactionsByPerson.get(person.id) ?? []).sort(
+          (a, b) => b.occurred_at.localeCompare(a.occurred_at),
+        );
+        const score = scores.get(person.id);
+        return {
+          person: {
+            id: person.id,
+            display_name: person.display_name,
+            primary_email: person.primary_email,
+            company: person.company,
+            title: person.title,
+          },
+          score: score?.score ?? null,
+          tier: score?.tier ?? null,
+          matchedInteractions: matched.length,
+          lastInteractionAt: matched[0]?.occurred_at ?? null,
+          citations: matched.slice(0, CITATIONS_PER_RESULT).map(
+            (interaction): SearchCitation => ({
+              interactionId: interaction.id,
+              source: interaction.source,
+              kind: interaction.kind,
+              occurredAt: interaction.occurred_at,
+              subject: interaction.subject,
+            }),
+          ),
+        };
+      })
+      .filter(
+        (result) =>
+          result.matchedInteractions >= minInteractions &&
+          (!query.tier || result.tier === query.tier),
+      );
+
+    return results.sort(this.comparator(query.sort));
+  }
+
+  /**
+   * A failed model call is an upstream problem, not ours: `503` when the
+   * model is busy or unreachable, `502` otherwise.
+   */
+  private plannerFailure(userId: string, error: unknown): HttpException {
+    if (error instanceof HttpException) return error;
+
+    const status = (error as { status?: unknown } | null)?.status;
+    this.logger.error('Search planner failed', {
+      userId,
+      status: typeof status === 'number' ? status : null,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    if (typeof status !== 'number' || PLANNER_BUSY_STATUSES.has(status)) {
+      return new ServiceUnavailableException(
+        'Search is unavailable right now. Try again shortly.',
+      );
+    }
+    return new BadGatewayException(
+      'The search model could not answer. Try again later.',
+    );
+  }
+
+  private matchesPerson(person: PersonRow, query: NetworkQuery): boolean {
+    const company = (person.company ?? '').toLowerCase();
+    const title = (person.title ?? '').toLowerCase();
+    const haystack = [person.display_name, company, title]
+      .join(' ')
+      .toLowerCase();
+
+    const some = (terms: string[], text: string) =>
+      !terms.length || terms.some((term) => text.includes(term.toLowerCase()));
+
+    return (
+      some(query.companies, company) &&
+      some(query.titles, title) &&
+      query.keywords.every((keyword) =>
+        haystack.includes(keyword.toLowerCase()),
+      )
+    );
+  }
+
+  private matchesTopics(interaction: InteractionRow, topics: string[]) {
+    if (!topics.length) return true;
+    const subject = (interaction.subject ?? '').toLowerCase();
+    return topics.some((topic) => subject.includes(topic.toLowerCase()));
+  }
+
+  private comparator(sort: NetworkQuery['sort']) {
+    const byScore = (a: SearchResult, b: SearchResult) =>
+      (b.score ?? 0) - (a.score ?? 0);
+    const byRecent = (a: SearchResult, b: SearchResult) =>
+      (b.lastInteractionAt ?? '').localeCompare(a.lastInteractionAt ?? '');
+
+    switch (sort) {
+      case 'strength':
+        return (a: SearchResult, b: SearchResult) =>
+          byScore(a, b) || byRecent(a, b);
+      case 'recent':
+        return (a: SearchResult, b: SearchResult) =>
+          byRecent(a, b) || byScore(a, b);
+      default:
+        return (a: SearchResult, b: SearchResult) =>
+          b.matchedInteractions - a.matchedInteractions ||
+          byScore(a, b) ||
+          byRecent(a, b);
+    }
+  }
+}
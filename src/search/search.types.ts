@@ -0,0 +1,16 @@
+/**
+ * Turns a natural-language question into a candidate `NetworkQuery`. The
+ * result is validated by the caller, so implementations may return anything.
+ * Bound to `QUERY_PLANNER`; swap the provider for a deterministic fake in
+ * tests.
+ */
+export interface QueryPlanner {
+  plan(question: string, context: QueryPlanContext): Promise<unknown>;
+}
+
+export interface QueryPlanContext {
+  /** Today's date (YYYY-MM-DD), for resolving relative dates. */
+  today: string;
+}
+
+export const QUERY_PLANNER = Symbol('QUERY_PLANNER');
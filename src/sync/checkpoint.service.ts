@@ -0,0 +1,86 @@
+import { Injectable } from '@nestjs/common';
+import { SupabaseService } from '../database/supabase.service';
+import type { SyncContext } from './sync.types';
+
+export interface SyncCheckpoint {
+  cursorValue: string | null;
+  cursorJson: Record<string, unknown>;
+  updatedAt: string;
+}
+
+type CheckpointKey = Pick<SyncContext, 'tenantId' | 'userId' | 'source'>;
+
+@Injectable()
+export class CheckpointService {
+  constructor(private readonly supabase: SupabaseService) {}
+
+  async get(key: CheckpointKey): Promise<SyncCheckpoint | null> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('sync_checkpoints')
+      .select('cursor_value, cursor_json, updated_at')
+      .eq('tenant_id', key.tenantId)
+      .eq('user_id', key.userId)
+      .eq('source', key.source)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load sync checkpoint: ${error.message}`);
+    }
+    if (!data) return null;
+
+    const row = data as {
+      cursor_value: string | null;
+      cursor_json: Record<string, unknown> | null;
+      updated_at: string;
+    };
+    return {
+      cursorValue: row.cursor_value,
+      cursorJson: row.cursor_json ?? {},
+      updatedAt: row.updated_at,
+    };
+  }
+
+  async save(
+    key: CheckpointKey,
+    checkpoint: {
+      cursorValue?: string | null;
+      cursorJson?: Record<string, unknown>;
+    },
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .getClient()
+      .from('sync_checkpoints')
+      .upsert(
+        {
+          tenant_id: key.tenantId,
+          user_id: key.userId,
+          source: key.source,
+          cursor_value: checkpoint.cursorValue ?? null,
+          cursor_json: checkpoint.cursorJson ?? {},
+        },
+        { onConflict: 'tenant_id,user_id,source' },
+      );
+
+    if (error) {
+      throw new Error(`Failed to save sync checkpoint: ${error.message}`);
+    }
+  }
+
+  /**
+   * Forget the cursor so the next run performs a full resync.
+   */
+  async clear(key: CheckpointKey): Promise<void> {
+    const { error } = await this.supabase
+      .getClient()
+      .from('sync_checkpoints')
+      .delete()
+      .eq('tenant_id', key.tenantId)
+      .eq('user_id', key.userId)
+      .eq('source', key.source);
+
+    if (error) {
+      throw new Error(`Failed to clear sync checkpoint: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { normalizeEmail } from '../../common/utils/normalize';
+
+export interface ParsedAddress {
+  email: string;
+  name: string | null;
+}
+
+/**
+ * Split an RFC 5322 address list (`From`, `To`, `Cc`) into addresses,
+ * ignoring commas inside quoted display names and angle brackets.
+ */
+export function parseAddressList(header?: string | null): ParsedAddress[] {
+  if (!header) return [];
+
+  const parts: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let inAngle = false;
+
+  for (const char of header) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === '<' && !inQuotes) inAngle = true;
+    else if (char === '>' && !inQuotes) inAngle = false;
+
+    if (char === ',' && !inQuotes && !inAngle) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts
+    .map((part) => parseAddress(part))
+    .filter((address): address is ParsedAddress => !!address);
+}
+
+function parseAddress(raw: string): ParsedAddress | null {
+  const value = raw.trim();
+  if (!value) return null;
+
+  const angle = value.match(/^(.*)<([^>]+)>\s*$/);
+  if (angle) {
+    const email = normalizeEmail(angle[2]);
+    const name = angle[1].trim().replace(/^"|"$/g, '').trim();
+    return email ? { email, name: name || null } : null;
+  }
+
+  const email = normalizeEmail(value);
+  return email ? { email, name: null } : null;
+}
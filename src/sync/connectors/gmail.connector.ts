@@ -0,0 +1,287 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { google, gmail_v1 } from 'googleapis';
+import { AuthService } from '../../auth/auth.service';
+import { InteractionsService } from '../../interactions/interactions.service';
+import type {
+  InteractionInput,
+  InteractionScope,
+  ParticipantInput,
+} from '../../interactions/interactions.service';
+import { LoggerService } from '../../observability/logger.service';
+import { SourceConnectionSources } from '../../common/types/sources';
+import { mapWithConcurrency } from '../../common/utils/async';
+import { normalizeEmail } from '../../common/utils/normalize';
+import { CheckpointService } from '../checkpoint.service';
+import { getGoogleErrorStatus } from '../google-errors';
+import type { SourceConnector, SyncContext, SyncResult } from '../sync.types';
+import { parseAddressList } from './email-headers';
+
+// Only headers are ever requested; message bodies and snippets stay in Gmail.
+const METADATA_HEADERS = ['From', 'To', 'Cc', 'Date', 'Subject'];
+const MESSAGE_FIELDS = 'id,threadId,labelIds,internalDate,payload/headers';
+const SKIPPED_LABELS = new Set(['DRAFT', 'SPAM', 'TRASH', 'CHAT']);
+const LIST_PAGE_SIZE = 500;
+const FETCH_CONCURRENCY = 10;
+
+interface GmailCursor {
+  historyId?: string;
+  emailAddress?: string;
+}
+
+type Gmail = gmail_v1.Gmail;
+
+@Injectable()
+export class GmailConnector implements SourceConnector {
+  readonly source = SourceConnectionSources.GMAIL;
+  readonly writesContacts = false;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly authService: AuthService,
+    private readonly interactions: InteractionsService,
+    private readonly checkpoints: CheckpointService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  async sync(context: SyncContext): Promise<SyncResult> {
+    const auth = await this.authService.getAuthenticatedClient(
+      context.tenantId,
+      context.userId,
+    );
+    const gmail = google.gmail({ version: 'v1', auth });
+    const checkpoint = await this.checkpoints.get(context);
+    const cursor = (checkpoint?.cursorJson ?? {}) as GmailCursor;
+
+    if (cursor.historyId && cursor.emailAddress) {
+      try {
+        return await this.pullHistory(gmail, context, cursor);
+      } catch (error) {
+        if (getGoogleErrorStatus(error) !== 404) {
+          throw error;
+        }
+        this.logger.warn('Gmail historyId expired, running bounded backfill', {
+          userId: context.userId,
+        });
+        await this.checkpoints.clear(context);
+      }
+    }
+
+    return this.backfill(gmail, context);
+  }
+
+  /**
+   * First run: walk messages inside the configured lookback window, then
+   * remember the mailbox historyId so later runs only read deltas.
+   */
+  private async backfill(
+    gmail: Gmail,
+    context: SyncContext,
+  ): Promise<SyncResult> {
+    const { data: profile } = await gmail.users.getProfile({ userId: 'me' });
+    const emailAddress = normalizeEmail(profile.emailAddress);
+    if (!emailAddress || !profile.historyId) {
+      throw new Error('Gmail profile is missing email address or historyId');
+    }
+
+    const lookbackDays = this.config.get<number>('GMAIL_BACKFILL_DAYS', 90);
+    const since = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000);
+    const result: SyncResult = {
+      added: 0,
+      updated: 0,
+      deleted: 0,
+      fullSync: true,
+    };
+
+    let pageToken: string | undefined;
+    do {
+      const { data } = await gmail.users.messages.list({
+        userId: 'me',
+        q: `after:${Math.floor(since.getTime() / 1000)}`,
+        maxResults: LIST_PAGE_SIZE,
+        pageToken,
+      });
+
+      const ids = (data.messages ?? [])
+        .map((message) => message.id)
+        .filter((id): id is string => !!id);
+      const counts = await this.storeMessages(
+        gmail,
+        context,
+        emailAddress,
+        ids,
+      );
+      result.added += counts.added;
+      result.updated += counts.updated;
+
+      pageToken = data.nextPageToken ?? undefined;
+    } while (pageToken);
+
+    await this.checkpoints.save(context, {
+      cursorJson: {
+        historyId: profile.historyId,
+        emailAddress,
+        backfillSince: since.toISOString(),
+      },
+    });
+
+    return result;
+  }
+
+  private async pullHistory(
+    gmail: Gmail,
+    context: SyncContext,
+    cursor: GmailCursor,
+  ): Promise<SyncResult> {
+    const added = new Set<string>();
+    const removed = new Set<string>();
+    let latestHistoryId = cursor.historyId!;
+    let pageToken: string | undefined;
+
+    do {
+      const { data } = await gmail.users.history.list({
+        userId: 'me',
+        startHistoryId: cursor.historyId,
+        historyTypes: ['messageAdded', 'messageDeleted'],
+        pageToken,
+      });
+
+      for (const record of data.history ?? []) {
+        for (const entry of record.messagesAdded ?? []) {
+          if (entry.message?.id) added.add(entry.message.id);
+        }
+        for (const entry of record.messagesDeleted ?? []) {
+          if (entry.message?.id) removed.add(entry.message.id);
+        }
+      }
+
+      latestHistoryId = data.historyId ?? latestHistoryId;
+      pageToken = data.nextPageToken ?? undefined;
+    } while (pageToken);
+
+    const toFetch = [...added].filter((id) => !removed.has(id));
+    const counts = await this.storeMessages(
+      gmail,
+      context,
+      cursor.emailAddress!,
+      toFetch,
+    );
+    const deleted = await this.interactions.markDeleted(this.scope(context), [
+      ...removed,
+    ]);
+
+    await this.checkpoints.save(context, {
+      cursorJson: { ...cursor, historyId: latestHistoryId },
+    });
+
+    return { ...counts, deleted, fullSync: false };
+  }
+
+  private async storeMessages(
+    gmail: Gmail,
+    context: SyncContext,
+    ownerEmail: string,
+    messageIds: string[],
+  ): Promise<{ added: number; updated: number }> {
+    if (!messageIds.length) return { added: 0, updated: 0 };
+
+    const messages = await mapWithConcurrency(
+      messageIds,
+      FETCH_CONCURRENCY,
+      (id) => this.fetchMessage(gmail, id),
+    );
+
+    const interactions = messages
+      .map((message) => message && this.toInteraction(message, ownerEmail))
+      .filter((item): item is InteractionInput => !!item);
+
+    return this.interactions.upsertInteractions(
+      this.scope(context),
+      interactions,
+    );
+  }
+
+  private async fetchMessage(
+    gmail: Gmail,
+    id: string,
+  ): Promise<gmail_v1.Schema$Message | null> {
+    try {
+      const { data } = await gmail.users.messages.get({
+        userId: 'me',
+        id,
+        format: 'metadata',
+        metadataHeaders: METADATA_HEADERS,
+        fields: MESSAGE_FIELDS,
+      });
+      return data;
+    } catch (error) {
+      // Messages can be deleted between listing and fetching.
+      if (getGoogleErrorStatus(error) === 404) return null;
+      throw error;
+    }
+  }
+
+  private toInteraction(
+    message: gmail_v1.Schema$Message,
+    ownerEmail: string,
+  ): InteractionInput | null {
+    if (!message.id) return null;
+    if (message.labelIds?.some((label) => SKIPPED_LABELS.has(label))) {
+      return null;
+    }
+
+    const headers = new Map(
+      (message.payload?.headers ?? []).map((header) => [
+        (header.name ?? '').toLowerCase(),
+        header.value ?? '',
+      ]),
+    );
+
+    const from = parseAddressList(headers.get('from'));
+    const outbound = from.some((address) => address.email === ownerEmail);
+    const participants: ParticipantInput[] = [
+      ...from.map((address) => ({ ...address, role: 'from' as const })),
+      ...parseAddressList(headers.get('to')).map((address) => ({
+        ...address,
+        role: 'to' as const,
+      })),
+      ...parseAddressList(headers.get('cc')).map((address) => ({
+        ...address,
+        role: 'cc' as const,
+      })),
+    ]
+      .filter((address) => address.email !== ownerEmail)
+      .map((address) => ({
+        email: address.email,
+        displayName: address.name,
+        role: address.role,
+      }));
+
+    if (!participants.length) return null;
+
+    const internalDate = Number(message.internalDate);
+    const headerDate = headers.get('date');
+    const occurredAt = Number.isFinite(internalDate)
+      ? new Date(internalDate)
+      : new Date(headerDate || Date.now());
+
+    return {
+      sourceRecordId: message.id,
+      kind: 'email',
+      direction: outbound ? 'outbound' : 'inbound',
+      occurredAt,
+      subject: headers.get('subject') || null,
+      threadId: message.threadId ?? null,
+      participants,
+      metadata: { labelIds: message.labelIds ?? [] },
+    };
+  }
+
+  private scope(context: SyncContext): InteractionScope {
+    return {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      source: this.source,
+    };
+  }
+}
@@ -0,0 +1,238 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { google, calendar_v3 } from 'googleapis';
+import { AuthService } from '../../auth/auth.service';
+import { InteractionsService } from '../../interactions/interactions.service';
+import type {
+  InteractionInput,
+  InteractionScope,
+  ParticipantInput,
+} from '../../interactions/interactions.service';
+import { LoggerService } from '../../observability/logger.service';
+import { SourceConnectionSources } from '../../common/types/sources';
+import { normalizeEmail } from '../../common/utils/normalize';
+import { CheckpointService } from '../checkpoint.service';
+import type { SourceConnector, SyncContext, SyncResult } from '../sync.types';
+
+const CALENDAR_ID = 'primary';
+const PAGE_SIZE = 250;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CalendarCursor {
+  calendarId?: string;
+  syncedAt?: string;
+  /** Set once runs list time windows instead of following a sync token. */
+  windowed?: boolean;
+}
+
+/** Occurrences overlapping `[timeMin, timeMax)`, optionally only those changed since `updatedMin`. */
+interface EventWindow {
+  timeMin: Date;
+  timeMax: Date;
+  updatedMin?: Date;
+}
+
+@Injectable()
+export class GoogleCalendarConnector implements SourceConnector {
+  readonly source = SourceConnectionSources.GOOGLE_CALENDAR;
+  readonly writesContacts = false;
+
+  constructor(
+    private readonly authService: AuthService,
+    private readonly config: ConfigService,
+    private readonly interactions: InteractionsService,
+    private readonly checkpoints: CheckpointService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  async sync(context: SyncContext): Promise<SyncResult> {
+    const checkpoint = await this.checkpoints.get(context);
+    const cursor = (checkpoint?.cursorJson ?? {}) as CalendarCursor;
+
+    if (cursor.windowed && cursor.syncedAt) {
+      return this.pull(context, new Date(cursor.syncedAt));
+    }
+
+    if (checkpoint) {
+      this.logger.info('Calendar checkpoint predates windowed sync', {
+        userId: context.userId,
+      });
+    }
+    return this.pull(context, null);
+  }
+
+  /**
+   * Only occurrences that have already started are meetings. The first run
+   * backfills `CALENDAR_BACKFILL_DAYS`; later runs pick up what started
+   * since the last run plus edits to meetings already stored.
+   */
+  private async pull(
+    context: SyncContext,
+    since: Date | null,
+  ): Promise<SyncResult> {
+    const auth = await this.authService.getAuthenticatedClient(
+      context.tenantId,
+      context.userId,
+    );
+    const calendar = google.calendar({ version: 'v3', auth });
+    const scope: InteractionScope = {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      source: this.source,
+    };
+    const startedAt = new Date();
+    const backfillDays = this.config.get<number>('CALENDAR_BACKFILL_DAYS', 90);
+    const backfillFrom = new Date(startedAt.getTime() - backfillDays * DAY_MS);
+    const result: SyncResult = {
+      added: 0,
+      updated: 0,
+      deleted: 0,
+      fullSync: !since,
+    };
+
+    const windows: EventWindow[] = since
+      ? [
+          // Occurrences that started since the last run.
+          { timeMin: since, timeMax: startedAt },
+          // Edits and cancellations to meetings already stored.
+          { timeMin: backfillFrom, timeMax: since, updatedMin: since },
+        ]
+      : [{ timeMin: backfillFrom, timeMax: startedAt }];
+
+    for (const window of windows) {
+      await this.pullWindow(calendar, scope, window, startedAt, result);
+    }
+
+    if (!since) {
+      // Also drops upcoming occurrences stored before syncs were windowed.
+      result.deleted += await this.interactions.markStaleDeleted(
+        scope,
+        startedAt,
+        backfillFrom,
+      );
+    }
+
+    await this.checkpoints.save(context, {
+      cursorJson: {
+        calendarId: CALENDAR_ID,
+        syncedAt: startedAt.toISOString(),
+        windowed: true,
+      },
+    });
+
+    return result;
+  }
+
+  private async pullWindow(
+    calendar: calendar_v3.Calendar,
+    scope: InteractionScope,
+    window: EventWindow,
+    startedAt: Date,
+    result: SyncResult,
+  ): Promise<void> {
+    let pageToken: string | undefined;
+
+    do {
+      const { data } = await calendar.events.list({
+        calendarId: CALENDAR_ID,
+        maxResults: PAGE_SIZE,
+        showDeleted: true,
+        // Each occurrence of a recurring series is its own meeting, keyed by
+        // its instance id.
+        singleEvents: true,
+        timeMin: window.timeMin.toISOString(),
+        timeMax: window.timeMax.toISOString(),
+        updatedMin: window.updatedMin?.toISOString(),
+        pageToken,
+      });
+
+      const meetings: InteractionInput[] = [];
+      const removed: string[] = [];
+
+      for (const event of data.items ?? []) {
+        if (!event.id) continue;
+        const meeting =
+          event.status === 'cancelled' ? null : this.toInteraction(event);
+        if (meeting) {
+          meetings.push(meeting);
+        } else {
+          // Cancelled events and events left without other attendees are
+          // no longer meetings with anyone.
+          removed.push(event.id);
+        }
+      }
+
+      const counts = await this.interactions.upsertInteractions(
+        scope,
+        meetings,
+        startedAt,
+      );
+      result.added += counts.added;
+      result.updated += counts.updated;
+      result.deleted += await this.interactions.markDeleted(scope, removed);
+
+      pageToken = data.nextPageToken ?? undefined;
+    } while (pageToken);
+  }
+
+  private toInteraction(
+    event: calendar_v3.Schema$Event,
+  ): InteractionInput | null {
+    const start = event.start?.dateTime ?? event.start?.date;
+    if (!event.id || !start) return null;
+
+    const attendees = (event.attendees ?? []).filter(
+      (attendee) => !attendee.resource,
+    );
+    const organizerEmail = normalizeEmail(event.organizer?.email);
+    const participants: ParticipantInput[] = [];
+
+    if (organizerEmail && !event.organizer?.self) {
+      participants.push({
+        email: organizerEmail,
+        displayName: event.organizer?.displayName ?? null,
+        role: 'organizer',
+      });
+    }
+
+    for (const attendee of attendees) {
+      const email = normalizeEmail(attendee.email);
+      if (!email || attendee.self || email === organizerEmail) continue;
+      participants.push({
+        email,
+        displayName: attendee.displayName ?? null,
+        role: 'attendee',
+        responseStatus: attendee.responseStatus ?? null,
+      });
+    }
+
+    if (!participants.length) return null;
+
+    const self = attendees.find((attendee) => attendee.self);
+
+    return {
+      sourceRecordId: event.id,
+      kind: 'meeting',
+      direction: event.organizer?.self ? 'outbound' : 'inbound',
+      occurredAt: new Date(start),
+      subject: event.summary ?? null,
+      threadId: event.recurringEventId ?? null,
+      participants,
+      metadata: {
+        start,
+        end: event.end?.dateTime ?? event.end?.date ?? null,
+        allDay: !event.start?.dateTime,
+        timeZone: event.start?.timeZone ?? null,
+        recurrence: event.recurrence ?? null,
+        recurringEventId: event.recurringEventId ?? null,
+        originalStartTime:
+          event.originalStartTime?.dateTime ??
+          event.originalStartTime?.date ??
+          null,
+        attendeeCount: Math.max(attendees.length, participants.length + 1),
+        selfResponseStatus: self?.responseStatus ?? null,
+        status: event.status ?? null,
+      },
+    };
+  }
+}
@@ -0,0 +1,167 @@
+import { Injectable } from '@nestjs/common';
+import { google, people_v1 } from 'googleapis';
+import { AuthService } from '../../auth/auth.service';
+import { ContactsService } from '../../contacts/contacts.service';
+import type {
+  ContactInput,
+  ContactScope,
+} from '../../contacts/contacts.service';
+import { LoggerService } from '../../observability/logger.service';
+import { SourceConnectionSources } from '../../common/types/sources';
+import {
+  normalizeLinkedinUrl,
+  normalizePhone,
+} from '../../common/utils/normalize';
+import { CheckpointService } from '../checkpoint.service';
+import { isExpiredSyncTokenError } from '../google-errors';
+import type { SourceConnector, SyncContext, SyncResult } from '../sync.types';
+
+const PERSON_FIELDS =
+  'names,emailAddresses,phoneNumbers,organizations,photos,urls,metadata';
+const PAGE_SIZE = 1000;
+
+@Injectable()
+export class GoogleContactsConnector implements SourceConnector {
+  readonly source = SourceConnectionSources.GOOGLE_CONTACTS;
+  readonly writesContacts = true;
+
+  constructor(
+    private readonly authService: AuthService,
+    private readonly contacts: ContactsService,
+    private readonly checkpoints: CheckpointService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  async sync(context: SyncContext): Promise<SyncResult> {
+    const checkpoint = await this.checkpoints.get(context);
+    const syncToken = checkpoint?.cursorValue ?? null;
+
+    try {
+      return await this.pull(context, syncToken);
+    } catch (error) {
+      if (!syncToken || !isExpiredSyncTokenError(error)) {
+        throw error;
+      }
+
+      this.logger.warn('People API sync token expired, running full resync', {
+        userId: context.userId,
+      });
+      await this.checkpoints.clear(context);
+      return this.pull(context, null);
+    }
+  }
+
+  private async pull(
+    context: SyncContext,
+    syncToken: string | null,
+  ): Promise<SyncResult> {
+    const auth = await this.authService.getAuthenticatedClient(
+      context.tenantId,
+      context.userId,
+    );
+    const people = google.people({ version: 'v1', auth });
+    const scope: ContactScope = {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      source: this.source,
+      sourceConnectionId: context.connectionId,
+    };
+    const startedAt = new Date();
+    const result: SyncResult = {
+      added: 0,
+      updated: 0,
+      deleted: 0,
+      fullSync: !syncToken,
+    };
+
+    let pageToken: string | undefined;
+    let nextSyncToken: string | undefined;
+
+    do {
+      const { data } = await people.people.connections.list({
+        resourceName: 'people/me',
+        personFields: PERSON_FIELDS,
+        pageSize: PAGE_SIZE,
+        requestSyncToken: true,
+        syncToken: syncToken ?? undefined,
+        pageToken,
+      });
+
+      const connections = data.connections ?? [];
+      const removed = connections
+        .filter((person) => person.metadata?.deleted)
+        .map((person) => person.resourceName)
+        .filter((resourceName): resourceName is string => !!resourceName);
+      const live = connections
+        .filter((person) => !person.metadata?.deleted)
+        .map((person) => this.toContact(person))
+        .filter((contact): contact is ContactInput => !!contact);
+
+      const counts = await this.contacts.upsertContacts(scope, live, startedAt);
+      result.added += counts.added;
+      result.updated += counts.updated;
+      result.deleted += await this.contacts.markDeleted(scope, removed);
+
+      pageToken = data.nextPageToken ?? undefined;
+      nextSyncToken = data.nextSyncToken ?? nextSyncToken;
+    } while (pageToken);
+
+    if (!syncToken) {
+      result.deleted += await this.contacts.markStaleDeleted(scope, startedAt);
+    }
+
+    if (nextSyncToken) {
+      await this.checkpoints.save(context, {
+        cursorValue: nextSyncToken,
+        cursorJson: { syncedAt: startedAt.toISOString() },
+      });
+    }
+
+    return result;
+  }
+
+  private toContact(person: people_v1.Schema$Person): ContactInput | null {
+    if (!person.resourceName) return null;
+
+    const name =
+      person.names?.find((entry) => entry.metadata?.primary) ??
+      person.names?.[0];
+
+    return {
+      sourceRecordId: person.resourceName,
+      displayName: name?.displayName ?? null,
+      givenName: name?.givenName ?? null,
+      familyName: name?.familyName ?? null,
+      emails: (person.emailAddresses ?? [])
+        .filter((email) => !!email.value)
+        .map((email) => ({
+          value: email.value!,
+          type: email.type ?? undefined,
+          primary: email.metadata?.primary ?? false,
+        })),
+      phones: (person.phoneNumbers ?? [])
+        .filter((phone) => !!phone.value)
+        .map((phone) => ({
+          value: phone.value!,
+          normalized: normalizePhone(phone.canonicalForm ?? phone.value),
+          type: phone.type ?? undefined,
+        })),
+      organizations: (person.organizations ?? []).map((organization) => ({
+        name: organization.name ?? undefined,
+        title: organization.title ?? undefined,
+        department: organization.department ?? undefined,
+      })),
+      photos: (person.photos ?? [])
+        .filter((photo) => !!photo.url)
+        .map((photo) => ({
+          url: photo.url!,
+          default: photo.default ?? false,
+        })),
+      linkedinUrl:
+        (person.urls ?? [])
+          .map((url) => normalizeLinkedinUrl(url.value))
+          .find((url) => !!url) ?? null,
+      metadata: { etag: person.etag ?? null },
+    };
+  }
+}
@@ -0,0 +1,33 @@
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { SourceConnectionSources } from '../../common/types/sources';
+import type { SourceConnectionSource } from '../../common/types/sources';
+import type { SyncRunStatus } from '../sync-runs.service';
+
+export class ListSyncRunsQueryDto {
+  @ApiPropertyOptional({ description: 'Page size', default: 20, maximum: 100 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit: number = 20;
+
+  @ApiPropertyOptional({ description: 'Number of rows to skip', default: 0 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  offset: number = 0;
+
+  @ApiPropertyOptional({ enum: Object.values(SourceConnectionSources) })
+  @IsIn(Object.values(SourceConnectionSources))
+  @IsOptional()
+  source?: SourceConnectionSource;
+
+  @ApiPropertyOptional({ enum: ['running', 'succeeded', 'failed'] })
+  @IsIn(['running', 'succeeded', 'failed'])
+  @IsOptional()
+  status?: SyncRunStatus;
+}
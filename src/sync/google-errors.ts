@@ -0,0 +1,39 @@
+/**
+ * Helpers for telling apart the Google API failures connectors react to.
+ * googleapis throws GaxiosError instances; we only rely on their shape.
+ */
+interface GoogleApiErrorShape {
+  status?: number;
+  code?: number | string;
+  message?: string;
+  response?: { status?: number; data?: unknown };
+}
+
+export function getGoogleErrorStatus(error: unknown): number | null {
+  if (!error || typeof error !== 'object') return null;
+  const shaped = error as GoogleApiErrorShape;
+  const status =
+    shaped.response?.status ??
+    shaped.status ??
+    (typeof shaped.code === 'number' ? shaped.code : Number(shaped.code));
+  return Number.isFinite(status) ? Number(status) : null;
+}
+
+export function getGoogleErrorText(error: unknown): string {
+  if (!error || typeof error !== 'object') return String(error);
+  const shaped = error as GoogleApiErrorShape;
+  const body = shaped.response?.data
+    ? JSON.stringify(shaped.response.data)
+    : '';
+  return `${shaped.message ?? ''} ${body}`;
+}
+
+/**
+ * People API rejects sync tokens older than 7 days with EXPIRED_SYNC_TOKEN;
+ * Calendar answers 410 Gone when its sync token is invalidated.
+ */
+export function isExpiredSyncTokenError(error: unknown): boolean {
+  if (getGoogleErrorStatus(error) === 410) return true;
+  const text = getGoogleErrorText(error);
+  return /EXPIRED_SYNC_TOKEN|sync token is expired/i.test(text);
+}
@@ -0,0 +1,62 @@
+import { Injectable } from '@nestjs/common';
+import { ContactsService } from '../contacts/contacts.service';
+import { InteractionsService } from '../interactions/interactions.service';
+import { LoggerService } from '../observability/logger.service';
+import type { SourceConnectionSource } from '../common/types/sources';
+import { CheckpointService } from './checkpoint.service';
+import { SyncService } from './sync.service';
+
+export interface SourcePurgeResult {
+  contacts: number;
+  interactions: number;
+}
+
+/**
+ * Deletes what a user synced from sources they disconnected. Contacts and
+ * interactions are removed outright rather than soft-deleted, checkpoints
+ * are dropped so a later reconnect starts with a full backfill, and
+ * persons, scores and the graph are rebuilt without them.
+ */
+@Injectable()
+export class SourcePurgeService {
+  constructor(
+    private readonly contacts: ContactsService,
+    private readonly interactions: InteractionsService,
+    private readonly checkpoints: CheckpointService,
+    private readonly syncService: SyncService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  async purge(
+    tenantId: string,
+    userId: string,
+    sources: readonly SourceConnectionSource[],
+  ): Promise<SourcePurgeResult> {
+    const interactions = await this.interactions.deleteForSources(
+      tenantId,
+      userId,
+      sources,
+    );
+    const contacts = await this.contacts.deleteForSources(
+      tenantId,
+      userId,
+      sources,
+    );
+    for (const source of sources) {
+      await this.checkpoints.clear({ tenantId, userId, source });
+    }
+
+    this.logger.info('Source data purged', {
+      userId,
+      tenantId,
+      sources,
+      contacts,
+      interactions,
+    });
+    await this.syncService.refreshDerivedData(tenantId, userId, {
+      contactsChanged: true,
+      source: sources.join(','),
+    });
+    return { contacts, interactions };
+  }
+}
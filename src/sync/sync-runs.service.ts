@@ -0,0 +1,260 @@
+import {
+  Injectable,
+  NotFoundException,
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { SupabaseService } from '../database/supabase.service';
+import { LoggerService } from '../observability/logger.service';
+import type { SourceConnectionSource } from '../common/types/sources';
+import { getGoogleErrorStatus } from './google-errors';
+import type { SyncContext, SyncResult } from './sync.types';
+
+export type SyncRunStatus = 'running' | 'succeeded' | 'failed';
+export type SyncRunTrigger = 'manual' | 'backfill' | 'scheduled' | 'resync';
+
+/**
+ * Coarse reason a run failed, for support and the status endpoint; the
+ * full message is stored alongside it.
+ */
+export type SyncErrorClass =
+  | 'not_connected'
+  | 'auth_revoked'
+  | 'permission_denied'
+  | 'rate_limited'
+  | 'upstream_unavailable'
+  | 'internal';
+
+export interface SyncRunRow {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  source: SourceConnectionSource;
+  source_connection_id: string | null;
+  trigger: SyncRunTrigger;
+  status: SyncRunStatus;
+  full_sync: boolean | null;
+  added_count: number;
+  updated_count: number;
+  deleted_count: number;
+  error_class: SyncErrorClass | null;
+  error_message: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+export interface ListSyncRunsOptions {
+  limit: number;
+  offset: number;
+  source?: SourceConnectionSource;
+  status?: SyncRunStatus;
+}
+
+export interface SourceSyncStatus {
+  source: SourceConnectionSource;
+  lastRun: SyncRunRow | null;
+  lastSucceededAt: string | null;
+}
+
+const RUN_COLUMNS =
+  'id, tenant_id, user_id, source, source_connection_id, trigger, status, full_sync, added_count, updated_count, deleted_count, error_class, error_message, started_at, finished_at';
+const ERROR_MESSAGE_MAX_LENGTH = 2000;
+
+export function classifySyncError(error: unknown): SyncErrorClass {
+  if (error instanceof NotFoundException) return 'not_connected';
+  if (error instanceof UnauthorizedException) return 'auth_revoked';
+  if (error instanceof ServiceUnavailableException) {
+    return 'upstream_unavailable';
+  }
+
+  const status = getGoogleErrorStatus(error);
+  const message = error instanceof Error ? error.message : String(error);
+  if (status === 401 || /invalid_grant/i.test(message)) return 'auth_revoked';
+  if (status === 403) return 'permission_denied';
+  if (status === 429) return 'rate_limited';
+  if (status !== null && status >= 500) return 'upstream_unavailable';
+  return 'internal';
+}
+
+/**
+ * History of connector runs. Recording is best effort: a sync must not fail
+ * because its history row could not be written, so write errors are logged
+ * and swallowed.
+ */
+@Injectable()
+export class SyncRunsService {
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  async start(
+    context: Omit<SyncContext, 'connectionId'> & {
+      connectionId: string | null;
+    },
+    trigger: SyncRunTrigger,
+  ): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('sync_runs')
+      .insert({
+        tenant_id: context.tenantId,
+        user_id: context.userId,
+        source: context.source,
+        source_connection_id: context.connectionId,
+        trigger,
+        status: 'running',
+      })
+      .select('id')
+      .single<{ id: string }>();
+
+    if (error) {
+      this.logger.warn('Failed to record sync run', {
+        userId: context.userId,
+        source: context.source,
+        error: error.message,
+      });
+      return null;
+    }
+    return data.id;
+  }
+
+  async succeed(runId: string | null, result: SyncResult): Promise<void> {
+    await this.finish(runId, {
+      status: 'succeeded',
+      full_sync: result.fullSync,
+      added_count: result.added,
+      updated_count: result.updated,
+      deleted_count: result.deleted,
+    });
+  }
+
+  async fail(runId: string | null, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    await this.finish(runId, {
+      status: 'failed',
+      error_class: classifySyncError(error),
+      error_message: message.slice(0, ERROR_MESSAGE_MAX_LENGTH),
+    });
+  }
+
+  async list(
+    tenantId: string,
+    userId: string,
+    options: ListSyncRunsOptions,
+  ): Promise<{ runs: SyncRunRow[]; total: number }> {
+    let query = this.supabase
+      .getClient()
+      .from('sync_runs')
+      .select(RUN_COLUMNS, { count: 'exact' })
+      .eq('tenant_id', tenantId)
+      .eq('user_id', userId);
+
+    if (options.source) {
+      query = query.eq('source', options.source);
+    }
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
+
+    const { data, error, count } = await query
+      .order('started_at', { ascending: false })
+      .range(options.offset, options.offset + options.limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to list sync runs: ${error.message}`);
+    }
+    return { runs: (data ?? []) as SyncRunRow[], total: count ?? 0 };
+  }
+
+  async get(tenantId: string, userId: string, id: string): Promise<SyncRunRow> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('sync_runs')
+      .select(RUN_COLUMNS)
+      .eq('tenant_id', tenantId)
+      .eq('user_id', userId)
+      .eq('id', id)
+      .maybeSingle<SyncRunRow>();
+
+    if (error) {
+      throw new Error(`Failed to load sync run: ${error.message}`);
+    }
+    if (!data) {
+      throw new NotFoundException(`Sync run ${id} not found`);
+    }
+    return data;
+  }
+
+  /**
+   * The latest run and the latest successful run of each source.
+   */
+  async getSourceStatuses(
+    tenantId: string,
+    userId: string,
+    sources: SourceConnectionSource[],
+  ): Promise<SourceSyncStatus[]> {
+    return Promise.all(
+      sources.map(async (source) => {
+        const [lastRun, lastSucceeded] = await Promise.all([
+          this.latest(tenantId, userId, source),
+          this.latest(tenantId, userId, source, 'succeeded'),
+        ]);
+        return {
+          source,
+          lastRun,
+          lastSucceededAt: lastSucceeded?.finished_at ?? null,
+        };
+      }),
+    );
+  }
+
+  private async latest(
+    tenantId: string,
+    userId: string,
+    source: SourceConnectionSource,
+    status?: SyncRunStatus,
+  ): Promise<SyncRunRow | null> {
+    let query = this.supabase
+      .getClient()
+      .from('sync_runs')
+      .select(RUN_COLUMNS)
+      .eq('tenant_id', tenantId)
+      .eq('user_id', userId)
+      .eq('source', source);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle<SyncRunRow>();
+
+    if (error) {
+      throw new Error(`Failed to load sync runs: ${error.message}`);
+    }
+    return data;
+  }
+
+  private async finish(
+    runId: string | null,
+    fields: Partial<SyncRunRow>,
+  ): Promise<void> {
+    if (!runId) return;
+
+    const { error } = await this.supabase
+      .getClient()
+      .from('sync_runs')
+      .update({ ...fields, finished_at: new Date().toISOString() })
+      .eq('id', runId);
+
+    if (error) {
+      this.logger.warn('Failed to record sync run result', {
+        runId,
+        error: error.message,
+      });
+    }
+  }
+}
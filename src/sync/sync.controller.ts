@@ -0,0 +1,155 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AuthGuard } from '../common/guards/auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { RequirePermission } from '../common/decorators/roles.decorator';
+import { Permissions } from '../tenants/permissions';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../common/decorators/current-user.decorator';
+import type { SourceConnectionSource } from '../common/types/sources';
+import { JobsService } from '../jobs/jobs.service';
+import { SyncService } from './sync.service';
+import { SyncRunsService } from './sync-runs.service';
+import { ListSyncRunsQueryDto } from './dto/sync.dto';
+
+@ApiTags('Sync')
+@Controller('sync')
+export class SyncController {
+  constructor(
+    private readonly syncService: SyncService,
+    private readonly syncRunsService: SyncRunsService,
+    private readonly jobsService: JobsService,
+  ) {}
+
+  @Get('runs')
+  @UseGuards(AuthGuard, RolesGuard)
+  @RequirePermission(Permissions.NETWORK_READ)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List sync runs, newest first' })
+  async listRuns(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: ListSyncRunsQueryDto,
+  ) {
+    const { runs, total } = await this.syncRunsService.list(
+      user.tenantId,
+      user.id,
+      {
+        limit: query.limit,
+        offset: query.offset,
+        source: query.source,
+        status: query.status,
+      },
+    );
+
+    return {
+      statusCode: HttpStatus.OK,
+      data: { runs, total, limit: query.limit, offset: query.offset },
+    };
+  }
+
+  @Get('runs/:id')
+  @UseGuards(AuthGuard, RolesGuard)
+  @RequirePermission(Permissions.NETWORK_READ)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get one sync run' })
+  async getRun(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    const run = await this.syncRunsService.get(user.tenantId, user.id, id);
+    return { statusCode: HttpStatus.OK, data: run };
+  }
+
+  @Get('status')
+  @UseGuards(AuthGuard, RolesGuard)
+  @RequirePermission(Permissions.NETWORK_READ)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Latest run and last successful sync of each source',
+  })
+  async getStatus(@CurrentUser() user: AuthenticatedUser) {
+    const sources = await this.syncRunsService.getSourceStatuses(
+      user.tenantId,
+      user.id,
+      this.syncService.getSupportedSources(),
+    );
+    return { statusCode: HttpStatus.OK, data: { sources } };
+  }
+
+  @Post(':source')
+  @UseGuards(AuthGuard, RolesGuard)
+  @RequirePermission(Permissions.SOURCES_MANAGE)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Queue an incremental sync of a connected source' })
+  @ApiParam({ name: 'source', example: 'google_contacts' })
+  async syncSource(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('source') source: string,
+  ) {
+    await this.jobsService.requestSync(
+      user.tenantId,
+      user.id,
+      this.assertSupported(source),
+      'manual',
+    );
+
+    return {
+      statusCode: HttpStatus.ACCEPTED,
+      message: 'Sync queued',
+      data: { source },
+    };
+  }
+
+  @Post(':source/resync')
+  @UseGuards(AuthGuard, RolesGuard)
+  @RequirePermission(Permissions.SOURCES_MANAGE)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Queue a full resync of a source, ignoring its stored cursor',
+  })
+  @ApiParam({ name: 'source', example: 'google_contacts' })
+  async resyncSource(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('source') source: string,
+  ) {
+    await this.jobsService.requestSync(
+      user.tenantId,
+      user.id,
+      this.assertSupported(source),
+      'resync',
+    );
+
+    return {
+      statusCode: HttpStatus.ACCEPTED,
+      message: 'Resync queued',
+      data: { source },
+    };
+  }
+
+  private assertSupported(source: string): SourceConnectionSource {
+    if (!this.syncService.isSupported(source)) {
+      throw new BadRequestException(
+        `Unsupported source. Expected one of: ${this.syncService.getSupportedSources().join(', ')}`,
+      );
+    }
+    return source;
+  }
+}
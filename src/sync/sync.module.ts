@@ -0,0 +1,49 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { ContactsModule } from '../contacts/contacts.module';
+import { GraphModule } from '../graph/graph.module';
+import { IdentityModule } from '../identity/identity.module';
+import { InteractionsModule } from '../interactions/interactions.module';
+import { ScoringModule } from '../scoring/scoring.module';
+import { CheckpointService } from './checkpoint.service';
+import { GoogleContactsConnector } from './connectors/google-contacts.connector';
+import { GmailConnector } from './connectors/gmail.connector';
+import { GoogleCalendarConnector } from './connectors/google-calendar.connector';
+import { SyncController } from './sync.controller';
+import { SyncRunsService } from './sync-runs.service';
+import { SyncService } from './sync.service';
+import { SourcePurgeService } from './source-purge.service';
+import { SOURCE_CONNECTORS } from './sync.types';
+import type { SourceConnector } from './sync.types';
+
+@Module({
+  imports: [
+    AuthModule,
+    ContactsModule,
+    GraphModule,
+    IdentityModule,
+    InteractionsModule,
+    ScoringModule,
+  ],
+  controllers: [SyncController],
+  providers: [
+    CheckpointService,
+    GoogleContactsConnector,
+    GmailConnector,
+    GoogleCalendarConnector,
+    {
+      provide: SOURCE_CONNECTORS,
+      useFactory: (...connectors: SourceConnector[]) => connectors,
+      inject: [
+        GoogleContactsConnector,
+        GmailConnector,
+        GoogleCalendarConnector,
+      ],
+    },
+    SyncRunsService,
+    SyncService,
+    SourcePurgeService,
+  ],
+  exports: [SyncService, CheckpointService, SourcePurgeService],
+})
+export class SyncModule {}
@@ -0,0 +1,196 @@
+import {
+  HttpException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../database/supabase.service';
+import { LoggerService } from '../observability/logger.service';
+import { PosthogService } from '../observability/posthog.service';
+import { SentryService } from '../observability/sentry.service';
+import { PostHogEvents } from '../common/types/events';
+import { ConnectionHealthService } from '../auth/connection-health.service';
+import { GraphProjectionService } from '../graph/graph-projection.service';
+import { IdentityService } from '../identity/identity.service';
+import { JobsService } from '../jobs/jobs.service';
+import { ScoringService } from '../scoring/scoring.service';
+import type { SourceConnectionSource } from '../common/types/sources';
+import { CheckpointService } from './checkpoint.service';
+import { SyncRunsService } from './sync-runs.service';
+import type { SyncRunTrigger } from './sync-runs.service';
+import { SOURCE_CONNECTORS } from './sync.types';
+import type {
+  DerivedDataRequest,
+  SourceConnector,
+  SyncContext,
+  SyncResult,
+} from './sync.types';
+
+@Injectable()
+export class SyncService {
+  private readonly connectors: Map<SourceConnectionSource, SourceConnector>;
+
+  constructor(
+    @Inject(SOURCE_CONNECTORS) connectors: SourceConnector[],
+    private readonly supabase: SupabaseService,
+    private readonly jobs: JobsService,
+    private readonly checkpoints: CheckpointService,
+    private readonly runs: SyncRunsService,
+    private readonly connectionHealth: ConnectionHealthService,
+    private readonly identity: IdentityService,
+    private readonly scoring: ScoringService,
+    private readonly graph: GraphProjectionService,
+    private readonly logger: LoggerService,
+    private readonly posthog: PosthogService,
+    private readonly sentry: SentryService,
+  ) {
+    this.connectors = new Map(
+      connectors.map((connector) => [connector.source, connector]),
+    );
+  }
+
+  /**
+   * Sources that have a connector registered
+   */
+  getSupportedSources(): SourceConnectionSource[] {
+    return [...this.connectors.keys()];
+  }
+
+  isSupported(source: string): source is SourceConnectionSource {
+    return this.connectors.has(source as SourceConnectionSource);
+  }
+
+  /**
+   * Run the connector for a user's active connection to a source. Every
+   * run, including one that finds no active connection, is recorded in
+   * `sync_runs`. With `fullResync` the checkpoint is dropped first, so the
+   * connector pulls everything again.
+   */
+  async syncSource(
+    tenantId: string,
+    userId: string,
+    source: SourceConnectionSource,
+    options: { trigger?: SyncRunTrigger; fullResync?: boolean } = {},
+  ): Promise<SyncResult> {
+    const connector = this.connectors.get(source);
+    if (!connector) {
+      throw new NotFoundException(`No connector registered for ${source}`);
+    }
+
+    const { data: connection, error } = await this.supabase
+      .getClient()
+      .from('source_connections')
+      .select('id')
+      .eq('tenant_id', tenantId)
+      .eq('user_id', userId)
+      .eq('source', source)
+      .eq('status', 'active')
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle<{ id: string }>();
+
+    const trigger = options.trigger ?? 'manual';
+    const runId = await this.runs.start(
+      { tenantId, userId, source, connectionId: connection?.id ?? null },
+      trigger,
+    );
+
+    if (error || !connection) {
+      const notConnected = new NotFoundException(
+        `No active ${source} connection`,
+      );
+      await this.runs.fail(runId, notConnected);
+      throw notConnected;
+    }
+
+    const context: SyncContext = {
+      tenantId,
+      userId,
+      source,
+      connectionId: connection.id,
+    };
+
+    this.logger.info('Sync started', { userId, source, trigger });
+    const startedAt = new Date();
+
+    try {
+      if (options.fullResync) {
+        await this.checkpoints.clear(context);
+      }
+      const result = await connector.sync(context);
+      await this.runs.succeed(runId, result);
+
+      this.logger.info('Sync completed', { userId, source, ...result });
+      this.posthog.capture(userId, PostHogEvents.SYNC_COMPLETED, {
+        source,
+        added: result.added,
+        updated: result.updated,
+        deleted: result.deleted,
+        fullSync: result.fullSync,
+      });
+
+      if (result.added + result.updated + result.deleted > 0) {
+        await this.refreshDerivedData(tenantId, userId, {
+          contactsChanged: connector.writesContacts,
+          since: startedAt,
+          source,
+        });
+      }
+
+      return result;
+    } catch (syncError) {
+      await this.runs.fail(runId, syncError);
+      // HttpExceptions come from our own code (getAuthenticatedClient
+      // already reported its failure); anything else is an upstream error
+      // that may mean the connection is dead.
+      if (!(syncError instanceof HttpException)) {
+        await this.connectionHealth.reportFailure(
+          { tenantId, userId, sources: [source] },
+          syncError,
+        );
+      }
+      this.sentry.captureException(syncError, {
+        userId,
+        source,
+        context: 'sync',
+      });
+      this.logger.error('Sync failed', {
+        userId,
+        source,
+        error:
+          syncError instanceof Error ? syncError.message : String(syncError),
+      });
+      throw syncError;
+    }
+  }
+
+  /**
+   * Queue a rebuild of the persons, relationship scores and graph projection
+   * derived from a user's data after new data landed. It runs as its own job
+   * so that syncs of different connections in a tenant do not resolve
+   * identities at the same time.
+   */
+  async refreshDerivedData(
+    tenantId: string,
+    userId: string,
+    options: { contactsChanged: boolean; since?: Date; source?: string },
+  ): Promise<void> {
+    await this.jobs.requestDerivedDataRefresh(tenantId, userId, options);
+  }
+
+  /**
+   * Bring persons, relationship scores and the graph projection up to date
+   * for the users in `requests`. Identity resolution runs once for the
+   * tenant, since new interactions bring new participants.
+   */
+  async rebuildDerivedData(
+    tenantId: string,
+    requests: DerivedDataRequest[],
+  ): Promise<void> {
+    await this.identity.resolveTenant(tenantId);
+    for (const { userId, since } of requests) {
+      await this.scoring.recompute(tenantId, userId, since);
+      await this.graph.projectUser(tenantId, userId);
+    }
+  }
+}
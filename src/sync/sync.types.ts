@@ -0,0 +1,41 @@
+import type { SourceConnectionSource } from '../common/types/sources';
+
+/**
+ * The source connection a connector run is working on.
+ */
+export interface SyncContext {
+  tenantId: string;
+  userId: string;
+  source: SourceConnectionSource;
+  connectionId: string;
+}
+
+export interface SyncResult {
+  added: number;
+  updated: number;
+  deleted: number;
+  /** True when the run ignored the stored cursor and pulled everything. */
+  fullSync: boolean;
+}
+
+/**
+ * One user's derived data to rebuild. With `since`, only persons on
+ * interactions changed after it are rescored.
+ */
+export interface DerivedDataRequest {
+  userId: string;
+  since?: Date;
+}
+
+/**
+ * A connector pulls one source into the local stores and advances the
+ * source's checkpoint. Connectors are registered with `SyncService`.
+ */
+export interface SourceConnector {
+  readonly source: SourceConnectionSource;
+  /** Whether the connector writes contacts, which need identity resolution. */
+  readonly writesContacts: boolean;
+  sync(context: SyncContext): Promise<SyncResult>;
+}
+
+export const SOURCE_CONNECTORS = Symbol('SOURCE_CONNECTORS');
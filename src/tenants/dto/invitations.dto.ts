@@ -0,0 +1,28 @@
+import { IsEmail, IsIn, IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { INVITABLE_ROLES } from '../tenants.types';
+import type { InvitableRole } from '../tenants.types';
+
+export class CreateInvitationDto {
+  @ApiProperty({
+    description: 'Email address to invite',
+    example: 'teammate@example.com',
+  })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({
+    description: 'Role the invitee gets on accepting',
+    enum: INVITABLE_ROLES,
+    example: 'member',
+  })
+  @IsIn(INVITABLE_ROLES)
+  role: InvitableRole;
+}
+
+export class InvitationTokenDto {
+  @ApiProperty({ description: 'Token from the invitation link' })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
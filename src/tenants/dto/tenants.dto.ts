@@ -0,0 +1,14 @@
+import { IsString, Matches, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateWorkspaceDto {
+  @ApiProperty({
+    description: 'Workspace name',
+    example: 'Acme Ventures',
+    maxLength: 100,
+  })
+  @IsString()
+  @Matches(/\S/, { message: 'name must not be blank' })
+  @MaxLength(100)
+  name: string;
+}
@@ -0,0 +1,145 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthGuard } from '../common/guards/auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { RateLimitGuard } from '../common/guards/rate-limit.guard';
+import { RequirePermission } from '../common/decorators/roles.decorator';
+import { RateLimit } from '../common/decorators/rate-limit.decorator';
+import { Public } from '../common/decorators/public.decorator';
+import { InteractiveOnly } from '../common/decorators/interactive-only.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../common/decorators/current-user.decorator';
+import { Permissions } from './permissions';
+import { InvitationsService } from './invitations.service';
+import { CreateInvitationDto, InvitationTokenDto } from './dto/invitations.dto';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+@ApiTags('Workspaces')
+@Controller('invitations')
+export class InvitationsController {
+  constructor(private readonly invitationsService: InvitationsService) {}
+
+  @Post()
+  @UseGuards(AuthGuard, RolesGuard, RateLimitGuard)
+  @RequirePermission(Permissions.MEMBERS_MANAGE)
+  @RateLimit({ name: 'invitations', by: 'ip', limit: 30, windowMs: HOUR_MS })
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Invite someone to the active workspace by email' })
+  async invite(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: CreateInvitationDto,
+  ) {
+    const { invitation, emailSent } = await this.invitationsService.invite(
+      user,
+      user.tenantId,
+      dto.email,
+      dto.role,
+    );
+    return {
+      statusCode: HttpStatus.CREATED,
+      data: { ...invitation, emailSent },
+    };
+  }
+
+  @Get()
+  @UseGuards(AuthGuard, RolesGuard)
+  @RequirePermission(Permissions.MEMBERS_MANAGE)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List pending invitations of the active workspace' })
+  async listInvitations(@CurrentUser() user: AuthenticatedUser) {
+    const invitations = await this.invitationsService.listPending(
+      user.tenantId,
+    );
+    return { statusCode: HttpStatus.OK, data: { invitations } };
+  }
+
+  @Get('preview')
+  @Public()
+  @ApiOperation({
+    summary: 'Look up an invitation from its link before signing in',
+  })
+  async previewInvitation(@Query() query: InvitationTokenDto) {
+    const invitation = await this.invitationsService.preview(query.token);
+    return { statusCode: HttpStatus.OK, data: invitation };
+  }
+
+  @Post('accept')
+  @InteractiveOnly()
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Accept an invitation and join its workspace' })
+  async acceptInvitation(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: InvitationTokenDto,
+  ) {
+    const workspace = await this.invitationsService.accept(user, dto.token);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Invitation accepted',
+      data: workspace,
+    };
+  }
+
+  @Post('decline')
+  @InteractiveOnly()
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Decline an invitation' })
+  async declineInvitation(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: InvitationTokenDto,
+  ) {
+    await this.invitationsService.decline(user, dto.token);
+    return { statusCode: HttpStatus.OK, message: 'Invitation declined' };
+  }
+
+  @Post(':id/resend')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(AuthGuard, RolesGuard, RateLimitGuard)
+  @RequirePermission(Permissions.MEMBERS_MANAGE)
+  @RateLimit({ name: 'invitations', by: 'ip', limit: 30, windowMs: HOUR_MS })
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Email a fresh link for a pending invitation' })
+  async resendInvitation(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    const { invitation, emailSent } = await this.invitationsService.resend(
+      user,
+      user.tenantId,
+      id,
+    );
+    return {
+      statusCode: HttpStatus.OK,
+      data: { ...invitation, emailSent },
+    };
+  }
+
+  @Delete(':id')
+  @UseGuards(AuthGuard, RolesGuard)
+  @RequirePermission(Permissions.MEMBERS_MANAGE)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Revoke a pending invitation' })
+  async revokeInvitation(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    await this.invitationsService.revoke(user.tenantId, id);
+    return { statusCode: HttpStatus.OK, message: 'Invitation revoked' };
+  }
+}
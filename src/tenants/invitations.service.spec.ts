@@ -0,0 +1,223 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { RefreshTokensService } from '../auth/refresh-tokens.service';
+import { SessionService } from '../auth/session.service';
+import { UserSessionsService } from '../auth/user-sessions.service';
+import { SupabaseService } from '../database/supabase.service';
+import { CaptureMailTransport } from '../mail/capture-mail.transport';
+import { MAIL_TRANSPORT } from '../mail/mail.types';
+import { LoggerService } from '../observability/logger.service';
+import { PosthogService } from '../observability/posthog.service';
+import { SentryService } from '../observability/sentry.service';
+import { FakeSupabase } from '../testing/fake-supabase';
+import { InvitationsService } from './invitations.service';
+import { TenantsService } from './tenants.service';
+import type { Workspace } from './tenants.types';
+
+const TENANT_ID = 'tenant-1';
+const OWNER = { id: 'user-1', email: 'owner@example.com' };
+const INVITEE = { id: 'user-2', email: 'Jane@Example.com' };
+
+const WORKSPACE: Workspace = {
+  id: TENANT_ID,
+  name: 'Acme',
+  plan: 'free',
+  role: 'owner',
+  isPersonal: false,
+  createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+describe('InvitationsService', () => {
+  let supabase: FakeSupabase;
+  let mail: CaptureMailTransport;
+  let tenants: {
+    hasMemberWithEmail: jest.Mock;
+    get: jest.Mock;
+    join: jest.Mock;
+  };
+  let service: InvitationsService;
+
+  beforeEach(async () => {
+    const now = new Date().toISOString();
+    supabase = new FakeSupabase()
+      .seed('tenants', [{ tenant_id: TENANT_ID, name: 'Acme' }])
+      .withDefaults('tenant_invitations', () => ({
+        status: 'pending',
+        send_count: 1,
+        last_sent_at: now,
+        created_at: now,
+      }))
+      // One pending invitation per address, as the migration enforces
+      .withUnique(
+        'tenant_invitations',
+        (row, other) =>
+          other.status === 'pending' &&
+          other.tenant_id === row.tenant_id &&
+          other.email === row.email,
+      );
+    mail = new CaptureMailTransport();
+    tenants = {
+      hasMemberWithEmail: jest.fn().mockResolvedValue(false),
+      get: jest.fn().mockResolvedValue(WORKSPACE),
+      join: jest.fn().mockResolvedValue({ ...WORKSPACE, role: 'member' }),
+    };
+    const settings: Record<string, string> = {
+      SESSION_SECRET: 'test-secret',
+      FRONTEND_URL: 'https://app.example.com',
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        InvitationsService,
+        SessionService,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => settings[key] },
+        },
+        { provide: SupabaseService, useValue: supabase.service() },
+        { provide: TenantsService, useValue: tenants },
+        { provide: MAIL_TRANSPORT, useValue: mail },
+        { provide: UserSessionsService, useValue: {} },
+        { provide: RefreshTokensService, useValue: {} },
+        {
+          provide: LoggerService,
+          useValue: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+        { provide: PosthogService, useValue: { capture: jest.fn() } },
+        { provide: SentryService, useValue: { captureException: jest.fn() } },
+      ],
+    }).compile();
+    service = moduleRef.get(InvitationsService);
+  });
+
+  /** The token in the link of the last email to `to`. */
+  function tokenSentTo(to: string): string {
+    const match = /\/invitations\?token=(\S+)/.exec(
+      mail.lastTo(to)?.text ?? '',
+    );
+    if (!match) throw new Error(`No invitation link sent to ${to}`);
+    return decodeURIComponent(match[1]);
+  }
+
+  it('emails a link the invitee can accept', async () => {
+    const { invitation, emailSent } = await service.invite(
+      OWNER,
+      TENANT_ID,
+      INVITEE.email,
+      'member',
+    );
+
+    expect(emailSent).toBe(true);
+    expect(invitation).toMatchObject({
+      email: 'jane@example.com',
+      role: 'member',
+      status: 'pending',
+    });
+    expect(mail.lastTo('jane@example.com')).toMatchObject({
+      subject: 'owner@example.com invited you to Acme on Kue',
+    });
+    expect(mail.lastTo('jane@example.com')?.text).toContain(
+      'join the Acme workspace on Kue as a member',
+    );
+
+    const token = tokenSentTo('jane@example.com');
+    await expect(service.preview(token)).resolves.toMatchObject({
+      email: 'jane@example.com',
+      status: 'pending',
+      workspace: { id: TENANT_ID, name: 'Acme' },
+    });
+
+    await service.accept(INVITEE, token);
+
+    expect(tenants.join).toHaveBeenCalledWith(
+      TENANT_ID,
+      INVITEE.id,
+      'jane@example.com',
+      'member',
+    );
+    expect(supabase.rows('tenant_invitations')[0]).toMatchObject({
+      status: 'accepted',
+      responded_by: INVITEE.id,
+    });
+    await expect(service.accept(INVITEE, token)).rejects.toBeInstanceOf(
+      ConflictException,
+    );
+  });
+
+  it('supersedes the previous link on resend', async () => {
+    const { invitation } = await service.invite(
+      OWNER,
+      TENANT_ID,
+      INVITEE.email,
+      'admin',
+    );
+    const first = tokenSentTo('jane@example.com');
+
+    const resent = await service.resend(OWNER, TENANT_ID, invitation.id);
+    const second = tokenSentTo('jane@example.com');
+
+    expect(mail.sent).toHaveLength(2);
+    expect(mail.sent[1].text).toContain('as an admin');
+    expect(resent.invitation.sendCount).toBe(2);
+    await expect(service.preview(first)).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+    await expect(service.preview(second)).resolves.toMatchObject({
+      role: 'admin',
+    });
+  });
+
+  it('only lets the invited address accept', async () => {
+    await service.invite(OWNER, TENANT_ID, INVITEE.email, 'viewer');
+
+    await expect(
+      service.accept(
+        { id: 'user-3', email: 'bob@example.com' },
+        tokenSentTo('jane@example.com'),
+      ),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(tenants.join).not.toHaveBeenCalled();
+  });
+
+  it('rejects a forged link', async () => {
+    await service.invite(OWNER, TENANT_ID, INVITEE.email, 'member');
+
+    await expect(
+      service.preview(`${tokenSentTo('jane@example.com')}x`),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('keeps the invitation when the email cannot be sent', async () => {
+    jest.spyOn(mail, 'send').mockRejectedValueOnce(new Error('mail is down'));
+
+    const { emailSent } = await service.invite(
+      OWNER,
+      TENANT_ID,
+      INVITEE.email,
+      'member',
+    );
+
+    expect(emailSent).toBe(false);
+    expect(mail.sent).toEqual([]);
+    await expect(service.listPending(TENANT_ID)).resolves.toHaveLength(1);
+  });
+
+  it('does not invite members or addresses already invited', async () => {
+    await service.invite(OWNER, TENANT_ID, INVITEE.email, 'member');
+    await expect(
+      service.invite(OWNER, TENANT_ID, 'jane@example.com', 'viewer'),
+    ).rejects.toBeInstanceOf(ConflictException);
+
+    tenants.hasMemberWithEmail.mockResolvedValue(true);
+    await expect(
+      service.invite(OWNER, TENANT_ID, 'bob@example.com', 'member'),
+    ).rejects.toBeInstanceOf(ConflictException);
+
+    expect(mail.sent).toHaveLength(1);
+  });
+});
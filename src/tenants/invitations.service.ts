@@ -0,0 +1,419 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { SupabaseService } from '../database/supabase.service';
+import { LoggerService } from '../observability/logger.service';
+import { PosthogService } from '../observability/posthog.service';
+import { SentryService } from '../observability/sentry.service';
+import { PostHogEvents } from '../common/types/events';
+import { SessionService } from '../auth/session.service';
+import { MAIL_TRANSPORT } from '../mail/mail.types';
+import type { MailTransport } from '../mail/mail.types';
+import { TenantsService } from './tenants.service';
+import type {
+  InvitableRole,
+  Invitation,
+  InvitationStatus,
+  Workspace,
+} from './tenants.types';
+
+interface InvitationRow {
+  id: string;
+  tenant_id: string;
+  email: string;
+  role: InvitableRole;
+  status: InvitationStatus;
+  token_nonce: string;
+  invited_by: string;
+  expires_at: string;
+  send_count: number;
+  last_sent_at: string;
+  created_at: string;
+}
+
+export interface InviteResult {
+  invitation: Invitation;
+  /** False when the email could not be sent; the invitation still stands. */
+  emailSent: boolean;
+}
+
+/** What an invitee sees before accepting, looked up by token. */
+export interface InvitationPreview {
+  email: string;
+  role: InvitableRole;
+  status: InvitationStatus;
+  expiresAt: string;
+  workspace: { id: string; name: string };
+}
+
+/** How long an invitation link stays valid; resending restarts it. */
+export const INVITATION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const INVITATION_COLUMNS =
+  'id, tenant_id, email, role, status, token_nonce, invited_by, expires_at, send_count, last_sent_at, created_at';
+const NONCE_BYTES = 16;
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Email invitations into a workspace. The link carries a signed token that
+ * names the invitation; the invitee signs in through the usual OTP or
+ * Google flow and then accepts or declines it.
+ */
+@Injectable()
+export class InvitationsService {
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly tenants: TenantsService,
+    private readonly sessionService: SessionService,
+    private readonly config: ConfigService,
+    @Inject(MAIL_TRANSPORT) private readonly mail: MailTransport,
+    private readonly logger: LoggerService,
+    private readonly posthog: PosthogService,
+    private readonly sentry: SentryService,
+  ) {}
+
+  async invite(
+    inviter: { id: string; email: string },
+    tenantId: string,
+    email: string,
+    role: InvitableRole,
+  ): Promise<InviteResult> {
+    const address = normalizeEmail(email);
+
+    if (await this.tenants.hasMemberWithEmail(tenantId, address)) {
+      throw new ConflictException(`${address} is already a member`);
+    }
+
+    const { data: row, error } = await this.supabase
+      .getClient()
+      .from('tenant_invitations')
+      .insert({
+        tenant_id: tenantId,
+        email: address,
+        role,
+        token_nonce: randomBytes(NONCE_BYTES).toString('base64url'),
+        invited_by: inviter.id,
+        expires_at: this.nextExpiry().toISOString(),
+      })
+      .select(INVITATION_COLUMNS)
+      .single<InvitationRow>();
+
+    if (error?.code === '23505') {
+      throw new ConflictException(
+        `An invitation for ${address} is already pending; resend it instead`,
+      );
+    }
+    if (error) {
+      throw new Error(`Failed to create invitation: ${error.message}`);
+    }
+
+    this.posthog.capture(inviter.id, PostHogEvents.INVITATION_SENT, {
+      tenantId,
+      role,
+    });
+    this.logger.info('Invitation created', {
+      tenantId,
+      invitationId: row.id,
+      role,
+    });
+
+    const emailSent = await this.sendInvitation(row, inviter);
+    return { invitation: toInvitation(row), emailSent };
+  }
+
+  /**
+   * Open invitations of the workspace, newest first
+   */
+  async listPending(tenantId: string): Promise<Invitation[]> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('tenant_invitations')
+      .select(INVITATION_COLUMNS)
+      .eq('tenant_id', tenantId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load invitations: ${error.message}`);
+    }
+    return ((data ?? []) as InvitationRow[]).map(toInvitation);
+  }
+
+  /**
+   * Email a fresh link. The previous link stops working and the expiry
+   * restarts, so this also revives an expired invitation.
+   */
+  async resend(
+    inviter: { id: string; email: string },
+    tenantId: string,
+    invitationId: string,
+  ): Promise<InviteResult> {
+    const current = await this.findPending(tenantId, invitationId);
+
+    const { data: row, error } = await this.supabase
+      .getClient()
+      .from('tenant_invitations')
+      .update({
+        token_nonce: randomBytes(NONCE_BYTES).toString('base64url'),
+        expires_at: this.nextExpiry().toISOString(),
+        send_count: current.send_count + 1,
+        last_sent_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', current.id)
+      .eq('status', 'pending')
+      .select(INVITATION_COLUMNS)
+      .maybeSingle<InvitationRow>();
+
+    if (error) {
+      throw new Error(`Failed to resend invitation: ${error.message}`);
+    }
+    if (!row) {
+      throw new ConflictException('Invitation is no longer pending');
+    }
+
+    const emailSent = await this.sendInvitation(row, inviter);
+    return { invitation: toInvitation(row), emailSent };
+  }
+
+  async revoke(tenantId: string, invitationId: string): Promise<void> {
+    const current = await this.findPending(tenantId, invitationId);
+    await this.respond(current, 'revoked', null);
+    this.logger.info('Invitation revoked', { tenantId, invitationId });
+  }
+
+  /**
+   * Look up an invitation by the token in its link, without signing in
+   */
+  async preview(token: string): Promise<InvitationPreview> {
+    const row = await this.findByToken(token);
+    const { data: tenant, error } = await this.supabase
+      .getClient()
+      .from('tenants')
+      .select('name')
+      .eq('tenant_id', row.tenant_id)
+      .maybeSingle<{ name: string }>();
+
+    if (error) {
+      throw new Error(`Failed to load workspace: ${error.message}`);
+    }
+
+    return {
+      email: row.email,
+      role: row.role,
+      status: row.status,
+      expiresAt: row.expires_at,
+      workspace: { id: row.tenant_id, name: tenant?.name ?? '' },
+    };
+  }
+
+  /**
+   * Join the workspace as the invited role. The signed-in user must own
+   * the invited address.
+   */
+  async accept(
+    user: { id: string; email: string },
+    token: string,
+  ): Promise<Workspace> {
+    const row = await this.findOpenForUser(user, token);
+
+    // Joining is idempotent, so a failure here leaves the invitation usable
+    const workspace = await this.tenants.join(
+      row.tenant_id,
+      user.id,
+      normalizeEmail(user.email),
+      row.role,
+    );
+    await this.respond(row, 'accepted', user.id);
+
+    this.posthog.capture(user.id, PostHogEvents.INVITATION_ACCEPTED, {
+      tenantId: row.tenant_id,
+      role: row.role,
+    });
+    this.logger.info('Invitation accepted', {
+      userId: user.id,
+      tenantId: row.tenant_id,
+      invitationId: row.id,
+    });
+    return workspace;
+  }
+
+  async decline(
+    user: { id: string; email: string },
+    token: string,
+  ): Promise<void> {
+    const row = await this.findOpenForUser(user, token);
+    await this.respond(row, 'declined', user.id);
+    this.logger.info('Invitation declined', {
+      userId: user.id,
+      tenantId: row.tenant_id,
+      invitationId: row.id,
+    });
+  }
+
+  private async findPending(
+    tenantId: string,
+    invitationId: string,
+  ): Promise<InvitationRow> {
+    const { data: row, error } = await this.supabase
+      .getClient()
+      .from('tenant_invitations')
+      .select(INVITATION_COLUMNS)
+      .eq('tenant_id', tenantId)
+      .eq('id', invitationId)
+      .maybeSingle<InvitationRow>();
+
+    if (error) {
+      throw new Error(`Failed to load invitation: ${error.message}`);
+    }
+    if (!row) {
+      throw new NotFoundException(`Invitation ${invitationId} not found`);
+    }
+    if (row.status !== 'pending') {
+      throw new ConflictException(`Invitation is already ${row.status}`);
+    }
+    return row;
+  }
+
+  /**
+   * The invitation a link points at. Forged, expired and superseded links
+   * all read as not found.
+   */
+  private async findByToken(token: string): Promise<InvitationRow> {
+    const claims = this.sessionService.verifyInvitationToken(token);
+    if (!claims) {
+      throw new NotFoundException('Invitation link is invalid or has expired');
+    }
+
+    const { data: row, error } = await this.supabase
+      .getClient()
+      .from('tenant_invitations')
+      .select(INVITATION_COLUMNS)
+      .eq('id', claims.invitationId)
+      .maybeSingle<InvitationRow>();
+
+    if (error) {
+      throw new Error(`Failed to load invitation: ${error.message}`);
+    }
+    if (!row || row.token_nonce !== claims.nonce) {
+      throw new NotFoundException('Invitation link is invalid or has expired');
+    }
+    return row;
+  }
+
+  private async findOpenForUser(
+    user: { email: string },
+    token: string,
+  ): Promise<InvitationRow> {
+    const row = await this.findByToken(token);
+    if (row.status !== 'pending') {
+      throw new ConflictException(`Invitation is already ${row.status}`);
+    }
+    if (normalizeEmail(user.email) !== row.email) {
+      throw new ForbiddenException(
+        'This invitation was sent to a different email address',
+      );
+    }
+    return row;
+  }
+
+  /**
+   * Close a pending invitation. Only one response wins when two race.
+   */
+  private async respond(
+    row: InvitationRow,
+    status: Exclude<InvitationStatus, 'pending'>,
+    respondedBy: string | null,
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('tenant_invitations')
+      .update({
+        status,
+        responded_by: respondedBy,
+        responded_at: now,
+        updated_at: now,
+      })
+      .eq('id', row.id)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to update invitation: ${error.message}`);
+    }
+    if (!data?.length) {
+      throw new ConflictException('Invitation is no longer pending');
+    }
+  }
+
+  private async sendInvitation(
+    row: InvitationRow,
+    inviter: { id: string; email: string },
+  ): Promise<boolean> {
+    try {
+      const workspace = await this.tenants.get(inviter.id, row.tenant_id);
+      const token = this.sessionService.createInvitationToken(
+        row.id,
+        row.token_nonce,
+        new Date(row.expires_at),
+      );
+      const link = `${this.config.get<string>('FRONTEND_URL')}/invitations?token=${encodeURIComponent(token)}`;
+      const expires = new Date(row.expires_at).toUTCString();
+
+      await this.mail.send({
+        to: row.email,
+        subject: `${inviter.email} invited you to ${workspace.name} on Kue`,
+        text: [
+          `${inviter.email} invited you to join the ${workspace.name} workspace on Kue as ${row.role === 'admin' ? 'an' : 'a'} ${row.role}.`,
+          '',
+          `Accept or decline the invitation: ${link}`,
+          '',
+          `The link expires on ${expires}. If you weren't expecting it, you can ignore this email.`,
+        ].join('\n'),
+      });
+      return true;
+    } catch (error) {
+      this.sentry.captureException(error, {
+        context: 'invitation_email',
+        tenantId: row.tenant_id,
+        invitationId: row.id,
+      });
+      this.logger.error('Failed to send invitation email', {
+        tenantId: row.tenant_id,
+        invitationId: row.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  private nextExpiry(): Date {
+    return new Date(Date.now() + INVITATION_TTL_SECONDS * 1000);
+  }
+}
+
+function toInvitation(row: InvitationRow): Invitation {
+  return {
+    id: row.id,
+    tenantId: row.tenant_id,
+    email: row.email,
+    role: row.role,
+    status: row.status,
+    invitedBy: row.invited_by,
+    expiresAt: row.expires_at,
+    expired: new Date(row.expires_at).getTime() <= Date.now(),
+    sendCount: row.send_count,
+    lastSentAt: row.last_sent_at,
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,72 @@
+import { ForbiddenException } from '@nestjs/common';
+import type { TenantRole } from './tenants.types';
+
+/** Workspace roles, most privileged first. */
+export const TENANT_ROLES: readonly TenantRole[] = [
+  'owner',
+  'admin',
+  'member',
+  'viewer',
+];
+
+export const Permissions = {
+  /** Read contacts, persons, interactions, scores, the graph and search. */
+  NETWORK_READ: 'network:read',
+  /** Import, merge and unmerge contacts; rebuild scores and the graph. */
+  NETWORK_WRITE: 'network:write',
+  /** Connect, sync and disconnect data sources. */
+  SOURCES_MANAGE: 'sources:manage',
+  /** Invite, remove and change the role of workspace members. */
+  MEMBERS_MANAGE: 'members:manage',
+  /** Rename and configure the workspace. */
+  WORKSPACE_MANAGE: 'workspace:manage',
+  /** Read and export the workspace's audit log. */
+  AUDIT_READ: 'audit:read',
+  /** Delete the workspace or transfer its ownership. */
+  WORKSPACE_DELETE: 'workspace:delete',
+} as const;
+
+export type Permission = (typeof Permissions)[keyof typeof Permissions];
+
+const ROLE_PERMISSIONS: Record<TenantRole, readonly Permission[]> = {
+  owner: Object.values(Permissions),
+  admin: [
+    Permissions.NETWORK_READ,
+    Permissions.NETWORK_WRITE,
+    Permissions.SOURCES_MANAGE,
+    Permissions.MEMBERS_MANAGE,
+    Permissions.WORKSPACE_MANAGE,
+    Permissions.AUDIT_READ,
+  ],
+  member: [
+    Permissions.NETWORK_READ,
+    Permissions.NETWORK_WRITE,
+    Permissions.SOURCES_MANAGE,
+  ],
+  viewer: [Permissions.NETWORK_READ],
+};
+
+export function permissionsFor(role: TenantRole): readonly Permission[] {
+  return ROLE_PERMISSIONS[role] ?? [];
+}
+
+export function hasPermission(
+  role: TenantRole,
+  permission: Permission,
+): boolean {
+  return permissionsFor(role).includes(permission);
+}
+
+/**
+ * Throw the standard `403` for a caller whose role lacks `permission`
+ */
+export function assertPermission(
+  role: TenantRole,
+  permission: Permission,
+): void {
+  if (!hasPermission(role, permission)) {
+    throw new ForbiddenException(
+      `Your role (${role}) does not have the ${permission} permission`,
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthGuard } from '../common/guards/auth.guard';
+import { InteractiveOnly } from '../common/decorators/interactive-only.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../common/decorators/current-user.decorator';
+import { UserSessionsService } from '../auth/user-sessions.service';
+import { TenantsService } from './tenants.service';
+import { CreateWorkspaceDto } from './dto/tenants.dto';
+import { permissionsFor } from './permissions';
+
+@ApiTags('Workspaces')
+@Controller('tenants')
+export class TenantsController {
+  constructor(
+    private readonly tenantsService: TenantsService,
+    private readonly userSessions: UserSessionsService,
+  ) {}
+
+  @Get()
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List my workspaces' })
+  async listWorkspaces(@CurrentUser() user: AuthenticatedUser) {
+    const workspaces = await this.tenantsService.listForUser(user.id);
+
+    return {
+      statusCode: HttpStatus.OK,
+      data: {
+        workspaces: workspaces.map((workspace) => ({
+          ...workspace,
+          active: workspace.id === user.tenantId,
+        })),
+      },
+    };
+  }
+
+  @Post()
+  @InteractiveOnly()
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Create a team workspace' })
+  async createWorkspace(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: CreateWorkspaceDto,
+  ) {
+    const workspace = await this.tenantsService.create(
+      user.id,
+      user.email,
+      dto.name.trim(),
+    );
+    return { statusCode: HttpStatus.CREATED, data: workspace };
+  }
+
+  @Get('current')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get the workspace this request acts in and my permissions in it',
+  })
+  async getCurrentWorkspace(@CurrentUser() user: AuthenticatedUser) {
+    const workspace = await this.tenantsService.get(user.id, user.tenantId);
+    return {
+      statusCode: HttpStatus.OK,
+      data: { ...workspace, permissions: permissionsFor(workspace.role) },
+    };
+  }
+
+  @Post(':id/switch')
+  @InteractiveOnly()
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Make a workspace the active one for the current session',
+  })
+  async switchWorkspace(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    if (!user.sessionId) {
+      throw new BadRequestException(
+        'Supabase tokens have no session to switch; send X-Tenant-Id instead',
+      );
+    }
+
+    const workspace = await this.tenantsService.get(user.id, id);
+    await this.userSessions.setTenant(user.id, user.sessionId, workspace.id);
+
+    return { statusCode: HttpStatus.OK, data: workspace };
+  }
+}
@@ -0,0 +1,19 @@
+import { Global, Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { TenantsController } from './tenants.controller';
+import { InvitationsController } from './invitations.controller';
+import { InvitationsService } from './invitations.service';
+import { TenantsService } from './tenants.service';
+
+/**
+ * Global because `AuthGuard`, used by every feature module, resolves the
+ * active workspace through `TenantsService`.
+ */
+@Global()
+@Module({
+  imports: [AuthModule],
+  controllers: [TenantsController, InvitationsController],
+  providers: [TenantsService, InvitationsService],
+  exports: [TenantsService],
+})
+export class TenantsModule {}
@@ -0,0 +1,296 @@
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { SupabaseService } from '../database/supabase.service';
+import { LoggerService } from '../observability/logger.service';
+import { PosthogService } from '../observability/posthog.service';
+import { PostHogEvents } from '../common/types/events';
+import type { ActiveTenant, TenantRole, Workspace } from './tenants.types';
+
+interface MembershipRow {
+  tenant_id: string;
+  role: TenantRole;
+  created_at: string;
+  tenant: {
+    name: string;
+    plan: string;
+    is_personal: boolean;
+    created_at: string;
+  } | null;
+}
+
+const MEMBERSHIP_COLUMNS =
+  'tenant_id, role, created_at, tenant:tenants(name, plan, is_personal, created_at)';
+
+/**
+ * Workspaces (tenants) and the memberships that give users access to them.
+ * Every user has a personal workspace provisioned on first login and may
+ * belong to any number of team workspaces.
+ */
+@Injectable()
+export class TenantsService {
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly logger: LoggerService,
+    private readonly posthog: PosthogService,
+  ) {}
+
+  /**
+   * Create the user's personal workspace and membership if missing
+   */
+  async ensurePersonalWorkspace(
+    userId: string,
+    email?: string,
+    displayName?: string,
+  ): Promise<string> {
+    const tenantId = this.personalTenantId(userId);
+    const tenantName = email
+      ? `${email.split('@')[0]}'s workspace`
+      : 'My Workspace';
+
+    const { error: tenantError } = await this.supabase
+      .getClient()
+      .from('tenants')
+      .upsert(
+        {
+          tenant_id: tenantId,
+          name: tenantName,
+          plan: 'free',
+          settings_json: {},
+          is_personal: true,
+          created_by: userId,
+        },
+        { onConflict: 'tenant_id', ignoreDuplicates: true },
+      );
+
+    if (tenantError) {
+      this.logger.error('Failed to upsert tenant', {
+        userId,
+        error: tenantError.message,
+      });
+      throw new Error(`Failed to initialize tenant: ${tenantError.message}`);
+    }
+
+    await this.addMember(tenantId, userId, 'owner', email, displayName);
+    return tenantId;
+  }
+
+  /**
+   * Create a team workspace with the user as its owner
+   */
+  async create(
+    userId: string,
+    email: string,
+    name: string,
+  ): Promise<Workspace> {
+    const tenantId = `tenant_${randomUUID()}`;
+
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('tenants')
+      .insert({
+        tenant_id: tenantId,
+        name,
+        plan: 'free',
+        settings_json: {},
+        is_personal: false,
+        created_by: userId,
+      })
+      .select('created_at')
+      .single<{ created_at: string }>();
+
+    if (error) {
+      throw new Error(`Failed to create workspace: ${error.message}`);
+    }
+
+    await this.addMember(tenantId, userId, 'owner', email);
+
+    this.posthog.capture(userId, PostHogEvents.WORKSPACE_CREATED, { tenantId });
+    this.logger.info('Workspace created', { userId, tenantId });
+
+    return {
+      id: tenantId,
+      name,
+      plan: 'free',
+      role: 'owner',
+      isPersonal: false,
+      createdAt: data.created_at,
+    };
+  }
+
+  /**
+   * Workspaces the user is an active member of, personal first
+   */
+  async listForUser(userId: string): Promise<Workspace[]> {
+    const memberships = await this.memberships(userId);
+    return memberships
+      .map(toWorkspace)
+      .sort(
+        (a, b) =>
+          Number(b.isPersonal) - Number(a.isPersonal) ||
+          a.createdAt.localeCompare(b.createdAt),
+      );
+  }
+
+  /**
+   * The user's workspace `tenantId`; 404 when they are not a member
+   */
+  async get(userId: string, tenantId: string): Promise<Workspace> {
+    const membership = (await this.memberships(userId)).find(
+      (row) => row.tenant_id === tenantId,
+    );
+    if (!membership) {
+      throw new NotFoundException(`Workspace ${tenantId} not found`);
+    }
+    return toWorkspace(membership);
+  }
+
+  /**
+   * Pick the workspace a request acts in. An explicitly requested workspace
+   * must be one the user belongs to; a stale session choice falls back to
+   * the default (personal workspace, else the oldest membership).
+   */
+  async resolveActive(
+    user: { id: string; email?: string },
+    preferred: { requested?: string; sessionTenantId?: string | null },
+  ): Promise<ActiveTenant> {
+    let memberships = await this.memberships(user.id);
+
+    if (preferred.requested) {
+      const requested = memberships.find(
+        (row) => row.tenant_id === preferred.requested,
+      );
+      if (!requested) {
+        throw new ForbiddenException('Not a member of this workspace');
+      }
+      return { tenantId: requested.tenant_id, role: requested.role };
+    }
+
+    const fromSession = memberships.find(
+      (row) => row.tenant_id === preferred.sessionTenantId,
+    );
+    if (fromSession) {
+      return { tenantId: fromSession.tenant_id, role: fromSession.role };
+    }
+
+    if (!memberships.length) {
+      // Provisioning at login is best effort; finish it on first use
+      await this.ensurePersonalWorkspace(user.id, user.email);
+      memberships = await this.memberships(user.id);
+    }
+
+    const personalId = this.personalTenantId(user.id);
+    const fallback =
+      memberships.find((row) => row.tenant_id === personalId) ??
+      [...memberships].sort((a, b) =>
+        a.created_at.localeCompare(b.created_at),
+      )[0];
+
+    if (!fallback) {
+      throw new ForbiddenException('No workspace available');
+    }
+    return { tenantId: fallback.tenant_id, role: fallback.role };
+  }
+
+  /**
+   * Add the user to a workspace they were invited to. Existing members keep
+   * their role.
+   */
+  async join(
+    tenantId: string,
+    userId: string,
+    email: string,
+    role: TenantRole,
+  ): Promise<Workspace> {
+    const existing = (await this.memberships(userId)).find(
+      (row) => row.tenant_id === tenantId,
+    );
+    if (!existing) {
+      await this.addMember(tenantId, userId, role, email);
+      this.logger.info('Member joined workspace', { userId, tenantId, role });
+    }
+    return this.get(userId, tenantId);
+  }
+
+  /**
+   * Whether an active member of the workspace uses this email address
+   */
+  async hasMemberWithEmail(tenantId: string, email: string): Promise<boolean> {
+    const { count, error } = await this.supabase
+      .getClient()
+      .from('tenant_users')
+      .select('user_id', { count: 'exact', head: true })
+      .eq('tenant_id', tenantId)
+      .eq('email', email)
+      .eq('status', 'active');
+
+    if (error) {
+      throw new Error(`Failed to load workspace members: ${error.message}`);
+    }
+    return (count ?? 0) > 0;
+  }
+
+  private async addMember(
+    tenantId: string,
+    userId: string,
+    role: TenantRole,
+    email?: string,
+    displayName?: string,
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .getClient()
+      .from('tenant_users')
+      .upsert(
+        {
+          tenant_id: tenantId,
+          user_id: userId,
+          email: email || '',
+          display_name: displayName || email || 'User',
+          role,
+          status: 'active',
+        },
+        { onConflict: 'tenant_id,user_id' },
+      );
+
+    if (error) {
+      this.logger.error('Failed to upsert tenant user', {
+        userId,
+        tenantId,
+        error: error.message,
+      });
+      throw new Error(`Failed to initialize tenant user: ${error.message}`);
+    }
+  }
+
+  private async memberships(userId: string): Promise<MembershipRow[]> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('tenant_users')
+      .select(MEMBERSHIP_COLUMNS)
+      .eq('user_id', userId)
+      .eq('status', 'active');
+
+    if (error) {
+      throw new Error(`Failed to load workspaces: ${error.message}`);
+    }
+    return (data ?? []) as unknown as MembershipRow[];
+  }
+
+  private personalTenantId(userId: string): string {
+    return `tenant_${userId}`;
+  }
+}
+
+function toWorkspace(row: MembershipRow): Workspace {
+  return {
+    id: row.tenant_id,
+    name: row.tenant?.name ?? '',
+    plan: row.tenant?.plan ?? 'free',
+    role: row.role,
+    isPersonal: row.tenant?.is_personal ?? false,
+    createdAt: row.tenant?.created_at ?? row.created_at,
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Mirrors `tenant_users.role`. What each role may do is defined in
+ * `permissions.ts`.
+ */
+export type TenantRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  plan: string;
+  role: TenantRole;
+  isPersonal: boolean;
+  createdAt: string;
+}
+
+/** The workspace a request acts in, resolved by `AuthGuard`. */
+export interface ActiveTenant {
+  tenantId: string;
+  role: TenantRole;
+}
+
+/** Header selecting the active workspace for a single request. */
+export const TENANT_HEADER = 'x-tenant-id';
+
+/** Roles an invitation can grant; ownership is never handed out by invite. */
+export const INVITABLE_ROLES = ['admin', 'member', 'viewer'] as const;
+
+export type InvitableRole = (typeof INVITABLE_ROLES)[number];
+
+/**
+ * Mirrors `tenant_invitations.status`.
+ */
+export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+export interface Invitation {
+  id: string;
+  tenantId: string;
+  email: string;
+  role: InvitableRole;
+  status: InvitationStatus;
+  invitedBy: string;
+  expiresAt: string;
+  expired: boolean;
+  sendCount: number;
+  lastSentAt: string;
+  createdAt: string;
+}
@@ -0,0 +1,80 @@
+import type { IntroCandidate } from '../graph/intro-paths';
+import type { PersonRow } from '../identity/identity.service';
+import type { InteractionRow } from '../interactions/interactions.service';
+
+export const TEST_TENANT_ID = 'tenant-1';
+export const TEST_USER_ID = 'user-1';
+
+export function personRow(
+  id: string,
+  overrides: Partial<PersonRow> = {},
+): PersonRow {
+  return {
+    id,
+    tenant_id: TEST_TENANT_ID,
+    display_name: id,
+    primary_email: `${id}@example.com`,
+    company: null,
+    title: null,
+    linkedin_url: null,
+    contact_count: 1,
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+/** An interaction with `email` as its only other participant. */
+export function interactionRow(
+  id: string,
+  email: string,
+  overrides: Partial<InteractionRow> = {},
+): InteractionRow {
+  return {
+    id,
+    tenant_id: TEST_TENANT_ID,
+    user_id: TEST_USER_ID,
+    source: 'gmail',
+    source_record_id: id,
+    kind: 'email',
+    direction: 'outbound',
+    occurred_at: '2026-01-01T00:00:00.000Z',
+    subject: null,
+    thread_id: null,
+    metadata: {},
+    deleted_at: null,
+    interaction_participants: [
+      {
+        email,
+        display_name: null,
+        role: 'to',
+        response_status: null,
+        contact_id: null,
+      },
+    ],
+    ...overrides,
+  };
+}
+
+/** A path to `targetId` through `viaId`, who knows them with `score`. */
+export function introCandidate(
+  targetId: string,
+  viaId: string,
+  score: number,
+  overrides: Partial<IntroCandidate> = {},
+): IntroCandidate {
+  return {
+    target: {
+      id: targetId,
+      displayName: targetId,
+      primaryEmail: null,
+      company: null,
+      title: null,
+    },
+    via: { id: viaId, email: `${viaId}@example.com`, displayName: viaId },
+    score,
+    tier: null,
+    lastInteractionAt: null,
+    ...overrides,
+  };
+}
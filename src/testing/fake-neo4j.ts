@@ -0,0 +1,31 @@
+/**
+ * Neo4j for specs: answers reads with `rows` and keeps every query with
+ * its parameters.
+ */
+export class FakeNeo4j {
+  configured = true;
+  rows: unknown[] = [];
+  readonly reads: Record<string, unknown>[] = [];
+  readonly writes: { cypher: string; params: Record<string, unknown> }[] = [];
+
+  isConfigured(): boolean {
+    return this.configured;
+  }
+
+  read(_cypher: string, params: Record<string, unknown> = {}) {
+    this.reads.push(params);
+    return Promise.resolve(this.rows);
+  }
+
+  write(cypher: string, params: Record<string, unknown> = {}) {
+    this.writes.push({ cypher, params });
+    return Promise.resolve();
+  }
+
+  /** Parameters of the writes whose Cypher contains `fragment`. */
+  paramsOf(fragment: string): Record<string, unknown>[] {
+    return this.writes
+      .filter((write) => write.cypher.includes(fragment))
+      .map((write) => write.params);
+  }
+}
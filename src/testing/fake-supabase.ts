@@ -0,0 +1,303 @@
+type Row = Record<string, unknown>;
+type Filter = (row: Row) => boolean;
+
+interface QueryResult {
+  data: unknown;
+  error: { code: string; message: string } | null;
+  count: number | null;
+}
+
+type Write =
+  | { kind: 'insert'; rows: Row[] }
+  | { kind: 'upsert'; rows: Row[]; onConflict: string[] }
+  | { kind: 'update'; values: Row }
+  | { kind: 'delete' };
+
+const OPERATORS: Record<string, (value: unknown, operand: string) => boolean> =
+  {
+    eq: (value, operand) => String(value) === operand,
+    neq: (value, operand) => String(value) !== operand,
+    is: (value, operand) =>
+      operand === 'null' ? value == null : String(value) === operand,
+  };
+
+/**
+ * In-memory tables behind a PostgREST-shaped query builder, for specs of
+ * services that talk to Supabase. Filters, ordering and paging behave like
+ * PostgREST; column lists are ignored and whole rows come back.
+ *
+ * Provide it with `{ provide: SupabaseService, useValue: supabase.service() }`.
+ */
+export class FakeSupabase {
+  private readonly tables = new Map<string, Row[]>();
+  private readonly defaults = new Map<string, () => Row>();
+  private readonly conflicts = new Map<
+    string,
+    (row: Row, existing: Row) => boolean
+  >();
+  private nextId = 0;
+
+  service(): { getClient: () => FakeSupabase } {
+    return { getClient: () => this };
+  }
+
+  /** The live rows of `table`; specs may read and change them directly. */
+  rows(table: string): Row[] {
+    let rows = this.tables.get(table);
+    if (!rows) {
+      rows = [];
+      this.tables.set(table, rows);
+    }
+    return rows;
+  }
+
+  seed(table: string, rows: Row[]): this {
+    this.rows(table).push(...rows.map((row) => ({ ...row })));
+    return this;
+  }
+
+  /** Column defaults applied to inserted rows, like the table's DDL. */
+  withDefaults(table: string, defaults: () => Row): this {
+    this.defaults.set(table, defaults);
+    return this;
+  }
+
+  /** Reject inserts that clash with an existing row with `23505`. */
+  withUnique(table: string, clash: (row: Row, existing: Row) => boolean): this {
+    this.conflicts.set(table, clash);
+    return this;
+  }
+
+  from(table: string): FakeQuery {
+    return new FakeQuery(this, table);
+  }
+
+  /** Insert rows, or return the unique violation they cause. */
+  insert(table: string, rows: Row[]): Row[] | null {
+    const existing = this.rows(table);
+    const clash = this.conflicts.get(table);
+    const inserted = rows.map((row) => ({
+      id: `${table}-${++this.nextId}`,
+      ...this.defaults.get(table)?.(),
+      ...row,
+    }));
+    if (
+      clash &&
+      inserted.some((row) => existing.some((other) => clash(row, other)))
+    ) {
+      return null;
+    }
+    existing.push(...inserted);
+    return inserted;
+  }
+}
+
+class FakeQuery implements PromiseLike<QueryResult> {
+  private readonly filters: Filter[] = [];
+  private readonly sorts: { column: string; ascending: boolean }[] = [];
+  private write: Write | null = null;
+  private returning = false;
+  private from = 0;
+  private to = Number.POSITIVE_INFINITY;
+
+  constructor(
+    private readonly db: FakeSupabase,
+    private readonly table: string,
+  ) {}
+
+  select(): this {
+    this.returning = true;
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.write = { kind: 'insert', rows: [values].flat() };
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string } = {}): this {
+    this.write = {
+      kind: 'upsert',
+      rows: [values].flat(),
+      onConflict: (options.onConflict ?? 'id').split(','),
+    };
+    return this;
+  }
+
+  update(values: Row): this {
+    this.write = { kind: 'update', values };
+    return this;
+  }
+
+  delete(): this {
+    this.write = { kind: 'delete' };
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    return this.where((row) => row[column] === value);
+  }
+
+  neq(column: string, value: unknown): this {
+    return this.where((row) => row[column] !== value);
+  }
+
+  is(column: string, value: null | boolean): this {
+    return this.where((row) =>
+      value === null ? row[column] == null : row[column] === value,
+    );
+  }
+
+  in(column: string, values: unknown[]): this {
+    return this.where((row) => values.includes(row[column]));
+  }
+
+  gt(column: string, value: string | number): this {
+    return this.where((row) => compare(row[column], value) > 0);
+  }
+
+  gte(column: string, value: string | number): this {
+    return this.where((row) => compare(row[column], value) >= 0);
+  }
+
+  lt(column: string, value: string | number): this {
+    return this.where((row) => compare(row[column], value) < 0);
+  }
+
+  /** Flat `column.operator.value` lists only, e.g. `a.is.null,b.eq.1`. */
+  or(expression: string): this {
+    const conditions = expression.split(',').map((condition) => {
+      const [column, operator, ...operand] = condition.split('.');
+      const test = OPERATORS[operator];
+      if (!test)
+        throw new Error(`FakeSupabase: unsupported or() "${condition}"`);
+      return (row: Row) => test(row[column], operand.join('.'));
+    });
+    return this.where((row) => conditions.some((condition) => condition(row)));
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.sorts.push({ column, ascending: options.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.to = this.from + count - 1;
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.from = from;
+    this.to = to;
+    return this;
+  }
+
+  single(): Promise<QueryResult> {
+    const result = this.run();
+    const rows = (result.data ?? []) as Row[];
+    if (result.error) return Promise.resolve(result);
+    if (rows.length !== 1) {
+      return Promise.resolve({
+        data: null,
+        error: { code: 'PGRST116', message: `${rows.length} rows returned` },
+        count: null,
+      });
+    }
+    return Promise.resolve({ ...result, data: rows[0] });
+  }
+
+  maybeSingle(): Promise<QueryResult> {
+    const result = this.run();
+    const rows = (result.data ?? []) as Row[];
+    return Promise.resolve({ ...result, data: rows[0] ?? null });
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: (value: QueryResult) => TResult1 | PromiseLike<TResult1>,
+    onrejected?: (reason: unknown) => TResult2 | PromiseLike<TResult2>,
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve(this.run()).then(onfulfilled, onrejected);
+  }
+
+  private where(filter: Filter): this {
+    this.filters.push(filter);
+    return this;
+  }
+
+  private run(): QueryResult {
+    const rows = this.db.rows(this.table);
+    const write = this.write;
+
+    if (write?.kind === 'insert' || write?.kind === 'upsert') {
+      const fresh: Row[] = [];
+      const changed: Row[] = [];
+      for (const row of write.rows) {
+        const existing =
+          write.kind === 'upsert'
+            ? rows.find((other) =>
+                write.onConflict.every(
+                  (column) => other[column] === row[column],
+                ),
+              )
+            : undefined;
+        if (existing) {
+          changed.push(Object.assign(existing, row));
+        } else {
+          fresh.push(row);
+        }
+      }
+      const inserted = this.db.insert(this.table, fresh);
+      if (!inserted) {
+        return {
+          data: null,
+          error: { code: '23505', message: 'duplicate key value' },
+          count: null,
+        };
+      }
+      return this.result([...changed, ...inserted]);
+    }
+
+    const matched = rows.filter((row) =>
+      this.filters.every((filter) => filter(row)),
+    );
+    if (write?.kind === 'update') {
+      for (const row of matched) Object.assign(row, write.values);
+      return this.result(matched);
+    }
+    if (write?.kind === 'delete') {
+      const remaining = rows.filter((row) => !matched.includes(row));
+      rows.splice(0, rows.length, ...remaining);
+      return this.result(matched);
+    }
+
+    const sorted = [...matched].sort((a, b) => {
+      for (const { column, ascending } of this.sorts) {
+        const order = compare(a[column], b[column]);
+        if (order) return ascending ? order : -order;
+      }
+      return 0;
+    });
+    return {
+      data: sorted.slice(this.from, this.to + 1).map((row) => ({ ...row })),
+      error: null,
+      count: matched.length,
+    };
+  }
+
+  private result(rows: Row[]): QueryResult {
+    return {
+      data: this.returning ? rows.map((row) => ({ ...row })) : null,
+      error: null,
+      count: rows.length,
+    };
+  }
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a == null || b == null) return a == null ? (b == null ? 0 : 1) : -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  // Rows hold scalars: ids, timestamps and the like
+  const left = String(a as string | number | boolean);
+  const right = String(b as string | number | boolean);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
@@ -0,0 +1,88 @@
+import { getNodeAutoInstrumentations } from '@opentelemetry/auto-instrumentations-node';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-proto';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { NodeSDK, tracing } from '@opentelemetry/sdk-node';
+import {
+  ATTR_SERVICE_NAME,
+  ATTR_SERVICE_VERSION,
+} from '@opentelemetry/semantic-conventions';
+
+/**
+ * OpenTelemetry bootstrap. `main.ts` imports this before anything else so
+ * the auto-instrumentations can patch `http`, Fastify, Nest and `fetch`
+ * before those modules load.
+ *
+ * Spans are exported over OTLP/HTTP (protobuf) to
+ * `OTEL_EXPORTER_OTLP_ENDPOINT` (or `OTEL_EXPORTER_OTLP_TRACES_ENDPOINT`).
+ * Without an endpoint nothing is exported, but spans are still created so
+ * log lines carry trace ids. `OTEL_SDK_DISABLED=true` turns tracing off.
+ */
+
+// ConfigModule loads `.env` too late for this file
+try {
+  process.loadEnvFile();
+} catch {
+  // No `.env` file; use the environment as is
+}
+
+function startTracing(): NodeSDK | null {
+  if (process.env.OTEL_SDK_DISABLED === 'true') return null;
+
+  const exporting = !!(
+    process.env.OTEL_EXPORTER_OTLP_ENDPOINT ||
+    process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT
+  );
+
+  const supabaseOrigin = originOf(process.env.SUPABASE_URL);
+
+  const sdk = new NodeSDK({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: process.env.OTEL_SERVICE_NAME || 'kue-platform',
+      [ATTR_SERVICE_VERSION]: process.env.npm_package_version || '0.1.0',
+    }),
+    spanProcessors: exporting
+      ? [new tracing.BatchSpanProcessor(new OTLPTraceExporter())]
+      : [],
+    instrumentations: [
+      getNodeAutoInstrumentations({
+        // One span per file read drowns out everything else
+        '@opentelemetry/instrumentation-fs': { enabled: false },
+        // Liveness and readiness probes would dominate the trace volume
+        '@opentelemetry/instrumentation-http': {
+          ignoreIncomingRequestHook: (request) =>
+            !!request.url?.startsWith('/health/'),
+        },
+        // `SupabaseService` traces its own calls with table-level names
+        '@opentelemetry/instrumentation-undici': {
+          ignoreRequestHook: (request) => request.origin === supabaseOrigin,
+        },
+      }),
+    ],
+  });
+
+  sdk.start();
+
+  // Flush pending spans, then let the signal terminate the process as usual
+  for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+    process.once(signal, () => {
+      sdk
+        .shutdown()
+        .catch((error: unknown) => {
+          console.error('Failed to flush traces on shutdown', error);
+        })
+        .finally(() => process.kill(process.pid, signal));
+    });
+  }
+
+  return sdk;
+}
+
+function originOf(url: string | undefined): string | null {
+  try {
+    return url ? new URL(url).origin : null;
+  } catch {
+    return null;
+  }
+}
+
+export const otelSdk = startTracing();
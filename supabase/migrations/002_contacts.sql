@@ -0,0 +1,59 @@
+-- Kue Platform Contacts Store
+
+-- ============================================================
+-- 1. CONTACTS (normalized person records per source)
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.contacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  source public.source_connection_source NOT NULL,
+  source_connection_id UUID REFERENCES public.source_connections(id) ON DELETE SET NULL,
+  source_record_id TEXT NOT NULL,
+  display_name TEXT,
+  given_name TEXT,
+  family_name TEXT,
+  primary_email TEXT,
+  emails JSONB NOT NULL DEFAULT '[]'::jsonb,
+  phones JSONB NOT NULL DEFAULT '[]'::jsonb,
+  organizations JSONB NOT NULL DEFAULT '[]'::jsonb,
+  photos JSONB NOT NULL DEFAULT '[]'::jsonb,
+  source_metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  last_synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT fk_contacts_tenant_user
+    FOREIGN KEY (tenant_id, user_id)
+    REFERENCES public.tenant_users(tenant_id, user_id)
+    ON DELETE CASCADE,
+  CONSTRAINT uq_contacts_source_record
+    UNIQUE (tenant_id, user_id, source, source_record_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contacts_tenant_user
+  ON public.contacts(tenant_id, user_id);
+
+CREATE INDEX IF NOT EXISTS idx_contacts_primary_email
+  ON public.contacts(tenant_id, primary_email);
+
+CREATE INDEX IF NOT EXISTS idx_contacts_source_connection
+  ON public.contacts(source_connection_id);
+
+-- ============================================================
+-- 2. UPDATED_AT TRIGGER
+-- ============================================================
+DROP TRIGGER IF EXISTS contacts_updated_at ON public.contacts;
+CREATE TRIGGER contacts_updated_at
+  BEFORE UPDATE ON public.contacts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- ============================================================
+-- 3. RLS POLICIES
+-- ============================================================
+ALTER TABLE public.contacts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS contacts_all ON public.contacts;
+CREATE POLICY contacts_all ON public.contacts
+  FOR ALL USING (user_id = auth.uid()::text)
+  WITH CHECK (user_id = auth.uid()::text);
@@ -0,0 +1,98 @@
+-- Kue Platform Interactions (emails and meetings)
+
+-- ============================================================
+-- 0. ENUM TYPES
+-- ============================================================
+DO $$ BEGIN
+  CREATE TYPE public.interaction_kind AS ENUM (
+    'email',
+    'meeting'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE public.interaction_direction AS ENUM (
+    'inbound',
+    'outbound'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- ============================================================
+-- 1. INTERACTIONS
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.interactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  source public.source_connection_source NOT NULL,
+  source_record_id TEXT NOT NULL,
+  kind public.interaction_kind NOT NULL,
+  direction public.interaction_direction,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  subject TEXT,
+  thread_id TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  last_synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT fk_interactions_tenant_user
+    FOREIGN KEY (tenant_id, user_id)
+    REFERENCES public.tenant_users(tenant_id, user_id)
+    ON DELETE CASCADE,
+  CONSTRAINT uq_interactions_source_record
+    UNIQUE (tenant_id, user_id, source, source_record_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_interactions_tenant_user_occurred
+  ON public.interactions(tenant_id, user_id, occurred_at DESC);
+
+-- ============================================================
+-- 2. INTERACTION PARTICIPANTS (counterparties, never the owner)
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.interaction_participants (
+  interaction_id UUID NOT NULL REFERENCES public.interactions(id) ON DELETE CASCADE,
+  tenant_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  email TEXT NOT NULL,
+  display_name TEXT,
+  role TEXT NOT NULL,
+  response_status TEXT,
+  contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (interaction_id, email, role)
+);
+
+CREATE INDEX IF NOT EXISTS idx_interaction_participants_email
+  ON public.interaction_participants(tenant_id, email);
+
+CREATE INDEX IF NOT EXISTS idx_interaction_participants_contact
+  ON public.interaction_participants(contact_id);
+
+-- ============================================================
+-- 3. UPDATED_AT TRIGGER
+-- ============================================================
+DROP TRIGGER IF EXISTS interactions_updated_at ON public.interactions;
+CREATE TRIGGER interactions_updated_at
+  BEFORE UPDATE ON public.interactions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- ============================================================
+-- 4. RLS POLICIES
+-- ============================================================
+ALTER TABLE public.interactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.interaction_participants ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS interactions_all ON public.interactions;
+CREATE POLICY interactions_all ON public.interactions
+  FOR ALL USING (user_id = auth.uid()::text)
+  WITH CHECK (user_id = auth.uid()::text);
+
+DROP POLICY IF EXISTS interaction_participants_all ON public.interaction_participants;
+CREATE POLICY interaction_participants_all ON public.interaction_participants
+  FOR ALL USING (user_id = auth.uid()::text)
+  WITH CHECK (user_id = auth.uid()::text);
@@ -0,0 +1,46 @@
+-- Kue Platform CSV Imports
+
+-- ============================================================
+-- 1. CSV IMPORTS (one row per committed upload)
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.csv_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  source_connection_id UUID NOT NULL REFERENCES public.source_connections(id) ON DELETE CASCADE,
+  file_name TEXT,
+  content TEXT NOT NULL,
+  has_header BOOLEAN NOT NULL DEFAULT TRUE,
+  mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'completed',
+  row_count INTEGER NOT NULL DEFAULT 0,
+  imported_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT fk_csv_imports_tenant_user
+    FOREIGN KEY (tenant_id, user_id)
+    REFERENCES public.tenant_users(tenant_id, user_id)
+    ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_csv_imports_tenant_user
+  ON public.csv_imports(tenant_id, user_id, created_at DESC);
+
+-- ============================================================
+-- 2. UPDATED_AT TRIGGER
+-- ============================================================
+DROP TRIGGER IF EXISTS csv_imports_updated_at ON public.csv_imports;
+CREATE TRIGGER csv_imports_updated_at
+  BEFORE UPDATE ON public.csv_imports
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- ============================================================
+-- 3. RLS POLICIES
+-- ============================================================
+ALTER TABLE public.csv_imports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS csv_imports_all ON public.csv_imports;
+CREATE POLICY csv_imports_all ON public.csv_imports
+  FOR ALL USING (user_id = auth.uid()::text)
+  WITH CHECK (user_id = auth.uid()::text);
@@ -0,0 +1,7 @@
+-- Kue Platform LinkedIn profile URLs on contacts
+
+ALTER TABLE public.contacts
+  ADD COLUMN IF NOT EXISTS linkedin_url TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_linkedin_url
+  ON public.contacts(tenant_id, linkedin_url);
@@ -0,0 +1,143 @@
+-- Kue Platform Identity Resolution (persons clustered from source contacts)
+
+-- ============================================================
+-- 0. ENUM TYPES
+-- ============================================================
+DO $$ BEGIN
+  CREATE TYPE public.identity_match_method AS ENUM (
+    'email',
+    'linkedin',
+    'phone',
+    'name_company',
+    'manual',
+    'singleton'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE public.identity_decision_action AS ENUM (
+    'merge',
+    'unmerge'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- ============================================================
+-- 1. PERSONS (one row per real human in a tenant)
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.persons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id TEXT NOT NULL REFERENCES public.tenants(tenant_id) ON DELETE CASCADE,
+  display_name TEXT,
+  primary_email TEXT,
+  company TEXT,
+  title TEXT,
+  linkedin_url TEXT,
+  contact_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_persons_tenant
+  ON public.persons(tenant_id);
+
+CREATE INDEX IF NOT EXISTS idx_persons_primary_email
+  ON public.persons(tenant_id, primary_email);
+
+-- ============================================================
+-- 2. PERSON CONTACTS (which source records make up a person)
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.person_contacts (
+  contact_id UUID PRIMARY KEY REFERENCES public.contacts(id) ON DELETE CASCADE,
+  person_id UUID NOT NULL REFERENCES public.persons(id) ON DELETE CASCADE,
+  tenant_id TEXT NOT NULL,
+  match_method public.identity_match_method NOT NULL,
+  confidence NUMERIC(4, 3) NOT NULL,
+  -- Set by manual merge/unmerge; automatic resolution never moves it.
+  locked BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_person_contacts_person
+  ON public.person_contacts(person_id);
+
+CREATE INDEX IF NOT EXISTS idx_person_contacts_tenant
+  ON public.person_contacts(tenant_id);
+
+-- ============================================================
+-- 3. IDENTITY DECISIONS (history of manual merges and unmerges)
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.identity_decisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id TEXT NOT NULL REFERENCES public.tenants(tenant_id) ON DELETE CASCADE,
+  actor_user_id TEXT NOT NULL,
+  action public.identity_decision_action NOT NULL,
+  person_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  contact_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  result_person_id UUID,
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_identity_decisions_tenant_created
+  ON public.identity_decisions(tenant_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_identity_decisions_person_ids
+  ON public.identity_decisions USING GIN (person_ids);
+
+-- ============================================================
+-- 4. UPDATED_AT TRIGGERS
+-- ============================================================
+DROP TRIGGER IF EXISTS persons_updated_at ON public.persons;
+CREATE TRIGGER persons_updated_at
+  BEFORE UPDATE ON public.persons
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+DROP TRIGGER IF EXISTS person_contacts_updated_at ON public.person_contacts;
+CREATE TRIGGER person_contacts_updated_at
+  BEFORE UPDATE ON public.person_contacts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- ============================================================
+-- 5. RLS POLICIES (persons are shared across a tenant)
+-- ============================================================
+ALTER TABLE public.persons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.person_contacts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.identity_decisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS persons_select ON public.persons;
+CREATE POLICY persons_select ON public.persons
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1
+      FROM public.tenant_users tu
+      WHERE tu.tenant_id = persons.tenant_id
+        AND tu.user_id = auth.uid()::text
+    )
+  );
+
+DROP POLICY IF EXISTS person_contacts_select ON public.person_contacts;
+CREATE POLICY person_contacts_select ON public.person_contacts
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1
+      FROM public.tenant_users tu
+      WHERE tu.tenant_id = person_contacts.tenant_id
+        AND tu.user_id = auth.uid()::text
+    )
+  );
+
+DROP POLICY IF EXISTS identity_decisions_select ON public.identity_decisions;
+CREATE POLICY identity_decisions_select ON public.identity_decisions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1
+      FROM public.tenant_users tu
+      WHERE tu.tenant_id = identity_decisions.tenant_id
+        AND tu.user_id = auth.uid()::text
+    )
+  );
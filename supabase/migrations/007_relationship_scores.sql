@@ -0,0 +1,46 @@
+-- Kue Platform Relationship Strength Scores
+
+-- ============================================================
+-- 1. RELATIONSHIP SCORES (one row per user and person)
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.relationship_scores (
+  tenant_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  person_id UUID NOT NULL REFERENCES public.persons(id) ON DELETE CASCADE,
+  score NUMERIC(5, 2) NOT NULL,
+  tier TEXT NOT NULL,
+  breakdown JSONB NOT NULL DEFAULT '{}'::jsonb,
+  last_interaction_at TIMESTAMPTZ,
+  computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (tenant_id, user_id, person_id),
+  CONSTRAINT fk_relationship_scores_tenant_user
+    FOREIGN KEY (tenant_id, user_id)
+    REFERENCES public.tenant_users(tenant_id, user_id)
+    ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_relationship_scores_user_score
+  ON public.relationship_scores(tenant_id, user_id, score DESC);
+
+CREATE INDEX IF NOT EXISTS idx_relationship_scores_person
+  ON public.relationship_scores(person_id);
+
+-- ============================================================
+-- 2. UPDATED_AT TRIGGER
+-- ============================================================
+DROP TRIGGER IF EXISTS relationship_scores_updated_at ON public.relationship_scores;
+CREATE TRIGGER relationship_scores_updated_at
+  BEFORE UPDATE ON public.relationship_scores
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- ============================================================
+-- 3. RLS POLICIES
+-- ============================================================
+ALTER TABLE public.relationship_scores ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS relationship_scores_all ON public.relationship_scores;
+CREATE POLICY relationship_scores_all ON public.relationship_scores
+  FOR ALL USING (user_id = auth.uid()::text)
+  WITH CHECK (user_id = auth.uid()::text);
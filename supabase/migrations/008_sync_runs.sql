@@ -0,0 +1,76 @@
+-- Kue Platform Sync Run History
+
+-- ============================================================
+-- 0. ENUM TYPES
+-- ============================================================
+DO $$ BEGIN
+  CREATE TYPE public.sync_run_status AS ENUM (
+    'running',
+    'succeeded',
+    'failed'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE public.sync_run_trigger AS ENUM (
+    'manual',
+    'backfill',
+    'scheduled',
+    'resync'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- ============================================================
+-- 1. SYNC RUNS (one row per connector run)
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.sync_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  source public.source_connection_source NOT NULL,
+  source_connection_id UUID REFERENCES public.source_connections(id) ON DELETE SET NULL,
+  trigger public.sync_run_trigger NOT NULL,
+  status public.sync_run_status NOT NULL DEFAULT 'running',
+  full_sync BOOLEAN,
+  added_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  deleted_count INTEGER NOT NULL DEFAULT 0,
+  error_class TEXT,
+  error_message TEXT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT fk_sync_runs_tenant_user
+    FOREIGN KEY (tenant_id, user_id)
+    REFERENCES public.tenant_users(tenant_id, user_id)
+    ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_user_started
+  ON public.sync_runs(tenant_id, user_id, started_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_user_source_started
+  ON public.sync_runs(tenant_id, user_id, source, started_at DESC);
+
+-- ============================================================
+-- 2. UPDATED_AT TRIGGER
+-- ============================================================
+DROP TRIGGER IF EXISTS sync_runs_updated_at ON public.sync_runs;
+CREATE TRIGGER sync_runs_updated_at
+  BEFORE UPDATE ON public.sync_runs
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- ============================================================
+-- 3. RLS POLICIES
+-- ============================================================
+ALTER TABLE public.sync_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS sync_runs_all ON public.sync_runs;
+CREATE POLICY sync_runs_all ON public.sync_runs
+  FOR ALL USING (user_id = auth.uid()::text)
+  WITH CHECK (user_id = auth.uid()::text);
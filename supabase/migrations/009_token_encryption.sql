@@ -0,0 +1,13 @@
+-- Kue Platform OAuth Token Encryption
+
+-- ============================================================
+-- 1. SOURCE CONNECTIONS: master key version of the sealed tokens
+-- ============================================================
+-- token_json keeps expiry, scopes and profile readable; access and refresh
+-- tokens move into an AES-256-GCM envelope under token_json.secret. NULL
+-- means the row predates encryption (or holds no tokens).
+ALTER TABLE public.source_connections
+  ADD COLUMN IF NOT EXISTS token_key_version TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_source_connections_token_key_version
+  ON public.source_connections(token_key_version);
@@ -0,0 +1,19 @@
+-- Kue Platform Source Connection Health
+
+-- ============================================================
+-- 1. SOURCE CONNECTIONS: why and when the status last changed
+-- ============================================================
+-- status_reason is the failure class that moved a connection out of
+-- 'active' (invalid_grant -> revoked, missing_scopes -> error).
+ALTER TABLE public.source_connections
+  ADD COLUMN IF NOT EXISTS status_reason TEXT,
+  ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ;
+
+UPDATE public.source_connections
+SET status_changed_at = updated_at
+WHERE status_changed_at IS NULL;
+
+-- Proactive token refresh looks up active connections by token expiry.
+CREATE INDEX IF NOT EXISTS idx_source_connections_token_expires_at
+  ON public.source_connections((token_json->>'expires_at'))
+  WHERE status = 'active';
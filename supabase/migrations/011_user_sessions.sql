@@ -0,0 +1,31 @@
+-- Kue Platform Server-Side Sessions
+
+-- ============================================================
+-- 1. USER SESSIONS (one row per issued session cookie)
+-- ============================================================
+-- The row id is the `sid` claim of the session JWT. A session is valid
+-- while it is neither revoked nor expired.
+CREATE TABLE IF NOT EXISTS public.user_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  user_agent TEXT,
+  ip_address TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  revoked_reason TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_active
+  ON public.user_sessions(user_id, created_at DESC)
+  WHERE revoked_at IS NULL;
+
+-- ============================================================
+-- 2. RLS POLICIES
+-- ============================================================
+ALTER TABLE public.user_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS user_sessions_select ON public.user_sessions;
+CREATE POLICY user_sessions_select ON public.user_sessions
+  FOR SELECT USING (user_id = auth.uid()::text);
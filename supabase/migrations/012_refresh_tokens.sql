@@ -0,0 +1,36 @@
+-- Kue Platform Token Sessions (refresh token rotation)
+
+-- ============================================================
+-- 1. SESSION KIND
+-- ============================================================
+-- `cookie` sessions are browser cookies; `token` sessions hand out an
+-- access token plus a rotating refresh token (mobile app).
+ALTER TABLE public.user_sessions
+  ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'cookie';
+
+-- ============================================================
+-- 2. REFRESH TOKENS (one row per issued token, grouped by session)
+-- ============================================================
+-- All tokens rotated out of one login share a `session_id` (the token
+-- family). Only the sha256 of a token is stored. A token is usable once:
+-- presenting a token whose `used_at` is set revokes the whole family.
+CREATE TABLE IF NOT EXISTS public.refresh_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES public.user_sessions(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  parent_id UUID REFERENCES public.refresh_tokens(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_session
+  ON public.refresh_tokens(session_id);
+
+-- ============================================================
+-- 3. RLS POLICIES
+-- ============================================================
+-- No policies: refresh tokens are only read by the backend's service role.
+ALTER TABLE public.refresh_tokens ENABLE ROW LEVEL SECURITY;
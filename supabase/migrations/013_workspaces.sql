@@ -0,0 +1,29 @@
+-- Kue Platform Workspaces (multi-tenant memberships)
+
+-- ============================================================
+-- 1. TENANTS
+-- ============================================================
+-- Every user keeps a personal workspace (`tenant_<user id>`); team
+-- workspaces are created explicitly and can have many members.
+ALTER TABLE public.tenants
+  ADD COLUMN IF NOT EXISTS is_personal BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS created_by TEXT;
+
+UPDATE public.tenants t
+SET is_personal = true,
+    created_by = tu.user_id
+FROM public.tenant_users tu
+WHERE tu.tenant_id = t.tenant_id
+  AND t.tenant_id = 'tenant_' || tu.user_id;
+
+-- ============================================================
+-- 2. ACTIVE WORKSPACE PER SESSION
+-- ============================================================
+-- Set by `POST /tenants/:id/switch`; requests without an `X-Tenant-Id`
+-- header use it.
+ALTER TABLE public.user_sessions
+  ADD COLUMN IF NOT EXISTS tenant_id TEXT
+    REFERENCES public.tenants(tenant_id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tenant_users_user_status
+  ON public.tenant_users(user_id, status);
@@ -0,0 +1,27 @@
+-- Kue Platform Workspace Roles
+
+-- ============================================================
+-- 1. ROLES
+-- ============================================================
+-- owner > admin > member > viewer; the permissions each role grants are
+-- defined in the API (`src/tenants/permissions.ts`).
+ALTER TABLE public.tenant_users
+  DROP CONSTRAINT IF EXISTS tenant_users_role_check;
+
+UPDATE public.tenant_users
+SET role = 'member'
+WHERE role NOT IN ('owner', 'admin', 'member', 'viewer');
+
+ALTER TABLE public.tenant_users
+  ADD CONSTRAINT tenant_users_role_check
+    CHECK (role IN ('owner', 'admin', 'member', 'viewer'));
+
+-- ============================================================
+-- 2. OWNERS
+-- ============================================================
+-- Workspace creators were recorded as `admin`; they own their workspace.
+UPDATE public.tenant_users tu
+SET role = 'owner'
+FROM public.tenants t
+WHERE t.tenant_id = tu.tenant_id
+  AND t.created_by = tu.user_id;
@@ -0,0 +1,39 @@
+-- Kue Platform Workspace Invitations
+
+-- ============================================================
+-- 1. TENANT INVITATIONS
+-- ============================================================
+-- The emailed link carries a signed token naming the invitation and its
+-- `token_nonce`. Resending rotates the nonce, so only the latest link works.
+CREATE TABLE IF NOT EXISTS public.tenant_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id TEXT NOT NULL REFERENCES public.tenants(tenant_id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('admin', 'member', 'viewer')),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'declined', 'revoked')),
+  token_nonce TEXT NOT NULL,
+  invited_by TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  send_count INTEGER NOT NULL DEFAULT 1,
+  last_sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  responded_by TEXT,
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- At most one open invitation per address and workspace
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tenant_invitations_pending
+  ON public.tenant_invitations(tenant_id, email)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_tenant_invitations_tenant_created
+  ON public.tenant_invitations(tenant_id, created_at DESC);
+
+-- ============================================================
+-- 2. RLS POLICIES
+-- ============================================================
+ALTER TABLE public.tenant_invitations ENABLE ROW LEVEL SECURITY;
+
+-- No policies: invitations are only read by the backend's service role.
@@ -0,0 +1,33 @@
+-- Kue Platform API Keys
+
+-- ============================================================
+-- 1. API KEYS (programmatic access for one user in one workspace)
+-- ============================================================
+-- Only the sha256 of a key is stored; `prefix` is its first characters,
+-- kept so users can tell their keys apart. `scopes` are permission names
+-- from the API's permission matrix.
+CREATE TABLE IF NOT EXISTS public.api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  user_email TEXT NOT NULL,
+  tenant_id TEXT NOT NULL REFERENCES public.tenants(tenant_id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+  expires_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_tenant_active
+  ON public.api_keys(user_id, tenant_id, created_at DESC)
+  WHERE revoked_at IS NULL;
+
+-- ============================================================
+-- 2. RLS POLICIES
+-- ============================================================
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+
+-- No policies: keys are only read by the backend's service role.
@@ -0,0 +1,59 @@
+-- Kue Platform Audit Log
+
+-- ============================================================
+-- 1. AUDIT EVENTS (security-relevant authentication and connection events)
+-- ============================================================
+-- `tenant_id` is set for events that happen in a workspace, such as
+-- connecting Google. Account events (OTP, sign-in, logout) have none and
+-- are matched to workspaces through `actor_email`. No foreign keys, so
+-- the trail outlives the users and workspaces it mentions.
+CREATE TABLE IF NOT EXISTS public.audit_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id TEXT,
+  actor_id TEXT,
+  actor_email TEXT,
+  action TEXT NOT NULL,
+  outcome TEXT NOT NULL CHECK (outcome IN ('success', 'failure')),
+  ip_address TEXT,
+  user_agent TEXT,
+  request_id TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_tenant_created
+  ON public.audit_events(tenant_id, created_at DESC)
+  WHERE tenant_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_account_created
+  ON public.audit_events(actor_email, created_at DESC)
+  WHERE tenant_id IS NULL;
+
+-- ============================================================
+-- 2. APPEND-ONLY TRIGGER
+-- ============================================================
+-- Rows can be inserted but never changed or removed, not even by the
+-- service role.
+CREATE OR REPLACE FUNCTION public.prevent_audit_event_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_events_append_only ON public.audit_events;
+CREATE TRIGGER audit_events_append_only
+  BEFORE UPDATE OR DELETE ON public.audit_events
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_event_changes();
+
+DROP TRIGGER IF EXISTS audit_events_no_truncate ON public.audit_events;
+CREATE TRIGGER audit_events_no_truncate
+  BEFORE TRUNCATE ON public.audit_events
+  FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_audit_event_changes();
+
+-- ============================================================
+-- 3. RLS POLICIES
+-- ============================================================
+ALTER TABLE public.audit_events ENABLE ROW LEVEL SECURITY;
+
+-- No policies: events are only read by the backend's service role.
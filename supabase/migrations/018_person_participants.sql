@@ -0,0 +1,48 @@
+-- Kue Platform Identity Resolution for interaction participants
+
+-- ============================================================
+-- 1. PERSON PARTICIPANTS (email addresses seen on interactions)
+-- ============================================================
+-- People the tenant emailed or met with are resolved into persons like
+-- contacts are, matched to them by email. One row per address, whether
+-- or not a contact also has it.
+CREATE TABLE IF NOT EXISTS public.person_participants (
+  tenant_id TEXT NOT NULL REFERENCES public.tenants(tenant_id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  person_id UUID NOT NULL REFERENCES public.persons(id) ON DELETE CASCADE,
+  display_name TEXT,
+  match_method public.identity_match_method NOT NULL,
+  confidence NUMERIC(4, 3) NOT NULL,
+  -- Set by manual merge/unmerge; automatic resolution never moves it.
+  locked BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (tenant_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_person_participants_person
+  ON public.person_participants(person_id);
+
+-- ============================================================
+-- 2. UPDATED_AT TRIGGER
+-- ============================================================
+DROP TRIGGER IF EXISTS person_participants_updated_at ON public.person_participants;
+CREATE TRIGGER person_participants_updated_at
+  BEFORE UPDATE ON public.person_participants
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- ============================================================
+-- 3. RLS POLICIES (shared across a tenant, like persons)
+-- ============================================================
+ALTER TABLE public.person_participants ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS person_participants_select ON public.person_participants;
+CREATE POLICY person_participants_select ON public.person_participants
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1
+      FROM public.tenant_users tu
+      WHERE tu.tenant_id = person_participants.tenant_id
+        AND tu.user_id = auth.uid()::text
+    )
+  );
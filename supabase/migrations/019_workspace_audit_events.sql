@@ -0,0 +1,41 @@
+-- Kue Platform Workspace Audit Trail
+
+-- ============================================================
+-- 1. ACCOUNT EVENT LOOKUP
+-- ============================================================
+-- Account events of a member are found by user id or by email, from the
+-- day they joined.
+CREATE INDEX IF NOT EXISTS idx_audit_events_account_actor_created
+  ON public.audit_events(actor_id, created_at DESC)
+  WHERE tenant_id IS NULL;
+
+-- ============================================================
+-- 2. WORKSPACE AUDIT EVENTS
+-- ============================================================
+-- The events a workspace's admins can see: the workspace's own, plus the
+-- account events (OTP, sign-in, logout) of its active members since they
+-- joined. The API filters, orders and pages the result like a table.
+CREATE OR REPLACE FUNCTION public.workspace_audit_events(p_tenant_id TEXT)
+RETURNS SETOF public.audit_events AS $$
+  SELECT e.*
+  FROM public.audit_events e
+  WHERE e.tenant_id = p_tenant_id
+  UNION ALL
+  SELECT e.*
+  FROM public.audit_events e
+  WHERE e.tenant_id IS NULL
+    AND EXISTS (
+      SELECT 1
+      FROM public.tenant_users tu
+      WHERE tu.tenant_id = p_tenant_id
+        AND tu.status = 'active'
+        AND e.created_at >= tu.created_at
+        AND (e.actor_id = tu.user_id OR e.actor_email = lower(tu.email))
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Only the backend's service role reads the trail.
+REVOKE EXECUTE ON FUNCTION public.workspace_audit_events(TEXT)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.workspace_audit_events(TEXT)
+  TO service_role;